@@ -0,0 +1,449 @@
+import { NextFunction, Request, Response } from 'express';
+import { appointment_status } from '@prisma/client';
+import {
+    AppointmentConflictError,
+    BadParamIdError,
+    BadRequestError,
+    EntityNotFoundError,
+    InternalServerError,
+    MissingBodyError,
+    PlanClosedError,
+    RequestError,
+    UnauthorizedDataAccessError,
+} from '../errors/RequestErrorCollection';
+import * as AppointmentDAO from '../daos/appointmentDAO';
+import * as StaffDAO from '../daos/staffDAO';
+import * as TreatmentPlanDAO from '../daos/treatmentPlanDAO';
+import { validatePatientExists } from '../daos/medicalHistoryDAO';
+import AppointmentService, { CalendarView, SpawnRecordType } from '../services/AppointmentService';
+import PatientAccessService from '../services/PatientAccessService';
+import PermissionService from '../services/PermissionService';
+import TreatmentPlanStatusService from '../services/TreatmentPlanStatusService';
+import hidash from '../utils/hidash';
+
+interface ScheduleInput {
+    patient_id: number;
+    staff_id: number;
+    treatment_plan_id?: number | null;
+    room?: string | null;
+    start_at: Date;
+    end_at: Date;
+}
+
+// Validasi bersama untuk create & reschedule: waktu, staff, plan dan jam kerja. Bentrok jadwal
+// dicek DAO di dalam transaksi yang sama dengan penyimpanan (createIfFree / updateIfFree).
+async function validateSchedule(input: ScheduleInput): Promise<RequestError | null> {
+    if (isNaN(input.start_at.getTime()) || isNaN(input.end_at.getTime())) {
+        return new BadRequestError('start_at and end_at must be valid dates');
+    }
+    if (input.end_at <= input.start_at) {
+        return new BadRequestError('end_at must be after start_at');
+    }
+
+    const staff = await StaffDAO.getById(input.staff_id);
+    if (!staff || staff.active === false) {
+        return new BadRequestError('Staff not found or inactive');
+    }
+
+    if (input.treatment_plan_id) {
+        const plan = await TreatmentPlanDAO.getById(input.treatment_plan_id);
+        if (!plan || plan.patient_id !== input.patient_id) {
+            return new BadRequestError('Treatment plan not found for this patient');
+        }
+    }
+
+    if (!(await AppointmentService.isWithinWorkingHours(input.staff_id, input.start_at, input.end_at))) {
+        return new BadRequestError('Appointment is outside the staff working hours', 'OUTSIDE_WORKING_HOURS');
+    }
+
+    return null;
+}
+
+export async function createAppointment(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const body = req.body;
+        if (!body) {
+            next(new MissingBodyError());
+            return;
+        }
+
+        const isMissingProperty = hidash.checkPropertyV2(body, 'Appointment', AppointmentDAO.getRequired());
+        if (isMissingProperty.message) {
+            next(isMissingProperty);
+            return;
+        }
+
+        const patientId = parseInt(body.patient_id);
+        if (!(await validatePatientExists(patientId))) {
+            next(new BadRequestError('Patient not found'));
+            return;
+        }
+
+        if (!(await PatientAccessService.canAccessPatient(req, patientId))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        const scheduleError = await validateSchedule({
+            patient_id: patientId,
+            staff_id: parseInt(body.staff_id),
+            treatment_plan_id: body.treatment_plan_id ? parseInt(body.treatment_plan_id) : null,
+            room: body.room || null,
+            start_at: new Date(body.start_at),
+            end_at: new Date(body.end_at)
+        });
+        if (scheduleError) {
+            next(scheduleError);
+            return;
+        }
+
+        body.created_by = req.decoded.user.id;
+        const { conflicts, result } = await AppointmentDAO.createIfFree(AppointmentDAO.formatCreate(body));
+        if (conflicts.length > 0) {
+            next(new AppointmentConflictError(conflicts));
+            return;
+        }
+        res.send({
+            http_code: 200,
+            data: result,
+            message: 'Appointment created successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function getAllAppointments(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const {
+            patient_id,
+            staff_id,
+            treatment_plan_id,
+            room,
+            status,
+            dateFrom,
+            dateTo,
+            limit,
+            offset
+        } = req.query;
+
+        const options: AppointmentDAO.GetAllOptions = {};
+
+        if (patient_id) options.patient_id = parseInt(patient_id as string);
+        if (staff_id) options.staff_id = parseInt(staff_id as string);
+        if (treatment_plan_id) options.treatment_plan_id = parseInt(treatment_plan_id as string);
+        if (room) options.room = room as string;
+        if (status) {
+            if (!Object.values(appointment_status).includes(status as appointment_status)) {
+                next(new BadRequestError(`status must be one of ${Object.values(appointment_status).join(', ')}`));
+                return;
+            }
+            options.status = status as appointment_status;
+        }
+        if (dateFrom) options.dateFrom = new Date(dateFrom as string);
+        if (dateTo) options.dateTo = new Date(dateTo as string);
+        if (limit) options.limit = parseInt(limit as string);
+        if (offset) options.offset = parseInt(offset as string);
+        options.scope = await PatientAccessService.getScope(req);
+
+        const appointments = await AppointmentDAO.getAll(options);
+        res.send({
+            http_code: 200,
+            data: appointments,
+            count: appointments.length,
+            message: 'Appointments retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+// ?view=day|week&date=YYYY-MM-DD&staff_id=&room=
+export async function getCalendar(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const { view, date, staff_id, room } = req.query;
+
+        const calendarView = (view || 'day') as CalendarView;
+        if (calendarView !== 'day' && calendarView !== 'week') {
+            next(new BadRequestError('view must be day or week'));
+            return;
+        }
+
+        const calendarDate = date ? hidash.parseDateOrNull(date) : new Date();
+        if (!calendarDate) {
+            next(new BadRequestError('Invalid date'));
+            return;
+        }
+
+        const options: AppointmentDAO.GetAllOptions = {};
+        if (staff_id) options.staff_id = parseInt(staff_id as string);
+        if (room) options.room = room as string;
+        options.scope = await PatientAccessService.getScope(req);
+
+        const calendar = await AppointmentService.getCalendar(calendarView, calendarDate, options);
+        res.send({
+            http_code: 200,
+            data: calendar,
+            message: 'Calendar retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function getUpcomingAppointments(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const days = req.query.days ? parseInt(req.query.days as string) : 7;
+
+        const appointments = await AppointmentDAO.getAll({
+            status: 'BOOKED',
+            dateFrom: new Date(),
+            dateTo: hidash.nowPlusDay(days),
+            staff_id: req.query.staff_id ? parseInt(req.query.staff_id as string) : undefined,
+            scope: await PatientAccessService.getScope(req)
+        });
+        res.send({
+            http_code: 200,
+            data: appointments,
+            count: appointments.length,
+            message: 'Upcoming appointments retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function getAppointmentById(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const appointment = await AppointmentDAO.getById(id);
+        if (!appointment) {
+            next(new EntityNotFoundError('Appointment', id));
+            return;
+        }
+
+        if (!(await PatientAccessService.canAccessPatient(req, appointment.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        res.send({
+            http_code: 200,
+            data: appointment,
+            message: 'Appointment retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+// Reschedule / ubah staff, ruangan, plan atau catatan
+export async function updateAppointment(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const body = req.body;
+        if (!body) {
+            next(new MissingBodyError());
+            return;
+        }
+
+        const appointment = await AppointmentDAO.getById(id);
+        if (!appointment) {
+            next(new EntityNotFoundError('Appointment', id));
+            return;
+        }
+
+        if (!(await PatientAccessService.canAccessPatient(req, appointment.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        if (appointment.status !== 'BOOKED' && appointment.status !== 'ARRIVED') {
+            next(new BadRequestError(`Cannot modify a ${appointment.status} appointment`));
+            return;
+        }
+
+        const schedule: ScheduleInput = {
+            patient_id: appointment.patient_id,
+            staff_id: body.staff_id !== undefined ? parseInt(body.staff_id) : appointment.staff_id,
+            treatment_plan_id: body.treatment_plan_id !== undefined ? body.treatment_plan_id : appointment.treatment_plan_id,
+            room: body.room !== undefined ? body.room : appointment.room,
+            start_at: new Date(body.start_at ?? appointment.start_at),
+            end_at: new Date(body.end_at ?? appointment.end_at)
+        };
+        const scheduleError = await validateSchedule(schedule);
+        if (scheduleError) {
+            next(scheduleError);
+            return;
+        }
+
+        const { conflicts, result } = await AppointmentDAO.updateIfFree(id, body, schedule);
+        if (conflicts.length > 0) {
+            next(new AppointmentConflictError(conflicts));
+            return;
+        }
+        res.send({
+            http_code: 200,
+            data: result,
+            message: 'Appointment updated successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+// ARRIVED, NO_SHOW atau CANCELLED. COMPLETED lewat endpoint /complete.
+export async function updateAppointmentStatus(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const { status, cancel_reason } = req.body || {};
+        if (!Object.values(appointment_status).includes(status)) {
+            next(new BadRequestError(`status must be one of ${Object.values(appointment_status).join(', ')}`));
+            return;
+        }
+        if (status === 'COMPLETED') {
+            next(new BadRequestError('Use the complete endpoint to complete an appointment'));
+            return;
+        }
+
+        const appointment = await AppointmentDAO.getById(id);
+        if (!appointment) {
+            next(new EntityNotFoundError('Appointment', id));
+            return;
+        }
+
+        if (!(await PatientAccessService.canAccessPatient(req, appointment.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        if (!AppointmentService.canTransition(appointment.status, status)) {
+            next(new BadRequestError(`Cannot change appointment status from ${appointment.status} to ${status}`, 'INVALID_STATUS_TRANSITION'));
+            return;
+        }
+
+        const result = await AppointmentDAO.updateStatus(id, AppointmentService.sourcesFor(status), status, {
+            cancel_reason: status === 'CANCELLED' ? (cancel_reason || null) : undefined
+        });
+        if (!result) {
+            next(new RequestError('Appointment status was changed by another request', 409, 'APPOINTMENT_STATUS_CHANGED'));
+            return;
+        }
+        res.send({
+            http_code: 200,
+            data: result,
+            message: 'Appointment status updated successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+// body.create = medical_history | treatment_log untuk sekaligus membuat draft catatan
+export async function completeAppointment(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const spawn: SpawnRecordType | null = req.body?.create || null;
+        if (spawn && spawn !== 'medical_history' && spawn !== 'treatment_log') {
+            next(new BadRequestError('create must be medical_history or treatment_log'));
+            return;
+        }
+
+        const appointment = await AppointmentDAO.getById(id);
+        if (!appointment) {
+            next(new EntityNotFoundError('Appointment', id));
+            return;
+        }
+
+        if (!(await PatientAccessService.canAccessPatient(req, appointment.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        if (!AppointmentService.canTransition(appointment.status, 'COMPLETED')) {
+            next(new BadRequestError(`Cannot complete a ${appointment.status} appointment`, 'INVALID_STATUS_TRANSITION'));
+            return;
+        }
+
+        if (spawn) {
+            const required = spawn === 'medical_history' ? 'medical_history:write' : 'treatment_log:write';
+            if (!(await PermissionService.hasPermissions(req.decoded.user.role, [required]))) {
+                next(new RequestError('Access denied', 403, 'FORBIDDEN', new Date(), { required_permissions: [required] }));
+                return;
+            }
+            if (spawn === 'treatment_log' && !appointment.treatment_plan_id) {
+                next(new BadRequestError('Appointment has no treatment plan to log against'));
+                return;
+            }
+            if (spawn === 'treatment_log') {
+                const plan = await TreatmentPlanDAO.getById(appointment.treatment_plan_id);
+                if (plan && TreatmentPlanStatusService.isClosed(plan.status)) {
+                    next(new PlanClosedError(plan.id, plan.status));
+                    return;
+                }
+            }
+        }
+
+        const result = await AppointmentService.complete(appointment, spawn, req.decoded.user.id);
+        if (!result) {
+            next(new RequestError('Appointment status was changed by another request', 409, 'APPOINTMENT_STATUS_CHANGED'));
+            return;
+        }
+        res.send({
+            http_code: 200,
+            data: result,
+            message: 'Appointment completed successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function deleteAppointment(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const appointment = await AppointmentDAO.getById(id);
+        if (!appointment) {
+            next(new EntityNotFoundError('Appointment', id));
+            return;
+        }
+
+        if (!(await PatientAccessService.canAccessPatient(req, appointment.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        await AppointmentDAO.deleteAppointment(id);
+        res.send({
+            http_code: 200,
+            message: 'Appointment deleted successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
@@ -0,0 +1,92 @@
+import { NextFunction, Request, Response } from 'express';
+import { audit_action } from '@prisma/client';
+import {
+    BadParamIdError,
+    BadRequestError,
+    EntityNotFoundError,
+    InternalServerError,
+} from '../errors/RequestErrorCollection';
+import * as AuditLogDAO from '../daos/auditLogDAO';
+import AuditService from '../services/AuditService';
+
+export async function getAuditLogs(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const {
+            patient_id,
+            user_id,
+            entity_type,
+            entity_id,
+            action,
+            dateFrom,
+            dateTo,
+            limit,
+            offset
+        } = req.query;
+
+        const options: AuditLogDAO.GetAllOptions = {};
+
+        if (patient_id) options.patient_id = parseInt(patient_id as string);
+        if (user_id) options.actor_user_id = parseInt(user_id as string);
+        if (entity_type) options.entity_type = entity_type as string;
+        if (entity_id) options.entity_id = parseInt(entity_id as string);
+        if (action) {
+            if (!Object.values(audit_action).includes(action as audit_action)) {
+                next(new BadRequestError(`action must be one of ${Object.values(audit_action).join(', ')}`));
+                return;
+            }
+            options.action = action as audit_action;
+        }
+        if (dateFrom) options.dateFrom = new Date(dateFrom as string);
+        if (dateTo) options.dateTo = new Date(dateTo as string);
+        if (limit) options.limit = Math.min(parseInt(limit as string), 500);
+        if (offset) options.offset = parseInt(offset as string);
+
+        const result = await AuditLogDAO.getAll(options);
+        res.send({
+            http_code: 200,
+            data: result.data,
+            count: result.data.length,
+            total: result.total,
+            message: 'Audit logs retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function getAuditLogById(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const log = await AuditLogDAO.getById(id);
+        if (!log) {
+            next(new EntityNotFoundError('Audit Log', id));
+            return;
+        }
+
+        res.send({
+            http_code: 200,
+            data: log,
+            message: 'Audit log retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function verifyAuditChain(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const result = await AuditService.verifyChain();
+        res.send({
+            http_code: 200,
+            data: result,
+            message: result.valid ? 'Audit chain is intact' : 'Audit chain integrity check FAILED'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
@@ -0,0 +1,233 @@
+import { NextFunction, Request, Response } from 'express';
+import { body_view } from '@prisma/client';
+import {
+    BadParamIdError,
+    BadRequestError,
+    EntityNotFoundError,
+    InternalServerError,
+    MissingBodyError,
+    RequestError,
+    UnauthorizedDataAccessError,
+} from '../errors/RequestErrorCollection';
+import * as BodyChartDAO from '../daos/bodyChartDAO';
+import * as MedicalHistoryDAO from '../daos/medicalHistoryDAO';
+import * as TreatmentLogDAO from '../daos/treatmentLogDAO';
+import * as TreatmentPlanDAO from '../daos/treatmentPlanDAO';
+import BodyChartService from '../services/BodyChartService';
+import PatientAccessService from '../services/PatientAccessService';
+import { BODY_VIEWS, isBodyView, isRegionCode, isSymptomType, SYMPTOM_TYPES } from '../utils/bodyChart';
+
+type ParentType = 'medical_history' | 'treatment_log';
+
+const PARENT_LABELS: Record<ParentType, string> = {
+    medical_history: 'Medical History',
+    treatment_log: 'Treatment Log',
+};
+
+// Body chart ikut terkunci bersama entry induknya setelah ditandatangani
+const entryLocked = (parentType: ParentType, id: number) =>
+    new RequestError(
+        `${PARENT_LABELS[parentType].toUpperCase()} [${id}] is signed. The body chart can only be changed while it is a draft.`,
+        409,
+        'ENTRY_LOCKED'
+    );
+
+const getParent = async (parentType: ParentType, id: number) =>
+    parentType === 'medical_history' ? await MedicalHistoryDAO.getById(id) : await TreatmentLogDAO.getById(id);
+
+// Ambil entry induk + cek akses pasien; mengirim error ke next() dan mengembalikan null bila gagal
+const loadParent = async (req: Request, next: NextFunction, parentType: ParentType, param: string) => {
+    const parentId = parseInt(req.params[param]);
+    if (isNaN(parentId)) {
+        next(new BadParamIdError());
+        return null;
+    }
+
+    const parent = await getParent(parentType, parentId);
+    if (!parent) {
+        next(new EntityNotFoundError(PARENT_LABELS[parentType], parentId));
+        return null;
+    }
+    if (!(await PatientAccessService.canAccessPatient(req, parent.patient_id))) {
+        next(new UnauthorizedDataAccessError());
+        return null;
+    }
+
+    return { parent, ref: { patient_id: parent.patient_id, [`${parentType}_id`]: parentId } as BodyChartDAO.BodyChartParent };
+};
+
+// Ganti seluruh pin entry; body {marks: [...]}, array kosong menghapus body chart
+const saveMarks = (parentType: ParentType, param: string) =>
+    async (req: Request, res: Response, next: NextFunction): Promise<void | Response> => {
+        try {
+            const body = req.body;
+            if (!body) {
+                next(new MissingBodyError());
+                return;
+            }
+
+            const loaded = await loadParent(req, next, parentType, param);
+            if (!loaded) return;
+
+            if (loaded.parent.status !== 'DRAFT') {
+                next(entryLocked(parentType, loaded.parent.id));
+                return;
+            }
+
+            const marks = BodyChartService.normalizeMarks(body.marks);
+            if (marks instanceof BadRequestError) {
+                next(marks);
+                return;
+            }
+
+            // Status dicek ulang di transaksi: entry bisa ditandatangani setelah dicek di atas
+            const result = await BodyChartDAO.replaceForParent(loaded.ref, marks, req.decoded.user.id);
+            if (!result) {
+                next(entryLocked(parentType, loaded.parent.id));
+                return;
+            }
+            res.send({
+                http_code: 200,
+                data: result,
+                count: result.length,
+                message: 'Body chart saved successfully'
+            });
+        } catch (error: any) {
+            next(new InternalServerError(error));
+        }
+    };
+
+const getMarks = (parentType: ParentType, param: string) =>
+    async (req: Request, res: Response, next: NextFunction): Promise<void | Response> => {
+        try {
+            const loaded = await loadParent(req, next, parentType, param);
+            if (!loaded) return;
+
+            const marks = await BodyChartDAO.getByParent(loaded.ref);
+            res.send({
+                http_code: 200,
+                data: marks,
+                count: marks.length,
+                message: 'Body chart retrieved successfully'
+            });
+        } catch (error: any) {
+            next(new InternalServerError(error));
+        }
+    };
+
+// ?format=svg|png&views=FRONT,BACK
+const renderMarks = (parentType: ParentType, param: string) =>
+    async (req: Request, res: Response, next: NextFunction): Promise<void | Response> => {
+        try {
+            const format = (req.query.format as string) || 'svg';
+            if (format !== 'svg' && format !== 'png') {
+                next(new BadRequestError('format must be svg or png'));
+                return;
+            }
+
+            let views: body_view[] | undefined;
+            if (req.query.views) {
+                const requested = String(req.query.views).toUpperCase().split(',').map((view) => view.trim());
+                if (!requested.every(isBodyView)) {
+                    next(new BadRequestError(`views must be a comma separated list of ${BODY_VIEWS.join(', ')}`));
+                    return;
+                }
+                views = requested as body_view[];
+            }
+
+            const loaded = await loadParent(req, next, parentType, param);
+            if (!loaded) return;
+
+            const marks = await BodyChartDAO.getByParent(loaded.ref);
+            if (format === 'png') {
+                res.type('png').send(BodyChartService.renderPng(marks, { views }));
+                return;
+            }
+            res.type('image/svg+xml').send(BodyChartService.renderSvg(marks, {
+                views,
+                title: `${PARENT_LABELS[parentType]} #${loaded.parent.id}`
+            }));
+        } catch (error: any) {
+            next(new InternalServerError(error));
+        }
+    };
+
+export const saveMedicalHistoryChart = saveMarks('medical_history', 'historyId');
+export const saveTreatmentLogChart = saveMarks('treatment_log', 'logId');
+export const getMedicalHistoryChart = getMarks('medical_history', 'historyId');
+export const getTreatmentLogChart = getMarks('treatment_log', 'logId');
+export const renderMedicalHistoryChart = renderMarks('medical_history', 'historyId');
+export const renderTreatmentLogChart = renderMarks('treatment_log', 'logId');
+
+export async function getDefinitions(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        res.send({
+            http_code: 200,
+            data: BodyChartService.listDefinitions(),
+            message: 'Body chart definitions retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+// Semua entry dalam treatment plan di mana pasien melaporkan gejala pada region tertentu
+export async function getPlanRegionEntries(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const planId = parseInt(req.params.planId);
+        if (isNaN(planId)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const region = req.params.region;
+        if (!isRegionCode(region)) {
+            next(new BadRequestError(`Unknown body chart region ${region}`));
+            return;
+        }
+
+        const { side, symptom_type, min_intensity } = req.query;
+        const filters: BodyChartDAO.RegionQueryFilters = {};
+        if (side) {
+            if (side !== 'LEFT' && side !== 'RIGHT') {
+                next(new BadRequestError('side must be LEFT or RIGHT'));
+                return;
+            }
+            filters.side = side;
+        }
+        if (symptom_type) {
+            if (!isSymptomType(symptom_type)) {
+                next(new BadRequestError(`symptom_type must be one of ${SYMPTOM_TYPES.join(', ')}`));
+                return;
+            }
+            filters.symptom_type = symptom_type;
+        }
+        if (min_intensity) {
+            filters.min_intensity = parseInt(min_intensity as string);
+            if (isNaN(filters.min_intensity)) {
+                next(new BadRequestError('min_intensity must be a number'));
+                return;
+            }
+        }
+
+        const plan = await TreatmentPlanDAO.getById(planId);
+        if (!plan) {
+            next(new EntityNotFoundError('Treatment Plan', planId));
+            return;
+        }
+        if (!(await PatientAccessService.canAccessPatient(req, plan.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        const entries = BodyChartService.groupByEntry(await BodyChartDAO.getForPlanRegion(plan, region, filters));
+        res.send({
+            http_code: 200,
+            data: entries,
+            count: entries.length,
+            message: 'Body chart entries retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
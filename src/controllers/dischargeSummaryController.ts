@@ -0,0 +1,170 @@
+import { NextFunction, Request, Response } from 'express';
+import {
+    BadParamIdError,
+    BadRequestError,
+    EntityNotFoundError,
+    InternalServerError,
+    MissingBodyError,
+    RequestError,
+    UnauthorizedDataAccessError,
+} from '../errors/RequestErrorCollection';
+import * as DischargeSummaryDAO from '../daos/dischargeSummaryDAO';
+import * as NotificationOutboxDAO from '../daos/notificationOutboxDAO';
+import * as PatientDAO from '../daos/patientDAO';
+import * as ProgressReportDAO from '../daos/progressReportDAO';
+import * as TreatmentPlanDAO from '../daos/treatmentPlanDAO';
+import AuditService from '../services/AuditService';
+import DischargeSummaryService from '../services/DischargeSummaryService';
+import NotificationService from '../services/NotificationService';
+import { NOTIFICATION_LOCALES } from '../services/NotificationTemplates';
+import PatientAccessService from '../services/PatientAccessService';
+
+// Ambil plan + pasien dan cek akses; mengirim error ke next() dan mengembalikan null bila gagal
+const loadPlan = async (req: Request, next: NextFunction) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+        next(new BadParamIdError());
+        return null;
+    }
+
+    const locale = (req.query.locale ?? req.body?.locale) as string | undefined;
+    if (locale && !(NOTIFICATION_LOCALES as string[]).includes(locale)) {
+        next(new BadRequestError(`locale must be one of ${NOTIFICATION_LOCALES.join(', ')}`));
+        return null;
+    }
+
+    const plan = await TreatmentPlanDAO.getById(id);
+    if (!plan) {
+        next(new EntityNotFoundError('Treatment Plan', id));
+        return null;
+    }
+    if (!(await PatientAccessService.canAccessPatient(req, plan.patient_id))) {
+        next(new UnauthorizedDataAccessError());
+        return null;
+    }
+
+    const patient = await PatientDAO.getById(plan.patient_id);
+    if (!patient) {
+        next(new EntityNotFoundError('Patient', plan.patient_id));
+        return null;
+    }
+    await AuditService.recordRead('patient', patient.id, patient.id);
+    return { plan, patient, locale };
+};
+
+const pdfFilename = (patient: any, plan: any) => `discharge-summary-${patient.patient_code}-${plan.id}.pdf`;
+
+export async function getDischargeSummary(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const loaded = await loadPlan(req, next);
+        if (!loaded) return;
+
+        res.send({
+            http_code: 200,
+            data: await DischargeSummaryService.build(loaded.plan, loaded.patient),
+            message: 'Discharge summary retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function getDischargeSummaryPdf(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const loaded = await loadPlan(req, next);
+        if (!loaded) return;
+
+        const summary = await DischargeSummaryService.build(loaded.plan, loaded.patient);
+        const pdf = DischargeSummaryService.renderPdf(summary, {
+            locale: loaded.locale,
+            preparedBy: await ProgressReportDAO.getPreparerName(req.decoded.user.id)
+        });
+
+        res.type('application/pdf');
+        res.setHeader('Content-Disposition', `inline; filename="${pdfFilename(loaded.patient, loaded.plan)}"`);
+        res.send(pdf);
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+// Simpan kesimpulan klinisi; body berisi sebagian dari conclusion, goals_outcome, recommendations, follow_up
+export async function saveConclusions(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        if (!req.body) {
+            next(new MissingBodyError());
+            return;
+        }
+
+        const conclusions = DischargeSummaryService.validateConclusions(req.body);
+        if (conclusions instanceof BadRequestError) {
+            next(conclusions);
+            return;
+        }
+
+        const loaded = await loadPlan(req, next);
+        if (!loaded) return;
+        if (loaded.plan.status === 'CANCELLED') {
+            next(new RequestError(`TREATMENT PLAN [${loaded.plan.id}] is cancelled and has no discharge summary.`, 409, 'PLAN_CANCELLED'));
+            return;
+        }
+
+        await DischargeSummaryDAO.saveConclusions(loaded.plan, conclusions, req.decoded.user.id);
+        res.send({
+            http_code: 200,
+            data: await DischargeSummaryService.build(loaded.plan, loaded.patient),
+            message: 'Discharge summary saved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+// Kirim PDF ke email pasien yang terdaftar (bukan alamat bebas) setelah plan selesai
+export async function emailDischargeSummary(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const loaded = await loadPlan(req, next);
+        if (!loaded) return;
+
+        const { plan, patient, locale } = loaded;
+        if (plan.status !== 'COMPLETED') {
+            next(new RequestError(`TREATMENT PLAN [${plan.id}] is not completed. The discharge summary can only be emailed after discharge.`, 409, 'PLAN_NOT_COMPLETED'));
+            return;
+        }
+        if (!patient.email) {
+            next(new BadRequestError('Patient has no email address'));
+            return;
+        }
+
+        await DischargeSummaryDAO.ensureForPlan(plan);
+        const summary = await DischargeSummaryService.build(plan, patient);
+        const pdf = DischargeSummaryService.renderPdf(summary, {
+            locale,
+            preparedBy: await ProgressReportDAO.getPreparerName(req.decoded.user.id)
+        });
+
+        // Lewat outbox supaya pengiriman tercatat dan bisa di-retry/resend beserta PDF-nya
+        const notification = await NotificationService.send({
+            channel: 'EMAIL',
+            template: 'discharge_summary',
+            recipient: patient.email,
+            recipient_name: patient.name,
+            locale,
+            payload: DischargeSummaryService.emailPayload(summary),
+            patient_id: patient.id,
+            created_by: req.decoded.user.id,
+            attachments: [{ filename: pdfFilename(patient, plan), content_type: 'application/pdf', content: pdf }]
+        });
+        const result = await DischargeSummaryDAO.markEmailed(plan.id, patient.email);
+
+        res.send({
+            http_code: 200,
+            data: { ...result, notification: NotificationOutboxDAO.formatForTable(notification) },
+            message: notification.status === 'SENT'
+                ? 'Discharge summary emailed successfully'
+                : 'Discharge summary email queued; delivery will be retried'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
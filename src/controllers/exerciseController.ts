@@ -0,0 +1,190 @@
+import { NextFunction, Request, Response } from 'express';
+import {
+    BadParamIdError,
+    BadRequestError,
+    EntityNotFoundError,
+    InternalServerError,
+    MissingBodyError,
+} from '../errors/RequestErrorCollection';
+import * as ExerciseDAO from '../daos/exerciseDAO';
+import hidash from '../utils/hidash';
+
+const MAX_DOSAGE_VALUE = 1000;
+
+// Validasi field default_* (bilangan bulat 1..MAX_DOSAGE_VALUE atau null)
+function validateDefaults(body: any): BadRequestError | null {
+    for (const field of ExerciseDAO.DOSAGE_FIELDS) {
+        const value = body[field];
+        if (value === undefined || value === null) continue;
+        if (!Number.isInteger(Number(value)) || Number(value) < 1 || Number(value) > MAX_DOSAGE_VALUE) {
+            return new BadRequestError(`${field} must be a whole number between 1 and ${MAX_DOSAGE_VALUE}`);
+        }
+    }
+    if (body.media_url && !/^https?:\/\//i.test(String(body.media_url))) {
+        return new BadRequestError('media_url must be an uploaded file URL');
+    }
+    return null;
+}
+
+export async function createExercise(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const body = req.body;
+        if (!body) {
+            next(new MissingBodyError());
+            return;
+        }
+
+        const isMissingProperty = hidash.checkPropertyV2(body, 'Exercise', ExerciseDAO.getRequired());
+        if (isMissingProperty.message) {
+            next(isMissingProperty);
+            return;
+        }
+
+        const validationError = validateDefaults(body);
+        if (validationError) {
+            next(validationError);
+            return;
+        }
+
+        body.created_by = req.decoded.user.id;
+        const result = await ExerciseDAO.create(ExerciseDAO.formatCreate(body));
+        res.send({
+            http_code: 200,
+            data: result,
+            message: 'Exercise created successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function getAllExercises(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const { search, body_region, active, limit, offset } = req.query;
+        const options: ExerciseDAO.GetAllOptions = { activeOnly: true };
+
+        if (search) options.search = search as string;
+        if (body_region) options.body_region = body_region as string;
+        // ?active=false untuk latihan nonaktif, ?active=all untuk semua
+        if (active === 'false') options.activeOnly = false;
+        else if (active === 'all') options.activeOnly = null;
+        if (limit) options.limit = parseInt(limit as string);
+        if (offset) options.offset = parseInt(offset as string);
+
+        const exercises = await ExerciseDAO.getAll(options);
+        res.send({
+            http_code: 200,
+            data: exercises,
+            count: exercises.length,
+            message: 'Exercises retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function getBodyRegions(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        res.send({
+            http_code: 200,
+            data: await ExerciseDAO.getBodyRegions(),
+            message: 'Body regions retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function getExerciseById(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const exercise = await ExerciseDAO.getById(id);
+        if (!exercise) {
+            next(new EntityNotFoundError('Exercise', id));
+            return;
+        }
+
+        res.send({
+            http_code: 200,
+            data: exercise,
+            message: 'Exercise retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function updateExercise(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const body = req.body;
+        if (!body) {
+            next(new MissingBodyError());
+            return;
+        }
+
+        const exercise = await ExerciseDAO.getById(id);
+        if (!exercise) {
+            next(new EntityNotFoundError('Exercise', id));
+            return;
+        }
+
+        if (body.name !== undefined && !String(body.name || '').trim()) {
+            next(new BadRequestError('name cannot be empty'));
+            return;
+        }
+        if (body.active !== undefined && typeof body.active !== 'boolean') {
+            next(new BadRequestError('active must be a boolean'));
+            return;
+        }
+        const validationError = validateDefaults(body);
+        if (validationError) {
+            next(validationError);
+            return;
+        }
+
+        const result = await ExerciseDAO.update(id, body);
+        res.send({
+            http_code: 200,
+            data: result,
+            message: 'Exercise updated successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function deactivateExercise(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const exercise = await ExerciseDAO.getById(id);
+        if (!exercise) {
+            next(new EntityNotFoundError('Exercise', id));
+            return;
+        }
+
+        const result = await ExerciseDAO.deactivate(id);
+        res.send({
+            http_code: 200,
+            data: result,
+            message: 'Exercise deactivated successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
@@ -0,0 +1,442 @@
+import { NextFunction, Request, Response } from 'express';
+import {
+    BadParamIdError,
+    BadRequestError,
+    EntityNotFoundError,
+    InternalServerError,
+    MissingBodyError,
+    UnauthorizedDataAccessError,
+} from '../errors/RequestErrorCollection';
+import * as ExercisePrescriptionDAO from '../daos/exercisePrescriptionDAO';
+import * as ExerciseAdherenceDAO from '../daos/exerciseAdherenceDAO';
+import * as ExerciseDAO from '../daos/exerciseDAO';
+import * as PatientDAO from '../daos/patientDAO';
+import * as TreatmentPlanDAO from '../daos/treatmentPlanDAO';
+import AdherenceService from '../services/AdherenceService';
+import AuditService from '../services/AuditService';
+import ExerciseProgramService from '../services/ExerciseProgramService';
+import NotificationTemplates, { NOTIFICATION_LOCALES } from '../services/NotificationTemplates';
+import PatientAccessService from '../services/PatientAccessService';
+import hidash from '../utils/hidash';
+
+const DOSAGE_FIELDS = ['sets', 'reps', 'hold_seconds'];
+const MAX_DOSAGE_VALUE = 1000;
+// Target sesi per minggu untuk perhitungan adherence (maks. 4x sehari)
+const MAX_SESSIONS_PER_WEEK = 28;
+
+// Validasi dosis dan rentang tanggal; `current` berisi nilai lama saat update
+function validatePrescription(body: any, current?: { start_date: Date; end_date: Date | null }): BadRequestError | null {
+    for (const field of DOSAGE_FIELDS) {
+        const value = body[field];
+        if (value === undefined || value === null) continue;
+        if (!Number.isInteger(Number(value)) || Number(value) < 1 || Number(value) > MAX_DOSAGE_VALUE) {
+            return new BadRequestError(`${field} must be a whole number between 1 and ${MAX_DOSAGE_VALUE}`);
+        }
+    }
+    if (body.sessions_per_week !== undefined && body.sessions_per_week !== null) {
+        const value = Number(body.sessions_per_week);
+        if (!Number.isInteger(value) || value < 1 || value > MAX_SESSIONS_PER_WEEK) {
+            return new BadRequestError(`sessions_per_week must be a whole number between 1 and ${MAX_SESSIONS_PER_WEEK}`);
+        }
+    }
+    if (body.sort_order !== undefined && !Number.isInteger(Number(body.sort_order))) {
+        return new BadRequestError('sort_order must be a whole number');
+    }
+
+    if (body.start_date !== undefined && !hidash.parseDateOrNull(body.start_date)) {
+        return new BadRequestError('start_date must be a valid date');
+    }
+    if (body.end_date !== undefined && body.end_date !== null && !hidash.parseDateOrNull(body.end_date)) {
+        return new BadRequestError('end_date must be a valid date');
+    }
+
+    const startDate = body.start_date !== undefined ? hidash.parseDateOrNull(body.start_date) : current?.start_date ?? null;
+    const endDate = body.end_date !== undefined ? hidash.parseDateOrNull(body.end_date) : current?.end_date ?? null;
+    if (startDate && endDate && endDate < ExercisePrescriptionDAO.toDateOnly(startDate)) {
+        return new BadRequestError('end_date cannot be before start_date');
+    }
+
+    return null;
+}
+
+export async function createPrescription(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const body = req.body;
+        if (!body) {
+            next(new MissingBodyError());
+            return;
+        }
+
+        const isMissingProperty = hidash.checkPropertyV2(body, 'Exercise Prescription', ExercisePrescriptionDAO.getRequired());
+        if (isMissingProperty.message) {
+            next(isMissingProperty);
+            return;
+        }
+
+        const validationError = validatePrescription(body);
+        if (validationError) {
+            next(validationError);
+            return;
+        }
+
+        const plan = await TreatmentPlanDAO.getById(parseInt(body.treatment_plan_id));
+        if (!plan) {
+            next(new BadRequestError('Treatment plan not found'));
+            return;
+        }
+        if (!(await PatientAccessService.canAccessPatient(req, plan.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        const exercise = await ExerciseDAO.getById(parseInt(body.exercise_id));
+        if (!exercise || !exercise.active) {
+            next(new BadRequestError('Exercise not found or inactive'));
+            return;
+        }
+
+        body.created_by = req.decoded.user.id;
+        const result = await ExercisePrescriptionDAO.create(ExercisePrescriptionDAO.formatCreate(body, exercise));
+        res.send({
+            http_code: 200,
+            data: result,
+            message: 'Exercise prescribed successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function getPrescriptionsByPlan(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const planId = parseInt(req.params.planId);
+        if (isNaN(planId)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const plan = await TreatmentPlanDAO.getById(planId);
+        if (!plan) {
+            next(new EntityNotFoundError('Treatment Plan', planId));
+            return;
+        }
+        if (!(await PatientAccessService.canAccessPatient(req, plan.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        const prescriptions = await ExercisePrescriptionDAO.getByPlan(planId);
+        res.send({
+            http_code: 200,
+            data: prescriptions,
+            count: prescriptions.length,
+            message: 'Exercise prescriptions retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+// Program latihan pasien saat ini. ?format=html|text mengembalikan handout yang siap dicetak.
+export async function getPatientProgram(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const patientId = parseInt(req.params.patientId);
+        if (isNaN(patientId)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const { treatment_plan_id, date, locale, format } = req.query;
+
+        const patient = await PatientDAO.getById(patientId);
+        if (!patient) {
+            next(new EntityNotFoundError('Patient', patientId));
+            return;
+        }
+        if (!(await PatientAccessService.canAccessPatient(req, patientId))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+        await AuditService.recordRead('patient', patient.id, patient.id);
+
+        if (locale && !NotificationTemplates.isLocale(locale)) {
+            next(new BadRequestError(`locale must be one of ${NOTIFICATION_LOCALES.join(', ')}`));
+            return;
+        }
+        const programDate = date ? hidash.parseDateOrNull(date) : new Date();
+        if (!programDate) {
+            next(new BadRequestError('date must be a valid date'));
+            return;
+        }
+
+        const program = await ExerciseProgramService.getCurrentProgram(patientId, {
+            date: programDate,
+            treatment_plan_id: treatment_plan_id ? parseInt(treatment_plan_id as string) : undefined,
+            locale: locale as string | undefined
+        });
+
+        if (format === 'html' || format === 'text') {
+            const { content } = ExerciseProgramService.renderProgram(program, patient, locale as string | undefined);
+            if (format === 'html') res.type('html').send(content.html ?? '');
+            else res.type('text').send(content.text);
+            return;
+        }
+
+        res.send({
+            http_code: 200,
+            data: program,
+            message: 'Exercise program retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function getPrescriptionById(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const prescription = await ExercisePrescriptionDAO.getById(id);
+        if (!prescription) {
+            next(new EntityNotFoundError('Exercise Prescription', id));
+            return;
+        }
+        if (!(await PatientAccessService.canAccessPatient(req, prescription.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        res.send({
+            http_code: 200,
+            data: prescription,
+            message: 'Exercise prescription retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function updatePrescription(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const body = req.body;
+        if (!body) {
+            next(new MissingBodyError());
+            return;
+        }
+
+        const prescription = await ExercisePrescriptionDAO.getById(id);
+        if (!prescription) {
+            next(new EntityNotFoundError('Exercise Prescription', id));
+            return;
+        }
+        if (!(await PatientAccessService.canAccessPatient(req, prescription.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        const validationError = validatePrescription(body, prescription);
+        if (validationError) {
+            next(validationError);
+            return;
+        }
+
+        const result = await ExercisePrescriptionDAO.update(id, body);
+        res.send({
+            http_code: 200,
+            data: result,
+            message: 'Exercise prescription updated successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function deletePrescription(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const prescription = await ExercisePrescriptionDAO.getById(id);
+        if (!prescription) {
+            next(new EntityNotFoundError('Exercise Prescription', id));
+            return;
+        }
+        if (!(await PatientAccessService.canAccessPatient(req, prescription.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        await ExercisePrescriptionDAO.deletePrescription(id);
+        res.send({
+            http_code: 200,
+            message: 'Exercise prescription deleted successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+// ─────────────────────────────────────────────
+// SESI LATIHAN & ADHERENCE
+// ─────────────────────────────────────────────
+
+// Staf mencatat sesi latihan atas nama pasien (mis. dilakukan saat kunjungan)
+export async function logSession(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const body = req.body || {};
+        const prescription = await ExercisePrescriptionDAO.getById(id);
+        if (!prescription) {
+            next(new EntityNotFoundError('Exercise Prescription', id));
+            return;
+        }
+        if (!(await PatientAccessService.canAccessPatient(req, prescription.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        const validationError = AdherenceService.validateSession(body, prescription);
+        if (validationError) {
+            next(validationError);
+            return;
+        }
+
+        const result = await ExerciseAdherenceDAO.create({
+            ...ExerciseAdherenceDAO.formatCreate(id, body),
+            source: 'STAFF',
+            recorded_by: req.decoded.user.id
+        });
+        res.send({
+            http_code: 200,
+            data: result,
+            message: 'Exercise session logged successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function getSessions(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const prescription = await ExercisePrescriptionDAO.getById(id);
+        if (!prescription) {
+            next(new EntityNotFoundError('Exercise Prescription', id));
+            return;
+        }
+        if (!(await PatientAccessService.canAccessPatient(req, prescription.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        const { dateFrom, dateTo, limit, offset } = req.query;
+        const options: ExerciseAdherenceDAO.GetByPrescriptionOptions = {};
+        if (dateFrom) {
+            const from = hidash.parseDateOrNull(dateFrom);
+            if (!from) {
+                next(new BadRequestError('dateFrom must be a valid date'));
+                return;
+            }
+            options.dateFrom = from;
+        }
+        if (dateTo) {
+            const to = hidash.parseDateOrNull(dateTo);
+            if (!to) {
+                next(new BadRequestError('dateTo must be a valid date'));
+                return;
+            }
+            options.dateTo = to;
+        }
+        if (limit) options.limit = parseInt(limit as string);
+        if (offset) options.offset = parseInt(offset as string);
+
+        const sessions = await ExerciseAdherenceDAO.getByPrescription(id, options);
+        res.send({
+            http_code: 200,
+            data: sessions,
+            count: sessions.length,
+            message: 'Exercise sessions retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function deleteSession(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const sessionId = parseInt(req.params.sessionId);
+        if (isNaN(sessionId)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const session = await ExerciseAdherenceDAO.getById(sessionId);
+        if (!session) {
+            next(new EntityNotFoundError('Exercise Session', sessionId));
+            return;
+        }
+        if (!(await PatientAccessService.canAccessPatient(req, session.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        await ExerciseAdherenceDAO.deleteLog(sessionId);
+        res.send({
+            http_code: 200,
+            message: 'Exercise session deleted successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function getPlanAdherence(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const planId = parseInt(req.params.planId);
+        if (isNaN(planId)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const plan = await TreatmentPlanDAO.getById(planId);
+        if (!plan) {
+            next(new EntityNotFoundError('Treatment Plan', planId));
+            return;
+        }
+        if (!(await PatientAccessService.canAccessPatient(req, plan.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        res.send({
+            http_code: 200,
+            data: await AdherenceService.getPlanAdherence(planId),
+            message: 'Exercise adherence retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
@@ -1,13 +1,26 @@
 import { NextFunction, Request, Response } from 'express';
+import { clinical_entry_status } from '@prisma/client';
 import {
     BadParamIdError,
     BadRequestError,
     EntityNotFoundError,
+    EntryLockedError,
     InternalServerError,
     MissingBodyError,
+    RequestError,
+    UnauthorizedDataAccessError,
     UnauthorizedError,
 } from '../errors/RequestErrorCollection';
 import * as MedicalHistoryDAO from '../daos/medicalHistoryDAO';
+import * as PatientDAO from '../daos/patientDAO';
+import * as ProgressReportDAO from '../daos/progressReportDAO';
+import * as TreatmentPlanDAO from '../daos/treatmentPlanDAO';
+import PatientAccessService from '../services/PatientAccessService';
+import * as RevisionDAO from '../daos/revisionDAO';
+import SignatureService from '../services/SignatureService';
+import AuditService from '../services/AuditService';
+import AdherenceService from '../services/AdherenceService';
+import ProgressReportService from '../services/ProgressReportService';
 import hidash from '../utils/hidash';
 
 export async function createMedicalHistory(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
@@ -31,6 +44,11 @@ export async function createMedicalHistory(req: Request, res: Response, next: Ne
             return;
         }
 
+        if (!(await PatientAccessService.canAccessPatient(req, parseInt(body.patient_id)))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
         // Ambil user_id dari token (user yang login)
         const userId = req.decoded?.id;
         if (!userId) {
@@ -74,7 +92,7 @@ export async function createMedicalHistory(req: Request, res: Response, next: Ne
             user_id: body.user_id ? parseInt(body.user_id) : parseInt(userId)
         };
 
-        const result = await MedicalHistoryDAO.create(MedicalHistoryDAO.formatCreate(createData));
+        const result = await MedicalHistoryDAO.create(MedicalHistoryDAO.formatCreate(createData), req.decoded.user.id);
         res.send({
             http_code: 200,
             data: result,
@@ -99,6 +117,12 @@ export async function getMedicalHistoryById(req: Request, res: Response, next: N
             return;
         }
 
+        if (!(await PatientAccessService.canAccessPatient(req, medicalHistory.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+        await AuditService.recordRead('medical_history', medicalHistory.id, medicalHistory.patient_id);
+
         res.send({
             http_code: 200,
             data: medicalHistory,
@@ -117,7 +141,7 @@ export async function getMedicalHistoriesByPatient(req: Request, res: Response,
             return;
         }
 
-        const { dateFrom, dateTo, service_type, staff_id, user_id } = req.query;
+        const { dateFrom, dateTo, service_type, staff_id, user_id, status } = req.query;
         
         const options: any = {};
         
@@ -126,6 +150,14 @@ export async function getMedicalHistoriesByPatient(req: Request, res: Response,
         if (service_type) options.service_type = service_type as string;
         if (staff_id) options.staff_id = parseInt(staff_id as string);
         if (user_id) options.user_id = parseInt(user_id as string);
+        if (status) {
+            if (!Object.values(clinical_entry_status).includes(status as clinical_entry_status)) {
+                next(new BadRequestError(`status must be one of ${Object.values(clinical_entry_status).join(', ')}`));
+                return;
+            }
+            options.status = status as clinical_entry_status;
+        }
+        options.scope = await PatientAccessService.getScope(req);
 
         const histories = await MedicalHistoryDAO.getByPatientId(patientId, options);
         
@@ -153,7 +185,8 @@ export async function getAllMedicalHistories(req: Request, res: Response, next:
             limit,
             offset,
             sortBy,
-            sortOrder
+            sortOrder,
+            status
         } = req.query;
         
         const options: any = {};
@@ -169,6 +202,14 @@ export async function getAllMedicalHistories(req: Request, res: Response, next:
         if (offset) options.offset = parseInt(offset as string);
         if (sortBy) options.sortBy = sortBy as string;
         if (sortOrder) options.sortOrder = sortOrder as 'asc' | 'desc';
+        if (status) {
+            if (!Object.values(clinical_entry_status).includes(status as clinical_entry_status)) {
+                next(new BadRequestError(`status must be one of ${Object.values(clinical_entry_status).join(', ')}`));
+                return;
+            }
+            options.status = status as clinical_entry_status;
+        }
+        options.scope = await PatientAccessService.getScope(req);
 
         const histories = await MedicalHistoryDAO.getAll(options);
         
@@ -203,6 +244,18 @@ export async function updateMedicalHistory(req: Request, res: Response, next: Ne
             return;
         }
 
+        if (!(await PatientAccessService.canAccessPatient(req, medicalHistory.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        // Entry yang sudah ditandatangani hanya bisa diubah sebagai amendment dengan alasan
+        const amendmentReason = typeof body.amendment_reason === 'string' ? body.amendment_reason.trim() : '';
+        if (medicalHistory.status !== 'DRAFT' && !amendmentReason) {
+            next(new EntryLockedError('Medical History', id));
+            return;
+        }
+
         // Validasi patient exists jika diupdate
         if (body.patient_id !== undefined) {
             const patientExists = await MedicalHistoryDAO.validatePatientExists(body.patient_id);
@@ -210,6 +263,11 @@ export async function updateMedicalHistory(req: Request, res: Response, next: Ne
                 next(new BadRequestError('Patient not found'));
                 return;
             }
+
+            if (!(await PatientAccessService.canAccessPatient(req, parseInt(body.patient_id)))) {
+                next(new UnauthorizedDataAccessError());
+                return;
+            }
         }
 
         // Validasi staff exists jika diupdate
@@ -245,7 +303,15 @@ export async function updateMedicalHistory(req: Request, res: Response, next: Ne
             }
         }
 
-        const result = await MedicalHistoryDAO.update(id, body);
+        const result = await MedicalHistoryDAO.update(id, body, medicalHistory.status, {
+            changed_by: req.decoded.user.id,
+            reason: amendmentReason || null,
+            is_amendment: medicalHistory.status !== 'DRAFT'
+        });
+        if (!result) {
+            next(new RequestError('Medical history status was changed by another request', 409, 'ENTRY_STATUS_CHANGED'));
+            return;
+        }
         res.send({
             http_code: 200,
             data: result,
@@ -256,6 +322,89 @@ export async function updateMedicalHistory(req: Request, res: Response, next: Ne
     }
 }
 
+export async function signMedicalHistory(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const password = req.body?.password;
+        if (!password) {
+            next(new MissingBodyError());
+            return;
+        }
+
+        const medicalHistory = await MedicalHistoryDAO.getById(id);
+        if (!medicalHistory) {
+            next(new EntityNotFoundError('Medical History', id));
+            return;
+        }
+
+        if (!(await PatientAccessService.canAccessPatient(req, medicalHistory.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        if (!SignatureService.canSign(medicalHistory.status)) {
+            next(new BadRequestError('Medical history is already signed', 'ALREADY_SIGNED'));
+            return;
+        }
+
+        // Re-autentikasi: tanda tangan hanya sah jika password penandatangan benar
+        if (!(await SignatureService.verifySignerPassword(req.decoded.user.id, password))) {
+            next(new BadRequestError('Password is incorrect!', 'INVALID_CREDENTIALS'));
+            return;
+        }
+
+        const result = await MedicalHistoryDAO.sign(id, req.decoded.user.id);
+        if (!result) {
+            next(new RequestError('Medical history was signed by another request', 409, 'ALREADY_SIGNED'));
+            return;
+        }
+        res.send({
+            http_code: 200,
+            data: result,
+            message: 'Medical history signed successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function getMedicalHistoryRevisions(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const medicalHistory = await MedicalHistoryDAO.getById(id);
+        if (!medicalHistory) {
+            next(new EntityNotFoundError('Medical History', id));
+            return;
+        }
+
+        if (!(await PatientAccessService.canAccessPatient(req, medicalHistory.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+        await AuditService.recordRead('medical_history', medicalHistory.id, medicalHistory.patient_id);
+
+        const revisions = await RevisionDAO.getMedicalHistoryRevisions(id);
+        res.send({
+            http_code: 200,
+            data: revisions,
+            count: revisions.length,
+            message: 'Medical history revisions retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
 export async function deleteMedicalHistory(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
     try {
         const id = parseInt(req.params.id);
@@ -270,7 +419,12 @@ export async function deleteMedicalHistory(req: Request, res: Response, next: Ne
             return;
         }
 
-        await MedicalHistoryDAO.deleteMedicalHistory(id);
+        if (!(await PatientAccessService.canAccessPatient(req, medicalHistory.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        await MedicalHistoryDAO.deleteMedicalHistory(id, req.decoded.user.id);
         res.send({
             http_code: 200,
             message: 'Medical history deleted successfully'
@@ -294,7 +448,7 @@ export async function getStatistics(req: Request, res: Response, next: NextFunct
             endDate = new Date(dateTo as string);
         }
 
-        const stats = await MedicalHistoryDAO.getStats(startDate, endDate);
+        const stats = await MedicalHistoryDAO.getStats(startDate, endDate, await PatientAccessService.getScope(req));
         res.send({
             http_code: 200,
             data: stats,
@@ -314,7 +468,7 @@ export async function searchMedicalHistories(req: Request, res: Response, next:
             return;
         }
 
-        const histories = await MedicalHistoryDAO.searchMedicalHistories(query as string);
+        const histories = await MedicalHistoryDAO.searchMedicalHistories(query as string, await PatientAccessService.getScope(req));
 
         res.send({
             http_code: 200,
@@ -332,7 +486,8 @@ export async function getRecentMedicalHistories(req: Request, res: Response, nex
         const { limit } = req.query;
         
         const histories = await MedicalHistoryDAO.getRecentMedicalHistories(
-            limit ? parseInt(limit as string) : 10
+            limit ? parseInt(limit as string) : 10,
+            await PatientAccessService.getScope(req)
         );
         
         res.send({
@@ -351,7 +506,8 @@ export async function getUpcomingAppointments(req: Request, res: Response, next:
         const { days } = req.query;
         
         const appointments = await MedicalHistoryDAO.getUpcomingAppointments(
-            days ? parseInt(days as string) : 7
+            days ? parseInt(days as string) : 7,
+            await PatientAccessService.getScope(req)
         );
         
         res.send({
@@ -382,7 +538,7 @@ export async function getByDateRange(req: Request, res: Response, next: NextFunc
             return;
         }
 
-        const histories = await MedicalHistoryDAO.getByDateRange(start, end);
+        const histories = await MedicalHistoryDAO.getByDateRange(start, end, await PatientAccessService.getScope(req));
         
         res.send({
             http_code: 200,
@@ -430,8 +586,10 @@ export async function exportMedicalHistoriesToCSV(req: Request, res: Response, n
         if (search) {
             options.search = search as string;
         }
+        options.scope = await PatientAccessService.getScope(req);
 
         const histories = await MedicalHistoryDAO.getAll(options);
+        await AuditService.recordList('medical_history', histories, 'EXPORT');
 
         res.setHeader('Content-Type', 'text/csv');
         res.setHeader('Content-Disposition', 'attachment; filename=medical_histories_export.csv');
@@ -512,7 +670,14 @@ export async function getPatientProgressReport(req: Request, res: Response, next
             });
         }
 
+        if (!(await PatientAccessService.canAccessPatient(req, patientId))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
         const report = await MedicalHistoryDAO.getPatientProgressReport(patientId);
+        // Kepatuhan latihan rumah melengkapi objective_progress yang berupa teks bebas
+        const exerciseAdherence = await AdherenceService.getPatientAdherence(patientId);
 
         if (report.patient === null && report.total_sessions === 0) {
             const patientExists = await MedicalHistoryDAO.validatePatientExists(patientId);
@@ -528,14 +693,15 @@ export async function getPatientProgressReport(req: Request, res: Response, next
                 data: {
                     patient: null,
                     total_sessions: 0,
-                    sessions: []
+                    sessions: [],
+                    exercise_adherence: exerciseAdherence
                 }
             });
         }
 
         return res.status(200).json({
             http_code: 200,
-            data: report
+            data: { ...report, exercise_adherence: exerciseAdherence }
         });
     } catch (error: any) {
         console.error('Error getting progress report:', error);
@@ -544,4 +710,82 @@ export async function getPatientProgressReport(req: Request, res: Response, next
             error_message: error.message
         });
     }
-}
\ No newline at end of file
+}
+
+// PDF laporan progres; query opsional dateFrom, dateTo, treatment_plan_id, locale (id|en)
+export async function getPatientProgressReportPdf(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const patientId = parseInt(req.params.patientId);
+        if (isNaN(patientId)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const { dateFrom, dateTo, treatment_plan_id, locale } = req.query;
+        const filters: ProgressReportDAO.ProgressReportFilters = {};
+        if (dateFrom) {
+            const from = hidash.parseDateOrNull(dateFrom);
+            if (!from) {
+                next(new BadRequestError('dateFrom must be a valid date'));
+                return;
+            }
+            filters.dateFrom = from;
+        }
+        if (dateTo) {
+            const to = hidash.parseDateOrNull(dateTo);
+            if (!to) {
+                next(new BadRequestError('dateTo must be a valid date'));
+                return;
+            }
+            filters.dateTo = to;
+        }
+        if (filters.dateFrom && filters.dateTo && filters.dateFrom > filters.dateTo) {
+            next(new BadRequestError('dateFrom must not be after dateTo'));
+            return;
+        }
+
+        if (!(await PatientAccessService.canAccessPatient(req, patientId))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        const patient = await PatientDAO.getById(patientId);
+        if (!patient) {
+            next(new EntityNotFoundError('Patient', patientId));
+            return;
+        }
+        await AuditService.recordRead('patient', patient.id, patient.id);
+
+        let plan: any = null;
+        if (treatment_plan_id) {
+            const planId = parseInt(treatment_plan_id as string);
+            if (isNaN(planId)) {
+                next(new BadRequestError('treatment_plan_id must be a number'));
+                return;
+            }
+            plan = await TreatmentPlanDAO.getById(planId);
+            if (!plan || plan.patient_id !== patientId) {
+                next(new EntityNotFoundError('Treatment Plan', planId));
+                return;
+            }
+            filters.plan = plan;
+        }
+
+        const entries = await ProgressReportDAO.getEntries(patientId, filters);
+        const pdf = ProgressReportService.renderPdf({
+            patient,
+            entries,
+            plan,
+            dateFrom: filters.dateFrom,
+            dateTo: filters.dateTo,
+            preparedBy: await ProgressReportDAO.getPreparerName(req.decoded.user.id),
+            locale: locale as string | undefined
+        });
+
+        res.type('application/pdf');
+        res.setHeader('Content-Disposition', `inline; filename="progress-report-${patient.patient_code}.pdf"`);
+        res.send(pdf);
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
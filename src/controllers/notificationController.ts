@@ -0,0 +1,222 @@
+import crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { notification_channel, notification_status } from '@prisma/client';
+import {
+    BadParamIdError,
+    BadRequestError,
+    EntityNotFoundError,
+    InternalServerError,
+    UnauthorizedDataAccessError,
+    UnauthorizedError,
+} from '../errors/RequestErrorCollection';
+import * as NotificationOutboxDAO from '../daos/notificationOutboxDAO';
+import NotificationService from '../services/NotificationService';
+import PatientAccessService from '../services/PatientAccessService';
+import NotificationTemplates, { NOTIFICATION_LOCALES } from '../services/NotificationTemplates';
+import { TemplateSyntaxError } from '../utils/templateEngine';
+
+export async function getNotifications(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const { status, channel, template, recipient, patient_id, dateFrom, dateTo, limit, offset } = req.query;
+
+        const options: NotificationOutboxDAO.GetAllOptions = {};
+
+        if (status) {
+            if (!Object.values(notification_status).includes(status as notification_status)) {
+                next(new BadRequestError(`status must be one of ${Object.values(notification_status).join(', ')}`));
+                return;
+            }
+            options.status = status as notification_status;
+        }
+        if (channel) {
+            if (!Object.values(notification_channel).includes(channel as notification_channel)) {
+                next(new BadRequestError(`channel must be one of ${Object.values(notification_channel).join(', ')}`));
+                return;
+            }
+            options.channel = channel as notification_channel;
+        }
+        if (template) options.template = template as string;
+        if (recipient) options.recipient = recipient as string;
+        if (patient_id) options.patient_id = parseInt(patient_id as string);
+        if (dateFrom) options.dateFrom = new Date(dateFrom as string);
+        if (dateTo) options.dateTo = new Date(dateTo as string);
+        if (limit) options.limit = parseInt(limit as string);
+        if (offset) options.offset = parseInt(offset as string);
+
+        const notifications = await NotificationOutboxDAO.getAll(options);
+        res.send({
+            http_code: 200,
+            data: notifications,
+            count: notifications.length,
+            message: 'Notifications retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function getNotificationById(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const notification = await NotificationOutboxDAO.getById(id);
+        if (!notification) {
+            next(new EntityNotFoundError('Notification', id));
+            return;
+        }
+
+        // Payload & konten berisi data klinis pasien, jadi mengikuti scope pasien seperti endpoint klinis
+        if (notification.patient_id && !(await PatientAccessService.canAccessPatient(req, notification.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        res.send({
+            http_code: 200,
+            data: NotificationOutboxDAO.formatDetail(notification),
+            message: 'Notification retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function resendNotification(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const notification = await NotificationOutboxDAO.getById(id);
+        if (!notification) {
+            next(new EntityNotFoundError('Notification', id));
+            return;
+        }
+        if (notification.patient_id && !(await PatientAccessService.canAccessPatient(req, notification.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+        if (notification.status !== 'FAILED' && notification.status !== 'DEAD') {
+            next(new BadRequestError(`Only FAILED or DEAD notifications can be resent (current: ${notification.status})`, 'NOTIFICATION_NOT_RESENDABLE'));
+            return;
+        }
+        if (!notification.content) {
+            next(new BadRequestError('Notification content has been removed and cannot be resent', 'NOTIFICATION_NOT_RESENDABLE'));
+            return;
+        }
+        if (notification.attachments_removed_at) {
+            next(new BadRequestError('Notification attachments have been removed and cannot be resent', 'NOTIFICATION_NOT_RESENDABLE'));
+            return;
+        }
+
+        const result = await NotificationService.resend(id);
+        res.send({
+            http_code: 200,
+            data: NotificationOutboxDAO.formatForTable(result ?? await NotificationOutboxDAO.getById(id)),
+            message: 'Notification requeued successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+const isValidCallbackToken = (token: any) => {
+    const expected = process.env.NOTIFICATION_CALLBACK_TOKEN;
+    if (!expected || typeof token !== 'string') return false;
+
+    const a = Buffer.from(token);
+    const b = Buffer.from(expected);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+// Token dikirim via header x-callback-token atau query ?token= (sesuai kemampuan provider)
+export async function handleDeliveryCallback(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        if (!isValidCallbackToken(req.headers['x-callback-token'] ?? req.query.token)) {
+            next(new UnauthorizedError('Invalid callback token', 'INVALID_CALLBACK_TOKEN'));
+            return;
+        }
+
+        const result = await NotificationService.handleCallback(req.params.adapter, req.body);
+        if (!result) {
+            next(new BadRequestError(`Unsupported callback adapter: ${req.params.adapter}`));
+            return;
+        }
+
+        res.send({
+            http_code: 200,
+            data: result,
+            message: 'Delivery status processed'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function getTemplates(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const templates = NotificationTemplates.listTemplates();
+        res.send({
+            http_code: 200,
+            data: templates,
+            count: templates.length,
+            message: 'Notification templates retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+// GET memakai sample data dari template.json; POST { locale, data } menimpa sample data.
+// ?format=html mengembalikan HTML mentah supaya bisa dibuka langsung di browser.
+export async function previewTemplate(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const name = req.params.name;
+        if (!NotificationTemplates.isTemplate(name)) {
+            next(new EntityNotFoundError('Notification template', name));
+            return;
+        }
+
+        const locale = (req.body?.locale ?? req.query.locale) as string | undefined;
+        if (locale && !NotificationTemplates.isLocale(locale)) {
+            next(new BadRequestError(`locale must be one of ${NOTIFICATION_LOCALES.join(', ')}`));
+            return;
+        }
+
+        const data = req.body?.data;
+        if (data !== undefined && (typeof data !== 'object' || Array.isArray(data) || data === null)) {
+            next(new BadRequestError('data must be an object'));
+            return;
+        }
+
+        let result;
+        try {
+            result = NotificationTemplates.preview(name, locale, data);
+        } catch (error: any) {
+            if (error instanceof TemplateSyntaxError || error instanceof SyntaxError) {
+                next(new BadRequestError(`Template ${name} could not be rendered: ${error.message}`, 'TEMPLATE_RENDER_ERROR'));
+                return;
+            }
+            throw error;
+        }
+
+        if (req.query.format === 'html') {
+            res.type('html').send(result!.content.html ?? '');
+            return;
+        }
+
+        res.send({
+            http_code: 200,
+            data: { template: name, locale: result!.locale, ...result!.content },
+            message: 'Notification template rendered successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
@@ -0,0 +1,274 @@
+import { NextFunction, Request, Response } from 'express';
+import {
+    BadParamIdError,
+    BadRequestError,
+    EntityNotFoundError,
+    InternalServerError,
+    MissingBodyError,
+    UnauthorizedDataAccessError,
+} from '../errors/RequestErrorCollection';
+import * as OutcomeMeasureDAO from '../daos/outcomeMeasureDAO';
+import * as PatientDAO from '../daos/patientDAO';
+import * as TreatmentPlanDAO from '../daos/treatmentPlanDAO';
+import OutcomeMeasureService from '../services/OutcomeMeasureService';
+import PatientAccessService from '../services/PatientAccessService';
+import { isOutcomeMeasureCode, OUTCOME_MEASURE_CODES } from '../utils/outcomeMeasures';
+import hidash from '../utils/hidash';
+
+// Filter ?measure=&treatment_plan_id= yang dipakai list dan series
+function parseFilters(query: any): { measure?: any; treatment_plan_id?: number } | BadRequestError {
+    const filters: { measure?: any; treatment_plan_id?: number } = {};
+    if (query.measure) {
+        const measure = String(query.measure).toUpperCase();
+        if (!isOutcomeMeasureCode(measure)) {
+            return new BadRequestError(`measure must be one of ${OUTCOME_MEASURE_CODES.join(', ')}`);
+        }
+        filters.measure = measure;
+    }
+    if (query.treatment_plan_id) {
+        filters.treatment_plan_id = parseInt(query.treatment_plan_id as string);
+        if (isNaN(filters.treatment_plan_id)) return new BadRequestError('treatment_plan_id must be a number');
+    }
+    return filters;
+}
+
+export async function getDefinitions(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const definitions = OutcomeMeasureService.listDefinitions();
+        res.send({
+            http_code: 200,
+            data: definitions,
+            count: definitions.length,
+            message: 'Outcome measure definitions retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function getDefinition(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const code = String(req.params.code).toUpperCase();
+        if (!isOutcomeMeasureCode(code)) {
+            next(new EntityNotFoundError('Outcome Measure', req.params.code));
+            return;
+        }
+
+        res.send({
+            http_code: 200,
+            data: OutcomeMeasureService.getDefinition(code),
+            message: 'Outcome measure definition retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+// Mencatat hasil kuesioner; skor & interpretasi dihitung server dari jawaban per item
+export async function administerMeasure(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const body = req.body;
+        if (!body) {
+            next(new MissingBodyError());
+            return;
+        }
+
+        const isMissingProperty = hidash.checkPropertyV2(body, 'Outcome Measure', OutcomeMeasureDAO.getRequired());
+        if (isMissingProperty.message) {
+            next(isMissingProperty);
+            return;
+        }
+
+        body.measure = String(body.measure).toUpperCase();
+        if (!isOutcomeMeasureCode(body.measure)) {
+            next(new BadRequestError(`measure must be one of ${OUTCOME_MEASURE_CODES.join(', ')}`));
+            return;
+        }
+
+        const patientId = parseInt(body.patient_id);
+        const patient = isNaN(patientId) ? null : await PatientDAO.getById(patientId);
+        if (!patient) {
+            next(new BadRequestError('Patient not found'));
+            return;
+        }
+        if (!(await PatientAccessService.canAccessPatient(req, patientId))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        if (body.treatment_plan_id) {
+            const plan = await TreatmentPlanDAO.getById(parseInt(body.treatment_plan_id));
+            if (!plan || plan.patient_id !== patientId) {
+                next(new BadRequestError('Treatment plan not found for this patient'));
+                return;
+            }
+        }
+
+        if (body.administered_at !== undefined) {
+            const administeredAt = hidash.parseDateOrNull(body.administered_at);
+            if (!administeredAt) {
+                next(new BadRequestError('administered_at must be a valid date'));
+                return;
+            }
+            if (administeredAt > new Date()) {
+                next(new BadRequestError('administered_at cannot be in the future'));
+                return;
+            }
+        }
+
+        const validationError = OutcomeMeasureService.validateResponses(body.measure, body.responses);
+        if (validationError) {
+            next(validationError);
+            return;
+        }
+
+        body.administered_by = req.decoded.user.id;
+        const scored = OutcomeMeasureService.score(body.measure, body.responses);
+        const result = await OutcomeMeasureDAO.create(OutcomeMeasureDAO.formatCreate(body, scored));
+        res.send({
+            http_code: 200,
+            data: { ...result, answered_items: scored.answered_items },
+            message: 'Outcome measure recorded successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function getPatientResults(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const patientId = parseInt(req.params.patientId);
+        if (isNaN(patientId)) {
+            next(new BadParamIdError());
+            return;
+        }
+        if (!(await PatientAccessService.canAccessPatient(req, patientId))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        const filters = parseFilters(req.query);
+        if (filters instanceof BadRequestError) {
+            next(filters);
+            return;
+        }
+
+        const { dateFrom, dateTo, limit, offset } = req.query;
+        const options: OutcomeMeasureDAO.GetByPatientOptions = { ...filters };
+        if (dateFrom) {
+            const from = hidash.parseDateOrNull(dateFrom);
+            if (!from) {
+                next(new BadRequestError('dateFrom must be a valid date'));
+                return;
+            }
+            options.dateFrom = from;
+        }
+        if (dateTo) {
+            const to = hidash.parseDateOrNull(dateTo);
+            if (!to) {
+                next(new BadRequestError('dateTo must be a valid date'));
+                return;
+            }
+            options.dateTo = to;
+        }
+        if (limit) options.limit = parseInt(limit as string);
+        if (offset) options.offset = parseInt(offset as string);
+
+        const results = await OutcomeMeasureDAO.getByPatient(patientId, options);
+        res.send({
+            http_code: 200,
+            data: results,
+            count: results.length,
+            message: 'Outcome measure results retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+// Deret waktu per measure dengan perubahan terhadap baseline dan penanda MCID
+export async function getPatientSeries(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const patientId = parseInt(req.params.patientId);
+        if (isNaN(patientId)) {
+            next(new BadParamIdError());
+            return;
+        }
+        if (!(await PatientAccessService.canAccessPatient(req, patientId))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        const filters = parseFilters(req.query);
+        if (filters instanceof BadRequestError) {
+            next(filters);
+            return;
+        }
+
+        const series = await OutcomeMeasureService.getSeries(patientId, filters);
+        res.send({
+            http_code: 200,
+            data: series,
+            count: series.length,
+            message: 'Outcome measure series retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function getResultById(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const result = await OutcomeMeasureDAO.getById(id);
+        if (!result) {
+            next(new EntityNotFoundError('Outcome Measure Result', id));
+            return;
+        }
+        if (!(await PatientAccessService.canAccessPatient(req, result.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        res.send({
+            http_code: 200,
+            data: result,
+            message: 'Outcome measure result retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function deleteResult(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const result = await OutcomeMeasureDAO.getById(id);
+        if (!result) {
+            next(new EntityNotFoundError('Outcome Measure Result', id));
+            return;
+        }
+        if (!(await PatientAccessService.canAccessPatient(req, result.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        await OutcomeMeasureDAO.deleteResult(id);
+        res.send({
+            http_code: 200,
+            message: 'Outcome measure result deleted successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
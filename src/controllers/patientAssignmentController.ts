@@ -0,0 +1,209 @@
+import { NextFunction, Request, Response } from 'express';
+import {
+    BadParamIdError,
+    BadRequestError,
+    EntityNotFoundError,
+    InternalServerError,
+    MissingBodyError,
+    UnauthorizedDataAccessError,
+} from '../errors/RequestErrorCollection';
+import * as PatientAssignmentDAO from '../daos/patientAssignmentDAO';
+import * as PatientDAO from '../daos/patientDAO';
+import * as UserDAO from '../daos/userDAO';
+import PatientAccessService from '../services/PatientAccessService';
+import LogServices from '../services/LogServices';
+
+const MIN_EMERGENCY_REASON_LENGTH = 10;
+
+export async function getCareTeam(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const patientId = parseInt(req.params.patientId);
+        if (isNaN(patientId)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const patient = await PatientDAO.getById(patientId);
+        if (!patient) {
+            next(new EntityNotFoundError('Patient', patientId));
+            return;
+        }
+
+        if (!(await PatientAccessService.canAccessPatient(req, patientId))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        const assignments = await PatientAssignmentDAO.getByPatientId(patientId);
+        res.send({
+            http_code: 200,
+            data: assignments,
+            count: assignments.length,
+            message: 'Care team retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function assignClinician(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const body = req.body;
+        if (!body || !body.patient_id || !body.user_id) {
+            next(new MissingBodyError());
+            return;
+        }
+
+        const patientId = parseInt(body.patient_id);
+        const userId = parseInt(body.user_id);
+        if (isNaN(patientId) || isNaN(userId)) {
+            next(new BadRequestError('patient_id and user_id must be integers'));
+            return;
+        }
+
+        const patient = await PatientDAO.getById(patientId);
+        if (!patient) {
+            next(new EntityNotFoundError('Patient', patientId));
+            return;
+        }
+
+        const user = await UserDAO.getById(userId);
+        if (!user || !user.active) {
+            next(new EntityNotFoundError('User', userId));
+            return;
+        }
+
+        const result = await PatientAssignmentDAO.assign(patientId, userId, body.is_primary === true, req.decoded.user.id);
+        res.send({
+            http_code: 200,
+            data: result,
+            message: 'Clinician assigned successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function unassignClinician(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const patientId = parseInt(req.params.patientId);
+        const userId = parseInt(req.params.userId);
+        if (isNaN(patientId) || isNaN(userId)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const result = await PatientAssignmentDAO.unassign(patientId, userId);
+        if (result.count === 0) {
+            next(new EntityNotFoundError('Patient Assignment', `${patientId}/${userId}`));
+            return;
+        }
+
+        res.send({
+            http_code: 200,
+            message: 'Clinician unassigned successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function backfillAssignments(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const count = await PatientAssignmentDAO.backfillFromCreators();
+        res.send({
+            http_code: 200,
+            data: { assigned: count },
+            message: `${count} patient(s) assigned to their creator`
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function openEmergencyAccess(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const body = req.body;
+        if (!body || !body.patient_id || !body.reason) {
+            next(new MissingBodyError());
+            return;
+        }
+
+        const patientId = parseInt(body.patient_id);
+        if (isNaN(patientId)) {
+            next(new BadRequestError('patient_id must be an integer'));
+            return;
+        }
+
+        const reason = String(body.reason).trim();
+        if (reason.length < MIN_EMERGENCY_REASON_LENGTH) {
+            next(new BadRequestError(`Reason must be at least ${MIN_EMERGENCY_REASON_LENGTH} characters`));
+            return;
+        }
+
+        const patient = await PatientDAO.getById(patientId);
+        if (!patient) {
+            next(new EntityNotFoundError('Patient', patientId));
+            return;
+        }
+
+        const result = await PatientAccessService.openEmergencyAccess(req, patientId, reason);
+        res.send({
+            http_code: 200,
+            data: result,
+            message: `Emergency access granted for ${PatientAccessService.EMERGENCY_ACCESS_MINUTES} minutes. This access has been logged.`
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function getEmergencyAccessLog(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const { patient_id, user_id, active, limit, offset } = req.query;
+
+        const options: PatientAssignmentDAO.GetEmergencyAccessOptions = {};
+
+        if (patient_id) options.patient_id = parseInt(patient_id as string);
+        if (user_id) options.user_id = parseInt(user_id as string);
+        if (active === 'true') options.activeOnly = true;
+        if (limit) options.limit = parseInt(limit as string);
+        if (offset) options.offset = parseInt(offset as string);
+
+        const logs = await PatientAssignmentDAO.getAllEmergencyAccess(options);
+        res.send({
+            http_code: 200,
+            data: logs,
+            count: logs.length,
+            message: 'Emergency access log retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function revokeEmergencyAccess(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const access = await PatientAssignmentDAO.getEmergencyAccessById(id);
+        if (!access) {
+            next(new EntityNotFoundError('Emergency Access', id));
+            return;
+        }
+
+        await PatientAssignmentDAO.revokeEmergencyAccess(id);
+        LogServices.logToFile(`EMERGENCY_ACCESS_REVOKED access_id=${id} by user_id=${req.decoded.user.id}`);
+
+        res.send({
+            http_code: 200,
+            message: 'Emergency access revoked successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
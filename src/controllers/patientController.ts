@@ -5,8 +5,13 @@ import {
     EntityNotFoundError,
     InternalServerError,
     MissingBodyError,
+    UnauthorizedDataAccessError,
 } from '../errors/RequestErrorCollection';
 import * as PatientDAO from '../daos/patientDAO';
+import * as PatientAssignmentDAO from '../daos/patientAssignmentDAO';
+import PatientAccessService from '../services/PatientAccessService';
+import AuditService from '../services/AuditService';
+import PatientPortalService, { PatientSessionRevokeReason } from '../services/PatientPortalService';
 import hidash from '../utils/hidash';
 
 export async function createPatient(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
@@ -87,10 +92,31 @@ export async function createPatient(req: Request, res: Response, next: NextFunct
             }
         }
 
+        if (body.reminder_opt_out !== undefined && typeof body.reminder_opt_out !== 'boolean') {
+            next(new BadRequestError('reminder_opt_out must be a boolean'));
+            return;
+        }
+
+        if (body.portal_enabled !== undefined && typeof body.portal_enabled !== 'boolean') {
+            next(new BadRequestError('portal_enabled must be a boolean'));
+            return;
+        }
+        // Login portal memakai email pasien
+        if (body.portal_enabled && !body.email) {
+            next(new BadRequestError('Email is required to enable the patient portal'));
+            return;
+        }
+
         // Tambahkan created_by dari user yang login
         body.created_by = req.decoded?.id;
 
         const result = await PatientDAO.create(PatientDAO.formatCreate(body));
+
+        // Pembuat pasien otomatis menjadi primary clinician
+        if (body.created_by) {
+            await PatientAssignmentDAO.assign(result.id, parseInt(body.created_by), true, parseInt(body.created_by));
+        }
+
         res.send({
             http_code: 200,
             data: result,
@@ -114,6 +140,11 @@ export async function getPatientById(req: Request, res: Response, next: NextFunc
             next(new EntityNotFoundError('Patient', id));
             return;
         }
+        if (!(await PatientAccessService.canAccessPatient(req, patient.id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+        await AuditService.recordRead('patient', patient.id, patient.id);
 
         res.send({
             http_code: 200,
@@ -139,6 +170,11 @@ export async function getPatientByCode(req: Request, res: Response, next: NextFu
             next(new EntityNotFoundError('Patient', code as string));
             return;
         }
+        if (!(await PatientAccessService.canAccessPatient(req, patient.id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+        await AuditService.recordRead('patient', patient.id, patient.id);
 
         res.send({
             http_code: 200,
@@ -158,6 +194,7 @@ export async function getAllPatients(req: Request, res: Response) {
         
         if (search) options.search = search as string;
         if (gender) options.gender = gender;
+        options.scope = await PatientAccessService.getScope(req);
         
         // Handle time range filter
         if (timeRange && timeRange !== 'all') {
@@ -227,6 +264,10 @@ export async function updatePatient(req: Request, res: Response, next: NextFunct
             next(new EntityNotFoundError('Patient', id));
             return;
         }
+        if (!(await PatientAccessService.canAccessPatient(req, patient.id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
 
         // Validasi email jika diupdate
         if (body.email !== undefined) {
@@ -297,7 +338,28 @@ export async function updatePatient(req: Request, res: Response, next: NextFunct
             }
         }
 
+        if (body.reminder_opt_out !== undefined && typeof body.reminder_opt_out !== 'boolean') {
+            next(new BadRequestError('reminder_opt_out must be a boolean'));
+            return;
+        }
+
+        if (body.portal_enabled !== undefined && typeof body.portal_enabled !== 'boolean') {
+            next(new BadRequestError('portal_enabled must be a boolean'));
+            return;
+        }
+        const email = body.email !== undefined ? body.email : patient.email;
+        const portalEnabled = body.portal_enabled !== undefined ? body.portal_enabled : patient.portal_enabled;
+        if (portalEnabled && !email) {
+            next(new BadRequestError('Email is required to enable the patient portal'));
+            return;
+        }
+
         const result = await PatientDAO.update(id, body);
+
+        // Sesi portal dicabut jika akses dimatikan atau email login berganti
+        if (patient.portal_enabled && (!portalEnabled || email !== patient.email)) {
+            await PatientPortalService.revokeAllForPatient(id, PatientSessionRevokeReason.PORTAL_DISABLED);
+        }
         res.send({
             http_code: 200,
             data: result,
@@ -321,8 +383,13 @@ export async function deletePatient(req: Request, res: Response, next: NextFunct
             next(new EntityNotFoundError('Patient', id));
             return;
         }
+        if (!(await PatientAccessService.canAccessPatient(req, patient.id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
 
-        await PatientDAO.deletePatient(id);
+        await PatientDAO.deletePatient(id, req.decoded.user.id);
+        await PatientPortalService.revokeAllForPatient(id, PatientSessionRevokeReason.PORTAL_DISABLED);
         res.send({ 
             http_code: 200,
             message: 'Patient deleted successfully'
@@ -346,7 +413,7 @@ export async function getPatientStats(req: Request, res: Response, next: NextFun
             endDate = new Date(dateTo as string);
         }
 
-        const stats = await PatientDAO.getStats(startDate, endDate);
+        const stats = await PatientDAO.getStats(startDate, endDate, await PatientAccessService.getScope(req));
         res.send({
             http_code: 200,
             data: stats,
@@ -372,6 +439,11 @@ export async function getPatientByPhone(req: Request, res: Response, next: NextF
             next(new BadRequestError(`Patient with phone number ${phone} not found`));
             return;
         }
+        if (!(await PatientAccessService.canAccessPatient(req, patient.id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+        await AuditService.recordRead('patient', patient.id, patient.id);
 
         res.send({
             http_code: 200,
@@ -398,6 +470,11 @@ export async function getPatientByEmail(req: Request, res: Response, next: NextF
             next(new BadRequestError(`Patient with email ${email} not found`));
             return;
         }
+        if (!(await PatientAccessService.canAccessPatient(req, patient.id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+        await AuditService.recordRead('patient', patient.id, patient.id);
 
         res.send({
             http_code: 200,
@@ -418,7 +495,7 @@ export async function searchPatients(req: Request, res: Response, next: NextFunc
             return;
         }
 
-        const patients = await PatientDAO.searchPatients(query as string);
+        const patients = await PatientDAO.searchPatients(query as string, await PatientAccessService.getScope(req));
 
         res.send({
             http_code: 200,
@@ -435,21 +512,11 @@ export async function getRecentPatients(req: Request, res: Response, next: NextF
     try {
         const { limit } = req.query;
         
-        // Filter berdasarkan user yang login jika bukan admin
-        let patients;
-        const userRole = req.decoded?.role;
-        
-        if (userRole === 'ADMIN') {
-            patients = await PatientDAO.getRecentPatients(
-                limit ? parseInt(limit as string) : 10
-            );
-        } else {
-            const created_by = parseInt(req.decoded?.id);
-            patients = await PatientDAO.getPatientsByDoctor(created_by);
-            if (limit) {
-                patients = patients.slice(0, parseInt(limit as string));
-            }
-        }
+        // Dibatasi ke pasien yang di-assign jika user tidak punya patient:read_all
+        const patients = await PatientDAO.getRecentPatients(
+            limit ? parseInt(limit as string) : 10,
+            await PatientAccessService.getScope(req)
+        );
         
         res.send({
             http_code: 200,
@@ -489,13 +556,11 @@ export async function exportPatientsToCSV(req: Request, res: Response, next: Nex
             options.dateTo = new Date(dateTo as string);
         }
 
-        // Filter berdasarkan user yang login jika bukan admin
-        const userRole = req.decoded?.role;
-        if (userRole !== 'ADMIN') {
-            options.created_by = parseInt(req.decoded?.id);
-        }
+        // Dibatasi ke pasien yang di-assign jika user tidak punya patient:read_all
+        options.scope = await PatientAccessService.getScope(req);
 
         const patients = await PatientDAO.getAll(options);
+        await AuditService.recordList('patient', patients.map((p: any) => ({ id: p.id, patient_id: p.id })), 'EXPORT');
 
         // Set headers for CSV download
         res.setHeader('Content-Type', 'text/csv');
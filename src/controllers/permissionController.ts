@@ -0,0 +1,104 @@
+import { NextFunction, Request, Response } from 'express';
+import { users_role } from '@prisma/client';
+import {
+    BadRequestError,
+    InternalServerError,
+    MissingBodyError,
+} from '../errors/RequestErrorCollection';
+import PermissionService from '../services/PermissionService';
+import { LOCKED_ADMIN_PERMISSIONS, isPermission } from '../utils/permissions';
+
+function parseRoleAndPermission(req: Request) {
+    const { role, permission } = req.params;
+    if (!Object.values(users_role).includes(role as users_role)) {
+        return { error: new BadRequestError('role must be ADMIN, DOCTOR, or THERAPIST', 'INVALID_ROLE') };
+    }
+    if (!isPermission(permission)) {
+        return { error: new BadRequestError(`Unknown permission: ${permission}`, 'INVALID_PERMISSION') };
+    }
+    return { role: role as users_role, permission };
+}
+
+export async function getPermissionMatrix(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const matrix = await PermissionService.getMatrix();
+        res.send({
+            http_code: 200,
+            data: matrix,
+            message: 'Permission matrix retrieved'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function getOwnPermissions(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const role = req.decoded.user.role as users_role;
+        const permissions = await PermissionService.getPermissionsForRole(role);
+        res.send({
+            http_code: 200,
+            data: {
+                role,
+                permissions: Array.from(permissions).sort(),
+            },
+            message: 'Permissions retrieved'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function setPermissionOverride(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const parsed = parseRoleAndPermission(req);
+        if (parsed.error) {
+            next(parsed.error);
+            return;
+        }
+
+        const { granted } = req.body || {};
+        if (granted === undefined) {
+            next(new MissingBodyError());
+            return;
+        }
+        if (typeof granted !== 'boolean') {
+            next(new BadRequestError('granted must be a boolean', 'INVALID_BODY'));
+            return;
+        }
+
+        if (parsed.role === 'ADMIN' && !granted && LOCKED_ADMIN_PERMISSIONS.includes(parsed.permission!)) {
+            next(new BadRequestError(`${parsed.permission} cannot be revoked from ADMIN`, 'LOCKED_PERMISSION'));
+            return;
+        }
+
+        const result = await PermissionService.setOverride(parsed.role!, parsed.permission!, granted, req.decoded.user.id);
+        res.send({
+            http_code: 200,
+            data: result,
+            message: `Permission ${parsed.permission} ${granted ? 'granted to' : 'revoked from'} ${parsed.role}`
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+// Hapus override sehingga permission kembali ke default role
+export async function resetPermissionOverride(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const parsed = parseRoleAndPermission(req);
+        if (parsed.error) {
+            next(parsed.error);
+            return;
+        }
+
+        await PermissionService.clearOverride(parsed.role!, parsed.permission!);
+        res.send({
+            http_code: 200,
+            data: null,
+            message: `Permission ${parsed.permission} for ${parsed.role} reset to default`
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
@@ -0,0 +1,269 @@
+import { NextFunction, Request, Response } from 'express';
+import {
+    BadParamIdError,
+    BadRequestError,
+    EntityNotFoundError,
+    InternalServerError,
+    MissingBodyError,
+    RequestError,
+} from '../errors/RequestErrorCollection';
+import * as PortalDAO from '../daos/portalDAO';
+import * as ExerciseAdherenceDAO from '../daos/exerciseAdherenceDAO';
+import PatientPortalService, { PatientSessionRevokeReason } from '../services/PatientPortalService';
+import AdherenceService from '../services/AdherenceService';
+import ExerciseProgramService from '../services/ExerciseProgramService';
+import NotificationTemplates from '../services/NotificationTemplates';
+
+const LOGIN_METHODS = ['otp', 'magic_link'];
+
+// ─────────────────────────────────────────────
+// AUTH (public)
+// ─────────────────────────────────────────────
+
+export async function requestLogin(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { email, method = 'otp' } = req.body || {};
+        if (!email) return next(new MissingBodyError());
+        if (!LOGIN_METHODS.includes(method)) {
+            return next(new BadRequestError(`method must be one of ${LOGIN_METHODS.join(', ')}`));
+        }
+
+        await PatientPortalService.requestLogin(String(email).trim(), method, req);
+
+        // Respon selalu sama agar tidak bisa dipakai untuk menebak email pasien
+        return res.send({
+            message: method === 'otp'
+                ? 'If the email is registered for the patient portal, a verification code has been sent.'
+                : 'If the email is registered for the patient portal, a login link has been sent.',
+        });
+    } catch (error: any) {
+        if (error instanceof RequestError) return next(error);
+        return next(new InternalServerError(error));
+    }
+}
+
+export async function verifyLogin(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { email, otp, token } = req.body || {};
+
+        if (token) {
+            return res.json(await PatientPortalService.verifyMagicLink(String(token), req));
+        }
+        if (!email || !otp) return next(new MissingBodyError());
+
+        return res.json(await PatientPortalService.verifyOtp(String(email).trim(), String(otp), req));
+    } catch (error: any) {
+        if (error instanceof RequestError) return next(error);
+        return next(new InternalServerError(error));
+    }
+}
+
+export async function refreshToken(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { refresh_token } = req.body || {};
+        if (!refresh_token) return next(new MissingBodyError());
+
+        return res.json(await PatientPortalService.rotateRefreshToken(refresh_token));
+    } catch (error: any) {
+        if (error instanceof RequestError) return next(error);
+        return next(new InternalServerError(error));
+    }
+}
+
+// ─────────────────────────────────────────────
+// PATIENT (portal token)
+// ─────────────────────────────────────────────
+
+export async function logout(req: Request, res: Response, next: NextFunction) {
+    try {
+        await PatientPortalService.revokeSession(req.portal!.session_id, PatientSessionRevokeReason.LOGOUT);
+        return res.send({ message: 'Logged out successfully' });
+    } catch (error: any) {
+        return next(new InternalServerError(error));
+    }
+}
+
+export async function getMe(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        res.send({
+            http_code: 200,
+            data: PortalDAO.formatProfile(req.portal!.patient),
+            message: 'Profile retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function getTreatmentPlans(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const plans = await PortalDAO.getTreatmentPlans(req.portal!.patient_id);
+        res.send({
+            http_code: 200,
+            data: plans,
+            count: plans.length,
+            message: 'Treatment plans retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function getTreatmentPlanById(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        // Plan milik pasien lain diperlakukan sama dengan plan yang tidak ada
+        const plan = await PortalDAO.getTreatmentPlan(req.portal!.patient_id, id);
+        if (!plan) {
+            next(new EntityNotFoundError('Treatment plan', id));
+            return;
+        }
+
+        res.send({
+            http_code: 200,
+            data: plan,
+            message: 'Treatment plan retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+// Homework, latihan dan tips pemulihan dari log yang sudah ditandatangani
+export async function getHomework(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const { treatment_plan_id, limit, offset } = req.query;
+        const options: PortalDAO.GetLogsOptions = {};
+
+        if (treatment_plan_id) {
+            options.treatment_plan_id = parseInt(treatment_plan_id as string);
+            if (isNaN(options.treatment_plan_id)) {
+                next(new BadRequestError('treatment_plan_id must be a number'));
+                return;
+            }
+        }
+        if (limit) options.limit = parseInt(limit as string);
+        if (offset) options.offset = parseInt(offset as string);
+
+        const logs = await PortalDAO.getLogs(req.portal!.patient_id, options);
+        res.send({
+            http_code: 200,
+            data: logs,
+            count: logs.length,
+            message: 'Homework retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function getUpcomingAppointments(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const appointments = await PortalDAO.getUpcomingAppointments(req.portal!.patient_id);
+        res.send({
+            http_code: 200,
+            data: appointments,
+            count: appointments.length,
+            message: 'Upcoming appointments retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function getProgress(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        let treatmentPlanId: number | undefined;
+        if (req.query.treatment_plan_id) {
+            treatmentPlanId = parseInt(req.query.treatment_plan_id as string);
+            if (isNaN(treatmentPlanId)) {
+                next(new BadRequestError('treatment_plan_id must be a number'));
+                return;
+            }
+        }
+
+        const progress = await PortalDAO.getProgress(req.portal!.patient_id, treatmentPlanId);
+        res.send({
+            http_code: 200,
+            data: progress,
+            message: 'Progress retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+// Program latihan yang sedang berjalan; ?locale=id|en&format=html untuk versi siap cetak
+export async function getExerciseProgram(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const locale = NotificationTemplates.isLocale(req.query.locale) ? req.query.locale : undefined;
+        const program = await ExerciseProgramService.getCurrentProgram(req.portal!.patient_id, { locale });
+
+        if (req.query.format === 'html') {
+            const { content } = ExerciseProgramService.renderProgram(program, req.portal!.patient, locale);
+            res.type('html').send(content.html ?? '');
+            return;
+        }
+
+        res.send({
+            http_code: 200,
+            data: program,
+            message: 'Exercise program retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+// Pasien mencatat sesi latihan yang sudah dilakukan, dengan skala nyeri (0-10) & kesulitan (1-5)
+export async function logExerciseSession(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const id = parseInt(req.params.prescriptionId);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const body = req.body || {};
+        const prescription = await PortalDAO.getActivePrescription(req.portal!.patient_id, id);
+        if (!prescription) {
+            next(new EntityNotFoundError('Exercise prescription', id));
+            return;
+        }
+
+        const validationError = AdherenceService.validateSession(body, prescription);
+        if (validationError) {
+            next(validationError);
+            return;
+        }
+
+        const result = await ExerciseAdherenceDAO.create({
+            ...ExerciseAdherenceDAO.formatCreate(id, body),
+            source: 'PATIENT'
+        });
+        res.send({
+            http_code: 200,
+            data: result,
+            message: 'Exercise session logged successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function getAdherence(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        res.send({
+            http_code: 200,
+            data: await AdherenceService.getPatientAdherence(req.portal!.patient_id),
+            message: 'Exercise adherence retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
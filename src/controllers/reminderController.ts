@@ -0,0 +1,62 @@
+import { NextFunction, Request, Response } from 'express';
+import { notification_channel, reminder_delivery_status, reminder_type } from '@prisma/client';
+import { BadRequestError, InternalServerError } from '../errors/RequestErrorCollection';
+import * as ReminderDeliveryDAO from '../daos/reminderDeliveryDAO';
+
+export async function getDeliveries(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const {
+            patient_id,
+            appointment_id,
+            treatment_log_id,
+            reminder_type: type,
+            channel,
+            status,
+            dateFrom,
+            dateTo,
+            limit,
+            offset
+        } = req.query;
+
+        const options: ReminderDeliveryDAO.GetAllOptions = {};
+
+        if (patient_id) options.patient_id = parseInt(patient_id as string);
+        if (appointment_id) options.appointment_id = parseInt(appointment_id as string);
+        if (treatment_log_id) options.treatment_log_id = parseInt(treatment_log_id as string);
+        if (type) {
+            if (!Object.values(reminder_type).includes(type as reminder_type)) {
+                next(new BadRequestError(`reminder_type must be one of ${Object.values(reminder_type).join(', ')}`));
+                return;
+            }
+            options.reminder_type = type as reminder_type;
+        }
+        if (channel) {
+            if (!Object.values(notification_channel).includes(channel as notification_channel)) {
+                next(new BadRequestError(`channel must be one of ${Object.values(notification_channel).join(', ')}`));
+                return;
+            }
+            options.channel = channel as notification_channel;
+        }
+        if (status) {
+            if (!Object.values(reminder_delivery_status).includes(status as reminder_delivery_status)) {
+                next(new BadRequestError(`status must be one of ${Object.values(reminder_delivery_status).join(', ')}`));
+                return;
+            }
+            options.status = status as reminder_delivery_status;
+        }
+        if (dateFrom) options.dateFrom = new Date(dateFrom as string);
+        if (dateTo) options.dateTo = new Date(dateTo as string);
+        if (limit) options.limit = parseInt(limit as string);
+        if (offset) options.offset = parseInt(offset as string);
+
+        const deliveries = await ReminderDeliveryDAO.getAll(options);
+        res.send({
+            http_code: 200,
+            data: deliveries,
+            count: deliveries.length,
+            message: 'Reminder deliveries retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
@@ -0,0 +1,237 @@
+import { NextFunction, Request, Response } from 'express';
+import {
+    BadParamIdError,
+    BadRequestError,
+    EntityNotFoundError,
+    InternalServerError,
+    MissingBodyError,
+    RequestError,
+    UnauthorizedDataAccessError,
+} from '../errors/RequestErrorCollection';
+import * as RomMeasurementDAO from '../daos/romMeasurementDAO';
+import * as MedicalHistoryDAO from '../daos/medicalHistoryDAO';
+import * as TreatmentLogDAO from '../daos/treatmentLogDAO';
+import * as TreatmentPlanDAO from '../daos/treatmentPlanDAO';
+import PatientAccessService from '../services/PatientAccessService';
+import PermissionService from '../services/PermissionService';
+import RomMeasurementService from '../services/RomMeasurementService';
+import { isJointCode, JOINT_CODES } from '../utils/jointMovements';
+
+type ParentType = 'medical_history' | 'treatment_log';
+
+const PARENT_LABELS: Record<ParentType, string> = {
+    medical_history: 'Medical History',
+    treatment_log: 'Treatment Log',
+};
+
+// Pengukuran ikut terkunci bersama entry induknya setelah ditandatangani
+const entryLocked = (parentType: ParentType, id: number) =>
+    new RequestError(
+        `${PARENT_LABELS[parentType].toUpperCase()} [${id}] is signed. Measurements can only be changed while it is a draft.`,
+        409,
+        'ENTRY_LOCKED'
+    );
+
+const getParent = async (parentType: ParentType, id: number) =>
+    parentType === 'medical_history' ? await MedicalHistoryDAO.getById(id) : await TreatmentLogDAO.getById(id);
+
+const addMeasurements = (parentType: ParentType, param: string) =>
+    async (req: Request, res: Response, next: NextFunction): Promise<void | Response> => {
+        try {
+            const parentId = parseInt(req.params[param]);
+            if (isNaN(parentId)) {
+                next(new BadParamIdError());
+                return;
+            }
+
+            const body = req.body;
+            if (!body) {
+                next(new MissingBodyError());
+                return;
+            }
+
+            const parent = await getParent(parentType, parentId);
+            if (!parent) {
+                next(new EntityNotFoundError(PARENT_LABELS[parentType], parentId));
+                return;
+            }
+            if (!(await PatientAccessService.canAccessPatient(req, parent.patient_id))) {
+                next(new UnauthorizedDataAccessError());
+                return;
+            }
+            if (parent.status !== 'DRAFT') {
+                next(entryLocked(parentType, parentId));
+                return;
+            }
+
+            const validationError = RomMeasurementService.validateMeasurements(body.measurements);
+            if (validationError) {
+                next(validationError);
+                return;
+            }
+
+            const parentRef = { patient_id: parent.patient_id, [`${parentType}_id`]: parentId };
+            // Status dicek ulang di transaksi: entry bisa ditandatangani setelah dicek di atas
+            const results = await RomMeasurementDAO.createMany(
+                parentRef,
+                body.measurements.map((item: any) =>
+                    RomMeasurementDAO.formatCreate(item, parentRef, RomMeasurementService.normalFor(item), req.decoded.user.id)
+                )
+            );
+            if (!results) {
+                next(entryLocked(parentType, parentId));
+                return;
+            }
+            res.send({
+                http_code: 200,
+                data: results,
+                count: results.length,
+                message: 'Measurements recorded successfully'
+            });
+        } catch (error: any) {
+            next(new InternalServerError(error));
+        }
+    };
+
+const getMeasurements = (parentType: ParentType, param: string) =>
+    async (req: Request, res: Response, next: NextFunction): Promise<void | Response> => {
+        try {
+            const parentId = parseInt(req.params[param]);
+            if (isNaN(parentId)) {
+                next(new BadParamIdError());
+                return;
+            }
+
+            const parent = await getParent(parentType, parentId);
+            if (!parent) {
+                next(new EntityNotFoundError(PARENT_LABELS[parentType], parentId));
+                return;
+            }
+            if (!(await PatientAccessService.canAccessPatient(req, parent.patient_id))) {
+                next(new UnauthorizedDataAccessError());
+                return;
+            }
+
+            const measurements = parentType === 'medical_history'
+                ? await RomMeasurementDAO.getByMedicalHistory(parentId)
+                : await RomMeasurementDAO.getByTreatmentLog(parentId);
+            res.send({
+                http_code: 200,
+                data: measurements,
+                count: measurements.length,
+                message: 'Measurements retrieved successfully'
+            });
+        } catch (error: any) {
+            next(new InternalServerError(error));
+        }
+    };
+
+export const addToMedicalHistory = addMeasurements('medical_history', 'historyId');
+export const addToTreatmentLog = addMeasurements('treatment_log', 'logId');
+export const getByMedicalHistory = getMeasurements('medical_history', 'historyId');
+export const getByTreatmentLog = getMeasurements('treatment_log', 'logId');
+
+export async function getDefinitions(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        res.send({
+            http_code: 200,
+            data: RomMeasurementService.listDefinitions(),
+            message: 'Measurement definitions retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+// Tren ROM/MMT per sendi sepanjang treatment plan, termasuk % terhadap nilai normal
+export async function getPlanTrends(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const planId = parseInt(req.params.planId);
+        if (isNaN(planId)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const { joint, movement, side } = req.query;
+        if (joint && !isJointCode(joint)) {
+            next(new BadRequestError(`joint must be one of ${JOINT_CODES.join(', ')}`));
+            return;
+        }
+        if (side && side !== 'LEFT' && side !== 'RIGHT') {
+            next(new BadRequestError('side must be LEFT or RIGHT'));
+            return;
+        }
+
+        const plan = await TreatmentPlanDAO.getById(planId);
+        if (!plan) {
+            next(new EntityNotFoundError('Treatment Plan', planId));
+            return;
+        }
+        if (!(await PatientAccessService.canAccessPatient(req, plan.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        const measurements = await RomMeasurementDAO.getForPlan(plan, {
+            joint: joint as string | undefined,
+            movement: movement as string | undefined,
+            side: side as 'LEFT' | 'RIGHT' | undefined
+        });
+        const trends = RomMeasurementService.buildTrends(measurements);
+        res.send({
+            http_code: 200,
+            data: trends,
+            count: trends.length,
+            message: 'Measurement trends retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+// Izin hapus mengikuti entry induk (medical_history:write atau treatment_log:write)
+export async function deleteMeasurement(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const measurement = await RomMeasurementDAO.getById(id);
+        if (!measurement) {
+            next(new EntityNotFoundError('Measurement', id));
+            return;
+        }
+
+        const parentType: ParentType = measurement.medical_history_id ? 'medical_history' : 'treatment_log';
+        const parentId: number = measurement.medical_history_id ?? measurement.treatment_log_id;
+        const required = parentType === 'medical_history' ? 'medical_history:write' : 'treatment_log:write';
+        if (!(await PermissionService.hasPermissions(req.decoded.user.role, [required]))) {
+            next(new RequestError('Access denied', 403, 'FORBIDDEN', new Date(), { required_permissions: [required] }));
+            return;
+        }
+        if (!(await PatientAccessService.canAccessPatient(req, measurement.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        const parent = await getParent(parentType, parentId);
+        if (parent && parent.status !== 'DRAFT') {
+            next(entryLocked(parentType, parentId));
+            return;
+        }
+
+        const parentRef = { patient_id: measurement.patient_id, [`${parentType}_id`]: parentId };
+        if (!(await RomMeasurementDAO.deleteMeasurement(id, parentRef))) {
+            next(entryLocked(parentType, parentId));
+            return;
+        }
+        res.send({
+            http_code: 200,
+            message: 'Measurement deleted successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
@@ -7,6 +7,7 @@ import {
     MissingBodyError,
 } from '../errors/RequestErrorCollection';
 import * as StaffDAO from '../daos/staffDAO';
+import * as StaffWorkingHoursDAO from '../daos/staffWorkingHoursDAO';
 import hidash from '../utils/hidash';
 
 export async function createStaff(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
@@ -255,4 +256,68 @@ export async function getStaffByPhone(req: Request, res: Response, next: NextFun
     } catch (error: any) {
         next(new InternalServerError(error));
     }
-}
\ No newline at end of file
+}
+export async function getWorkingHours(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const staff = await StaffDAO.getById(id);
+        if (!staff) {
+            next(new EntityNotFoundError('Staff', id));
+            return;
+        }
+
+        const result = await StaffWorkingHoursDAO.getByStaffId(id);
+        res.send(result);
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+// body.working_hours = [{ day_of_week: 1, start_time: '08:00', end_time: '12:00' }, ...]
+export async function setWorkingHours(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const hours = req.body?.working_hours;
+        if (!Array.isArray(hours)) {
+            next(new BadRequestError('working_hours must be an array'));
+            return;
+        }
+
+        const staff = await StaffDAO.getById(id);
+        if (!staff) {
+            next(new EntityNotFoundError('Staff', id));
+            return;
+        }
+
+        const timeRegex = /^([01][0-9]|2[0-3]):[0-5][0-9]$/;
+        for (const h of hours) {
+            if (!Number.isInteger(h?.day_of_week) || h.day_of_week < 0 || h.day_of_week > 6) {
+                next(new BadRequestError('day_of_week must be between 0 (Sunday) and 6 (Saturday)'));
+                return;
+            }
+            if (!timeRegex.test(h.start_time) || !timeRegex.test(h.end_time) || h.start_time >= h.end_time) {
+                next(new BadRequestError('start_time and end_time must be HH:mm and start_time must be before end_time'));
+                return;
+            }
+        }
+
+        const result = await StaffWorkingHoursDAO.replaceForStaff(id, hours.map((h: any) => ({
+            day_of_week: h.day_of_week,
+            start_time: h.start_time,
+            end_time: h.end_time
+        })));
+        res.send(result);
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
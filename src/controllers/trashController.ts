@@ -0,0 +1,109 @@
+import { NextFunction, Request, Response } from 'express';
+import {
+    BadParamIdError,
+    BadRequestError,
+    EntityNotFoundError,
+    InternalServerError,
+} from '../errors/RequestErrorCollection';
+import TrashService, { TRASH_ENTITY_TYPES, TrashEntityType, TrashListOptions } from '../services/TrashService';
+
+function parseEntityType(value: any): TrashEntityType | null {
+    return TrashService.isTrashEntityType(value) ? value : null;
+}
+
+export async function getTrash(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const { entity_type, patient_id, search, limit, offset } = req.query;
+
+        const entityType = parseEntityType(entity_type || 'patient');
+        if (!entityType) {
+            next(new BadRequestError(`entity_type must be one of ${TRASH_ENTITY_TYPES.join(', ')}`));
+            return;
+        }
+
+        const options: TrashListOptions = {};
+        if (patient_id) options.patient_id = parseInt(patient_id as string);
+        if (search) options.search = search as string;
+        if (limit) options.limit = parseInt(limit as string);
+        if (offset) options.offset = parseInt(offset as string);
+
+        const result = await TrashService.getDeleted(entityType, options);
+        res.send({
+            http_code: 200,
+            data: result,
+            count: result.length,
+            retention_days: TrashService.SOFT_DELETE_RETENTION_DAYS,
+            message: 'Deleted records retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function restoreRecord(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const entityType = parseEntityType(req.params.entityType);
+        if (!entityType) {
+            next(new BadRequestError(`entityType must be one of ${TRASH_ENTITY_TYPES.join(', ')}`));
+            return;
+        }
+
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const record = await TrashService.getDeletedRecord(entityType, id);
+        if (!record) {
+            next(new EntityNotFoundError(`Deleted ${entityType}`, id));
+            return;
+        }
+
+        const parent = await TrashService.getDeletedParent(entityType, id);
+        if (parent) {
+            next(new BadRequestError(`Restore ${parent.entity_type} ${parent.id} first`, 'PARENT_DELETED'));
+            return;
+        }
+
+        const result = await TrashService.restore(entityType, id);
+        res.send({
+            http_code: 200,
+            data: result,
+            message: 'Record restored successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function purgeRecord(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const entityType = parseEntityType(req.params.entityType);
+        if (!entityType) {
+            next(new BadRequestError(`entityType must be one of ${TRASH_ENTITY_TYPES.join(', ')}`));
+            return;
+        }
+
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        // Hanya record yang sudah di trash yang bisa dihapus permanen
+        const record = await TrashService.getDeletedRecord(entityType, id);
+        if (!record) {
+            next(new EntityNotFoundError(`Deleted ${entityType}`, id));
+            return;
+        }
+
+        await TrashService.purge(entityType, id);
+        res.send({
+            http_code: 200,
+            message: 'Record permanently deleted'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
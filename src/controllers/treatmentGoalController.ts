@@ -0,0 +1,349 @@
+import { NextFunction, Request, Response } from 'express';
+import {
+    BadParamIdError,
+    BadRequestError,
+    EntityNotFoundError,
+    InternalServerError,
+    MissingBodyError,
+    RequestError,
+    UnauthorizedDataAccessError,
+} from '../errors/RequestErrorCollection';
+import * as TreatmentGoalDAO from '../daos/treatmentGoalDAO';
+import * as TreatmentLogDAO from '../daos/treatmentLogDAO';
+import * as TreatmentPlanDAO from '../daos/treatmentPlanDAO';
+import PatientAccessService from '../services/PatientAccessService';
+import TreatmentGoalService from '../services/TreatmentGoalService';
+import hidash from '../utils/hidash';
+
+// Progress ikut terkunci bersama treatment log setelah ditandatangani
+const logLocked = (id: number) =>
+    new RequestError(`TREATMENT LOG [${id}] is signed. Goal progress can only be changed while it is a draft.`, 409, 'ENTRY_LOCKED');
+
+export async function createGoal(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const body = req.body;
+        if (!body) {
+            next(new MissingBodyError());
+            return;
+        }
+
+        const isMissingProperty = hidash.checkPropertyV2(body, 'Treatment Goal', TreatmentGoalDAO.getRequired());
+        if (isMissingProperty.message) {
+            next(isMissingProperty);
+            return;
+        }
+
+        const validationError = TreatmentGoalService.validateGoal(body);
+        if (validationError) {
+            next(validationError);
+            return;
+        }
+
+        const plan = await TreatmentPlanDAO.getById(parseInt(body.treatment_plan_id));
+        if (!plan) {
+            next(new BadRequestError('Treatment plan not found'));
+            return;
+        }
+        if (!(await PatientAccessService.canAccessPatient(req, plan.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        const result = await TreatmentGoalDAO.create(TreatmentGoalDAO.formatCreate(body, plan, req.decoded.user.id));
+        res.send({
+            http_code: 200,
+            data: result,
+            message: 'Treatment goal created successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+// Goal satu plan beserta seri progress dan posisi terhadap target
+export async function getGoalsByPlan(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const planId = parseInt(req.params.planId);
+        if (isNaN(planId)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const plan = await TreatmentPlanDAO.getById(planId);
+        if (!plan) {
+            next(new EntityNotFoundError('Treatment Plan', planId));
+            return;
+        }
+        if (!(await PatientAccessService.canAccessPatient(req, plan.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        const report = TreatmentGoalService.buildPlanReport(await TreatmentGoalDAO.getByPlan(planId));
+        res.send({
+            http_code: 200,
+            data: report,
+            count: report.goals.length,
+            message: 'Treatment goals retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+/**
+ * Pencapaian goal seluruh klinik (sebatas pasien yang boleh diakses user).
+ * ?dateFrom=&dateTo= menyaring target_date, ?staff_id=&service_type= menyaring plan.
+ */
+export async function getClinicReport(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const { dateFrom, dateTo, staff_id, service_type } = req.query;
+        const filters: TreatmentGoalDAO.GoalReportFilters = {};
+        if (dateFrom) {
+            const from = hidash.parseDateOrNull(dateFrom);
+            if (!from) {
+                next(new BadRequestError('dateFrom must be a valid date'));
+                return;
+            }
+            filters.dateFrom = from;
+        }
+        if (dateTo) {
+            const to = hidash.parseDateOrNull(dateTo);
+            if (!to) {
+                next(new BadRequestError('dateTo must be a valid date'));
+                return;
+            }
+            filters.dateTo = to;
+        }
+        if (staff_id) {
+            if (isNaN(parseInt(staff_id as string))) {
+                next(new BadRequestError('staff_id must be an integer'));
+                return;
+            }
+            filters.staff_id = parseInt(staff_id as string);
+        }
+        if (service_type) filters.service_type = service_type as string;
+        filters.scope = await PatientAccessService.getScope(req);
+
+        const goals = await TreatmentGoalDAO.getForReport(filters);
+        res.send({
+            http_code: 200,
+            data: TreatmentGoalService.buildClinicReport(goals),
+            message: 'Goal attainment report retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function getGoalById(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const goal = await TreatmentGoalDAO.getById(id);
+        if (!goal) {
+            next(new EntityNotFoundError('Treatment Goal', id));
+            return;
+        }
+        if (!(await PatientAccessService.canAccessPatient(req, goal.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        res.send({
+            http_code: 200,
+            data: { ...goal, attainment: TreatmentGoalService.attainment(goal) },
+            message: 'Treatment goal retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+// Termasuk evaluasi: status ACHIEVED / PARTIALLY_ACHIEVED / NOT_ACHIEVED dengan status_note
+export async function updateGoal(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const body = req.body;
+        if (!body) {
+            next(new MissingBodyError());
+            return;
+        }
+
+        const goal = await TreatmentGoalDAO.getById(id);
+        if (!goal) {
+            next(new EntityNotFoundError('Treatment Goal', id));
+            return;
+        }
+        if (!(await PatientAccessService.canAccessPatient(req, goal.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        const validationError = TreatmentGoalService.validateGoal(body, goal);
+        if (validationError) {
+            next(validationError);
+            return;
+        }
+
+        const result = await TreatmentGoalDAO.update(id, body, req.decoded.user.id);
+        res.send({
+            http_code: 200,
+            data: { ...result, attainment: TreatmentGoalService.attainment(result) },
+            message: 'Treatment goal updated successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function deleteGoal(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const goal = await TreatmentGoalDAO.getById(id);
+        if (!goal) {
+            next(new EntityNotFoundError('Treatment Goal', id));
+            return;
+        }
+        if (!(await PatientAccessService.canAccessPatient(req, goal.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        await TreatmentGoalDAO.deleteGoal(id);
+        res.send({
+            http_code: 200,
+            message: 'Treatment goal deleted successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+// ─────────────────────────────────────────────
+// PROGRESS PER TREATMENT LOG
+// ─────────────────────────────────────────────
+
+// body {progress: [{goal_id, value?, note?}]}; goal yang sudah tercatat di log ini ditimpa
+export async function recordProgress(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const logId = parseInt(req.params.logId);
+        if (isNaN(logId)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const body = req.body;
+        if (!body) {
+            next(new MissingBodyError());
+            return;
+        }
+
+        const log = await TreatmentLogDAO.getById(logId);
+        if (!log) {
+            next(new EntityNotFoundError('Treatment Log', logId));
+            return;
+        }
+        if (!(await PatientAccessService.canAccessPatient(req, log.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+        if (log.status !== 'DRAFT') {
+            next(logLocked(logId));
+            return;
+        }
+
+        const goals = await TreatmentGoalDAO.getByPlan(log.treatment_plan_id);
+        const items = TreatmentGoalService.validateProgress(body.progress, goals.map((goal) => goal.id));
+        if (items instanceof BadRequestError) {
+            next(items);
+            return;
+        }
+
+        const results = await TreatmentGoalDAO.saveProgress(logId, log.patient_id, items, req.decoded.user.id);
+        res.send({
+            http_code: 200,
+            data: results,
+            count: results.length,
+            message: 'Goal progress recorded successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function getProgressByLog(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const logId = parseInt(req.params.logId);
+        if (isNaN(logId)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const log = await TreatmentLogDAO.getById(logId);
+        if (!log) {
+            next(new EntityNotFoundError('Treatment Log', logId));
+            return;
+        }
+        if (!(await PatientAccessService.canAccessPatient(req, log.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        const progress = await TreatmentGoalDAO.getProgressByLog(logId);
+        res.send({
+            http_code: 200,
+            data: progress,
+            count: progress.length,
+            message: 'Goal progress retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function deleteProgress(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const progress = await TreatmentGoalDAO.getProgressById(id);
+        if (!progress) {
+            next(new EntityNotFoundError('Goal Progress', id));
+            return;
+        }
+        if (!(await PatientAccessService.canAccessPatient(req, progress.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+        if (progress.log_status !== 'DRAFT') {
+            next(logLocked(progress.treatment_log_id));
+            return;
+        }
+
+        await TreatmentGoalDAO.deleteProgress(id);
+        res.send({
+            http_code: 200,
+            message: 'Goal progress deleted successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
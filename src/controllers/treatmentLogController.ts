@@ -1,14 +1,24 @@
 import { NextFunction, Request, Response } from 'express';
+import { clinical_entry_status } from '@prisma/client';
 import {
     BadParamIdError,
     BadRequestError,
     EntityNotFoundError,
+    EntryLockedError,
     InternalServerError,
     MissingBodyError,
+    PlanClosedError,
+    RequestError,
+    UnauthorizedDataAccessError,
     UnauthorizedError,
 } from '../errors/RequestErrorCollection';
 import * as TreatmentLogDAO from '../daos/treatmentLogDAO';
 import * as TreatmentPlanDAO from '../daos/treatmentPlanDAO';
+import AuditService from '../services/AuditService';
+import PatientAccessService from '../services/PatientAccessService';
+import TreatmentPlanStatusService from '../services/TreatmentPlanStatusService';
+import * as RevisionDAO from '../daos/revisionDAO';
+import SignatureService from '../services/SignatureService';
 import hidash from '../utils/hidash';
 
 export async function createLog(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
@@ -31,6 +41,16 @@ export async function createLog(req: Request, res: Response, next: NextFunction)
             return;
         }
 
+        if (!(await PatientAccessService.canAccessPatient(req, plan.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        if (TreatmentPlanStatusService.isClosed(plan.status)) {
+            next(new PlanClosedError(plan.id, plan.status));
+            return;
+        }
+
         const userId = req.decoded?.id;
         if (!userId) {
             next(new UnauthorizedError('User not authenticated'));
@@ -79,6 +99,12 @@ export async function getLogById(req: Request, res: Response, next: NextFunction
             return;
         }
 
+        if (!(await PatientAccessService.canAccessPatient(req, log.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+        await AuditService.recordRead('treatment_log', log.id, log.patient_id);
+
         res.send({
             http_code: 200,
             data: log,
@@ -99,7 +125,8 @@ export async function getAllLogs(req: Request, res: Response, next: NextFunction
             dateFrom,
             dateTo,
             limit,
-            offset
+            offset,
+            status
         } = req.query;
 
         const options: any = {};
@@ -112,6 +139,14 @@ export async function getAllLogs(req: Request, res: Response, next: NextFunction
         if (dateTo) options.dateTo = new Date(dateTo as string);
         if (limit) options.limit = parseInt(limit as string);
         if (offset) options.offset = parseInt(offset as string);
+        if (status) {
+            if (!Object.values(clinical_entry_status).includes(status as clinical_entry_status)) {
+                next(new BadRequestError(`status must be one of ${Object.values(clinical_entry_status).join(', ')}`));
+                return;
+            }
+            options.status = status as clinical_entry_status;
+        }
+        options.scope = await PatientAccessService.getScope(req);
 
         const logs = await TreatmentLogDAO.getAll(options);
 
@@ -146,6 +181,18 @@ export async function updateLog(req: Request, res: Response, next: NextFunction)
             return;
         }
 
+        if (!(await PatientAccessService.canAccessPatient(req, log.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        // Entry yang sudah ditandatangani hanya bisa diubah sebagai amendment dengan alasan
+        const amendmentReason = typeof body.amendment_reason === 'string' ? body.amendment_reason.trim() : '';
+        if (log.status !== 'DRAFT' && !amendmentReason) {
+            next(new EntryLockedError('Treatment Log', id));
+            return;
+        }
+
         // Validate pain scale
         if (body.pain_before !== undefined && (body.pain_before < 1 || body.pain_before > 10)) {
             next(new BadRequestError('Pain before must be between 1 and 10'));
@@ -157,7 +204,15 @@ export async function updateLog(req: Request, res: Response, next: NextFunction)
             return;
         }
 
-        const result = await TreatmentLogDAO.update(id, body);
+        const result = await TreatmentLogDAO.update(id, body, log.status, {
+            changed_by: req.decoded.user.id,
+            reason: amendmentReason || null,
+            is_amendment: log.status !== 'DRAFT'
+        });
+        if (!result) {
+            next(new RequestError('Treatment log status was changed by another request', 409, 'ENTRY_STATUS_CHANGED'));
+            return;
+        }
         res.send({
             http_code: 200,
             data: result,
@@ -168,6 +223,89 @@ export async function updateLog(req: Request, res: Response, next: NextFunction)
     }
 }
 
+export async function signLog(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const password = req.body?.password;
+        if (!password) {
+            next(new MissingBodyError());
+            return;
+        }
+
+        const log = await TreatmentLogDAO.getById(id);
+        if (!log) {
+            next(new EntityNotFoundError('Treatment Log', id));
+            return;
+        }
+
+        if (!(await PatientAccessService.canAccessPatient(req, log.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        if (!SignatureService.canSign(log.status)) {
+            next(new BadRequestError('Treatment log is already signed', 'ALREADY_SIGNED'));
+            return;
+        }
+
+        // Re-autentikasi: tanda tangan hanya sah jika password penandatangan benar
+        if (!(await SignatureService.verifySignerPassword(req.decoded.user.id, password))) {
+            next(new BadRequestError('Password is incorrect!', 'INVALID_CREDENTIALS'));
+            return;
+        }
+
+        const result = await TreatmentLogDAO.sign(id, req.decoded.user.id);
+        if (!result) {
+            next(new RequestError('Treatment log was signed by another request', 409, 'ALREADY_SIGNED'));
+            return;
+        }
+        res.send({
+            http_code: 200,
+            data: result,
+            message: 'Treatment log signed successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
+export async function getLogRevisions(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const log = await TreatmentLogDAO.getById(id);
+        if (!log) {
+            next(new EntityNotFoundError('Treatment Log', id));
+            return;
+        }
+
+        if (!(await PatientAccessService.canAccessPatient(req, log.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+        await AuditService.recordRead('treatment_log', log.id, log.patient_id);
+
+        const revisions = await RevisionDAO.getTreatmentLogRevisions(id);
+        res.send({
+            http_code: 200,
+            data: revisions,
+            count: revisions.length,
+            message: 'Treatment log revisions retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
+
 export async function deleteLog(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
     try {
         const id = parseInt(req.params.id);
@@ -182,7 +320,12 @@ export async function deleteLog(req: Request, res: Response, next: NextFunction)
             return;
         }
 
-        await TreatmentLogDAO.deleteLog(id);
+        if (!(await PatientAccessService.canAccessPatient(req, log.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        await TreatmentLogDAO.deleteLog(id, req.decoded.user.id);
         res.send({
             http_code: 200,
             message: 'Treatment log deleted successfully'
@@ -194,7 +337,7 @@ export async function deleteLog(req: Request, res: Response, next: NextFunction)
 
 export async function getFollowUpLogs(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
     try {
-        const followUps = await TreatmentLogDAO.getFollowUpList();
+        const followUps = await TreatmentLogDAO.getFollowUpList(await PatientAccessService.getScope(req));
         res.send({
             http_code: 200,
             data: followUps,
@@ -5,16 +5,22 @@ import {
     EntityNotFoundError,
     InternalServerError,
     MissingBodyError,
+    RequestError,
+    UnauthorizedDataAccessError,
     UnauthorizedError,
 } from '../errors/RequestErrorCollection';
 import * as TreatmentPlanDAO from '../daos/treatmentPlanDAO';
+import AdherenceService from '../services/AdherenceService';
+import AuditService from '../services/AuditService';
+import PatientAccessService from '../services/PatientAccessService';
+import TreatmentPlanStatusService, { PlanStatusAction } from '../services/TreatmentPlanStatusService';
 import { validatePatientExists } from '../daos/medicalHistoryDAO'; // reuse existing validator if possible, or define locally. Wait, validatePatientExists is in medicalHistoryDAO.
 import hidash from '../utils/hidash';
 import prisma from '../services/prisma';
 
 // Re-implementing validatePatientExists to avoid depending on medicalHistoryDAO
 async function validatePatientExistsLocal(patient_id: number): Promise<boolean> {
-    const patient = await prisma.patient.findUnique({ where: { id: patient_id } });
+    const patient = await prisma.patient.findFirst({ where: { id: patient_id, deleted_at: null } });
     return !!patient;
 }
 
@@ -32,12 +38,23 @@ export async function createPlan(req: Request, res: Response, next: NextFunction
             return;
         }
 
+        // Plan selalu dibuat ACTIVE; status hanya berubah lewat endpoint transisi
+        if ((body.status !== undefined && body.status !== 'ACTIVE') || body.ended_at) {
+            next(new BadRequestError('New treatment plans always start as ACTIVE without ended_at', 'INVALID_STATUS_TRANSITION'));
+            return;
+        }
+
         const patientExists = await validatePatientExistsLocal(body.patient_id);
         if (!patientExists) {
             next(new BadRequestError('Patient not found'));
             return;
         }
 
+        if (!(await PatientAccessService.canAccessPatient(req, parseInt(body.patient_id)))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
         const userId = req.decoded?.id;
         if (!userId) {
             next(new UnauthorizedError('User not authenticated'));
@@ -74,9 +91,15 @@ export async function getPlanById(req: Request, res: Response, next: NextFunctio
             return;
         }
 
+        if (!(await PatientAccessService.canAccessPatient(req, plan.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+        await AuditService.recordRead('treatment_plan', plan.id, plan.patient_id);
+
         res.send({
             http_code: 200,
-            data: plan,
+            data: { ...plan, adherence: await AdherenceService.getPlanAdherence(id) },
             message: 'Treatment plan retrieved successfully'
         });
     } catch (error: any) {
@@ -109,6 +132,7 @@ export async function getAllPlans(req: Request, res: Response, next: NextFunctio
         if (offset) options.offset = parseInt(offset as string);
         if (sortBy) options.sortBy = sortBy as string;
         if (sortOrder) options.sortOrder = sortOrder as 'asc' | 'desc';
+        options.scope = await PatientAccessService.getScope(req);
 
         const plans = await TreatmentPlanDAO.getAll(options);
 
@@ -143,6 +167,17 @@ export async function updatePlan(req: Request, res: Response, next: NextFunction
             return;
         }
 
+        if (!(await PatientAccessService.canAccessPatient(req, plan.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        // ended_at diatur otomatis oleh transisi status dan diabaikan di sini
+        if (body.status !== undefined && body.status !== plan.status) {
+            next(new BadRequestError('Status can only be changed through the hold, resume, complete, cancel and reopen endpoints', 'INVALID_STATUS_TRANSITION'));
+            return;
+        }
+
         const result = await TreatmentPlanDAO.update(id, body);
         res.send({
             http_code: 200,
@@ -168,7 +203,12 @@ export async function deletePlan(req: Request, res: Response, next: NextFunction
             return;
         }
 
-        await TreatmentPlanDAO.deletePlan(id);
+        if (!(await PatientAccessService.canAccessPatient(req, plan.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+
+        await TreatmentPlanDAO.deletePlan(id, req.decoded.user.id);
         res.send({
             http_code: 200,
             message: 'Treatment plan deleted successfully'
@@ -177,3 +217,93 @@ export async function deletePlan(req: Request, res: Response, next: NextFunction
         next(new InternalServerError(error));
     }
 }
+
+// Satu handler per aksi state machine; body wajib berisi `reason`
+function transition(action: PlanStatusAction) {
+    return async (req: Request, res: Response, next: NextFunction): Promise<void | Response> => {
+        try {
+            const id = parseInt(req.params.id);
+            if (isNaN(id)) {
+                next(new BadParamIdError());
+                return;
+            }
+
+            const reason = TreatmentPlanStatusService.validateReason(req.body?.reason);
+            if (reason instanceof BadRequestError) {
+                next(reason);
+                return;
+            }
+
+            const plan = await TreatmentPlanDAO.getById(id);
+            if (!plan) {
+                next(new EntityNotFoundError('Treatment Plan', id));
+                return;
+            }
+
+            if (!(await PatientAccessService.canAccessPatient(req, plan.patient_id))) {
+                next(new UnauthorizedDataAccessError());
+                return;
+            }
+
+            if (!TreatmentPlanStatusService.canApply(action, plan.status)) {
+                next(new BadRequestError(`Cannot ${action} a ${plan.status} treatment plan`, 'INVALID_STATUS_TRANSITION'));
+                return;
+            }
+
+            const result = await TreatmentPlanStatusService.apply(plan, action, reason, req.decoded.user.id);
+            if (!result) {
+                next(new RequestError('Treatment plan status changed while processing this request. Reload and try again.', 409, 'STATUS_CONFLICT'));
+                return;
+            }
+            res.send({
+                http_code: 200,
+                data: result,
+                message: `Treatment plan is now ${result.status}`
+            });
+        } catch (error: any) {
+            next(new InternalServerError(error));
+        }
+    };
+}
+
+export const holdPlan = transition('hold');
+export const resumePlan = transition('resume');
+export const completePlan = transition('complete');
+export const cancelPlan = transition('cancel');
+export const reopenPlan = transition('reopen');
+
+export async function getStatusHistory(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) {
+            next(new BadParamIdError());
+            return;
+        }
+
+        const plan = await TreatmentPlanDAO.getById(id);
+        if (!plan) {
+            next(new EntityNotFoundError('Treatment Plan', id));
+            return;
+        }
+
+        if (!(await PatientAccessService.canAccessPatient(req, plan.patient_id))) {
+            next(new UnauthorizedDataAccessError());
+            return;
+        }
+        await AuditService.recordRead('treatment_plan', plan.id, plan.patient_id);
+
+        const history = await TreatmentPlanDAO.getStatusHistory(id);
+        res.send({
+            http_code: 200,
+            data: {
+                status: plan.status,
+                available_actions: TreatmentPlanStatusService.availableActions(plan.status),
+                history
+            },
+            count: history.length,
+            message: 'Treatment plan status history retrieved successfully'
+        });
+    } catch (error: any) {
+        next(new InternalServerError(error));
+    }
+}
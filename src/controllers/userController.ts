@@ -6,12 +6,23 @@ import {
     InternalServerError,
     MissingBodyError,
     RequestError,
+    UnauthorizedError,
 } from '../errors/RequestErrorCollection';
 import * as UserDAO from '../daos/userDAO';
+import * as UserSessionDAO from '../daos/userSessionDAO';
+import * as LoginThrottleDAO from '../daos/loginThrottleDAO';
+import * as UserRecoveryCodeDAO from '../daos/userRecoveryCodeDAO';
+import * as RoleSecurityPolicyDAO from '../daos/roleSecurityPolicyDAO';
+import SessionService, { SessionRevokeReason } from '../services/SessionService';
+import LoginThrottleService from '../services/LoginThrottleService';
+import TwoFactorService from '../services/TwoFactorService';
 import hidash from '../utils/hidash';
 import crypto from '../utils/crypto';
-import jwt from 'jsonwebtoken';
-import { users_role } from '@prisma/client';
+import { getClientIp } from '../utils/requestInfo';
+import NotificationService from '../services/NotificationService';
+import LogServices from '../services/LogServices';
+import { login_throttle_scope, users_role } from '@prisma/client';
+import QRCode from 'qrcode';
 
 declare module 'express-serve-static-core' {
     interface Request {
@@ -19,11 +30,27 @@ declare module 'express-serve-static-core' {
     }
 }
 
+// Dipakai saat username tidak ditemukan agar waktu respon login tetap seragam
+const DUMMY_SALT = crypto.generateSalt();
+let dummyPasswordHash: Promise<string> | null = null;
+const getDummyPasswordHash = () => {
+    if (!dummyPasswordHash) dummyPasswordHash = crypto.generatePassword(crypto.generateSalt(), DUMMY_SALT);
+    return dummyPasswordHash;
+};
+
+const EMAIL_OTP_EXPIRY_MINUTES = 10;
+const EMAIL_OTP_MAX_ATTEMPTS = 5;
+const PASSWORD_RESET_EXPIRY_MINUTES = parseInt(process.env.PASSWORD_RESET_EXPIRY_MINUTES || '30');
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
 function safeUser(u: any) {
     return {
         id: u.id,
         username: u.username,
+        email: u.email,
+        email_verified: !!u.email_verified_at,
         role: u.role,
+        two_factor_enabled: !!u.totp_enabled,
         active: u.active,
         created_at: u.created_at,
         modified_at: u.modified_at,
@@ -40,9 +67,7 @@ export async function createUser(req: Request, res: Response, next: NextFunction
         if (!body) return next(new MissingBodyError());
 
         const salt = crypto.generateSalt();
-        const password = crypto.generatePassword(body.password, salt);
         body.salt = salt;
-        body.password = password;
         body.role = 'THERAPIST';
 
         const isMissingProperty = hidash.checkPropertyV2(body, 'User', UserDAO.getRequired());
@@ -53,6 +78,14 @@ export async function createUser(req: Request, res: Response, next: NextFunction
             return next(new BadRequestError('Username already exists!', 'USERNAME_EXISTS'));
         }
 
+        if (body.email) {
+            if (!EMAIL_REGEX.test(body.email)) return next(new BadRequestError('Invalid email format', 'INVALID_EMAIL'));
+            const existingEmail = await UserDAO.getByEmail(body.email);
+            if (existingEmail) return next(new BadRequestError('Email already exists!', 'EMAIL_EXISTS'));
+        }
+
+        body.password = await crypto.generatePassword(body.password, salt);
+
         const result = await UserDAO.create(UserDAO.formatCreate(body));
         return res.send(hidash.desensitizedFactory(result));
     } catch (error: any) {
@@ -65,35 +98,179 @@ export const login = async (req: Request, res: Response, next: NextFunction) =>
         const body = req.body;
         if (!body) return next(new MissingBodyError());
 
+        if (!body.username || !body.password) {
+            return next(new BadRequestError('Invalid username or password!', 'INVALID_CREDENTIALS'));
+        }
+
+        const ip = getClientIp(req);
+        await LoginThrottleService.assertNotLocked(body.username, ip);
+
         const user = await UserDAO.getByUsername(body.username);
-        if (!user) return next(new EntityNotFoundError('Username', body.username));
+        const isPasswordValid = user
+            ? await crypto.verifyPassword(body.password, user.salt, user.password)
+            : await crypto.verifyPassword(body.password, DUMMY_SALT, await getDummyPasswordHash());
+
+        // Username tidak ada dan password salah diberi respon yang sama
+        if (!user || !isPasswordValid) {
+            await LoginThrottleService.registerFailure(body.username, ip);
+            return next(new BadRequestError('Invalid username or password!', 'INVALID_CREDENTIALS'));
+        }
 
         if (!user.active) {
             return next(new BadRequestError('Your account is deactivated. Please contact administrator.', 'ACCOUNT_DEACTIVATED'));
         }
 
-        const hashedPassword = crypto.generatePassword(body.password, user.salt);
-        if (hashedPassword !== user.password) {
-            return next(new BadRequestError('Invalid username or password!'));
+        // Upgrade hash lama (SHA1) ke format baru secara diam-diam
+        if (crypto.passwordNeedsRehash(user.password)) {
+            const newSalt = crypto.generateSalt();
+            const newHashedPassword = await crypto.generatePassword(body.password, newSalt);
+            await UserDAO.updatePassword(user.id, newHashedPassword, newSalt);
         }
 
-        const token = jwt.sign(
-            {
-                authenticated: true,
-                id: user.id,
-                username: user.username,
-                role: user.role,
-            },
-            process.env.TOKEN_SECRET as jwt.Secret,
-            { expiresIn: '7d' }
-        );
+        // Login dua langkah: kembalikan challenge token, JWT penuh diberikan setelah kode 2FA valid
+        if (user.totp_enabled) {
+            return res.json({
+                two_factor_required: true,
+                challenge_token: TwoFactorService.signChallengeToken(user),
+                expires_in: TwoFactorService.CHALLENGE_TOKEN_EXPIRES_IN,
+            });
+        }
+
+        // Hitungan gagal baru di-reset setelah login benar-benar selesai, termasuk langkah 2FA
+        await LoginThrottleService.registerSuccess(body.username);
+        const session = await SessionService.createSession(user, req);
 
-        return res.json({ ...safeUser(user), token });
+        return res.json({
+            ...safeUser(user),
+            ...session,
+            two_factor_setup_required: await TwoFactorService.isRequiredForRole(user.role),
+        });
     } catch (error: any) {
+        if (error instanceof RequestError) return next(error);
         return next(new InternalServerError(error.message));
     }
 };
 
+export async function loginTwoFactor(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { challenge_token, code, recovery_code } = req.body;
+        if (!challenge_token || (!code && !recovery_code)) return next(new MissingBodyError());
+
+        const userId = TwoFactorService.verifyChallengeToken(challenge_token);
+        if (!userId) return next(new UnauthorizedError('Login challenge is invalid or has expired', 'INVALID_CHALLENGE_TOKEN'));
+
+        const user = await UserDAO.getById(userId);
+        if (!user || !user.active || !user.totp_enabled) {
+            return next(new UnauthorizedError('Login challenge is invalid or has expired', 'INVALID_CHALLENGE_TOKEN'));
+        }
+
+        const ip = getClientIp(req);
+        await LoginThrottleService.assertNotLocked(user.username, ip);
+
+        const isValid = await TwoFactorService.verifySecondFactor(user, code, recovery_code);
+        if (!isValid) {
+            await LoginThrottleService.registerFailure(user.username, ip);
+            return next(new BadRequestError('Invalid two-factor authentication code', 'INVALID_2FA_CODE'));
+        }
+
+        await LoginThrottleService.registerSuccess(user.username);
+        const session = await SessionService.createSession(user, req, true);
+        return res.json({ ...safeUser(user), ...session });
+    } catch (error: any) {
+        if (error instanceof RequestError) return next(error);
+        return next(new InternalServerError(error));
+    }
+}
+
+export async function refreshToken(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { refresh_token } = req.body;
+        if (!refresh_token) return next(new MissingBodyError());
+
+        const result = await SessionService.rotateRefreshToken(refresh_token);
+        return res.json({
+            ...safeUser(result.user),
+            token: result.token,
+            refresh_token: result.refresh_token,
+            expires_in: result.expires_in,
+        });
+    } catch (error: any) {
+        if (error instanceof RequestError) return next(error);
+        return next(new InternalServerError(error));
+    }
+}
+
+export async function forgotPassword(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { email } = req.body;
+        if (!email) return next(new MissingBodyError());
+
+        // Respon selalu sama agar tidak bisa dipakai untuk menebak email yang terdaftar
+        const genericResponse = {
+            message: 'If the email is registered and verified, a password reset link has been sent.',
+        };
+
+        const user = await UserDAO.getByEmail(String(email));
+        if (!user || !user.active || !user.email || !user.email_verified_at) {
+            return res.send(genericResponse);
+        }
+
+        const token = crypto.generateSecureToken();
+        await UserDAO.setPasswordResetToken(
+            user.id,
+            crypto.hashSHA512(token),
+            hidash.nowPlusMinute(PASSWORD_RESET_EXPIRY_MINUTES)
+        );
+
+        const resetUrl = process.env.PASSWORD_RESET_URL || 'http://localhost:3000/reset-password';
+        try {
+            await NotificationService.send({
+                channel: 'EMAIL',
+                template: 'password_reset',
+                recipient: user.email,
+                recipient_name: user.username,
+                payload: {
+                    name: user.username,
+                    email: user.email,
+                    reset_link: `${resetUrl}?token=${token}`,
+                    expiry_minutes: PASSWORD_RESET_EXPIRY_MINUTES,
+                },
+            });
+        } catch (err: any) {
+            LogServices.logToFile(`Failed to send password reset email to user ${user.id}`, err);
+        }
+
+        return res.send(genericResponse);
+    } catch (error: any) {
+        return next(new InternalServerError(error));
+    }
+}
+
+export async function confirmPasswordReset(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { token, newPassword } = req.body;
+        if (!token || !newPassword) return next(new MissingBodyError());
+
+        const tokenHash = crypto.hashSHA512(String(token));
+        const invalidToken = new BadRequestError('Reset token is invalid or has expired', 'INVALID_RESET_TOKEN');
+        const user = await UserDAO.getByValidPasswordResetToken(tokenHash);
+        if (!user) return next(invalidToken);
+
+        const newSalt = crypto.generateSalt();
+        const newHashedPassword = await crypto.generatePassword(newPassword, newSalt);
+        if (!(await UserDAO.resetPasswordWithToken(user.id, tokenHash, newHashedPassword, newSalt))) {
+            return next(invalidToken);
+        }
+
+        await SessionService.revokeAllForUser(user.id, SessionRevokeReason.PASSWORD_CHANGED);
+        await LoginThrottleService.clearUsername(user.username);
+
+        return res.send({ message: 'Password reset successfully' });
+    } catch (error: any) {
+        return next(new InternalServerError(error));
+    }
+}
+
 // ─────────────────────────────────────────────
 // SELF (any authenticated user)
 // ─────────────────────────────────────────────
@@ -115,6 +292,46 @@ export async function getSelfData(req: Request, res: Response, next: NextFunctio
     }
 }
 
+export async function logout(req: Request, res: Response, next: NextFunction) {
+    try {
+        const sessionId = req.decoded?.sid;
+        if (!sessionId) return next(new BadRequestError('Invalid token data', 'INVALID_TOKEN_DATA'));
+
+        await SessionService.revokeSession(sessionId, SessionRevokeReason.LOGOUT);
+        return res.send({ message: 'Logged out successfully' });
+    } catch (error: any) {
+        return next(new InternalServerError(error));
+    }
+}
+
+export async function getOwnSessions(req: Request, res: Response, next: NextFunction) {
+    try {
+        const userId = parseInt(req.decoded?.id);
+        if (isNaN(userId)) return next(new BadRequestError('Invalid token data', 'INVALID_TOKEN_DATA'));
+
+        const sessions = await UserSessionDAO.getActiveByUser(userId);
+        return res.send(sessions.map((s) => UserSessionDAO.formatForList(s, req.decoded?.sid)));
+    } catch (error: any) {
+        return next(new InternalServerError(error));
+    }
+}
+
+export async function revokeOwnSession(req: Request, res: Response, next: NextFunction) {
+    try {
+        const sessionId = parseInt(req.params.sessionId);
+        if (isNaN(sessionId)) return next(new BadParamIdError());
+
+        const userId = parseInt(req.decoded?.id);
+        const session = await UserSessionDAO.getById(sessionId);
+        if (!session || session.user_id !== userId) return next(new EntityNotFoundError('Session', sessionId));
+
+        await SessionService.revokeSession(sessionId, SessionRevokeReason.REVOKED_BY_USER);
+        return res.send({ message: 'Session revoked successfully' });
+    } catch (error: any) {
+        return next(new InternalServerError(error));
+    }
+}
+
 export async function resetOwnPassword(req: Request, res: Response, next: NextFunction) {
     try {
         const { currentPassword, newPassword } = req.body;
@@ -129,15 +346,17 @@ export async function resetOwnPassword(req: Request, res: Response, next: NextFu
         const user = await UserDAO.getById(userId);
         if (!user) return next(new EntityNotFoundError('User', userId));
 
-        const currentHashedPassword = crypto.generatePassword(currentPassword, user.salt);
-        if (currentHashedPassword !== user.password) {
+        const isCurrentPasswordValid = await crypto.verifyPassword(currentPassword, user.salt, user.password);
+        if (!isCurrentPasswordValid) {
             return next(new BadRequestError('Current password is incorrect!'));
         }
 
         const newSalt = crypto.generateSalt();
-        const newHashedPassword = crypto.generatePassword(newPassword, newSalt);
+        const newHashedPassword = await crypto.generatePassword(newPassword, newSalt);
 
         const result = await UserDAO.updatePassword(userId, newHashedPassword, newSalt);
+        // Sesi lain dicabut, sesi yang sedang dipakai tetap berlaku
+        await SessionService.revokeAllForUser(userId, SessionRevokeReason.PASSWORD_CHANGED, req.decoded?.sid);
         return res.send({
             message: 'Password reset successfully',
             user: safeUser(result),
@@ -178,6 +397,205 @@ export async function updateOwnProfile(req: Request, res: Response, next: NextFu
     }
 }
 
+export async function updateOwnEmail(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { email } = req.body;
+        if (!email) return next(new MissingBodyError());
+        if (!EMAIL_REGEX.test(email)) return next(new BadRequestError('Invalid email format', 'INVALID_EMAIL'));
+
+        const userId = parseInt(req.decoded?.id);
+        if (isNaN(userId)) return next(new BadRequestError('Invalid token data', 'INVALID_TOKEN_DATA'));
+
+        const existingUser = await UserDAO.getByEmail(email);
+        if (existingUser && existingUser.id !== userId) {
+            return next(new BadRequestError('Email already exists!', 'EMAIL_EXISTS'));
+        }
+
+        const otp = crypto.generateNumericCode(6);
+        const result = await UserDAO.setEmail(
+            userId,
+            email,
+            crypto.hashSHA512(otp),
+            hidash.nowPlusMinute(EMAIL_OTP_EXPIRY_MINUTES)
+        );
+
+        await NotificationService.send({
+            channel: 'EMAIL',
+            template: 'otp',
+            recipient: result.email!,
+            recipient_name: result.username,
+            payload: {
+                name: result.username,
+                email: result.email!,
+                otp_code: otp,
+                expiry_minutes: EMAIL_OTP_EXPIRY_MINUTES,
+                purpose: 'verifikasi email',
+            },
+        });
+
+        return res.send({
+            message: 'Verification code sent to email',
+            user: safeUser(result),
+        });
+    } catch (error: any) {
+        return next(new InternalServerError(error));
+    }
+}
+
+export async function verifyOwnEmail(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { otp } = req.body;
+        if (!otp) return next(new MissingBodyError());
+
+        const userId = parseInt(req.decoded?.id);
+        if (isNaN(userId)) return next(new BadRequestError('Invalid token data', 'INVALID_TOKEN_DATA'));
+
+        const user = await UserDAO.getById(userId);
+        if (!user) return next(new EntityNotFoundError('User', userId));
+
+        if (!user.otp || !user.otp_expired_at || user.otp_expired_at < new Date()
+            || user.otp_attempts >= EMAIL_OTP_MAX_ATTEMPTS) {
+            return next(new BadRequestError('Verification code has expired, please request a new one', 'OTP_EXPIRED'));
+        }
+
+        if (crypto.hashSHA512(String(otp)) !== user.otp) {
+            await UserDAO.incrementOtpAttempts(userId);
+            return next(new BadRequestError('Invalid verification code', 'INVALID_OTP'));
+        }
+
+        const result = await UserDAO.markEmailVerified(userId);
+        return res.send({
+            message: 'Email verified successfully',
+            user: safeUser(result),
+        });
+    } catch (error: any) {
+        return next(new InternalServerError(error));
+    }
+}
+
+export async function getTwoFactorStatus(req: Request, res: Response, next: NextFunction) {
+    try {
+        const user = req.decoded.user;
+        return res.send({
+            enabled: !!user.totp_enabled,
+            enabled_at: user.totp_enabled_at,
+            required_by_role: await TwoFactorService.isRequiredForRole(user.role),
+            session_verified: req.decoded.mfa === true,
+            recovery_codes_remaining: user.totp_enabled ? await UserRecoveryCodeDAO.countUnused(user.id) : 0,
+        });
+    } catch (error: any) {
+        return next(new InternalServerError(error));
+    }
+}
+
+export async function setupTwoFactor(req: Request, res: Response, next: NextFunction) {
+    try {
+        const user = req.decoded.user;
+        if (user.totp_enabled) {
+            return next(new BadRequestError('Two-factor authentication is already enabled', 'TWO_FACTOR_ALREADY_ENABLED'));
+        }
+
+        const enrollment = await TwoFactorService.beginEnrollment(user);
+        const qrCode = await QRCode.toDataURL(enrollment.otpauth_uri);
+
+        return res.send({
+            secret: enrollment.secret,
+            otpauth_uri: enrollment.otpauth_uri,
+            qr_code: qrCode,
+        });
+    } catch (error: any) {
+        return next(new InternalServerError(error));
+    }
+}
+
+export async function confirmTwoFactor(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { code } = req.body;
+        if (!code) return next(new MissingBodyError());
+
+        const user = await UserDAO.getById(req.decoded.user.id);
+        if (!user) return next(new EntityNotFoundError('User', req.decoded.user.id));
+        if (user.totp_enabled) {
+            return next(new BadRequestError('Two-factor authentication is already enabled', 'TWO_FACTOR_ALREADY_ENABLED'));
+        }
+        if (!user.totp_secret) {
+            return next(new BadRequestError('Two-factor setup has not been started', 'TWO_FACTOR_NOT_STARTED'));
+        }
+
+        const isValid = await TwoFactorService.verifyTotp(user, code);
+        if (!isValid) return next(new BadRequestError('Invalid two-factor authentication code', 'INVALID_2FA_CODE'));
+
+        const result = await UserDAO.enableTotp(user.id);
+        const recoveryCodes = await TwoFactorService.generateRecoveryCodes(user.id);
+        // Sesi yang dipakai untuk enrolment langsung dianggap terverifikasi 2FA
+        if (req.decoded?.sid) await UserSessionDAO.markMfaVerified(req.decoded.sid);
+
+        return res.send({
+            message: 'Two-factor authentication enabled',
+            recovery_codes: recoveryCodes,
+            user: safeUser(result),
+        });
+    } catch (error: any) {
+        return next(new InternalServerError(error));
+    }
+}
+
+export async function disableTwoFactor(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { password, code, recovery_code } = req.body;
+        if (!password || (!code && !recovery_code)) return next(new MissingBodyError());
+
+        const user = await UserDAO.getById(req.decoded.user.id);
+        if (!user) return next(new EntityNotFoundError('User', req.decoded.user.id));
+        if (!user.totp_enabled) {
+            return next(new BadRequestError('Two-factor authentication is not enabled', 'TWO_FACTOR_NOT_ENABLED'));
+        }
+        if (await TwoFactorService.isRequiredForRole(user.role)) {
+            return next(new RequestError('Two-factor authentication is required for your role', 403, 'FORBIDDEN'));
+        }
+
+        const isPasswordValid = await crypto.verifyPassword(password, user.salt, user.password);
+        if (!isPasswordValid) return next(new BadRequestError('Current password is incorrect!'));
+
+        const isValid = await TwoFactorService.verifySecondFactor(user, code, recovery_code);
+        if (!isValid) return next(new BadRequestError('Invalid two-factor authentication code', 'INVALID_2FA_CODE'));
+
+        const result = await UserDAO.disableTotp(user.id);
+        await UserRecoveryCodeDAO.deleteAllByUser(user.id);
+
+        return res.send({
+            message: 'Two-factor authentication disabled',
+            user: safeUser(result),
+        });
+    } catch (error: any) {
+        return next(new InternalServerError(error));
+    }
+}
+
+export async function regenerateRecoveryCodes(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { code } = req.body;
+        if (!code) return next(new MissingBodyError());
+
+        const user = await UserDAO.getById(req.decoded.user.id);
+        if (!user) return next(new EntityNotFoundError('User', req.decoded.user.id));
+        if (!user.totp_enabled) {
+            return next(new BadRequestError('Two-factor authentication is not enabled', 'TWO_FACTOR_NOT_ENABLED'));
+        }
+
+        const isValid = await TwoFactorService.verifyTotp(user, code);
+        if (!isValid) return next(new BadRequestError('Invalid two-factor authentication code', 'INVALID_2FA_CODE'));
+
+        const recoveryCodes = await TwoFactorService.generateRecoveryCodes(user.id);
+        return res.send({
+            message: 'Recovery codes regenerated',
+            recovery_codes: recoveryCodes,
+        });
+    } catch (error: any) {
+        return next(new InternalServerError(error));
+    }
+}
+
 export async function deleteOwnAccount(req: Request, res: Response, next: NextFunction) {
     try {
         const decodedId = req.decoded?.id;
@@ -190,6 +608,7 @@ export async function deleteOwnAccount(req: Request, res: Response, next: NextFu
         if (!user) return next(new EntityNotFoundError('User', userId));
 
         const result = await UserDAO.softDelete(userId);
+        await SessionService.revokeAllForUser(userId, SessionRevokeReason.USER_DEACTIVATED);
         return res.send({
             message: 'Account deleted successfully',
             user: safeUser(result),
@@ -258,9 +677,7 @@ export async function adminCreateUser(req: Request, res: Response, next: NextFun
         }
 
         const salt = crypto.generateSalt();
-        const password = crypto.generatePassword(body.password, salt);
         body.salt = salt;
-        body.password = password;
 
         const isMissingProperty = hidash.checkPropertyV2(body, 'User', UserDAO.getRequired());
         if (isMissingProperty.message) return next(isMissingProperty);
@@ -270,6 +687,14 @@ export async function adminCreateUser(req: Request, res: Response, next: NextFun
             return next(new BadRequestError('Username already exists!', 'USERNAME_EXISTS'));
         }
 
+        if (body.email) {
+            if (!EMAIL_REGEX.test(body.email)) return next(new BadRequestError('Invalid email format', 'INVALID_EMAIL'));
+            const existingEmail = await UserDAO.getByEmail(body.email);
+            if (existingEmail) return next(new BadRequestError('Email already exists!', 'EMAIL_EXISTS'));
+        }
+
+        body.password = await crypto.generatePassword(body.password, salt);
+
         const result = await UserDAO.create(UserDAO.formatCreate(body));
         return res.status(201).send(safeUser(result));
     } catch (error: any) {
@@ -295,6 +720,7 @@ export async function adminUpdateUserRole(req: Request, res: Response, next: Nex
         if (!user) return next(new EntityNotFoundError('User', id));
 
         const result = await UserDAO.updateRole(id, role as users_role);
+        await SessionService.revokeAllForUser(id, SessionRevokeReason.ROLE_CHANGED);
         return res.send({
             message: `Role updated to ${role}`,
             user: safeUser(result),
@@ -316,8 +742,10 @@ export async function adminResetUserPassword(req: Request, res: Response, next:
         if (!user) return next(new EntityNotFoundError('User', id));
 
         const newSalt = crypto.generateSalt();
-        const newHashedPassword = crypto.generatePassword(newPassword, newSalt);
+        const newHashedPassword = await crypto.generatePassword(newPassword, newSalt);
         const result = await UserDAO.updatePassword(id, newHashedPassword, newSalt);
+        await SessionService.revokeAllForUser(id, SessionRevokeReason.PASSWORD_CHANGED);
+        await LoginThrottleService.clearUsername(user.username);
 
         return res.send({
             message: 'Password reset successfully',
@@ -341,6 +769,7 @@ export async function adminDeleteUser(req: Request, res: Response, next: NextFun
         if (!user) return next(new EntityNotFoundError('User', id));
 
         const result = await UserDAO.softDelete(id);
+        await SessionService.revokeAllForUser(id, SessionRevokeReason.USER_DEACTIVATED);
         return res.send({
             message: 'User deactivated successfully',
             user: safeUser(result),
@@ -366,4 +795,120 @@ export async function adminRestoreUser(req: Request, res: Response, next: NextFu
     } catch (error: any) {
         return next(new InternalServerError(error));
     }
-}
\ No newline at end of file
+}
+
+export async function adminRevokeUserSessions(req: Request, res: Response, next: NextFunction) {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) return next(new BadParamIdError());
+
+        const user = await UserDAO.getByIdIncludeInactive(id);
+        if (!user) return next(new EntityNotFoundError('User', id));
+
+        const result = await SessionService.revokeAllForUser(id, SessionRevokeReason.REVOKED_BY_ADMIN);
+        return res.send({
+            message: 'All sessions revoked successfully',
+            revoked_count: result.count,
+        });
+    } catch (error: any) {
+        return next(new InternalServerError(error));
+    }
+}
+
+export async function adminGetLoginLockouts(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { scope, active, search } = req.query;
+        if (scope && !Object.values(login_throttle_scope).includes(scope as login_throttle_scope)) {
+            return next(new BadRequestError(`scope must be one of ${Object.values(login_throttle_scope).join(', ')}`, 'INVALID_SCOPE'));
+        }
+
+        const lockouts = await LoginThrottleDAO.getAll({
+            scope: scope ? (scope as login_throttle_scope) : undefined,
+            activeOnly: active === 'true',
+            search: search as string | undefined,
+        });
+        return res.send(lockouts.map((l) => ({
+            ...l,
+            locked: !!l.locked_until && l.locked_until > new Date(),
+        })));
+    } catch (error: any) {
+        return next(new InternalServerError(error));
+    }
+}
+
+export async function adminClearLoginLockout(req: Request, res: Response, next: NextFunction) {
+    try {
+        const id = parseInt(req.params.lockoutId);
+        if (isNaN(id)) return next(new BadParamIdError());
+
+        const lockout = await LoginThrottleDAO.getById(id);
+        if (!lockout) return next(new EntityNotFoundError('Lockout', id));
+
+        await LoginThrottleDAO.clearById(id);
+        return res.send({ message: 'Lockout cleared successfully' });
+    } catch (error: any) {
+        return next(new InternalServerError(error));
+    }
+}
+
+export async function adminResetTwoFactor(req: Request, res: Response, next: NextFunction) {
+    try {
+        const id = parseInt(req.params.id);
+        if (isNaN(id)) return next(new BadParamIdError());
+
+        const user = await UserDAO.getByIdIncludeInactive(id);
+        if (!user) return next(new EntityNotFoundError('User', id));
+
+        const result = await UserDAO.disableTotp(id);
+        await UserRecoveryCodeDAO.deleteAllByUser(id);
+        await SessionService.revokeAllForUser(id, SessionRevokeReason.REVOKED_BY_ADMIN);
+
+        return res.send({
+            message: 'Two-factor authentication reset successfully',
+            user: safeUser(result),
+        });
+    } catch (error: any) {
+        return next(new InternalServerError(error));
+    }
+}
+
+export async function adminGetTwoFactorPolicies(req: Request, res: Response, next: NextFunction) {
+    try {
+        const policies = await RoleSecurityPolicyDAO.getAll();
+        const result = Object.values(users_role).map((role) => ({
+            role,
+            require_2fa: !!policies.find((p) => p.role === role)?.require_2fa,
+        }));
+        return res.send(result);
+    } catch (error: any) {
+        return next(new InternalServerError(error));
+    }
+}
+
+export async function adminUpdateTwoFactorPolicy(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { role } = req.params;
+        if (!Object.values(users_role).includes(role as users_role)) {
+            return next(new BadRequestError('role must be ADMIN, DOCTOR, or THERAPIST', 'INVALID_ROLE'));
+        }
+
+        const { require_2fa } = req.body;
+        if (typeof require_2fa !== 'boolean') {
+            return next(new BadRequestError('require_2fa must be a boolean', 'INVALID_BODY'));
+        }
+
+        // Cegah admin mengunci dirinya sendiri sebelum 2FA-nya aktif
+        if (require_2fa && role === req.decoded.user.role && req.decoded.mfa !== true) {
+            return next(new BadRequestError('Enable two-factor authentication on your own account first', 'TWO_FACTOR_NOT_ENABLED'));
+        }
+
+        const result = await TwoFactorService.setRequiredForRole(role as users_role, require_2fa, req.decoded.user.id);
+        return res.send({
+            message: `Two-factor requirement for ${role} updated`,
+            policy: { role: result.role, require_2fa: !!result.require_2fa },
+        });
+    } catch (error: any) {
+        return next(new InternalServerError(error));
+    }
+}
+
@@ -0,0 +1,282 @@
+import { Prisma, appointment_status } from '@prisma/client';
+import prisma from '../services/prisma';
+import { PatientScope, buildPatientScopeWhere } from './patientAssignmentDAO';
+import AuditService from '../services/AuditService';
+
+const model = prisma.appointment;
+
+// Status yang menempati slot jadwal (dipakai untuk deteksi bentrok)
+export const SLOT_OCCUPYING_STATUSES: appointment_status[] = ['BOOKED', 'ARRIVED', 'COMPLETED'];
+
+export interface CreateAppointmentData {
+    patient_id: number;
+    staff_id: number;
+    treatment_plan_id?: number | null;
+    room?: string | null;
+    start_at: Date;
+    end_at: Date;
+    notes?: string | null;
+    created_by?: number | null;
+}
+
+export interface UpdateAppointmentData {
+    staff_id?: number;
+    treatment_plan_id?: number | null;
+    room?: string | null;
+    start_at?: Date;
+    end_at?: Date;
+    notes?: string | null;
+}
+
+export interface GetAllOptions {
+    patient_id?: number;
+    staff_id?: number;
+    treatment_plan_id?: number;
+    room?: string;
+    status?: appointment_status;
+    dateFrom?: Date;
+    dateTo?: Date;
+    limit?: number;
+    offset?: number;
+    scope?: PatientScope;
+}
+
+export interface ConflictQuery {
+    start_at: Date;
+    end_at: Date;
+    patient_id: number;
+    staff_id: number;
+    room?: string | null;
+    excludeId?: number;
+}
+
+const include = { patient: true, staff: true, treatment_plan: true };
+
+export function formatForTable(appointment: any) {
+    if (!appointment) return null;
+    return {
+        id: appointment.id,
+        patient_id: appointment.patient_id,
+        patient_name: appointment.patient?.name || '-',
+        patient_code: appointment.patient?.patient_code || '-',
+        staff_id: appointment.staff_id,
+        staff_name: appointment.staff?.name || '-',
+        treatment_plan_id: appointment.treatment_plan_id,
+        plan_title: appointment.treatment_plan?.title || '-',
+        room: appointment.room,
+        start_at: appointment.start_at,
+        end_at: appointment.end_at,
+        duration_minutes: Math.round((new Date(appointment.end_at).getTime() - new Date(appointment.start_at).getTime()) / 60000),
+        status: appointment.status,
+        notes: appointment.notes,
+        cancel_reason: appointment.cancel_reason,
+        medical_history_id: appointment.medical_history_id,
+        treatment_log_id: appointment.treatment_log_id,
+        created_by: appointment.created_by,
+        created_at: appointment.created_at,
+        updated_at: appointment.updated_at
+    };
+}
+
+export function getRequired(): Array<keyof CreateAppointmentData> {
+    return ['patient_id', 'staff_id', 'start_at', 'end_at'];
+}
+
+export function formatCreate(data: any): Prisma.appointmentUncheckedCreateInput {
+    const formatted: Prisma.appointmentUncheckedCreateInput = {
+        patient_id: data.patient_id,
+        staff_id: data.staff_id,
+        start_at: new Date(data.start_at),
+        end_at: new Date(data.end_at)
+    };
+
+    if (data.treatment_plan_id) formatted.treatment_plan_id = data.treatment_plan_id;
+    if (data.room) formatted.room = data.room;
+    if (data.notes) formatted.notes = data.notes;
+    if (data.created_by) formatted.created_by = data.created_by;
+
+    return formatted;
+}
+
+export async function getById(id: number): Promise<any | null> {
+    const result = await model.findUnique({ where: { id }, include });
+    return formatForTable(result);
+}
+
+export async function getAll(options?: GetAllOptions): Promise<any[]> {
+    const where: Prisma.appointmentWhereInput = {};
+
+    if (options?.patient_id) where.patient_id = options.patient_id;
+    if (options?.staff_id) where.staff_id = options.staff_id;
+    if (options?.treatment_plan_id) where.treatment_plan_id = options.treatment_plan_id;
+    if (options?.room) where.room = options.room;
+    if (options?.status) where.status = options.status;
+    where.patient = {
+        deleted_at: null,
+        ...(options?.scope ? buildPatientScopeWhere(options.scope) : {})
+    };
+
+    // Appointment yang beririsan dengan rentang waktu
+    if (options?.dateFrom) where.end_at = { gt: options.dateFrom };
+    if (options?.dateTo) where.start_at = { lt: options.dateTo };
+
+    const queryOptions: Prisma.appointmentFindManyArgs = {
+        where,
+        include,
+        orderBy: [{ start_at: 'asc' }, { id: 'asc' }]
+    };
+
+    if (options?.limit) queryOptions.take = options.limit;
+    if (options?.offset) queryOptions.skip = options.offset;
+
+    const results = await model.findMany(queryOptions);
+    return results.map(formatForTable);
+}
+
+/**
+ * Appointment aktif yang beririsan dengan [start_at, end_at) pada staff, ruangan
+ * atau pasien yang sama.
+ */
+export async function findConflicts(query: ConflictQuery, client: Prisma.TransactionClient = prisma): Promise<any[]> {
+    const sameResource: Prisma.appointmentWhereInput[] = [
+        { staff_id: query.staff_id },
+        { patient_id: query.patient_id }
+    ];
+    if (query.room) sameResource.push({ room: query.room });
+
+    const results = await client.appointment.findMany({
+        where: {
+            status: { in: SLOT_OCCUPYING_STATUSES },
+            start_at: { lt: query.end_at },
+            end_at: { gt: query.start_at },
+            OR: sameResource,
+            NOT: query.excludeId ? { id: query.excludeId } : undefined
+        },
+        include,
+        orderBy: { start_at: 'asc' }
+    });
+
+    return results.map((appointment) => ({
+        ...formatForTable(appointment),
+        conflict_on: [
+            appointment.staff_id === query.staff_id ? 'staff' : null,
+            appointment.patient_id === query.patient_id ? 'patient' : null,
+            query.room && appointment.room === query.room ? 'room' : null
+        ].filter(Boolean)
+    }));
+}
+
+const ROOM_LOCK_TIMEOUT_SECONDS = 10;
+
+/**
+ * Cek bentrok lalu tulis dalam satu transaksi. Baris staff dan pasien dikunci FOR UPDATE (selalu
+ * dengan urutan yang sama) dan ruangan lewat named lock MySQL, sehingga booking bersamaan pada
+ * resource yang sama antre dan yang kedua melihat appointment yang pertama.
+ */
+async function withScheduleLock<T>(query: ConflictQuery, write: (tx: Prisma.TransactionClient) => Promise<T>) {
+    return await prisma.$transaction(async (tx) => {
+        await tx.$queryRaw`SELECT id FROM staff WHERE id = ${query.staff_id} FOR UPDATE`;
+        await tx.$queryRaw`SELECT id FROM patient WHERE id = ${query.patient_id} FOR UPDATE`;
+
+        const roomLock = query.room ? `appointment_room:${query.room}` : null;
+        if (roomLock) {
+            const [lock] = await tx.$queryRaw<Array<{ acquired: number | bigint | null }>>`SELECT GET_LOCK(${roomLock}, ${ROOM_LOCK_TIMEOUT_SECONDS}) AS acquired`;
+            if (Number(lock?.acquired) !== 1) throw new Error(`Timed out waiting for schedule lock on room ${query.room}`);
+        }
+
+        try {
+            const conflicts = await findConflicts(query, tx);
+            if (conflicts.length > 0) return { conflicts, result: null };
+            return { conflicts, result: await write(tx) };
+        } finally {
+            if (roomLock) await tx.$queryRaw`SELECT RELEASE_LOCK(${roomLock})`;
+        }
+    });
+}
+
+// Buat appointment jika slot masih kosong; `conflicts` terisi dan `result` null bila bentrok
+export async function createIfFree(data: Prisma.appointmentUncheckedCreateInput) {
+    const { conflicts, result } = await withScheduleLock(
+        { start_at: new Date(data.start_at), end_at: new Date(data.end_at), patient_id: data.patient_id, staff_id: data.staff_id, room: data.room },
+        (tx) => tx.appointment.create({ data, include })
+    );
+    if (result) await AuditService.recordCreate('appointment', result, result.patient_id);
+    return { conflicts, result: formatForTable(result) };
+}
+
+function formatUpdate(data: UpdateAppointmentData): Prisma.appointmentUncheckedUpdateInput {
+    const updateData: Prisma.appointmentUncheckedUpdateInput = {
+        updated_at: new Date()
+    };
+
+    if (data.staff_id !== undefined) updateData.staff_id = data.staff_id;
+    if (data.treatment_plan_id !== undefined) updateData.treatment_plan_id = data.treatment_plan_id;
+    if (data.room !== undefined) updateData.room = data.room;
+    if (data.start_at !== undefined) updateData.start_at = new Date(data.start_at);
+    if (data.end_at !== undefined) updateData.end_at = new Date(data.end_at);
+    if (data.notes !== undefined) updateData.notes = data.notes;
+
+    return updateData;
+}
+
+// Reschedule: `schedule` adalah jadwal akhir (nilai baru digabung nilai lama) untuk cek bentrok
+export async function updateIfFree(id: number, data: UpdateAppointmentData, schedule: ConflictQuery) {
+    const before = await model.findUnique({ where: { id } });
+    const { conflicts, result } = await withScheduleLock(
+        { ...schedule, excludeId: id },
+        (tx) => tx.appointment.update({ where: { id }, data: formatUpdate(data), include })
+    );
+    if (result) await AuditService.recordUpdate('appointment', before, result, result.patient_id);
+    return { conflicts, result: formatForTable(result) };
+}
+
+/**
+ * Ubah status hanya jika status saat ini masih salah satu dari `from`, sehingga request yang
+ * bersamaan tidak sama-sama menjalankan efek sampingnya. `afterClaim` berjalan di transaksi yang
+ * sama setelah transisi diklaim (mis. membuat draft catatan) dan mengembalikan kolom tambahan.
+ * Null jika status sudah diubah request lain.
+ */
+export async function updateStatus(
+    id: number,
+    from: appointment_status[],
+    status: appointment_status,
+    extra?: { cancel_reason?: string | null },
+    afterClaim?: (tx: Prisma.TransactionClient) => Promise<Prisma.appointmentUncheckedUpdateInput>
+): Promise<any | null> {
+    const updated = await prisma.$transaction(async (tx) => {
+        const before = await tx.appointment.findUniqueOrThrow({ where: { id } });
+        const { count } = await tx.appointment.updateMany({
+            where: { id, status: { in: from } },
+            data: { status, updated_at: new Date(), ...extra }
+        });
+        if (!count) return null;
+
+        const linked = afterClaim ? await afterClaim(tx) : {};
+        const result = await tx.appointment.update({ where: { id }, data: linked, include });
+        return { before, result };
+    });
+    if (!updated) return null;
+
+    const { before, result } = updated;
+    await AuditService.recordUpdate('appointment', before, result, result.patient_id);
+    return formatForTable(result);
+}
+
+export async function deleteAppointment(id: number) {
+    const result = await model.delete({ where: { id } });
+    await AuditService.recordDelete('appointment', result, null, result.patient_id);
+    return result;
+}
+
+// Appointment BOOKED yang mulai dalam (from, to]; data mentah termasuk kontak pasien untuk job pengingat
+export async function getDueForReminder(from: Date, to: Date) {
+    return await model.findMany({
+        where: {
+            status: 'BOOKED',
+            start_at: { gt: from, lte: to },
+            patient: { deleted_at: null }
+        },
+        include: { patient: true, staff: true },
+        orderBy: { start_at: 'asc' }
+    });
+}
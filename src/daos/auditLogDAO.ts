@@ -0,0 +1,93 @@
+import { Prisma, audit_action } from '@prisma/client';
+import prisma from '../services/prisma';
+
+const model = prisma.audit_log;
+
+export interface GetAllOptions {
+    patient_id?: number;
+    actor_user_id?: number;
+    entity_type?: string;
+    entity_id?: number;
+    action?: audit_action;
+    dateFrom?: Date;
+    dateTo?: Date;
+    limit?: number;
+    offset?: number;
+}
+
+// READ/LIST punya chain sendiri, sehingga akses baca tidak mengantre di belakang perubahan data
+export const READ_CHAIN_ACTIONS: audit_action[] = ['READ', 'LIST'];
+
+export const CHAIN_HEAD_IDS = { WRITE: 1, READ: 2 } as const;
+export type AuditChain = keyof typeof CHAIN_HEAD_IDS;
+
+export const chainOf = (action: audit_action): AuditChain => READ_CHAIN_ACTIONS.includes(action) ? 'READ' : 'WRITE';
+
+/**
+ * Tambah satu baris ke hash chain. Baris head chain dikunci FOR UPDATE dalam transaksi, jadi penulisan
+ * chain berurutan di database meskipun server berjalan di beberapa instance. `build` menerima
+ * prev_hash dan mengembalikan data baris lengkap (termasuk hash).
+ */
+export async function appendToChain(chain: AuditChain, build: (prev_hash: string | null) => Prisma.audit_logUncheckedCreateInput) {
+    const headId = CHAIN_HEAD_IDS[chain];
+    return await prisma.$transaction(async (tx) => {
+        await tx.$executeRaw`INSERT IGNORE INTO audit_chain_head (id) VALUES (${headId})`;
+        const [head] = await tx.$queryRaw<Array<{ last_id: number | null; last_hash: string | null }>>`
+            SELECT last_id, last_hash FROM audit_chain_head WHERE id = ${headId} FOR UPDATE`;
+
+        const result = await tx.audit_log.create({ data: build(head?.last_hash ?? null) });
+        await tx.audit_chain_head.update({
+            where: { id: headId },
+            data: { last_id: result.id, last_hash: result.hash, updated_at: new Date() }
+        });
+        return result;
+    });
+}
+
+export async function getChainHeads() {
+    return await prisma.audit_chain_head.findMany();
+}
+
+export async function getById(id: number) {
+    return await model.findUnique({ where: { id } });
+}
+
+// Baris LIST menyimpan daftar pasien di metadata.patient_ids, jadi ikut dicari
+export async function getAll(options?: GetAllOptions) {
+    const where: Prisma.audit_logWhereInput = {};
+
+    if (options?.patient_id) {
+        where.OR = [
+            { patient_id: options.patient_id },
+            { metadata: { path: '$.patient_ids', array_contains: options.patient_id } }
+        ];
+    }
+    if (options?.actor_user_id) where.actor_user_id = options.actor_user_id;
+    if (options?.entity_type) where.entity_type = options.entity_type;
+    if (options?.entity_id) where.entity_id = options.entity_id;
+    if (options?.action) where.action = options.action;
+    if (options?.dateFrom || options?.dateTo) {
+        where.created_at = {};
+        if (options.dateFrom) where.created_at.gte = options.dateFrom;
+        if (options.dateTo) where.created_at.lte = options.dateTo;
+    }
+
+    const [total, data] = await Promise.all([
+        model.count({ where }),
+        model.findMany({
+            where,
+            orderBy: { id: 'desc' },
+            take: options?.limit ?? 100,
+            skip: options?.offset ?? 0
+        })
+    ]);
+    return { total, data };
+}
+
+export async function getBatchAfter(afterId: number, take: number) {
+    return await model.findMany({
+        where: { id: { gt: afterId } },
+        orderBy: { id: 'asc' },
+        take
+    });
+}
@@ -0,0 +1,161 @@
+import { body_side, Prisma, symptom_type } from '@prisma/client';
+import prisma from '../services/prisma';
+import AuditService from '../services/AuditService';
+
+const model = prisma.body_chart_mark;
+
+export interface BodyChartParent {
+    patient_id: number;
+    medical_history_id?: number;
+    treatment_log_id?: number;
+}
+
+export interface RegionQueryFilters {
+    side?: body_side;
+    symptom_type?: symptom_type;
+    min_intensity?: number;
+}
+
+const include = {
+    medical_history: { select: { appointment_date: true } },
+    treatment_log: { select: { visit_date: true, treatment_plan_id: true } }
+};
+
+export function formatForTable(mark: any) {
+    if (!mark) return null;
+    return {
+        id: mark.id,
+        patient_id: mark.patient_id,
+        medical_history_id: mark.medical_history_id,
+        treatment_log_id: mark.treatment_log_id,
+        recorded_at: mark.treatment_log?.visit_date ?? mark.medical_history?.appointment_date ?? null,
+        view: mark.view,
+        region: mark.region,
+        side: mark.side,
+        x: Number(mark.x),
+        y: Number(mark.y),
+        symptom_type: mark.symptom_type,
+        intensity: mark.intensity,
+        notes: mark.notes,
+        created_by: mark.created_by,
+        created_at: mark.created_at
+    };
+}
+
+const parentWhere = (parent: BodyChartParent): Prisma.body_chart_markWhereInput =>
+    parent.medical_history_id ? { medical_history_id: parent.medical_history_id } : { treatment_log_id: parent.treatment_log_id };
+
+export async function getByParent(parent: BodyChartParent): Promise<any[]> {
+    const results = await model.findMany({ where: parentWhere(parent), include, orderBy: { id: 'asc' } });
+    await AuditService.recordList('body_chart_mark', results);
+    return results.map(formatForTable);
+}
+
+// Mengunci baris entry induk selama transaksi dan memastikan masih DRAFT; tanda tangan yang
+// berjalan bersamaan menunggu sampai penggantian pin selesai. false jika induk sudah tidak DRAFT.
+const lockDraftParent = async (tx: Prisma.TransactionClient, parent: BodyChartParent) => {
+    const data = { updated_at: new Date() };
+    const { count } = parent.medical_history_id
+        ? await tx.medical_history.updateMany({ where: { id: parent.medical_history_id, status: 'DRAFT' }, data })
+        : await tx.treatment_log.updateMany({ where: { id: parent.treatment_log_id, status: 'DRAFT' }, data });
+    return count > 0;
+};
+
+/**
+ * Ganti seluruh anotasi satu entry (PUT semantics). Pin lama dan baru dicatat di audit
+ * satu per satu agar riwayat perubahan body chart tetap bisa ditelusuri.
+ * Null jika entry induk sudah ditandatangani.
+ */
+export async function replaceForParent(parent: BodyChartParent, marks: any[], created_by?: number): Promise<any[] | null> {
+    const where = parentWhere(parent);
+    const replaced = await prisma.$transaction(async (tx) => {
+        if (!(await lockDraftParent(tx, parent))) return null;
+
+        const existing = await tx.body_chart_mark.findMany({ where });
+        await tx.body_chart_mark.deleteMany({ where });
+
+        const created = [];
+        for (const mark of marks) {
+            created.push(await tx.body_chart_mark.create({
+                data: {
+                    patient_id: parent.patient_id,
+                    medical_history_id: parent.medical_history_id ?? null,
+                    treatment_log_id: parent.treatment_log_id ?? null,
+                    view: mark.view,
+                    region: mark.region,
+                    side: mark.side,
+                    x: mark.x,
+                    y: mark.y,
+                    symptom_type: mark.symptom_type,
+                    intensity: mark.intensity,
+                    notes: mark.notes,
+                    created_by: created_by ?? null
+                },
+                include
+            }));
+        }
+        return [existing, created];
+    });
+    if (!replaced) return null;
+
+    const [before, after] = replaced;
+    for (const mark of before) await AuditService.recordDelete('body_chart_mark', mark, null, mark.patient_id);
+    for (const mark of after) await AuditService.recordCreate('body_chart_mark', mark, mark.patient_id);
+    return after.map(formatForTable);
+}
+
+/**
+ * Pin pada region tertentu selama treatment plan: dari log plan, ditambah medical history
+ * pasien dalam rentang tanggal plan.
+ */
+export async function getForPlanRegion(
+    plan: { id: number; patient_id: number; started_at: Date; ended_at: Date | null },
+    region: string,
+    filters?: RegionQueryFilters
+): Promise<any[]> {
+    const historyDate: Prisma.DateTimeFilter = { gte: plan.started_at };
+    if (plan.ended_at) {
+        const end = new Date(plan.ended_at);
+        end.setHours(23, 59, 59, 999);
+        historyDate.lte = end;
+    }
+
+    const results = await model.findMany({
+        where: {
+            patient_id: plan.patient_id,
+            region,
+            side: filters?.side,
+            symptom_type: filters?.symptom_type,
+            intensity: filters?.min_intensity != null ? { gte: filters.min_intensity } : undefined,
+            OR: [
+                { treatment_log: { treatment_plan_id: plan.id, deleted_at: null } },
+                { medical_history: { deleted_at: null, appointment_date: historyDate } }
+            ]
+        },
+        include,
+        orderBy: { id: 'asc' }
+    });
+    await AuditService.recordList('body_chart_mark', results);
+    return results.map(formatForTable);
+}
+
+// Pin per entry untuk laporan progres (tanpa audit; pemanggil sudah mencatat akses entry)
+export async function getByMedicalHistories(medical_history_ids: number[]) {
+    if (!medical_history_ids.length) return [];
+    const results = await model.findMany({
+        where: { medical_history_id: { in: medical_history_ids } },
+        include,
+        orderBy: { id: 'asc' }
+    });
+    return results.map(formatForTable);
+}
+
+export async function getByTreatmentLogs(treatment_log_ids: number[]) {
+    if (!treatment_log_ids.length) return [];
+    const results = await model.findMany({
+        where: { treatment_log_id: { in: treatment_log_ids } },
+        include,
+        orderBy: { id: 'asc' }
+    });
+    return results.map(formatForTable);
+}
@@ -0,0 +1,73 @@
+import prisma from '../services/prisma';
+import AuditService from '../services/AuditService';
+
+const model = prisma.discharge_summary;
+
+// Kesimpulan klinisi yang bisa diedit; sisanya dihitung ulang dari data plan setiap kali dibaca
+export const CONCLUSION_FIELDS = ['conclusion', 'goals_outcome', 'recommendations', 'follow_up'] as const;
+
+export type DischargeConclusions = Partial<Record<typeof CONCLUSION_FIELDS[number], string | null>>;
+
+export function formatForTable(summary: any) {
+    if (!summary) return null;
+    return {
+        id: summary.id,
+        treatment_plan_id: summary.treatment_plan_id,
+        patient_id: summary.patient_id,
+        conclusion: summary.conclusion,
+        goals_outcome: summary.goals_outcome,
+        recommendations: summary.recommendations,
+        follow_up: summary.follow_up,
+        created_at: summary.created_at,
+        updated_at: summary.updated_at,
+        updated_by: summary.updated_by,
+        emailed_at: summary.emailed_at,
+        emailed_to: summary.emailed_to
+    };
+}
+
+export async function getByPlan(treatment_plan_id: number): Promise<any | null> {
+    const result = await model.findUnique({ where: { treatment_plan_id } });
+    if (result) await AuditService.recordRead('discharge_summary', result.id, result.patient_id);
+    return formatForTable(result);
+}
+
+// Dipanggil saat plan berpindah ke COMPLETED; tidak menimpa kesimpulan yang sudah ada
+export async function ensureForPlan(plan: { id: number; patient_id: number }): Promise<any> {
+    const existing = await model.findUnique({ where: { treatment_plan_id: plan.id } });
+    if (existing) return formatForTable(existing);
+
+    const result = await model.create({ data: { treatment_plan_id: plan.id, patient_id: plan.patient_id } });
+    await AuditService.recordCreate('discharge_summary', result, result.patient_id);
+    return formatForTable(result);
+}
+
+export async function saveConclusions(plan: { id: number; patient_id: number }, data: DischargeConclusions, updated_by?: number): Promise<any> {
+    const fields: DischargeConclusions = {};
+    for (const field of CONCLUSION_FIELDS) {
+        if (data[field] !== undefined) fields[field] = data[field] || null;
+    }
+
+    const before = await model.findUnique({ where: { treatment_plan_id: plan.id } });
+    const result = await model.upsert({
+        where: { treatment_plan_id: plan.id },
+        create: { treatment_plan_id: plan.id, patient_id: plan.patient_id, ...fields, updated_by: updated_by ?? null },
+        update: { ...fields, updated_by: updated_by ?? null, updated_at: new Date() }
+    });
+
+    if (before) await AuditService.recordUpdate('discharge_summary', before, result, result.patient_id);
+    else await AuditService.recordCreate('discharge_summary', result, result.patient_id);
+    return formatForTable(result);
+}
+
+export async function markEmailed(treatment_plan_id: number, emailed_to: string): Promise<any> {
+    const before = await model.findUnique({ where: { treatment_plan_id } });
+    if (!before) return null;
+
+    const result = await model.update({
+        where: { treatment_plan_id },
+        data: { emailed_at: new Date(), emailed_to }
+    });
+    await AuditService.recordUpdate('discharge_summary', before, result, result.patient_id);
+    return formatForTable(result);
+}
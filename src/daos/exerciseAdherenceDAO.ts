@@ -0,0 +1,109 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../services/prisma';
+import AuditService from '../services/AuditService';
+import { calendarDate, clinicDate } from '../utils/clinicTime';
+
+const model = prisma.exercise_adherence_log;
+
+export interface GetByPrescriptionOptions {
+    dateFrom?: Date;
+    dateTo?: Date;
+    limit?: number;
+    offset?: number;
+}
+
+const include = { prescription: { include: { exercise: true, treatment_plan: true } } };
+
+export function formatForTable(log: any) {
+    if (!log) return null;
+    return {
+        id: log.id,
+        prescription_id: log.prescription_id,
+        exercise_id: log.prescription?.exercise_id ?? null,
+        exercise_name: log.prescription?.exercise?.name || '-',
+        treatment_plan_id: log.prescription?.treatment_plan_id ?? null,
+        patient_id: log.prescription?.treatment_plan?.patient_id ?? null,
+        performed_on: log.performed_on,
+        sets_completed: log.sets_completed,
+        reps_completed: log.reps_completed,
+        pain_rating: log.pain_rating,
+        difficulty_rating: log.difficulty_rating,
+        notes: log.notes,
+        source: log.source,
+        recorded_by: log.recorded_by,
+        created_at: log.created_at
+    };
+}
+
+export function formatCreate(prescription_id: number, data: any): Omit<Prisma.exercise_adherence_logUncheckedCreateInput, 'source'> {
+    const formatted: Omit<Prisma.exercise_adherence_logUncheckedCreateInput, 'source'> = {
+        prescription_id,
+        // Kolom @db.Date: hari ini menurut kalender klinik, bukan tengah malam server
+        performed_on: data.performed_on ? calendarDate(new Date(data.performed_on)) : clinicDate(new Date())
+    };
+
+    if (data.sets_completed != null) formatted.sets_completed = Number(data.sets_completed);
+    if (data.reps_completed != null) formatted.reps_completed = Number(data.reps_completed);
+    if (data.pain_rating != null) formatted.pain_rating = Number(data.pain_rating);
+    if (data.difficulty_rating != null) formatted.difficulty_rating = Number(data.difficulty_rating);
+    if (data.notes) formatted.notes = data.notes;
+
+    return formatted;
+}
+
+export async function create(data: Prisma.exercise_adherence_logUncheckedCreateInput): Promise<any> {
+    const result = await model.create({ data, include });
+    await AuditService.recordCreate('exercise_adherence_log', result, result.prescription.treatment_plan.patient_id);
+    return formatForTable(result);
+}
+
+export async function getById(id: number): Promise<any | null> {
+    const result = await model.findUnique({ where: { id }, include });
+    return formatForTable(result);
+}
+
+export async function getByPrescription(prescription_id: number, options?: GetByPrescriptionOptions): Promise<any[]> {
+    const where: Prisma.exercise_adherence_logWhereInput = { prescription_id };
+
+    if (options?.dateFrom || options?.dateTo) {
+        where.performed_on = {};
+        if (options.dateFrom) where.performed_on.gte = options.dateFrom;
+        if (options.dateTo) where.performed_on.lte = options.dateTo;
+    }
+
+    const results = await model.findMany({
+        where,
+        include,
+        orderBy: [{ performed_on: 'desc' }, { id: 'desc' }],
+        take: options?.limit,
+        skip: options?.offset
+    });
+    await AuditService.recordList(
+        'exercise_adherence_log',
+        results.map((row) => ({ id: row.id, patient_id: row.prescription.treatment_plan.patient_id }))
+    );
+    return results.map(formatForTable);
+}
+
+export async function deleteLog(id: number) {
+    const result = await model.delete({ where: { id }, include });
+    await AuditService.recordDelete('exercise_adherence_log', result, null, result.prescription.treatment_plan.patient_id);
+    return result;
+}
+
+/**
+ * Resep beserta sesi yang tercatat, untuk perhitungan adherence. Filter `where` diterapkan
+ * pada resep; tidak dicatat di audit karena hanya angka agregat yang dikembalikan ke pemanggil.
+ */
+export async function getPrescriptionsWithLogs(where: Prisma.exercise_prescriptionWhereInput) {
+    return await prisma.exercise_prescription.findMany({
+        where,
+        include: {
+            exercise: true,
+            exercise_adherence_log: {
+                select: { performed_on: true, pain_rating: true, difficulty_rating: true }
+            }
+        },
+        orderBy: [{ treatment_plan_id: 'asc' }, { sort_order: 'asc' }, { id: 'asc' }]
+    });
+}
@@ -0,0 +1,156 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../services/prisma';
+
+const model = prisma.exercise;
+
+export interface CreateExerciseData {
+    name: string;
+    description?: string | null;
+    body_region?: string | null;
+    media_url?: string | null;
+    default_sets?: number | null;
+    default_reps?: number | null;
+    default_hold_seconds?: number | null;
+    default_frequency?: string | null;
+    created_by?: number;
+}
+
+export interface UpdateExerciseData {
+    name?: string;
+    description?: string | null;
+    body_region?: string | null;
+    media_url?: string | null;
+    default_sets?: number | null;
+    default_reps?: number | null;
+    default_hold_seconds?: number | null;
+    default_frequency?: string | null;
+    active?: boolean;
+}
+
+export interface GetAllOptions {
+    search?: string;
+    body_region?: string;
+    activeOnly?: boolean | null; // null = semua
+    limit?: number;
+    offset?: number;
+}
+
+// Field dosis yang bisa diisi; dipakai validasi controller dan default resep
+export const DOSAGE_FIELDS = ['default_sets', 'default_reps', 'default_hold_seconds'] as const;
+
+export function formatForTable(exercise: any) {
+    if (!exercise) return null;
+    return {
+        id: exercise.id,
+        name: exercise.name,
+        description: exercise.description,
+        body_region: exercise.body_region,
+        media_url: exercise.media_url,
+        default_sets: exercise.default_sets,
+        default_reps: exercise.default_reps,
+        default_hold_seconds: exercise.default_hold_seconds,
+        default_frequency: exercise.default_frequency,
+        active: exercise.active,
+        created_by: exercise.created_by,
+        created_at: exercise.created_at,
+        updated_at: exercise.updated_at
+    };
+}
+
+export function getRequired(): Array<keyof CreateExerciseData> {
+    return ['name'];
+}
+
+export function formatCreate(data: any): Prisma.exerciseUncheckedCreateInput {
+    const formatted: Prisma.exerciseUncheckedCreateInput = {
+        name: String(data.name).trim()
+    };
+
+    if (data.description) formatted.description = data.description;
+    if (data.body_region) formatted.body_region = String(data.body_region).trim();
+    if (data.media_url) formatted.media_url = data.media_url;
+    if (data.default_sets != null) formatted.default_sets = Number(data.default_sets);
+    if (data.default_reps != null) formatted.default_reps = Number(data.default_reps);
+    if (data.default_hold_seconds != null) formatted.default_hold_seconds = Number(data.default_hold_seconds);
+    if (data.default_frequency) formatted.default_frequency = data.default_frequency;
+    if (data.created_by) formatted.created_by = data.created_by;
+
+    return formatted;
+}
+
+export async function create(data: Prisma.exerciseUncheckedCreateInput): Promise<any> {
+    const result = await model.create({ data });
+    return formatForTable(result);
+}
+
+export async function getById(id: number): Promise<any | null> {
+    const result = await model.findUnique({ where: { id } });
+    return formatForTable(result);
+}
+
+export async function getAll(options?: GetAllOptions): Promise<any[]> {
+    const where: Prisma.exerciseWhereInput = {};
+
+    if (options?.activeOnly === true) where.active = true;
+    else if (options?.activeOnly === false) where.active = false;
+
+    if (options?.body_region) where.body_region = options.body_region;
+    if (options?.search) {
+        where.OR = [
+            { name: { contains: options.search } },
+            { description: { contains: options.search } }
+        ];
+    }
+
+    const queryOptions: Prisma.exerciseFindManyArgs = {
+        where,
+        orderBy: [{ body_region: 'asc' }, { name: 'asc' }]
+    };
+
+    if (options?.limit) queryOptions.take = options.limit;
+    if (options?.offset) queryOptions.skip = options.offset;
+
+    const results = await model.findMany(queryOptions);
+    return results.map(formatForTable);
+}
+
+// Daftar body region yang sudah dipakai, untuk filter di UI
+export async function getBodyRegions(): Promise<string[]> {
+    const results = await model.findMany({
+        where: { active: true, body_region: { not: null } },
+        select: { body_region: true },
+        distinct: ['body_region'],
+        orderBy: { body_region: 'asc' }
+    });
+    return results.map((row) => row.body_region!);
+}
+
+export async function update(id: number, data: UpdateExerciseData): Promise<any> {
+    const updateData: Prisma.exerciseUncheckedUpdateInput = {
+        updated_at: new Date()
+    };
+
+    if (data.name !== undefined) updateData.name = String(data.name).trim();
+    if (data.description !== undefined) updateData.description = data.description || null;
+    if (data.body_region !== undefined) updateData.body_region = data.body_region ? String(data.body_region).trim() : null;
+    if (data.media_url !== undefined) updateData.media_url = data.media_url || null;
+    if (data.default_sets !== undefined) updateData.default_sets = data.default_sets == null ? null : Number(data.default_sets);
+    if (data.default_reps !== undefined) updateData.default_reps = data.default_reps == null ? null : Number(data.default_reps);
+    if (data.default_hold_seconds !== undefined) {
+        updateData.default_hold_seconds = data.default_hold_seconds == null ? null : Number(data.default_hold_seconds);
+    }
+    if (data.default_frequency !== undefined) updateData.default_frequency = data.default_frequency || null;
+    if (data.active !== undefined) updateData.active = data.active;
+
+    const result = await model.update({ where: { id }, data: updateData });
+    return formatForTable(result);
+}
+
+// Latihan yang sudah pernah diresepkan tidak dihapus, hanya dinonaktifkan dari library
+export async function deactivate(id: number): Promise<any> {
+    const result = await model.update({
+        where: { id },
+        data: { active: false, updated_at: new Date() }
+    });
+    return formatForTable(result);
+}
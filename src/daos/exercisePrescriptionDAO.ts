@@ -0,0 +1,187 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../services/prisma';
+import AuditService from '../services/AuditService';
+
+const model = prisma.exercise_prescription;
+
+export interface CreatePrescriptionData {
+    treatment_plan_id: number;
+    exercise_id: number;
+    sets?: number | null;
+    reps?: number | null;
+    hold_seconds?: number | null;
+    frequency?: string | null;
+    sessions_per_week?: number | null;
+    instructions?: string | null;
+    start_date: Date;
+    end_date?: Date | null;
+    sort_order?: number;
+    created_by?: number;
+}
+
+export interface UpdatePrescriptionData {
+    sets?: number | null;
+    reps?: number | null;
+    hold_seconds?: number | null;
+    frequency?: string | null;
+    sessions_per_week?: number | null;
+    instructions?: string | null;
+    start_date?: Date;
+    end_date?: Date | null;
+    sort_order?: number;
+}
+
+const include = { exercise: true, treatment_plan: { include: { patient: true } } };
+
+// Tanggal (tanpa jam) untuk perbandingan dengan kolom @db.Date
+export function toDateOnly(value: Date = new Date()) {
+    const date = new Date(value);
+    date.setHours(0, 0, 0, 0);
+    return date;
+}
+
+export function formatForTable(prescription: any) {
+    if (!prescription) return null;
+    return {
+        id: prescription.id,
+        treatment_plan_id: prescription.treatment_plan_id,
+        plan_title: prescription.treatment_plan?.title || '-',
+        patient_id: prescription.treatment_plan?.patient_id ?? null,
+        patient_name: prescription.treatment_plan?.patient?.name || '-',
+        exercise_id: prescription.exercise_id,
+        exercise_name: prescription.exercise?.name || '-',
+        exercise_description: prescription.exercise?.description ?? null,
+        body_region: prescription.exercise?.body_region ?? null,
+        media_url: prescription.exercise?.media_url ?? null,
+        sets: prescription.sets,
+        reps: prescription.reps,
+        hold_seconds: prescription.hold_seconds,
+        frequency: prescription.frequency,
+        sessions_per_week: prescription.sessions_per_week,
+        instructions: prescription.instructions,
+        start_date: prescription.start_date,
+        end_date: prescription.end_date,
+        sort_order: prescription.sort_order,
+        created_by: prescription.created_by,
+        created_at: prescription.created_at,
+        updated_at: prescription.updated_at
+    };
+}
+
+export function getRequired(): Array<keyof CreatePrescriptionData> {
+    return ['treatment_plan_id', 'exercise_id', 'start_date'];
+}
+
+/**
+ * Dosis yang tidak diisi diambil dari default latihan di library saat resep dibuat,
+ * jadi perubahan library sesudahnya tidak mengubah resep pasien yang sudah berjalan.
+ */
+export function formatCreate(data: any, exercise: any): Prisma.exercise_prescriptionUncheckedCreateInput {
+    const formatted: Prisma.exercise_prescriptionUncheckedCreateInput = {
+        treatment_plan_id: Number(data.treatment_plan_id),
+        exercise_id: Number(data.exercise_id),
+        sets: data.sets != null ? Number(data.sets) : exercise.default_sets,
+        reps: data.reps != null ? Number(data.reps) : exercise.default_reps,
+        hold_seconds: data.hold_seconds != null ? Number(data.hold_seconds) : exercise.default_hold_seconds,
+        frequency: data.frequency || exercise.default_frequency,
+        start_date: new Date(data.start_date)
+    };
+
+    if (data.sessions_per_week != null) formatted.sessions_per_week = Number(data.sessions_per_week);
+    if (data.instructions) formatted.instructions = data.instructions;
+    if (data.end_date) formatted.end_date = new Date(data.end_date);
+    if (data.sort_order != null) formatted.sort_order = Number(data.sort_order);
+    if (data.created_by) formatted.created_by = data.created_by;
+
+    return formatted;
+}
+
+export async function create(data: Prisma.exercise_prescriptionUncheckedCreateInput): Promise<any> {
+    const result = await model.create({ data, include });
+    await AuditService.recordCreate('exercise_prescription', result, result.treatment_plan.patient_id);
+    return formatForTable(result);
+}
+
+export async function getById(id: number): Promise<any | null> {
+    const result = await model.findUnique({ where: { id }, include });
+    if (result) await AuditService.recordRead('exercise_prescription', result.id, result.treatment_plan.patient_id);
+    return formatForTable(result);
+}
+
+export async function getByPlan(treatment_plan_id: number): Promise<any[]> {
+    const results = await model.findMany({
+        where: { treatment_plan_id },
+        include,
+        orderBy: [{ sort_order: 'asc' }, { start_date: 'asc' }, { id: 'asc' }]
+    });
+    await AuditService.recordList(
+        'exercise_prescription',
+        results.map((row) => ({ id: row.id, patient_id: row.treatment_plan.patient_id }))
+    );
+    return results.map(formatForTable);
+}
+
+/**
+ * Program pasien saat ini: resep yang berlaku pada `date` dari treatment plan ACTIVE
+ * yang belum dihapus, beserta log bertanda tangan terakhir dari plan (homework & tips).
+ * Tanpa audit; pemanggil mencatat akses sesuai konteksnya.
+ */
+export async function getCurrentForPatient(patient_id: number, date: Date = new Date(), treatment_plan_id?: number) {
+    const day = toDateOnly(date);
+    return await model.findMany({
+        where: {
+            start_date: { lte: day },
+            OR: [{ end_date: null }, { end_date: { gte: day } }],
+            treatment_plan: {
+                id: treatment_plan_id,
+                patient_id,
+                status: 'ACTIVE',
+                deleted_at: null
+            }
+        },
+        include: {
+            exercise: true,
+            treatment_plan: {
+                include: {
+                    patient: true,
+                    staff: true,
+                    treatment_log: {
+                        where: { deleted_at: null, status: { in: ['SIGNED', 'AMENDED'] } },
+                        orderBy: { visit_date: 'desc' },
+                        take: 1
+                    }
+                }
+            }
+        },
+        orderBy: [{ treatment_plan_id: 'asc' }, { sort_order: 'asc' }, { id: 'asc' }]
+    });
+}
+
+export async function update(id: number, data: UpdatePrescriptionData): Promise<any> {
+    const updateData: Prisma.exercise_prescriptionUncheckedUpdateInput = {
+        updated_at: new Date()
+    };
+
+    if (data.sets !== undefined) updateData.sets = data.sets == null ? null : Number(data.sets);
+    if (data.reps !== undefined) updateData.reps = data.reps == null ? null : Number(data.reps);
+    if (data.hold_seconds !== undefined) updateData.hold_seconds = data.hold_seconds == null ? null : Number(data.hold_seconds);
+    if (data.frequency !== undefined) updateData.frequency = data.frequency || null;
+    if (data.sessions_per_week !== undefined) {
+        updateData.sessions_per_week = data.sessions_per_week == null ? null : Number(data.sessions_per_week);
+    }
+    if (data.instructions !== undefined) updateData.instructions = data.instructions || null;
+    if (data.start_date !== undefined) updateData.start_date = new Date(data.start_date);
+    if (data.end_date !== undefined) updateData.end_date = data.end_date ? new Date(data.end_date) : null;
+    if (data.sort_order !== undefined) updateData.sort_order = Number(data.sort_order);
+
+    const before = await model.findUnique({ where: { id } });
+    const result = await model.update({ where: { id }, data: updateData, include });
+    await AuditService.recordUpdate('exercise_prescription', before, result, result.treatment_plan.patient_id);
+    return formatForTable(result);
+}
+
+export async function deletePrescription(id: number) {
+    const result = await model.delete({ where: { id }, include });
+    await AuditService.recordDelete('exercise_prescription', result, null, result.treatment_plan.patient_id);
+    return result;
+}
@@ -0,0 +1,97 @@
+import { Prisma, login_throttle as LoginThrottle, login_throttle_scope } from '@prisma/client';
+import prisma from '../services/prisma';
+
+const model = prisma.login_throttle;
+
+export interface GetAllOptions {
+    scope?: login_throttle_scope;
+    activeOnly?: boolean;
+    search?: string;
+}
+
+export async function getByIdentifier(scope: login_throttle_scope, identifier: string) {
+    return await model.findUnique({
+        where: { scope_identifier: { scope, identifier } }
+    });
+}
+
+export async function getById(id: LoginThrottle['id']) {
+    return await model.findUnique({ where: { id } });
+}
+
+export async function getAll(options?: GetAllOptions) {
+    const where: Prisma.login_throttleWhereInput = {};
+
+    if (options?.scope) where.scope = options.scope;
+    if (options?.activeOnly) where.locked_until = { gt: new Date() };
+    if (options?.search) where.identifier = { contains: options.search };
+
+    return await model.findMany({
+        where,
+        orderBy: [{ locked_until: 'desc' }, { last_failed_at: 'desc' }]
+    });
+}
+
+const isUniqueViolation = (error: any) =>
+    error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+// Menaikkan failed_count secara atomik di database. Hitungan yang percobaan gagal terakhirnya
+// sebelum windowStart di-reset dulu dalam transaksi yang sama.
+export async function incrementFailure(
+    scope: login_throttle_scope,
+    identifier: string,
+    windowStart: Date,
+    retry = true
+): Promise<LoginThrottle> {
+    const now = new Date();
+    try {
+        return await prisma.$transaction(async (tx) => {
+            await tx.login_throttle.updateMany({
+                where: {
+                    scope,
+                    identifier,
+                    OR: [{ last_failed_at: null }, { last_failed_at: { lt: windowStart } }]
+                },
+                data: { failed_count: 0, locked_until: null, updated_at: now }
+            });
+
+            return await tx.login_throttle.upsert({
+                where: { scope_identifier: { scope, identifier } },
+                create: {
+                    scope,
+                    identifier,
+                    failed_count: 1,
+                    last_failed_at: now
+                },
+                update: {
+                    failed_count: { increment: 1 },
+                    last_failed_at: now,
+                    updated_at: now
+                }
+            });
+        });
+    } catch (error) {
+        // Dua percobaan pertama yang paralel sama-sama insert; yang kalah cukup diulang sebagai update
+        if (retry && isUniqueViolation(error)) return await incrementFailure(scope, identifier, windowStart, false);
+        throw error;
+    }
+}
+
+// Hanya memperpanjang kunci, supaya percobaan paralel dengan hitungan lebih kecil tidak memperpendeknya
+export async function extendLock(id: LoginThrottle['id'], locked_until: Date) {
+    return await model.updateMany({
+        where: {
+            id,
+            OR: [{ locked_until: null }, { locked_until: { lt: locked_until } }]
+        },
+        data: { locked_until }
+    });
+}
+
+export async function clearByIdentifier(scope: login_throttle_scope, identifier: string) {
+    return await model.deleteMany({ where: { scope, identifier } });
+}
+
+export async function clearById(id: LoginThrottle['id']) {
+    return await model.delete({ where: { id } });
+}
@@ -1,7 +1,13 @@
-import { Prisma } from '@prisma/client';
+import { Prisma, clinical_entry_status } from '@prisma/client';
 import prisma from '../services/prisma';
 import hidash from '../utils/hidash';
 import { fetchImageAsBase64, isValidImageUrl } from '../utils/Imageutils';
+import * as BodyChartDAO from './bodyChartDAO';
+import BodyChartService, { BodyChartMark } from '../services/BodyChartService';
+import { PatientScope, buildPatientScopeWhere } from './patientAssignmentDAO';
+import AuditService from '../services/AuditService';
+import SignatureService from '../services/SignatureService';
+import { RevisionInput, appendMedicalHistoryRevision } from './revisionDAO';
 
 const model = prisma.medical_history;
 
@@ -62,6 +68,14 @@ export interface GetAllOptions {
     offset?: number;
     sortBy?: string;
     sortOrder?: 'asc' | 'desc';
+    status?: clinical_entry_status;
+    scope?: PatientScope;
+}
+
+export interface GetDeletedOptions {
+    patient_id?: number;
+    limit?: number;
+    offset?: number;
 }
 
 export interface ServiceTypeStat {
@@ -76,12 +90,6 @@ export interface MedicalHistoryStats {
     recentRecords: any[];
 }
 
-function parseDateOrNull(value: any): Date | null {
-    if (!value) return null;
-    const d = new Date(value);
-    return isNaN(d.getTime()) ? null : d;
-}
-
 export function formatMedicalHistoryForTable(history: any) {
     if (!history) return null;
     return {
@@ -113,6 +121,10 @@ export function formatMedicalHistoryForTable(history: any) {
         recovery_tips: history.recovery_tips,
         recommended_next_session: history.recommended_next_session,
         body_annotation: history.body_annotation,
+        status: history.status,
+        signed_at: history.signed_at,
+        signed_by: history.signed_by,
+        signature_hash: history.signature_hash,
         created_at: history.created_at,
         updated_at: history.updated_at
     };
@@ -147,30 +159,42 @@ export function formatCreate(data: any): Prisma.medical_historyUncheckedCreateIn
     if (data.recovery_tips) formatted.recovery_tips = data.recovery_tips;
     if (data.body_annotation) formatted.body_annotation = data.body_annotation;
 
-    const nextSession = parseDateOrNull(data.recommended_next_session);
+    const nextSession = hidash.parseDateOrNull(data.recommended_next_session);
     if (nextSession) formatted.recommended_next_session = nextSession;
 
     return formatted;
 }
 
-export async function create(data: Prisma.medical_historyUncheckedCreateInput): Promise<any> {
-    const result = await model.create({
+// Insert + revisi pertama di dalam transaksi pemanggil; audit dicatat pemanggil setelah commit
+export async function createInTransaction(
+    tx: Prisma.TransactionClient,
+    data: Prisma.medical_historyUncheckedCreateInput,
+    created_by?: number
+) {
+    const created = await tx.medical_history.create({
         data,
         include: { patient: true, staff: true, users: true }
     });
+    await appendMedicalHistoryRevision(tx, null, created, { changed_by: created_by });
+    return created;
+}
+
+export async function create(data: Prisma.medical_historyUncheckedCreateInput, created_by?: number): Promise<any> {
+    const result = await prisma.$transaction((tx) => createInTransaction(tx, data, created_by));
+    await AuditService.recordCreate('medical_history', result, result.patient_id);
     return formatMedicalHistoryForTable(result);
 }
 
 export async function getById(id: number): Promise<any | null> {
-    const result = await model.findUnique({
-        where: { id },
+    const result = await model.findFirst({
+        where: { id, deleted_at: null },
         include: { patient: true, staff: true, users: true }
     });
     return formatMedicalHistoryForTable(result);
 }
 
 export async function getByPatientId(patient_id: number, options?: GetAllOptions): Promise<any[]> {
-    const where: Prisma.medical_historyWhereInput = { patient_id };
+    const where: Prisma.medical_historyWhereInput = { patient_id, deleted_at: null };
 
     if (options?.dateFrom && options?.dateTo) {
         where.appointment_date = { gte: options.dateFrom, lte: options.dateTo };
@@ -178,6 +202,8 @@ export async function getByPatientId(patient_id: number, options?: GetAllOptions
     if (options?.service_type) where.service_type = options.service_type;
     if (options?.staff_id) where.staff_id = options.staff_id;
     if (options?.user_id) where.user_id = options.user_id;
+    if (options?.status) where.status = options.status;
+    if (options?.scope) where.patient = buildPatientScopeWhere(options.scope);
 
     const queryOptions: Prisma.medical_historyFindManyArgs = {
         where,
@@ -189,16 +215,19 @@ export async function getByPatientId(patient_id: number, options?: GetAllOptions
     if (options?.offset) queryOptions.skip = options.offset;
 
     const results = await model.findMany(queryOptions);
+    await AuditService.recordList('medical_history', results);
     return results.map(formatMedicalHistoryForTable);
 }
 
 export async function getAll(options?: GetAllOptions): Promise<any[]> {
-    const where: Prisma.medical_historyWhereInput = {};
+    const where: Prisma.medical_historyWhereInput = { deleted_at: null };
 
     if (options?.patient_id) where.patient_id = options.patient_id;
     if (options?.staff_id) where.staff_id = options.staff_id;
     if (options?.user_id) where.user_id = options.user_id;
     if (options?.service_type) where.service_type = options.service_type;
+    if (options?.status) where.status = options.status;
+    if (options?.scope) where.patient = buildPatientScopeWhere(options.scope);
 
     if (options?.search) {
         where.OR = [
@@ -232,10 +261,19 @@ export async function getAll(options?: GetAllOptions): Promise<any[]> {
     if (options?.offset) queryOptions.skip = options.offset;
 
     const results = await model.findMany(queryOptions);
+    await AuditService.recordList('medical_history', results);
     return results.map(formatMedicalHistoryForTable);
 }
 
-export async function update(id: number, data: UpdateMedicalHistoryData): Promise<any> {
+// Setiap update menghasilkan revisi baru; revision.is_amendment dipakai untuk entry yang sudah ditandatangani
+// Hanya berhasil jika status masih sama dengan yang dilihat controller (expectedStatus), agar edit draft
+// yang bersamaan dengan tanda tangan tidak mendarat di entry yang sudah SIGNED; null jika status berubah
+export async function update(
+    id: number,
+    data: UpdateMedicalHistoryData,
+    expectedStatus: clinical_entry_status,
+    revision?: RevisionInput
+): Promise<any | null> {
     const updateData: Prisma.medical_historyUncheckedUpdateInput = {
         updated_at: new Date()
     };
@@ -258,30 +296,133 @@ export async function update(id: number, data: UpdateMedicalHistoryData): Promis
     if (data.homework !== undefined) updateData.homework = data.homework;
     if (data.recovery_tips !== undefined) updateData.recovery_tips = data.recovery_tips;
     if (data.body_annotation !== undefined) updateData.body_annotation = data.body_annotation;
+    if (revision?.is_amendment) updateData.status = 'AMENDED';
 
     if (data.recommended_next_session !== undefined) {
-        const nextSession = parseDateOrNull(data.recommended_next_session);
+        const nextSession = hidash.parseDateOrNull(data.recommended_next_session);
         updateData.recommended_next_session = nextSession ?? null;
     }
 
+    const updated = await prisma.$transaction(async (tx) => {
+        const before = await tx.medical_history.findUniqueOrThrow({ where: { id } });
+        const { count } = await tx.medical_history.updateMany({
+            where: { id, status: expectedStatus },
+            data: updateData
+        });
+        if (!count) return null;
+
+        const result = await tx.medical_history.findUniqueOrThrow({
+            where: { id },
+            include: { patient: true, staff: true, users: true }
+        });
+        await appendMedicalHistoryRevision(tx, before, result, revision);
+        return { before, result };
+    });
+    if (!updated) return null;
+
+    const { before, result } = updated;
+    await AuditService.recordUpdate('medical_history', before, result, result.patient_id, revision?.reason);
+
+    return formatMedicalHistoryForTable(result);
+}
+
+// Tanda tangan mengunci entry; perubahan berikutnya hanya lewat amendment (lihat update)
+// Status dicek di dalam update agar dua penandatangan bersamaan tidak sama-sama berhasil; null jika sudah ditandatangani
+export async function sign(id: number, signed_by: number): Promise<any | null> {
+    const signed = await prisma.$transaction(async (tx) => {
+        const before = await tx.medical_history.findUniqueOrThrow({ where: { id } });
+        const { count } = await tx.medical_history.updateMany({
+            where: { id, status: { in: SignatureService.SIGNABLE_STATUSES } },
+            data: {
+                status: 'SIGNED',
+                signed_at: hidash.nowWithoutMillis(),
+                signed_by,
+                signature_hash: SignatureService.computeContentHash(before)
+            }
+        });
+        if (!count) return null;
+
+        const result = await tx.medical_history.findUniqueOrThrow({
+            where: { id },
+            include: { patient: true, staff: true, users: true }
+        });
+        return { before, result };
+    });
+    if (!signed) return null;
+
+    const { before, result } = signed;
+    await AuditService.recordUpdate('medical_history', before, result, result.patient_id);
+    return formatMedicalHistoryForTable(result);
+}
+
+export async function deleteMedicalHistory(id: number, deleted_by?: number): Promise<any> {
+    const before = await model.findUnique({ where: { id } });
     const result = await model.update({
         where: { id },
-        data: updateData,
+        data: { deleted_at: hidash.nowWithoutMillis(), deleted_by },
         include: { patient: true, staff: true, users: true }
     });
+    await AuditService.recordDelete('medical_history', before, result, result.patient_id);
+    return result;
+}
 
-    return formatMedicalHistoryForTable(result);
+export async function getDeletedById(id: number) {
+    return await model.findFirst({ where: { id, deleted_at: { not: null } } });
 }
 
-export async function deleteMedicalHistory(id: number): Promise<any> {
-    return await model.delete({
+export async function getDeleted(options?: GetDeletedOptions): Promise<any[]> {
+    const where: Prisma.medical_historyWhereInput = { deleted_at: { not: null } };
+    if (options?.patient_id) where.patient_id = options.patient_id;
+
+    const results = await model.findMany({
+        where,
+        include: { patient: true, staff: true, users: true },
+        orderBy: { deleted_at: 'desc' },
+        take: options?.limit,
+        skip: options?.offset
+    });
+    await AuditService.recordList('medical_history', results);
+
+    return results.map((h) => ({
+        ...formatMedicalHistoryForTable(h),
+        deleted_at: h.deleted_at,
+        deleted_by: h.deleted_by
+    }));
+}
+
+export async function restoreMedicalHistory(id: number): Promise<any> {
+    const before = await model.findUniqueOrThrow({ where: { id } });
+    const result = await model.update({
         where: { id },
+        data: { deleted_at: null, deleted_by: null },
         include: { patient: true, staff: true, users: true }
     });
+    await AuditService.recordRestore('medical_history', before, result, result.patient_id);
+    return formatMedicalHistoryForTable(result);
 }
 
-export async function getStats(dateFrom?: Date, dateTo?: Date): Promise<MedicalHistoryStats> {
-    const where: Prisma.medical_historyWhereInput = {};
+export async function purgeMedicalHistory(id: number) {
+    const result = await model.delete({ where: { id } });
+    await AuditService.recordPurge('medical_history', result, result.patient_id);
+    return result;
+}
+
+export async function purgeDeletedBefore(cutoff: Date): Promise<number> {
+    const expired = await model.findMany({
+        where: { deleted_at: { lt: cutoff } },
+        select: { id: true, patient_id: true }
+    });
+    if (expired.length === 0) return 0;
+
+    const result = await model.deleteMany({ where: { id: { in: expired.map((h) => h.id) } } });
+    await AuditService.recordList('medical_history', expired, 'PURGE');
+    return result.count;
+}
+
+export async function getStats(dateFrom?: Date, dateTo?: Date, scope?: PatientScope): Promise<MedicalHistoryStats> {
+    const where: Prisma.medical_historyWhereInput = { deleted_at: null };
+
+    if (scope) where.patient = buildPatientScopeWhere(scope);
 
     if (dateFrom && dateTo) {
         where.appointment_date = { gte: dateFrom, lte: dateTo };
@@ -319,6 +460,7 @@ export async function getStats(dateFrom?: Date, dateTo?: Date): Promise<MedicalH
         take: 10,
         orderBy: { appointment_date: 'desc' }
     });
+    await AuditService.recordList('medical_history', recentRecords);
 
     return {
         totalRecords,
@@ -328,18 +470,25 @@ export async function getStats(dateFrom?: Date, dateTo?: Date): Promise<MedicalH
     };
 }
 
-export async function getRecentMedicalHistories(limit: number = 10): Promise<any[]> {
+export async function getRecentMedicalHistories(limit: number = 10, scope?: PatientScope): Promise<any[]> {
     const results = await model.findMany({
+        where: {
+            deleted_at: null,
+            patient: scope ? buildPatientScopeWhere(scope) : undefined
+        },
         include: { patient: true, staff: true, users: true },
         take: limit,
         orderBy: { appointment_date: 'desc' }
     });
+    await AuditService.recordList('medical_history', results);
     return results.map(formatMedicalHistoryForTable);
 }
 
-export async function searchMedicalHistories(searchTerm: string): Promise<any[]> {
+export async function searchMedicalHistories(searchTerm: string, scope?: PatientScope): Promise<any[]> {
     const results = await model.findMany({
         where: {
+            deleted_at: null,
+            patient: scope ? buildPatientScopeWhere(scope) : undefined,
             OR: [
                 { service_type: { contains: searchTerm } },
                 { injury_type: { contains: searchTerm } },
@@ -359,11 +508,12 @@ export async function searchMedicalHistories(searchTerm: string): Promise<any[]>
         orderBy: { appointment_date: 'desc' },
         take: 50
     });
+    await AuditService.recordList('medical_history', results);
     return results.map(formatMedicalHistoryForTable);
 }
 
 export async function validatePatientExists(patient_id: number): Promise<boolean> {
-    const patient = await prisma.patient.findUnique({ where: { id: patient_id } });
+    const patient = await prisma.patient.findFirst({ where: { id: patient_id, deleted_at: null } });
     return !!patient;
 }
 
@@ -377,34 +527,47 @@ export async function validateUserExists(user_id: number): Promise<boolean> {
     return !!user;
 }
 
-export async function getByDateRange(startDate: Date, endDate: Date): Promise<any[]> {
+export async function getByDateRange(startDate: Date, endDate: Date, scope?: PatientScope): Promise<any[]> {
     const results = await model.findMany({
-        where: { appointment_date: { gte: startDate, lte: endDate } },
+        where: {
+            appointment_date: { gte: startDate, lte: endDate },
+            deleted_at: null,
+            patient: scope ? buildPatientScopeWhere(scope) : undefined
+        },
         include: { patient: true, staff: true, users: true },
         orderBy: { appointment_date: 'asc' }
     });
+    await AuditService.recordList('medical_history', results);
     return results.map(formatMedicalHistoryForTable);
 }
 
-export async function getUpcomingAppointments(days: number = 7): Promise<any[]> {
+export async function getUpcomingAppointments(days: number = 7, scope?: PatientScope): Promise<any[]> {
     const today = new Date();
     const endDate = new Date();
     endDate.setDate(today.getDate() + days);
 
     const results = await model.findMany({
-        where: { appointment_date: { gte: today, lte: endDate } },
+        where: {
+            appointment_date: { gte: today, lte: endDate },
+            deleted_at: null,
+            patient: scope ? buildPatientScopeWhere(scope) : undefined
+        },
         include: { patient: true, staff: true, users: true },
         orderBy: { appointment_date: 'asc' }
     });
+    await AuditService.recordList('medical_history', results);
     return results.map(formatMedicalHistoryForTable);
 }
 
 export async function getPatientProgressReport(patient_id: number): Promise<any> {
     const histories = await model.findMany({
-        where: { patient_id },
+        where: { patient_id, deleted_at: null },
         include: { patient: true, staff: true, users: true },
         orderBy: { appointment_date: 'asc' }
     });
+    await AuditService.recordList('medical_history', histories);
+
+    const marks = await BodyChartDAO.getByMedicalHistories(histories.map((history) => history.id));
 
     const sessionsWithBase64Images = await Promise.all(
         histories.map(async (history, index) => {
@@ -412,8 +575,22 @@ export async function getPatientProgressReport(patient_id: number): Promise<any>
             if (!formatted) return null;
 
             let body_annotation_base64: string | null = null;
-
-            if (isValidImageUrl(formatted.body_annotation)) {
+            const body_chart: BodyChartMark[] = marks
+                .filter((mark): mark is NonNullable<typeof mark> => mark?.medical_history_id === history.id)
+                .map((mark) => ({
+                    view: mark.view,
+                    region: mark.region,
+                    side: mark.side,
+                    x: Number(mark.x),
+                    y: Number(mark.y),
+                    symptom_type: mark.symptom_type,
+                    intensity: mark.intensity
+                }));
+
+            // Body chart terstruktur dirender di server; URL gambar lama tetap didukung untuk entry lama
+            if (body_chart.length) {
+                body_annotation_base64 = `data:image/png;base64,${BodyChartService.renderPng(body_chart).toString('base64')}`;
+            } else if (isValidImageUrl(formatted.body_annotation)) {
                 body_annotation_base64 = await fetchImageAsBase64(formatted.body_annotation);
             }
 
@@ -422,7 +599,8 @@ export async function getPatientProgressReport(patient_id: number): Promise<any>
                 session_number: index + 1,
                 session_date: history.appointment_date,
                 body_annotation_url: formatted.body_annotation,
-                body_annotation_base64
+                body_annotation_base64,
+                body_chart
             };
         })
     );
@@ -0,0 +1,233 @@
+import { Prisma, notification_channel, notification_status } from '@prisma/client';
+import prisma from '../services/prisma';
+import { NotificationAttachment } from '../utils/notificationAdapters';
+
+const model = prisma.notification_outbox;
+
+export interface GetAllOptions {
+    channel?: notification_channel;
+    status?: notification_status;
+    template?: string;
+    recipient?: string;
+    patient_id?: number;
+    dateFrom?: Date;
+    dateTo?: Date;
+    limit?: number;
+    offset?: number;
+}
+
+export function formatForTable(notification: any) {
+    if (!notification) return null;
+    return {
+        id: notification.id,
+        channel: notification.channel,
+        template: notification.template,
+        locale: notification.locale,
+        recipient: notification.recipient,
+        recipient_name: notification.recipient_name,
+        patient_id: notification.patient_id,
+        status: notification.status,
+        attempts: notification.attempts,
+        max_attempts: notification.max_attempts,
+        next_attempt_at: notification.next_attempt_at,
+        adapter: notification.adapter,
+        provider_message_id: notification.provider_message_id,
+        last_error: notification.last_error,
+        created_by: notification.created_by,
+        created_at: notification.created_at,
+        updated_at: notification.updated_at,
+        sent_at: notification.sent_at,
+        delivered_at: notification.delivered_at,
+        attachments_removed_at: notification.attachments_removed_at
+    };
+}
+
+// Detail untuk admin, termasuk payload dan konten yang sudah di-render; isi lampiran tidak ikut
+export function formatDetail(notification: any) {
+    if (!notification) return null;
+    return {
+        ...formatForTable(notification),
+        payload: notification.payload,
+        content: notification.content,
+        attachments: notification.notification_attachment ?? []
+    };
+}
+
+export async function create(
+    data: Prisma.notification_outboxUncheckedCreateInput,
+    tx: Prisma.TransactionClient = prisma,
+    attachments: NotificationAttachment[] = []
+) {
+    return await tx.notification_outbox.create({
+        data: attachments.length ? { ...data, notification_attachment: { create: attachments } } : data
+    });
+}
+
+export async function getById(id: number) {
+    return await model.findUnique({
+        where: { id },
+        include: { notification_attachment: { select: { id: true, filename: true, content_type: true, created_at: true } } }
+    });
+}
+
+export async function getAttachments(notification_id: number): Promise<NotificationAttachment[]> {
+    return await prisma.notification_attachment.findMany({
+        where: { notification_id },
+        select: { filename: true, content_type: true, content: true },
+        orderBy: { id: 'asc' }
+    });
+}
+
+export async function getAll(options?: GetAllOptions): Promise<any[]> {
+    const where: Prisma.notification_outboxWhereInput = {};
+
+    if (options?.channel) where.channel = options.channel;
+    if (options?.status) where.status = options.status;
+    if (options?.template) where.template = options.template;
+    if (options?.recipient) where.recipient = { contains: options.recipient };
+    if (options?.patient_id) where.patient_id = options.patient_id;
+
+    if (options?.dateFrom || options?.dateTo) {
+        where.created_at = {};
+        if (options.dateFrom) where.created_at.gte = options.dateFrom;
+        if (options.dateTo) where.created_at.lte = options.dateTo;
+    }
+
+    const queryOptions: Prisma.notification_outboxFindManyArgs = {
+        where,
+        orderBy: { created_at: 'desc' }
+    };
+
+    if (options?.limit) queryOptions.take = options.limit;
+    if (options?.offset) queryOptions.skip = options.offset;
+
+    const results = await model.findMany(queryOptions);
+    return results.map(formatForTable);
+}
+
+export async function getDueIds(now: Date, limit: number): Promise<number[]> {
+    const results = await model.findMany({
+        where: { status: 'PENDING', next_attempt_at: { lte: now } },
+        select: { id: true },
+        orderBy: { next_attempt_at: 'asc' },
+        take: limit
+    });
+    return results.map((row) => row.id);
+}
+
+/**
+ * Ambil satu notifikasi PENDING untuk dikirim. Update bersyarat pada status memastikan
+ * hanya satu dispatcher yang memprosesnya; mengembalikan null jika sudah diambil.
+ */
+export async function claim(id: number) {
+    const claimed = await model.updateMany({
+        where: { id, status: 'PENDING' },
+        data: { status: 'PROCESSING', attempts: { increment: 1 }, updated_at: new Date() }
+    });
+    if (claimed.count === 0) return null;
+    return await model.findUnique({ where: { id } });
+}
+
+// Lampiran hanya dibutuhkan selama notifikasi masih bisa dikirim. Setelah SENT/DEAD isinya (mis. PDF klinis)
+// dihapus; attachments_removed_at menandai notifikasi yang tidak bisa di-resend dengan lampiran yang sama.
+const removeAttachments = async (tx: Prisma.TransactionClient, where: Prisma.notification_outboxWhereInput) => {
+    await tx.notification_outbox.updateMany({
+        where: { ...where, attachments_removed_at: null, notification_attachment: { some: {} } },
+        data: { attachments_removed_at: new Date() }
+    });
+    await tx.notification_attachment.deleteMany({ where: { notification_outbox: where } });
+};
+
+export async function markSent(id: number, adapter: string, provider_message_id: string | null, scrub: boolean) {
+    return await prisma.$transaction(async (tx) => {
+        await removeAttachments(tx, { id });
+        return await tx.notification_outbox.update({
+            where: { id },
+            data: {
+                status: 'SENT',
+                adapter,
+                provider_message_id,
+                last_error: null,
+                sent_at: new Date(),
+                updated_at: new Date(),
+                ...(scrub ? { payload: Prisma.DbNull, content: Prisma.DbNull } : {})
+            }
+        });
+    });
+}
+
+export async function markRetry(id: number, adapter: string | null, error: string, next_attempt_at: Date) {
+    return await model.update({
+        where: { id },
+        data: { status: 'PENDING', adapter, last_error: error, next_attempt_at, updated_at: new Date() }
+    });
+}
+
+export async function markDead(id: number, adapter: string | null, error: string) {
+    return await prisma.$transaction(async (tx) => {
+        await removeAttachments(tx, { id });
+        return await tx.notification_outbox.update({
+            where: { id },
+            data: { status: 'DEAD', adapter, last_error: error, updated_at: new Date() }
+        });
+    });
+}
+
+// Notifikasi yang tertahan di PROCESSING (mis. proses mati saat mengirim) tidak dikirim ulang
+// otomatis karena bisa saja sudah sampai; dipindah ke dead letter untuk ditinjau admin.
+export async function deadLetterStale(cutoff: Date): Promise<number> {
+    return await prisma.$transaction(async (tx) => {
+        const stale = await tx.notification_outbox.findMany({
+            where: { status: 'PROCESSING', updated_at: { lt: cutoff } },
+            select: { id: true }
+        });
+        if (stale.length === 0) return 0;
+
+        const ids = stale.map((row) => row.id);
+        const result = await tx.notification_outbox.updateMany({
+            where: { id: { in: ids }, status: 'PROCESSING' },
+            data: {
+                status: 'DEAD',
+                last_error: 'Interrupted during dispatch; delivery state unknown',
+                updated_at: new Date()
+            }
+        });
+        await removeAttachments(tx, { id: { in: ids }, status: 'DEAD' });
+        return result.count;
+    });
+}
+
+export async function applyCallback(
+    adapter: string,
+    provider_message_id: string,
+    status: 'DELIVERED' | 'FAILED',
+    error?: string | null
+): Promise<number> {
+    const result = await model.updateMany({
+        where: {
+            adapter,
+            provider_message_id,
+            // Event lanjutan (mis. read setelah delivered) tidak mengubah delivered_at
+            status: status === 'DELIVERED' ? 'SENT' : { in: ['SENT', 'DELIVERED'] }
+        },
+        data: status === 'DELIVERED'
+            ? { status, delivered_at: new Date(), updated_at: new Date() }
+            : { status, last_error: error ?? null, updated_at: new Date() }
+    });
+    return result.count;
+}
+
+// Hanya notifikasi FAILED/DEAD yang bisa dikirim ulang; percobaan dihitung dari awal
+export async function requeue(id: number): Promise<boolean> {
+    const result = await model.updateMany({
+        where: { id, status: { in: ['FAILED', 'DEAD'] } },
+        data: {
+            status: 'PENDING',
+            attempts: 0,
+            next_attempt_at: new Date(),
+            last_error: null,
+            updated_at: new Date()
+        }
+    });
+    return result.count > 0;
+}
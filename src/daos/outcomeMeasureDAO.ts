@@ -0,0 +1,115 @@
+import { outcome_measure_code, Prisma } from '@prisma/client';
+import prisma from '../services/prisma';
+import AuditService from '../services/AuditService';
+
+const model = prisma.outcome_measure_result;
+
+export interface GetByPatientOptions {
+    measure?: outcome_measure_code;
+    treatment_plan_id?: number;
+    dateFrom?: Date;
+    dateTo?: Date;
+    limit?: number;
+    offset?: number;
+}
+
+const include = { patient: true, treatment_plan: true };
+
+export function formatForTable(result: any) {
+    if (!result) return null;
+    return {
+        id: result.id,
+        patient_id: result.patient_id,
+        patient_name: result.patient?.name || '-',
+        treatment_plan_id: result.treatment_plan_id,
+        plan_title: result.treatment_plan?.title ?? null,
+        measure: result.measure,
+        responses: result.responses,
+        raw_score: result.raw_score != null ? Number(result.raw_score) : null,
+        score: result.score != null ? Number(result.score) : null,
+        interpretation: result.interpretation,
+        administered_at: result.administered_at,
+        administered_by: result.administered_by,
+        notes: result.notes,
+        created_at: result.created_at
+    };
+}
+
+export function getRequired() {
+    return ['patient_id', 'measure', 'responses'];
+}
+
+// Skor & interpretasi dihitung OutcomeMeasureService sebelum disimpan
+export function formatCreate(
+    data: any,
+    scored: { responses: Record<string, number | null>; raw_score: number; score: number; interpretation: string | null }
+): Prisma.outcome_measure_resultUncheckedCreateInput {
+    const formatted: Prisma.outcome_measure_resultUncheckedCreateInput = {
+        patient_id: Number(data.patient_id),
+        measure: data.measure,
+        responses: scored.responses,
+        raw_score: scored.raw_score,
+        score: scored.score,
+        interpretation: scored.interpretation,
+        administered_at: data.administered_at ? new Date(data.administered_at) : new Date()
+    };
+
+    if (data.treatment_plan_id) formatted.treatment_plan_id = Number(data.treatment_plan_id);
+    if (data.administered_by) formatted.administered_by = data.administered_by;
+    if (data.notes) formatted.notes = data.notes;
+
+    return formatted;
+}
+
+export async function create(data: Prisma.outcome_measure_resultUncheckedCreateInput): Promise<any> {
+    const result = await model.create({ data, include });
+    await AuditService.recordCreate('outcome_measure_result', result, result.patient_id);
+    return formatForTable(result);
+}
+
+export async function getById(id: number): Promise<any | null> {
+    const result = await model.findUnique({ where: { id }, include });
+    if (result) await AuditService.recordRead('outcome_measure_result', result.id, result.patient_id);
+    return formatForTable(result);
+}
+
+export async function getByPatient(patient_id: number, options?: GetByPatientOptions): Promise<any[]> {
+    const where: Prisma.outcome_measure_resultWhereInput = {
+        patient_id,
+        measure: options?.measure,
+        treatment_plan_id: options?.treatment_plan_id
+    };
+
+    if (options?.dateFrom || options?.dateTo) {
+        where.administered_at = {};
+        if (options.dateFrom) where.administered_at.gte = options.dateFrom;
+        if (options.dateTo) where.administered_at.lte = options.dateTo;
+    }
+
+    const results = await model.findMany({
+        where,
+        include,
+        orderBy: [{ administered_at: 'desc' }, { id: 'desc' }],
+        take: options?.limit,
+        skip: options?.offset
+    });
+    await AuditService.recordList('outcome_measure_result', results);
+    return results.map(formatForTable);
+}
+
+// Semua hasil urut waktu (terlama dulu) untuk grafik perubahan terhadap baseline
+export async function getSeries(patient_id: number, measure?: outcome_measure_code, treatment_plan_id?: number): Promise<any[]> {
+    const results = await model.findMany({
+        where: { patient_id, measure, treatment_plan_id },
+        include,
+        orderBy: [{ administered_at: 'asc' }, { id: 'asc' }]
+    });
+    await AuditService.recordList('outcome_measure_result', results);
+    return results.map(formatForTable);
+}
+
+export async function deleteResult(id: number) {
+    const result = await model.delete({ where: { id } });
+    await AuditService.recordDelete('outcome_measure_result', result, null, result.patient_id);
+    return result;
+}
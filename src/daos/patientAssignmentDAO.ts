@@ -0,0 +1,184 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../services/prisma';
+
+const model = prisma.patient_assignment;
+const emergencyModel = prisma.patient_emergency_access;
+
+// Dipakai DAO klinis untuk membatasi query ke pasien yang di-assign ke user
+// (atau yang sedang dibuka lewat emergency access). undefined = tanpa batasan.
+export interface PatientScope {
+    user_id: number;
+}
+
+export interface GetEmergencyAccessOptions {
+    patient_id?: number;
+    user_id?: number;
+    activeOnly?: boolean;
+    limit?: number;
+    offset?: number;
+}
+
+export function buildPatientScopeWhere(scope: PatientScope): Prisma.patientWhereInput {
+    return {
+        OR: [
+            { patient_assignment: { some: { user_id: scope.user_id } } },
+            {
+                patient_emergency_access: {
+                    some: {
+                        user_id: scope.user_id,
+                        revoked_at: null,
+                        expires_at: { gt: new Date() }
+                    }
+                }
+            }
+        ]
+    };
+}
+
+export function formatForTable(assignment: any) {
+    if (!assignment) return null;
+    return {
+        id: assignment.id,
+        patient_id: assignment.patient_id,
+        user_id: assignment.user_id,
+        user_name: assignment.users?.username || '-',
+        user_role: assignment.users?.role || '-',
+        is_primary: assignment.is_primary,
+        assigned_by: assignment.assigned_by,
+        created_at: assignment.created_at
+    };
+}
+
+export function formatEmergencyAccessForTable(access: any) {
+    if (!access) return null;
+    return {
+        id: access.id,
+        patient_id: access.patient_id,
+        patient_name: access.patient?.name || '-',
+        patient_code: access.patient?.patient_code || '-',
+        user_id: access.user_id,
+        user_name: access.users?.username || '-',
+        user_role: access.users?.role || '-',
+        reason: access.reason,
+        ip_address: access.ip_address,
+        user_agent: access.user_agent,
+        expires_at: access.expires_at,
+        revoked_at: access.revoked_at,
+        active: !access.revoked_at && new Date(access.expires_at) > new Date(),
+        created_at: access.created_at
+    };
+}
+
+export async function getByPatientId(patient_id: number): Promise<any[]> {
+    const results = await model.findMany({
+        where: { patient_id },
+        include: { users: true },
+        orderBy: [{ is_primary: 'desc' }, { created_at: 'asc' }]
+    });
+    return results.map(formatForTable);
+}
+
+export async function hasAssignment(patient_id: number, user_id: number): Promise<boolean> {
+    const count = await model.count({ where: { patient_id, user_id } });
+    return count > 0;
+}
+
+export async function hasActiveEmergencyAccess(patient_id: number, user_id: number): Promise<boolean> {
+    const count = await emergencyModel.count({
+        where: {
+            patient_id,
+            user_id,
+            revoked_at: null,
+            expires_at: { gt: new Date() }
+        }
+    });
+    return count > 0;
+}
+
+// Hanya boleh ada satu primary clinician per pasien
+export async function assign(patient_id: number, user_id: number, is_primary: boolean, assigned_by?: number): Promise<any> {
+    const result = await prisma.$transaction(async (tx) => {
+        if (is_primary) {
+            await tx.patient_assignment.updateMany({
+                where: { patient_id, NOT: { user_id } },
+                data: { is_primary: false }
+            });
+        }
+        return await tx.patient_assignment.upsert({
+            where: { patient_id_user_id: { patient_id, user_id } },
+            create: { patient_id, user_id, is_primary, assigned_by },
+            update: { is_primary, assigned_by },
+            include: { users: true }
+        });
+    });
+    return formatForTable(result);
+}
+
+export async function unassign(patient_id: number, user_id: number) {
+    return await model.deleteMany({ where: { patient_id, user_id } });
+}
+
+// Pasien lama (sebelum ada assignment) di-assign ke pembuatnya sebagai primary
+export async function backfillFromCreators(): Promise<number> {
+    const patients = await prisma.patient.findMany({
+        where: {
+            created_by: { not: null },
+            patient_assignment: { none: {} }
+        },
+        select: { id: true, created_by: true }
+    });
+
+    if (patients.length === 0) return 0;
+
+    const result = await model.createMany({
+        data: patients.map((p) => ({
+            patient_id: p.id,
+            user_id: p.created_by!,
+            is_primary: true
+        })),
+        skipDuplicates: true
+    });
+    return result.count;
+}
+
+export async function createEmergencyAccess(data: Prisma.patient_emergency_accessUncheckedCreateInput): Promise<any> {
+    const result = await emergencyModel.create({
+        data,
+        include: { patient: true, users: true }
+    });
+    return formatEmergencyAccessForTable(result);
+}
+
+export async function getEmergencyAccessById(id: number) {
+    return await emergencyModel.findUnique({ where: { id } });
+}
+
+export async function getAllEmergencyAccess(options?: GetEmergencyAccessOptions): Promise<any[]> {
+    const where: Prisma.patient_emergency_accessWhereInput = {};
+
+    if (options?.patient_id) where.patient_id = options.patient_id;
+    if (options?.user_id) where.user_id = options.user_id;
+    if (options?.activeOnly) {
+        where.revoked_at = null;
+        where.expires_at = { gt: new Date() };
+    }
+
+    const queryOptions: Prisma.patient_emergency_accessFindManyArgs = {
+        where,
+        include: { patient: true, users: true },
+        orderBy: { created_at: 'desc' }
+    };
+
+    if (options?.limit) queryOptions.take = options.limit;
+    if (options?.offset) queryOptions.skip = options.offset;
+
+    const results = await emergencyModel.findMany(queryOptions);
+    return results.map(formatEmergencyAccessForTable);
+}
+
+export async function revokeEmergencyAccess(id: number) {
+    return await emergencyModel.updateMany({
+        where: { id, revoked_at: null },
+        data: { revoked_at: new Date() }
+    });
+}
@@ -1,6 +1,8 @@
 import { Prisma } from '@prisma/client';
 import prisma from '../services/prisma';
 import hidash from '../utils/hidash';
+import { PatientScope, buildPatientScopeWhere } from './patientAssignmentDAO';
+import AuditService from '../services/AuditService';
 
 const model = prisma.patient;
 
@@ -16,6 +18,8 @@ export interface CreatePatientData {
     weight?: number | null;
     allergies?: string | null;
     medical_notes?: string | null;
+    reminder_opt_out?: boolean;
+    portal_enabled?: boolean;
     created_by?: number | null;
 }
 
@@ -31,6 +35,8 @@ export interface UpdatePatientData {
     weight?: number | null;
     allergies?: string | null;
     medical_notes?: string | null;
+    reminder_opt_out?: boolean;
+    portal_enabled?: boolean;
 }
 
 export interface GetAllOptions {
@@ -41,6 +47,13 @@ export interface GetAllOptions {
     dateTo?: Date;
     limit?: number;
     offset?: number;
+    scope?: PatientScope;
+}
+
+export interface GetDeletedOptions {
+    search?: string;
+    limit?: number;
+    offset?: number;
 }
 
 // Helper untuk generate next patient code: PAT-1, PAT-2, etc
@@ -92,6 +105,8 @@ export function formatPatientForTable(patient: any) {
         bmi: bmi,
         allergies: patient.allergies,
         medical_notes: patient.medical_notes,
+        reminder_opt_out: patient.reminder_opt_out,
+        portal_enabled: patient.portal_enabled,
         created_by: patient.created_by,
         created_at: patient.created_at,
         updated_at: patient.updated_at,
@@ -134,6 +149,8 @@ export function formatCreate(data: any): Prisma.patientCreateInput {
     if (data.weight) formatted.weight = data.weight;
     if (data.allergies) formatted.allergies = data.allergies;
     if (data.medical_notes) formatted.medical_notes = data.medical_notes;
+    if (data.reminder_opt_out !== undefined) formatted.reminder_opt_out = data.reminder_opt_out;
+    if (data.portal_enabled !== undefined) formatted.portal_enabled = data.portal_enabled;
     if (data.created_by) formatted.users = { connect: { id: data.created_by } };
 
     return formatted;
@@ -151,12 +168,14 @@ export async function create(data: Prisma.patientCreateInput): Promise<any> {
             users: true
         }
     });
+    await AuditService.recordCreate('patient', result, result.id);
     return formatPatientForTable(result);
 }
 
+// Getter pasien tidak mencatat READ; controller mencatatnya setelah cek akses pasien lolos
 export async function getById(id: number): Promise<any | null> {
-    const result = await model.findUnique({ 
-        where: { id },
+    const result = await model.findFirst({ 
+        where: { id, deleted_at: null },
         include: {
             users: true
         }
@@ -165,8 +184,8 @@ export async function getById(id: number): Promise<any | null> {
 }
 
 export async function getByPatientCode(patient_code: string): Promise<any | null> {
-    const result = await model.findUnique({ 
-        where: { patient_code },
+    const result = await model.findFirst({ 
+        where: { patient_code, deleted_at: null },
         include: {
             users: true
         }
@@ -175,7 +194,7 @@ export async function getByPatientCode(patient_code: string): Promise<any | null
 }
 
 export async function getAll(options?: GetAllOptions): Promise<any[]> {
-    const where: Prisma.patientWhereInput = {};
+    const where: Prisma.patientWhereInput = { deleted_at: null };
 
     if (options?.search) {
         where.OR = [
@@ -201,6 +220,10 @@ export async function getAll(options?: GetAllOptions): Promise<any[]> {
         };
     }
 
+    if (options?.scope) {
+        where.AND = [buildPatientScopeWhere(options.scope)];
+    }
+
     const queryOptions: any = {
         where,
         include: {
@@ -220,6 +243,7 @@ export async function getAll(options?: GetAllOptions): Promise<any[]> {
     }
 
     const results = await model.findMany(queryOptions);
+    await AuditService.recordList('patient', results.map((p: any) => ({ id: p.id, patient_id: p.id })));
     return results.map(formatPatientForTable);
 }
 
@@ -245,7 +269,10 @@ export async function update(id: number, data: UpdatePatientData): Promise<any>
     if (data.weight !== undefined) updateData.weight = data.weight;
     if (data.allergies !== undefined) updateData.allergies = data.allergies;
     if (data.medical_notes !== undefined) updateData.medical_notes = data.medical_notes;
+    if (data.reminder_opt_out !== undefined) updateData.reminder_opt_out = data.reminder_opt_out;
+    if (data.portal_enabled !== undefined) updateData.portal_enabled = data.portal_enabled;
 
+    const before = await model.findUnique({ where: { id } });
     const result = await model.update({
         where: { id },
         data: updateData,
@@ -253,45 +280,142 @@ export async function update(id: number, data: UpdatePatientData): Promise<any>
             users: true
         }
     });
+    await AuditService.recordUpdate('patient', before, result, id);
     
     return formatPatientForTable(result);
 }
 
-export async function deletePatient(id: number): Promise<any> {
-    return await model.delete({ 
-        where: { id },
+// Soft delete; riwayat medis, treatment plan dan log pasien ikut masuk trash dengan deleted_at yang sama
+// supaya bisa di-restore bersama
+export async function deletePatient(id: number, deleted_by?: number): Promise<any> {
+    const before = await model.findUnique({ where: { id } });
+    const data = { deleted_at: hidash.nowWithoutMillis(), deleted_by };
+
+    const [result, histories, plans, logs] = await prisma.$transaction([
+        model.update({
+            where: { id },
+            data,
+            include: {
+                users: true
+            }
+        }),
+        prisma.medical_history.updateMany({ where: { patient_id: id, deleted_at: null }, data }),
+        prisma.treatment_plan.updateMany({ where: { patient_id: id, deleted_at: null }, data }),
+        prisma.treatment_log.updateMany({ where: { treatment_plan: { patient_id: id }, deleted_at: null }, data })
+    ]);
+    await AuditService.recordDelete('patient', before, result, id, {
+        medical_history: histories.count,
+        treatment_plan: plans.count,
+        treatment_log: logs.count
+    });
+    return result;
+}
+
+export async function getDeletedById(id: number) {
+    return await model.findFirst({ where: { id, deleted_at: { not: null } } });
+}
+
+export async function getDeleted(options?: GetDeletedOptions): Promise<any[]> {
+    const where: Prisma.patientWhereInput = { deleted_at: { not: null } };
+
+    if (options?.search) {
+        where.OR = [
+            { name: { contains: options.search } },
+            { patient_code: { contains: options.search } }
+        ];
+    }
+
+    const results = await model.findMany({
+        where,
         include: {
             users: true
-        }
+        },
+        orderBy: { deleted_at: 'desc' },
+        take: options?.limit,
+        skip: options?.offset
+    });
+    await AuditService.recordList('patient', results.map((p: any) => ({ id: p.id, patient_id: p.id })));
+
+    return results.map((p) => ({
+        ...formatPatientForTable(p),
+        deleted_at: p.deleted_at,
+        deleted_by: p.deleted_by
+    }));
+}
+
+// Record turunan yang terhapus bersama pasien (deleted_at sama) ikut di-restore
+export async function restorePatient(id: number): Promise<any> {
+    const before = await model.findUniqueOrThrow({ where: { id } });
+    const cascaded = { deleted_at: before.deleted_at };
+    const data = { deleted_at: null, deleted_by: null };
+
+    const [result, histories, plans, logs] = await prisma.$transaction([
+        model.update({
+            where: { id },
+            data,
+            include: {
+                users: true
+            }
+        }),
+        prisma.medical_history.updateMany({ where: { patient_id: id, ...cascaded }, data }),
+        prisma.treatment_plan.updateMany({ where: { patient_id: id, ...cascaded }, data }),
+        prisma.treatment_log.updateMany({ where: { treatment_plan: { patient_id: id }, ...cascaded }, data })
+    ]);
+    await AuditService.recordRestore('patient', before, result, id, {
+        medical_history: histories.count,
+        treatment_plan: plans.count,
+        treatment_log: logs.count
     });
+    return formatPatientForTable(result);
+}
+
+// Hapus permanen; relasi onDelete: Cascade ikut menghapus record turunan
+export async function purgePatient(id: number) {
+    const result = await model.delete({ where: { id } });
+    await AuditService.recordPurge('patient', result, id);
+    return result;
+}
+
+export async function purgeDeletedBefore(cutoff: Date): Promise<number> {
+    const expired = await model.findMany({
+        where: { deleted_at: { lt: cutoff } },
+        select: { id: true }
+    });
+    if (expired.length === 0) return 0;
+
+    const ids = expired.map((p) => p.id);
+    const result = await model.deleteMany({ where: { id: { in: ids } } });
+    await AuditService.recordList('patient', expired.map((p) => ({ id: p.id, patient_id: p.id })), 'PURGE');
+    return result.count;
 }
 
 export async function getByPhone(phone: string): Promise<any | null> {
     const result = await model.findFirst({ 
-        where: { phone },
+        where: { phone, deleted_at: null },
         include: {
             users: true
         },
         orderBy: { id: 'desc' }
     });
-    
     return formatPatientForTable(result);
 }
 
 export async function getByEmail(email: string): Promise<any | null> {
     const result = await model.findFirst({ 
-        where: { email },
+        where: { email, deleted_at: null },
         include: {
             users: true
         },
         orderBy: { id: 'desc' }
     });
-    
     return formatPatientForTable(result);
 }
 
-export async function getStats(dateFrom?: Date, dateTo?: Date): Promise<PatientStats> {
-    const where: Prisma.patientWhereInput = {};
+export async function getStats(dateFrom?: Date, dateTo?: Date, scope?: PatientScope): Promise<PatientStats> {
+    const where: Prisma.patientWhereInput = {
+        deleted_at: null,
+        ...(scope ? buildPatientScopeWhere(scope) : {})
+    };
     
     if (dateFrom && dateTo) {
         where.created_at = {
@@ -316,6 +440,7 @@ export async function getStats(dateFrom?: Date, dateTo?: Date): Promise<PatientS
         take: 10,
         orderBy: { id: 'desc' }
     });
+    await AuditService.recordList('patient', recentPatients.map((p: any) => ({ id: p.id, patient_id: p.id })));
 
     // Calculate average age
     const patientsWithDOB = await model.findMany({
@@ -369,19 +494,24 @@ export async function getStats(dateFrom?: Date, dateTo?: Date): Promise<PatientS
     };
 }
 
-export async function getRecentPatients(limit: number = 10): Promise<any[]> {
+export async function getRecentPatients(limit: number = 10, scope?: PatientScope): Promise<any[]> {
     const results = await model.findMany({
+        where: {
+            deleted_at: null,
+            ...(scope ? buildPatientScopeWhere(scope) : {})
+        },
         include: {
             users: true
         },
         take: limit,
         orderBy: { id: 'desc' }
     });
+    await AuditService.recordList('patient', results.map((p: any) => ({ id: p.id, patient_id: p.id })));
     
     return results.map(formatPatientForTable);
 }
 
-export async function searchPatients(searchTerm: string): Promise<any[]> {
+export async function searchPatients(searchTerm: string, scope?: PatientScope): Promise<any[]> {
     const results = await model.findMany({
         where: {
             OR: [
@@ -389,7 +519,9 @@ export async function searchPatients(searchTerm: string): Promise<any[]> {
                 { patient_code: { contains: searchTerm } },
                 { phone: { contains: searchTerm } },
                 { email: { contains: searchTerm } }
-            ]
+            ],
+            deleted_at: null,
+            AND: scope ? [buildPatientScopeWhere(scope)] : []
         },
         include: {
             users: true
@@ -397,6 +529,7 @@ export async function searchPatients(searchTerm: string): Promise<any[]> {
         orderBy: { id: 'desc' },
         take: 50
     });
+    await AuditService.recordList('patient', results.map((p: any) => ({ id: p.id, patient_id: p.id })));
     
     return results.map(formatPatientForTable);
 }
@@ -404,13 +537,15 @@ export async function searchPatients(searchTerm: string): Promise<any[]> {
 export async function getPatientsByDoctor(created_by: number): Promise<any[]> {
     const results = await model.findMany({
         where: {
-            created_by
+            created_by,
+            deleted_at: null
         },
         include: {
             users: true
         },
         orderBy: { id: 'desc' }
     });
+    await AuditService.recordList('patient', results.map((p: any) => ({ id: p.id, patient_id: p.id })));
     
     return results.map(formatPatientForTable);
 }
@@ -0,0 +1,45 @@
+import { Prisma, patient_login_challenge as PatientLoginChallenge, patient_login_method } from '@prisma/client';
+import prisma from '../services/prisma';
+
+const model = prisma.patient_login_challenge;
+
+export async function create(data: Prisma.patient_login_challengeUncheckedCreateInput) {
+    return await model.create({ data });
+}
+
+export async function getById(id: PatientLoginChallenge['id']) {
+    return await model.findUnique({ where: { id } });
+}
+
+// Hanya challenge terbaru yang berlaku; meminta kode baru otomatis membatalkan kode sebelumnya
+export async function getLatest(patient_id: number, method: patient_login_method) {
+    return await model.findFirst({
+        where: { patient_id, method },
+        orderBy: { id: 'desc' }
+    });
+}
+
+export async function countSince(patient_id: number, since: Date) {
+    return await model.count({ where: { patient_id, created_at: { gte: since } } });
+}
+
+export async function incrementAttempts(id: PatientLoginChallenge['id']) {
+    return await model.update({
+        where: { id },
+        data: { attempts: { increment: 1 } }
+    });
+}
+
+// Bersyarat supaya kode yang sama tidak bisa dipakai dua kali oleh request paralel
+export async function consume(id: PatientLoginChallenge['id']): Promise<boolean> {
+    const result = await model.updateMany({
+        where: { id, consumed_at: null },
+        data: { consumed_at: new Date() }
+    });
+    return result.count === 1;
+}
+
+export async function deleteExpiredBefore(cutoff: Date): Promise<number> {
+    const result = await model.deleteMany({ where: { expires_at: { lt: cutoff } } });
+    return result.count;
+}
@@ -0,0 +1,45 @@
+import { Prisma, patient_session as PatientSession } from '@prisma/client';
+import prisma from '../services/prisma';
+
+const model = prisma.patient_session;
+
+export async function create(data: Prisma.patient_sessionUncheckedCreateInput) {
+    return await model.create({ data });
+}
+
+export async function getById(id: PatientSession['id']) {
+    return await model.findUnique({ where: { id } });
+}
+
+// Compare-and-swap seperti sesi staf: false berarti token lama sudah dipakai request lain
+export async function rotate(id: PatientSession['id'], old_refresh_token_hash: string, refresh_token_hash: string, expires_at: Date) {
+    const { count } = await model.updateMany({
+        where: { id, refresh_token_hash: old_refresh_token_hash, revoked_at: null },
+        data: {
+            refresh_token_hash,
+            expires_at,
+            last_used_at: new Date()
+        }
+    });
+    return count > 0;
+}
+
+export async function revoke(id: PatientSession['id'], reason: string) {
+    return await model.updateMany({
+        where: { id, revoked_at: null },
+        data: {
+            revoked_at: new Date(),
+            revoked_reason: reason
+        }
+    });
+}
+
+export async function revokeAllByPatient(patient_id: number, reason: string) {
+    return await model.updateMany({
+        where: { patient_id, revoked_at: null },
+        data: {
+            revoked_at: new Date(),
+            revoked_reason: reason
+        }
+    });
+}
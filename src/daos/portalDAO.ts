@@ -0,0 +1,201 @@
+import { clinical_entry_status } from '@prisma/client';
+import prisma from '../services/prisma';
+import AuditService from '../services/AuditService';
+
+/**
+ * Query untuk portal pasien. Setiap fungsi menerima patient_id dari token portal dan
+ * hanya mengembalikan field yang boleh dilihat pasien; catatan internal klinisi
+ * (notes, treatment, diagnosis) dan log yang masih DRAFT tidak pernah ikut.
+ */
+
+// Hanya log yang sudah ditandatangani klinisi yang terlihat oleh pasien
+const VISIBLE_LOG_STATUSES: clinical_entry_status[] = ['SIGNED', 'AMENDED'];
+
+const visibleLogWhere = { deleted_at: null, status: { in: VISIBLE_LOG_STATUSES } };
+
+export interface GetLogsOptions {
+    treatment_plan_id?: number;
+    limit?: number;
+    offset?: number;
+}
+
+export function formatProfile(patient: any) {
+    if (!patient) return null;
+    return {
+        id: patient.id,
+        patient_code: patient.patient_code,
+        name: patient.name,
+        gender: patient.gender,
+        date_of_birth: patient.date_of_birth,
+        email: patient.email,
+        phone: patient.phone,
+        reminder_opt_out: patient.reminder_opt_out
+    };
+}
+
+export function formatPlan(plan: any) {
+    if (!plan) return null;
+    return {
+        id: plan.id,
+        title: plan.title,
+        service_type: plan.service_type,
+        injury_type: plan.injury_type,
+        area_concern: plan.area_concern,
+        expected_recovery_time: plan.expected_recovery_time,
+        recovery_goals: plan.recovery_goals,
+        status: plan.status,
+        started_at: plan.started_at,
+        ended_at: plan.ended_at,
+        staff_name: plan.staff?.name || '-'
+    };
+}
+
+export function formatLog(log: any) {
+    if (!log) return null;
+    return {
+        id: log.id,
+        treatment_plan_id: log.treatment_plan_id,
+        plan_title: log.treatment_plan?.title || '-',
+        visit_date: log.visit_date,
+        staff_name: log.staff?.name || '-',
+        homework: log.homework,
+        exercise: log.exercise,
+        recovery_tips: log.recovery_tips,
+        recommended_next_session: log.recommended_next_session,
+        signed_at: log.signed_at
+    };
+}
+
+export function formatAppointment(appointment: any) {
+    if (!appointment) return null;
+    return {
+        id: appointment.id,
+        treatment_plan_id: appointment.treatment_plan_id,
+        plan_title: appointment.treatment_plan?.title || null,
+        staff_name: appointment.staff?.name || '-',
+        room: appointment.room,
+        start_at: appointment.start_at,
+        end_at: appointment.end_at,
+        status: appointment.status
+    };
+}
+
+// Pasien yang boleh login ke portal: punya email, portal diaktifkan staf, dan tidak dihapus
+export async function getPortalPatientByEmail(email: string) {
+    return await prisma.patient.findFirst({
+        where: { email, portal_enabled: true, deleted_at: null },
+        orderBy: { id: 'desc' }
+    });
+}
+
+export async function getPortalPatientById(id: number) {
+    return await prisma.patient.findFirst({
+        where: { id, portal_enabled: true, deleted_at: null }
+    });
+}
+
+export async function getTreatmentPlans(patient_id: number): Promise<any[]> {
+    const plans = await prisma.treatment_plan.findMany({
+        where: { patient_id, deleted_at: null },
+        include: { staff: true },
+        orderBy: { started_at: 'desc' }
+    });
+    await AuditService.recordList('treatment_plan', plans);
+    return plans.map(formatPlan);
+}
+
+export async function getTreatmentPlan(patient_id: number, id: number): Promise<any | null> {
+    const plan = await prisma.treatment_plan.findFirst({
+        where: { id, patient_id, deleted_at: null },
+        include: {
+            staff: true,
+            treatment_log: {
+                where: visibleLogWhere,
+                include: { staff: true },
+                orderBy: { visit_date: 'desc' }
+            }
+        }
+    });
+    if (!plan) return null;
+
+    await AuditService.recordRead('treatment_plan', plan.id, patient_id);
+    return {
+        ...formatPlan(plan),
+        treatment_logs: plan.treatment_log.map((log) => formatLog({ ...log, treatment_plan: plan }))
+    };
+}
+
+export async function getLogs(patient_id: number, options?: GetLogsOptions): Promise<any[]> {
+    const logs = await prisma.treatment_log.findMany({
+        where: {
+            ...visibleLogWhere,
+            treatment_plan_id: options?.treatment_plan_id,
+            treatment_plan: { patient_id, deleted_at: null }
+        },
+        include: { treatment_plan: true, staff: true },
+        orderBy: { visit_date: 'desc' },
+        take: options?.limit,
+        skip: options?.offset
+    });
+    await AuditService.recordList('treatment_log', logs.map((log) => ({ id: log.id, patient_id })));
+    return logs.map(formatLog);
+}
+
+export async function getUpcomingAppointments(patient_id: number, from: Date = new Date()): Promise<any[]> {
+    const appointments = await prisma.appointment.findMany({
+        where: {
+            patient_id,
+            status: { in: ['BOOKED', 'ARRIVED'] },
+            end_at: { gte: from }
+        },
+        include: { staff: true, treatment_plan: true },
+        orderBy: { start_at: 'asc' }
+    });
+    await AuditService.recordList('appointment', appointments);
+    return appointments.map(formatAppointment);
+}
+
+// Data grafik: skala nyeri sebelum/sesudah per kunjungan, dikelompokkan per treatment plan
+export async function getProgress(patient_id: number, treatment_plan_id?: number): Promise<any[]> {
+    const plans = await prisma.treatment_plan.findMany({
+        where: { id: treatment_plan_id, patient_id, deleted_at: null },
+        include: {
+            treatment_log: {
+                where: visibleLogWhere,
+                orderBy: { visit_date: 'asc' }
+            }
+        },
+        orderBy: { started_at: 'asc' }
+    });
+    await AuditService.recordList(
+        'treatment_log',
+        plans.flatMap((plan) => plan.treatment_log.map((log) => ({ id: log.id, patient_id })))
+    );
+
+    return plans.map((plan) => {
+        const points = plan.treatment_log.map((log, index) => ({
+            session_number: index + 1,
+            visit_date: log.visit_date,
+            pain_before: log.pain_before,
+            pain_after: log.pain_after
+        }));
+        const withPain = points.filter((point) => point.pain_before !== null);
+
+        return {
+            treatment_plan_id: plan.id,
+            title: plan.title,
+            status: plan.status,
+            total_sessions: points.length,
+            first_pain: withPain[0]?.pain_before ?? null,
+            latest_pain: withPain.length ? withPain[withPain.length - 1].pain_before : null,
+            points
+        };
+    });
+}
+
+// Resep latihan milik pasien pada treatment plan aktif, untuk pencatatan sesi dari portal
+export async function getActivePrescription(patient_id: number, id: number) {
+    return await prisma.exercise_prescription.findFirst({
+        where: { id, treatment_plan: { patient_id, status: 'ACTIVE', deleted_at: null } }
+    });
+}
@@ -0,0 +1,125 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../services/prisma';
+import AuditService from '../services/AuditService';
+import { formatMedicalHistoryForTable } from './medicalHistoryDAO';
+import { formatForTable as formatTreatmentLogForTable } from './treatmentLogDAO';
+import * as BodyChartDAO from './bodyChartDAO';
+
+export interface ProgressReportFilters {
+    dateFrom?: Date;
+    dateTo?: Date;
+    plan?: { id: number; started_at: Date; ended_at: Date | null };
+}
+
+const endOfDay = (date: Date) => {
+    const end = new Date(date);
+    end.setHours(23, 59, 59, 999);
+    return end;
+};
+
+// Irisan rentang tanggal yang diminta dengan rentang treatment plan (bila ada)
+const dateRange = (filters: ProgressReportFilters): Prisma.DateTimeFilter => {
+    const range: Prisma.DateTimeFilter = {};
+    const from = [filters.dateFrom, filters.plan?.started_at].filter(Boolean) as Date[];
+    const to = [filters.dateTo, filters.plan?.ended_at].filter(Boolean).map((date) => endOfDay(date as Date));
+    if (from.length) range.gte = new Date(Math.max(...from.map((date) => date.getTime())));
+    if (to.length) range.lte = new Date(Math.min(...to.map((date) => date.getTime())));
+    return range;
+};
+
+// Nama penanda tangan: nama staff yang terhubung ke user, fallback ke username
+const getSignerNames = async (user_ids: number[]) => {
+    const names = new Map<number, string>();
+    if (!user_ids.length) return names;
+    const users = await prisma.users.findMany({
+        where: { id: { in: user_ids } },
+        select: { id: true, username: true, staff: { select: { name: true } } }
+    });
+    for (const user of users as any[]) names.set(user.id, user.staff?.name || user.username);
+    return names;
+};
+
+// Nama klinisi yang menyusun laporan (user yang sedang login)
+export async function getPreparerName(user_id: number): Promise<string | null> {
+    return (await getSignerNames([user_id])).get(user_id) ?? null;
+}
+
+/**
+ * Semua entry klinis pasien untuk laporan progres PDF: medical history (assessment) dan
+ * treatment log (kunjungan), urut tanggal. Dengan treatment plan, log dibatasi ke plan tersebut
+ * dan medical history ke rentang tanggal plan, sama seperti query body chart per plan.
+ */
+export async function getEntries(patient_id: number, filters: ProgressReportFilters = {}) {
+    const range = dateRange(filters);
+    const histories = await prisma.medical_history.findMany({
+        where: { patient_id, deleted_at: null, appointment_date: range },
+        include: { patient: true, staff: true, users: true },
+        orderBy: [{ appointment_date: 'asc' }, { id: 'asc' }]
+    });
+    const logs = await prisma.treatment_log.findMany({
+        where: {
+            deleted_at: null,
+            visit_date: range,
+            treatment_plan: filters.plan ? { id: filters.plan.id } : { patient_id, deleted_at: null }
+        },
+        include: {
+            treatment_plan: { include: { patient: true } },
+            staff: true,
+            users: true,
+            users_treatment_log_user_idTousers: true
+        },
+        orderBy: [{ visit_date: 'asc' }, { id: 'asc' }]
+    });
+
+    await AuditService.recordList('medical_history', histories);
+    await AuditService.recordList('treatment_log', logs.map((log) => ({ id: log.id, patient_id: log.treatment_plan.patient_id })));
+
+    const marks = [
+        ...(await BodyChartDAO.getByMedicalHistories(histories.map((history) => history.id))),
+        ...(await BodyChartDAO.getByTreatmentLogs(logs.map((log) => log.id)))
+    ];
+    const signers = await getSignerNames(
+        Array.from(new Set([...histories, ...logs].map((entry) => entry.signed_by).filter((id): id is number => id != null)))
+    );
+
+    const entries = [
+        ...histories.map((history) => {
+            const formatted = formatMedicalHistoryForTable(history)!;
+            return {
+                entry_type: 'medical_history' as const,
+                id: history.id,
+                date: history.appointment_date,
+                staff_name: formatted.staff_name,
+                pain_before: history.pain_before,
+                pain_after: history.pain_after,
+                summary: [history.diagnosis_result, history.treatments, history.objective_progress].filter(Boolean).join(' | '),
+                status: history.status,
+                signed_at: history.signed_at,
+                signed_by: history.signed_by,
+                signer_name: history.signed_by != null ? signers.get(history.signed_by) ?? null : null,
+                signature_hash: history.signature_hash,
+                body_chart: marks.filter((mark) => mark?.medical_history_id === history.id)
+            };
+        }),
+        ...logs.map((log) => {
+            const formatted = formatTreatmentLogForTable(log)!;
+            return {
+                entry_type: 'treatment_log' as const,
+                id: log.id,
+                date: log.visit_date,
+                staff_name: formatted.staff_name,
+                pain_before: log.pain_before,
+                pain_after: log.pain_after,
+                summary: [log.treatment, log.objective_progress, log.notes].filter(Boolean).join(' | '),
+                status: log.status,
+                signed_at: log.signed_at,
+                signed_by: log.signed_by,
+                signer_name: log.signed_by != null ? signers.get(log.signed_by) ?? null : null,
+                signature_hash: log.signature_hash,
+                body_chart: marks.filter((mark) => mark?.treatment_log_id === log.id)
+            };
+        })
+    ];
+
+    return entries.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
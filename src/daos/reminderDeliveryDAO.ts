@@ -0,0 +1,106 @@
+import { Prisma, notification_channel, reminder_delivery_status, reminder_type } from '@prisma/client';
+import prisma from '../services/prisma';
+
+const model = prisma.reminder_delivery;
+
+export interface ReminderDeliveryData {
+    idempotency_key: string;
+    reminder_type: reminder_type;
+    channel: notification_channel;
+    patient_id: number;
+    appointment_id?: number | null;
+    treatment_log_id?: number | null;
+    recipient?: string | null;
+}
+
+export interface GetAllOptions {
+    patient_id?: number;
+    appointment_id?: number;
+    treatment_log_id?: number;
+    reminder_type?: reminder_type;
+    channel?: notification_channel;
+    status?: reminder_delivery_status;
+    dateFrom?: Date;
+    dateTo?: Date;
+    limit?: number;
+    offset?: number;
+}
+
+const include = { patient: true, notification: true };
+
+export function formatForTable(delivery: any) {
+    if (!delivery) return null;
+    return {
+        id: delivery.id,
+        idempotency_key: delivery.idempotency_key,
+        reminder_type: delivery.reminder_type,
+        channel: delivery.channel,
+        patient_id: delivery.patient_id,
+        patient_name: delivery.patient?.name || '-',
+        patient_code: delivery.patient?.patient_code || '-',
+        appointment_id: delivery.appointment_id,
+        treatment_log_id: delivery.treatment_log_id,
+        recipient: delivery.recipient,
+        status: delivery.status,
+        skip_reason: delivery.skip_reason,
+        // Status pengiriman sebenarnya ada di notification_outbox
+        notification_id: delivery.notification_id,
+        notification_status: delivery.notification?.status ?? null,
+        attempts: delivery.notification?.attempts ?? 0,
+        last_error: delivery.notification?.last_error ?? null,
+        sent_at: delivery.notification?.sent_at ?? null,
+        delivered_at: delivery.notification?.delivered_at ?? null,
+        created_at: delivery.created_at
+    };
+}
+
+export const isUniqueViolation = (error: any) =>
+    error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+// Melempar P2002 jika idempotency_key sudah ada; pemanggil menganggapnya sebagai duplikat
+export async function createQueued(data: ReminderDeliveryData, notification_id: number, tx: Prisma.TransactionClient = prisma) {
+    return await tx.reminder_delivery.create({ data: { ...data, status: 'QUEUED', notification_id } });
+}
+
+// Dicatat sebagai SKIPPED supaya tetap terlihat di log pengiriman dan tidak diproses ulang
+export async function recordSkipped(data: ReminderDeliveryData, reason: string): Promise<any | null> {
+    try {
+        return await model.create({ data: { ...data, status: 'SKIPPED', skip_reason: reason } });
+    } catch (error: any) {
+        if (isUniqueViolation(error)) return null;
+        throw error;
+    }
+}
+
+export async function existsByKey(idempotency_key: string): Promise<boolean> {
+    return (await model.count({ where: { idempotency_key } })) > 0;
+}
+
+export async function getAll(options?: GetAllOptions): Promise<any[]> {
+    const where: Prisma.reminder_deliveryWhereInput = {};
+
+    if (options?.patient_id) where.patient_id = options.patient_id;
+    if (options?.appointment_id) where.appointment_id = options.appointment_id;
+    if (options?.treatment_log_id) where.treatment_log_id = options.treatment_log_id;
+    if (options?.reminder_type) where.reminder_type = options.reminder_type;
+    if (options?.channel) where.channel = options.channel;
+    if (options?.status) where.status = options.status;
+
+    if (options?.dateFrom || options?.dateTo) {
+        where.created_at = {};
+        if (options.dateFrom) where.created_at.gte = options.dateFrom;
+        if (options.dateTo) where.created_at.lte = options.dateTo;
+    }
+
+    const queryOptions: Prisma.reminder_deliveryFindManyArgs = {
+        where,
+        include,
+        orderBy: { created_at: 'desc' }
+    };
+
+    if (options?.limit) queryOptions.take = options.limit;
+    if (options?.offset) queryOptions.skip = options.offset;
+
+    const results = await model.findMany(queryOptions);
+    return results.map(formatForTable);
+}
@@ -0,0 +1,116 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../services/prisma';
+import { CLINICAL_NON_CONTENT_FIELDS, diffFields, toSnapshot } from '../utils/fieldDiff';
+
+export interface RevisionInput {
+    changed_by?: number | null;
+    reason?: string | null;
+    is_amendment?: boolean;
+}
+
+export function formatForTable(revision: any, previous?: any) {
+    if (!revision) return null;
+    return {
+        id: revision.id,
+        version: revision.version,
+        reason: revision.reason,
+        is_amendment: revision.is_amendment,
+        changed_by: revision.changed_by,
+        changed_by_name: revision.users?.username || '-',
+        created_at: revision.created_at,
+        snapshot: revision.snapshot,
+        // Versi pertama dibandingkan dengan kosong
+        changes: diffFields(previous?.snapshot ?? null, revision.snapshot, CLINICAL_NON_CONTENT_FIELDS)
+    };
+}
+
+function withDiffs(revisions: any[]) {
+    return revisions.map((revision, index) => formatForTable(revision, index > 0 ? revisions[index - 1] : null));
+}
+
+/**
+ * Simpan snapshot `after` sebagai versi berikutnya. Record lama yang belum punya revisi
+ * mendapat versi 1 dari `before` terlebih dahulu agar isi aslinya tidak hilang.
+ * Harus dipanggil di dalam transaksi yang sama dengan create/update-nya.
+ */
+export async function appendMedicalHistoryRevision(
+    tx: Prisma.TransactionClient,
+    before: any | null,
+    after: any,
+    input?: RevisionInput
+) {
+    const latest = await tx.medical_history_revision.findFirst({
+        where: { medical_history_id: after.id },
+        orderBy: { version: 'desc' },
+        select: { version: true }
+    });
+
+    let version = latest?.version ?? 0;
+    if (!latest && before) {
+        version = 1;
+        await tx.medical_history_revision.create({
+            data: { medical_history_id: before.id, version, snapshot: toSnapshot(before) }
+        });
+    }
+
+    return await tx.medical_history_revision.create({
+        data: {
+            medical_history_id: after.id,
+            version: version + 1,
+            snapshot: toSnapshot(after),
+            reason: input?.reason ?? null,
+            is_amendment: input?.is_amendment ?? false,
+            changed_by: input?.changed_by ?? null
+        }
+    });
+}
+
+export async function appendTreatmentLogRevision(
+    tx: Prisma.TransactionClient,
+    before: any | null,
+    after: any,
+    input?: RevisionInput
+) {
+    const latest = await tx.treatment_log_revision.findFirst({
+        where: { treatment_log_id: after.id },
+        orderBy: { version: 'desc' },
+        select: { version: true }
+    });
+
+    let version = latest?.version ?? 0;
+    if (!latest && before) {
+        version = 1;
+        await tx.treatment_log_revision.create({
+            data: { treatment_log_id: before.id, version, snapshot: toSnapshot(before) }
+        });
+    }
+
+    return await tx.treatment_log_revision.create({
+        data: {
+            treatment_log_id: after.id,
+            version: version + 1,
+            snapshot: toSnapshot(after),
+            reason: input?.reason ?? null,
+            is_amendment: input?.is_amendment ?? false,
+            changed_by: input?.changed_by ?? null
+        }
+    });
+}
+
+export async function getMedicalHistoryRevisions(medical_history_id: number): Promise<any[]> {
+    const results = await prisma.medical_history_revision.findMany({
+        where: { medical_history_id },
+        include: { users: true },
+        orderBy: { version: 'asc' }
+    });
+    return withDiffs(results);
+}
+
+export async function getTreatmentLogRevisions(treatment_log_id: number): Promise<any[]> {
+    const results = await prisma.treatment_log_revision.findMany({
+        where: { treatment_log_id },
+        include: { users: true },
+        orderBy: { version: 'asc' }
+    });
+    return withDiffs(results);
+}
@@ -0,0 +1,20 @@
+import { users_role } from '@prisma/client';
+import prisma from '../services/prisma';
+
+const model = prisma.role_permission;
+
+export async function getAll() {
+    return await model.findMany({ orderBy: [{ role: 'asc' }, { permission: 'asc' }] });
+}
+
+export async function upsert(role: users_role, permission: string, granted: boolean, updated_by?: number) {
+    return await model.upsert({
+        where: { role_permission: { role, permission } },
+        create: { role, permission, granted, updated_by },
+        update: { granted, updated_by, updated_at: new Date() }
+    });
+}
+
+export async function remove(role: users_role, permission: string) {
+    return await model.deleteMany({ where: { role, permission } });
+}
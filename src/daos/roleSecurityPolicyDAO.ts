@@ -0,0 +1,20 @@
+import { users_role } from '@prisma/client';
+import prisma from '../services/prisma';
+
+const model = prisma.role_security_policy;
+
+export async function getAll() {
+    return await model.findMany();
+}
+
+export async function getByRole(role: users_role) {
+    return await model.findUnique({ where: { role } });
+}
+
+export async function upsert(role: users_role, require_2fa: boolean, updated_by?: number) {
+    return await model.upsert({
+        where: { role },
+        create: { role, require_2fa, updated_by },
+        update: { require_2fa, updated_by, updated_at: new Date() }
+    });
+}
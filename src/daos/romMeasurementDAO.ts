@@ -0,0 +1,165 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../services/prisma';
+import AuditService from '../services/AuditService';
+import { mmtGradeValue } from '../utils/jointMovements';
+
+const model = prisma.rom_measurement;
+
+export interface RomMeasurementParent {
+    patient_id: number;
+    medical_history_id?: number;
+    treatment_log_id?: number;
+}
+
+const include = {
+    medical_history: { select: { appointment_date: true } },
+    treatment_log: { select: { visit_date: true, treatment_plan_id: true } }
+};
+
+const orderBy: Prisma.rom_measurementOrderByWithRelationInput[] = [{ joint: 'asc' }, { movement: 'asc' }, { side: 'asc' }, { id: 'asc' }];
+
+// % dari nilai normal; gerakan dengan normal 0° (mis. ekstensi lutut) tidak punya persentase
+export function percentOfNormal(degrees: number | null, normative: number | null) {
+    if (degrees == null || !normative) return null;
+    return Math.round((degrees / normative) * 1000) / 10;
+}
+
+export function formatForTable(measurement: any) {
+    if (!measurement) return null;
+    return {
+        id: measurement.id,
+        patient_id: measurement.patient_id,
+        medical_history_id: measurement.medical_history_id,
+        treatment_log_id: measurement.treatment_log_id,
+        treatment_plan_id: measurement.treatment_log?.treatment_plan_id ?? null,
+        measured_at: measurement.treatment_log?.visit_date ?? measurement.medical_history?.appointment_date ?? null,
+        joint: measurement.joint,
+        movement: measurement.movement,
+        side: measurement.side,
+        mode: measurement.mode,
+        degrees: measurement.degrees,
+        normative_degrees: measurement.normative_degrees,
+        percent_of_normal: percentOfNormal(measurement.degrees, measurement.normative_degrees),
+        mmt_grade: measurement.mmt_grade,
+        mmt_value: mmtGradeValue(measurement.mmt_grade),
+        notes: measurement.notes,
+        created_by: measurement.created_by,
+        created_at: measurement.created_at
+    };
+}
+
+// Item sudah divalidasi RomMeasurementService; normative_degrees default dari registry sendi
+export function formatCreate(item: any, parent: RomMeasurementParent, normal: number, created_by?: number): Prisma.rom_measurementUncheckedCreateInput {
+    const formatted: Prisma.rom_measurementUncheckedCreateInput = {
+        patient_id: parent.patient_id,
+        medical_history_id: parent.medical_history_id ?? null,
+        treatment_log_id: parent.treatment_log_id ?? null,
+        joint: item.joint,
+        movement: item.movement,
+        normative_degrees: item.normative_degrees != null ? Number(item.normative_degrees) : normal
+    };
+
+    if (item.side) formatted.side = item.side;
+    if (item.degrees != null) {
+        formatted.degrees = Number(item.degrees);
+        formatted.mode = item.mode || 'ACTIVE';
+    }
+    if (item.mmt_grade != null) formatted.mmt_grade = String(item.mmt_grade);
+    if (item.notes) formatted.notes = item.notes;
+    if (created_by) formatted.created_by = created_by;
+
+    return formatted;
+}
+
+// Mengunci baris entry induk selama transaksi dan memastikan masih DRAFT; tanda tangan yang
+// berjalan bersamaan menunggu sampai perubahan pengukuran selesai. false jika induk sudah tidak DRAFT.
+const lockDraftParent = async (tx: Prisma.TransactionClient, parent: RomMeasurementParent) => {
+    const data = { updated_at: new Date() };
+    const { count } = parent.medical_history_id
+        ? await tx.medical_history.updateMany({ where: { id: parent.medical_history_id, status: 'DRAFT' }, data })
+        : await tx.treatment_log.updateMany({ where: { id: parent.treatment_log_id, status: 'DRAFT' }, data });
+    return count > 0;
+};
+
+// Null jika entry induk sudah ditandatangani
+export async function createMany(
+    parent: RomMeasurementParent,
+    data: Prisma.rom_measurementUncheckedCreateInput[]
+): Promise<any[] | null> {
+    const results = await prisma.$transaction(async (tx) => {
+        if (!(await lockDraftParent(tx, parent))) return null;
+
+        const created = [];
+        for (const row of data) created.push(await tx.rom_measurement.create({ data: row, include }));
+        return created;
+    });
+    if (!results) return null;
+
+    for (const result of results) {
+        await AuditService.recordCreate('rom_measurement', result, result.patient_id);
+    }
+    return results.map(formatForTable);
+}
+
+export async function getById(id: number): Promise<any | null> {
+    const result = await model.findUnique({ where: { id }, include });
+    if (result) await AuditService.recordRead('rom_measurement', result.id, result.patient_id);
+    return formatForTable(result);
+}
+
+export async function getByMedicalHistory(medical_history_id: number): Promise<any[]> {
+    const results = await model.findMany({ where: { medical_history_id }, include, orderBy });
+    await AuditService.recordList('rom_measurement', results);
+    return results.map(formatForTable);
+}
+
+export async function getByTreatmentLog(treatment_log_id: number): Promise<any[]> {
+    const results = await model.findMany({ where: { treatment_log_id }, include, orderBy });
+    await AuditService.recordList('rom_measurement', results);
+    return results.map(formatForTable);
+}
+
+/**
+ * Pengukuran selama treatment plan: dari log plan tersebut, ditambah medical history pasien
+ * dalam rentang tanggal plan (asesmen awal biasanya dicatat di medical history).
+ */
+export async function getForPlan(
+    plan: { id: number; patient_id: number; started_at: Date; ended_at: Date | null },
+    filters?: { joint?: string; movement?: string; side?: 'LEFT' | 'RIGHT' }
+): Promise<any[]> {
+    const historyDate: Prisma.DateTimeFilter = { gte: plan.started_at };
+    if (plan.ended_at) {
+        const end = new Date(plan.ended_at);
+        end.setHours(23, 59, 59, 999);
+        historyDate.lte = end;
+    }
+
+    const results = await model.findMany({
+        where: {
+            patient_id: plan.patient_id,
+            joint: filters?.joint,
+            movement: filters?.movement,
+            side: filters?.side,
+            OR: [
+                { treatment_log: { treatment_plan_id: plan.id, deleted_at: null } },
+                { medical_history: { deleted_at: null, appointment_date: historyDate } }
+            ]
+        },
+        include,
+        orderBy: { id: 'asc' }
+    });
+    await AuditService.recordList('rom_measurement', results);
+    return results.map(formatForTable);
+}
+
+// Null jika entry induk sudah ditandatangani
+export async function deleteMeasurement(id: number, parent: RomMeasurementParent) {
+    const result = await prisma.$transaction(async (tx) => {
+        if (!(await lockDraftParent(tx, parent))) return null;
+        return await tx.rom_measurement.delete({ where: { id } });
+    });
+    if (!result) return null;
+
+    await AuditService.recordDelete('rom_measurement', result, null, result.patient_id);
+    return result;
+}
@@ -0,0 +1,49 @@
+import prisma from '../services/prisma';
+
+const model = prisma.staff_working_hours;
+
+// day_of_week mengikuti Date.getDay(): 0 = Minggu ... 6 = Sabtu. Jam dalam format HH:mm (waktu klinik, CLINIC_TIMEZONE).
+export interface WorkingHoursData {
+    day_of_week: number;
+    start_time: string;
+    end_time: string;
+}
+
+export function formatForTable(hours: any) {
+    if (!hours) return null;
+    return {
+        id: hours.id,
+        staff_id: hours.staff_id,
+        day_of_week: hours.day_of_week,
+        start_time: hours.start_time,
+        end_time: hours.end_time
+    };
+}
+
+export async function getByStaffId(staff_id: number): Promise<any[]> {
+    const results = await model.findMany({
+        where: { staff_id },
+        orderBy: [{ day_of_week: 'asc' }, { start_time: 'asc' }]
+    });
+    return results.map(formatForTable);
+}
+
+export async function getByStaffAndDay(staff_id: number, day_of_week: number) {
+    return await model.findMany({
+        where: { staff_id, day_of_week },
+        orderBy: { start_time: 'asc' }
+    });
+}
+
+export async function countByStaffId(staff_id: number): Promise<number> {
+    return await model.count({ where: { staff_id } });
+}
+
+// Jadwal kerja selalu dikirim lengkap, jadi jadwal lama diganti seluruhnya
+export async function replaceForStaff(staff_id: number, hours: WorkingHoursData[]): Promise<any[]> {
+    await prisma.$transaction([
+        model.deleteMany({ where: { staff_id } }),
+        model.createMany({ data: hours.map((h) => ({ ...h, staff_id })) })
+    ]);
+    return await getByStaffId(staff_id);
+}
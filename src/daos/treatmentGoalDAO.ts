@@ -0,0 +1,283 @@
+import { Prisma, treatment_goal_status } from '@prisma/client';
+import prisma from '../services/prisma';
+import AuditService from '../services/AuditService';
+import { buildPatientScopeWhere, PatientScope } from './patientAssignmentDAO';
+
+const model = prisma.treatment_goal;
+const progressModel = prisma.treatment_goal_progress;
+
+export interface CreateTreatmentGoalData {
+    treatment_plan_id: number;
+    description: string;
+    target_metric: string;
+    unit?: string | null;
+    baseline_value?: number | null;
+    target_value?: number | null;
+    target_date?: Date | null;
+    sort_order?: number;
+}
+
+export interface UpdateTreatmentGoalData {
+    description?: string;
+    target_metric?: string;
+    unit?: string | null;
+    baseline_value?: number | null;
+    target_value?: number | null;
+    target_date?: Date | null;
+    status?: treatment_goal_status;
+    status_note?: string | null;
+    sort_order?: number;
+}
+
+export interface GoalProgressInput {
+    goal_id: number;
+    value?: number | null;
+    note?: string | null;
+}
+
+export interface GoalReportFilters {
+    dateFrom?: Date;
+    dateTo?: Date;
+    staff_id?: number;
+    service_type?: string;
+    scope?: PatientScope;
+}
+
+// Progress dari log yang sudah dihapus (trash) tidak ikut dihitung
+const progressInclude = {
+    where: { treatment_log: { deleted_at: null } },
+    include: { treatment_log: { select: { visit_date: true, status: true } } }
+};
+
+const include = {
+    treatment_plan: { select: { title: true, status: true } },
+    treatment_goal_progress: progressInclude
+};
+
+const orderBy: Prisma.treatment_goalOrderByWithRelationInput[] = [{ sort_order: 'asc' }, { id: 'asc' }];
+
+const toNumber = (value: any) => (value != null ? Number(value) : null);
+
+export function formatProgress(entry: any) {
+    if (!entry) return null;
+    return {
+        id: entry.id,
+        treatment_goal_id: entry.treatment_goal_id,
+        treatment_log_id: entry.treatment_log_id,
+        visit_date: entry.treatment_log?.visit_date ?? null,
+        log_status: entry.treatment_log?.status ?? null,
+        value: toNumber(entry.value),
+        note: entry.note,
+        created_by: entry.created_by,
+        created_at: entry.created_at,
+        updated_at: entry.updated_at
+    };
+}
+
+// Progress diurutkan menurut tanggal kunjungan, bukan urutan input
+const sortProgress = (progress: any[]) =>
+    progress
+        .map(formatProgress)
+        .sort((a: any, b: any) => new Date(a.visit_date).getTime() - new Date(b.visit_date).getTime() || a.id - b.id);
+
+export function formatForTable(goal: any) {
+    if (!goal) return null;
+    return {
+        id: goal.id,
+        treatment_plan_id: goal.treatment_plan_id,
+        plan_title: goal.treatment_plan?.title || '-',
+        plan_status: goal.treatment_plan?.status ?? null,
+        patient_id: goal.patient_id,
+        description: goal.description,
+        target_metric: goal.target_metric,
+        unit: goal.unit,
+        baseline_value: toNumber(goal.baseline_value),
+        target_value: toNumber(goal.target_value),
+        target_date: goal.target_date,
+        status: goal.status,
+        status_note: goal.status_note,
+        evaluated_at: goal.evaluated_at,
+        evaluated_by: goal.evaluated_by,
+        sort_order: goal.sort_order,
+        progress: sortProgress(goal.treatment_goal_progress || []),
+        created_by: goal.created_by,
+        created_at: goal.created_at,
+        updated_at: goal.updated_at
+    };
+}
+
+export function getRequired(): Array<keyof CreateTreatmentGoalData> {
+    return ['treatment_plan_id', 'description', 'target_metric'];
+}
+
+// Data sudah divalidasi TreatmentGoalService; patient_id diambil dari plan
+export function formatCreate(data: any, plan: { id: number; patient_id: number }, created_by?: number): Prisma.treatment_goalUncheckedCreateInput {
+    const formatted: Prisma.treatment_goalUncheckedCreateInput = {
+        treatment_plan_id: plan.id,
+        patient_id: plan.patient_id,
+        description: data.description.trim(),
+        target_metric: data.target_metric.trim()
+    };
+
+    if (data.unit) formatted.unit = data.unit;
+    if (data.baseline_value != null) formatted.baseline_value = Number(data.baseline_value);
+    if (data.target_value != null) formatted.target_value = Number(data.target_value);
+    if (data.target_date) formatted.target_date = new Date(data.target_date);
+    if (data.sort_order != null) formatted.sort_order = Number(data.sort_order);
+    if (created_by) formatted.created_by = created_by;
+
+    return formatted;
+}
+
+export async function create(data: Prisma.treatment_goalUncheckedCreateInput): Promise<any> {
+    const result = await model.create({ data, include });
+    await AuditService.recordCreate('treatment_goal', result, result.patient_id);
+    return formatForTable(result);
+}
+
+export async function getById(id: number): Promise<any | null> {
+    const result = await model.findUnique({ where: { id }, include });
+    if (result) await AuditService.recordRead('treatment_goal', result.id, result.patient_id);
+    return formatForTable(result);
+}
+
+export async function getByPlan(treatment_plan_id: number): Promise<any[]> {
+    const results = await model.findMany({ where: { treatment_plan_id }, include, orderBy });
+    await AuditService.recordList('treatment_goal', results);
+    return results.map(formatForTable);
+}
+
+/**
+ * Status selain IN_PROGRESS adalah hasil evaluasi klinisi: evaluated_at/by diisi saat status
+ * berubah dan dikosongkan lagi bila goal dikembalikan ke IN_PROGRESS.
+ */
+export async function update(id: number, data: UpdateTreatmentGoalData, updated_by?: number): Promise<any> {
+    const updateData: Prisma.treatment_goalUncheckedUpdateInput = {
+        updated_at: new Date()
+    };
+
+    if (data.description !== undefined) updateData.description = data.description.trim();
+    if (data.target_metric !== undefined) updateData.target_metric = data.target_metric.trim();
+    if (data.unit !== undefined) updateData.unit = data.unit || null;
+    if (data.baseline_value !== undefined) updateData.baseline_value = toNumber(data.baseline_value);
+    if (data.target_value !== undefined) updateData.target_value = toNumber(data.target_value);
+    if (data.target_date !== undefined) updateData.target_date = data.target_date ? new Date(data.target_date) : null;
+    if (data.status_note !== undefined) updateData.status_note = data.status_note || null;
+    if (data.sort_order !== undefined) updateData.sort_order = Number(data.sort_order);
+
+    const before = await model.findUnique({ where: { id } });
+    if (data.status !== undefined && data.status !== before?.status) {
+        updateData.status = data.status;
+        updateData.evaluated_at = data.status === 'IN_PROGRESS' ? null : new Date();
+        updateData.evaluated_by = data.status === 'IN_PROGRESS' ? null : updated_by ?? null;
+    }
+
+    const result = await model.update({ where: { id }, data: updateData, include });
+    await AuditService.recordUpdate('treatment_goal', before, result, result.patient_id);
+    return formatForTable(result);
+}
+
+export async function deleteGoal(id: number) {
+    const result = await model.delete({ where: { id } });
+    await AuditService.recordDelete('treatment_goal', result, null, result.patient_id);
+    return result;
+}
+
+// ─────────────────────────────────────────────
+// PROGRESS PER TREATMENT LOG
+// ─────────────────────────────────────────────
+
+const progressWithGoal = {
+    treatment_log: { select: { visit_date: true, status: true } },
+    treatment_goal: { select: { patient_id: true, description: true, target_metric: true, unit: true } }
+};
+
+const formatLogProgress = (entry: any) => ({
+    ...formatProgress(entry),
+    goal_description: entry.treatment_goal?.description ?? null,
+    target_metric: entry.treatment_goal?.target_metric ?? null,
+    unit: entry.treatment_goal?.unit ?? null
+});
+
+export async function getProgressById(id: number): Promise<any | null> {
+    const result = await progressModel.findUnique({ where: { id }, include: progressWithGoal });
+    if (result) await AuditService.recordRead('treatment_goal_progress', result.id, result.treatment_goal.patient_id);
+    return result ? { ...formatLogProgress(result), patient_id: result.treatment_goal.patient_id } : null;
+}
+
+export async function getProgressByLog(treatment_log_id: number): Promise<any[]> {
+    const results = await progressModel.findMany({
+        where: { treatment_log_id },
+        include: progressWithGoal,
+        orderBy: [{ treatment_goal: { sort_order: 'asc' } }, { treatment_goal_id: 'asc' }]
+    });
+    await AuditService.recordList(
+        'treatment_goal_progress',
+        results.map((row) => ({ id: row.id, patient_id: row.treatment_goal.patient_id }))
+    );
+    return results.map(formatLogProgress);
+}
+
+// Satu entry per goal per kunjungan; mengirim ulang goal yang sama menimpa nilai sebelumnya
+export async function saveProgress(treatment_log_id: number, patient_id: number, items: GoalProgressInput[], created_by?: number): Promise<any[]> {
+    const existing = await progressModel.findMany({
+        where: { treatment_log_id, treatment_goal_id: { in: items.map((item) => item.goal_id) } }
+    });
+
+    const results = await prisma.$transaction(items.map((item) => {
+        const fields = { value: toNumber(item.value), note: item.note || null };
+        return progressModel.upsert({
+            where: { treatment_goal_id_treatment_log_id: { treatment_goal_id: item.goal_id, treatment_log_id } },
+            create: { treatment_goal_id: item.goal_id, treatment_log_id, ...fields, created_by: created_by ?? null },
+            update: { ...fields, updated_at: new Date() },
+            include: progressWithGoal
+        });
+    }));
+
+    for (const result of results) {
+        const before = existing.find((row) => row.treatment_goal_id === result.treatment_goal_id);
+        if (before) await AuditService.recordUpdate('treatment_goal_progress', before, result, patient_id);
+        else await AuditService.recordCreate('treatment_goal_progress', result, patient_id);
+    }
+    return results.map(formatLogProgress);
+}
+
+export async function deleteProgress(id: number) {
+    const result = await progressModel.delete({ where: { id }, include: progressWithGoal });
+    await AuditService.recordDelete('treatment_goal_progress', result, null, result.treatment_goal.patient_id);
+    return result;
+}
+
+/**
+ * Goal dari plan yang belum dihapus untuk laporan pencapaian tingkat klinik. Rentang tanggal
+ * berlaku pada target_date (goal yang jatuh tempo dalam periode). Tanpa audit; hasilnya
+ * hanya dipakai untuk agregat.
+ */
+export async function getForReport(filters: GoalReportFilters) {
+    const where: Prisma.treatment_goalWhereInput = {
+        treatment_plan: {
+            deleted_at: null,
+            staff_id: filters.staff_id,
+            service_type: filters.service_type,
+            patient: filters.scope ? buildPatientScopeWhere(filters.scope) : undefined
+        }
+    };
+    if (filters.dateFrom || filters.dateTo) {
+        where.target_date = { gte: filters.dateFrom, lte: filters.dateTo };
+    }
+
+    const results = await model.findMany({
+        where,
+        include: {
+            treatment_plan: { select: { title: true, status: true, service_type: true, staff_id: true, staff: { select: { name: true } } } },
+            treatment_goal_progress: progressInclude
+        },
+        orderBy: { id: 'asc' }
+    });
+    return results.map((goal) => ({
+        ...formatForTable(goal)!,
+        service_type: goal.treatment_plan.service_type,
+        staff_id: goal.treatment_plan.staff_id,
+        staff_name: goal.treatment_plan.staff?.name || '-'
+    }));
+}
@@ -1,5 +1,10 @@
-import { Prisma } from '@prisma/client';
+import { Prisma, clinical_entry_status } from '@prisma/client';
 import prisma from '../services/prisma';
+import hidash from '../utils/hidash';
+import { PatientScope, buildPatientScopeWhere } from './patientAssignmentDAO';
+import AuditService from '../services/AuditService';
+import SignatureService from '../services/SignatureService';
+import { RevisionInput, appendTreatmentLogRevision } from './revisionDAO';
 
 const model = prisma.treatment_log;
 
@@ -46,12 +51,15 @@ export interface GetAllOptions {
     dateTo?: Date;
     limit?: number;
     offset?: number;
+    status?: clinical_entry_status;
+    scope?: PatientScope;
 }
 
-function parseDateOrNull(value: any): Date | null {
-    if (!value) return null;
-    const d = new Date(value);
-    return isNaN(d.getTime()) ? null : d;
+export interface GetDeletedOptions {
+    patient_id?: number;
+    treatment_plan_id?: number;
+    limit?: number;
+    offset?: number;
 }
 
 export function formatForTable(log: any) {
@@ -81,6 +89,10 @@ export function formatForTable(log: any) {
         recovery_tips: log.recovery_tips,
         recommended_next_session: log.recommended_next_session,
         notes: log.notes,
+        status: log.status,
+        signed_at: log.signed_at,
+        signed_by: log.signed_by,
+        signature_hash: log.signature_hash,
         created_at: log.created_at,
         updated_at: log.updated_at
     };
@@ -109,14 +121,15 @@ export function formatCreate(data: any): Prisma.treatment_logUncheckedCreateInpu
     if (data.recovery_tips !== undefined) formatted.recovery_tips = data.recovery_tips;
     if (data.notes !== undefined) formatted.notes = data.notes;
 
-    const nextSession = parseDateOrNull(data.recommended_next_session);
+    const nextSession = hidash.parseDateOrNull(data.recommended_next_session);
     if (nextSession) formatted.recommended_next_session = nextSession;
 
     return formatted;
 }
 
-export async function create(data: Prisma.treatment_logUncheckedCreateInput): Promise<any> {
-    const result = await model.create({
+// Insert + revisi pertama di dalam transaksi pemanggil; audit dicatat pemanggil setelah commit
+export async function createInTransaction(tx: Prisma.TransactionClient, data: Prisma.treatment_logUncheckedCreateInput) {
+    const created = await tx.treatment_log.create({
         data,
         include: { 
             treatment_plan: true, 
@@ -125,14 +138,21 @@ export async function create(data: Prisma.treatment_logUncheckedCreateInput): Pr
             users_treatment_log_user_idTousers: true // user_id
         }
     });
+    await appendTreatmentLogRevision(tx, null, created, { changed_by: created.created_by });
+    return created;
+}
+
+export async function create(data: Prisma.treatment_logUncheckedCreateInput): Promise<any> {
+    const result = await prisma.$transaction((tx) => createInTransaction(tx, data));
+    await AuditService.recordCreate('treatment_log', result, result.treatment_plan.patient_id);
     return formatForTable(result);
 }
 
 export async function getById(id: number): Promise<any | null> {
-    const result = await model.findUnique({
-        where: { id },
+    const result = await model.findFirst({
+        where: { id, deleted_at: null },
         include: { 
-            treatment_plan: true, 
+            treatment_plan: { include: { patient: true } }, 
             staff: true, 
             users: true,
             users_treatment_log_user_idTousers: true
@@ -142,12 +162,14 @@ export async function getById(id: number): Promise<any | null> {
 }
 
 export async function getAll(options?: GetAllOptions): Promise<any[]> {
-    const where: Prisma.treatment_logWhereInput = {};
+    const where: Prisma.treatment_logWhereInput = { deleted_at: null };
 
     if (options?.treatment_plan_id) where.treatment_plan_id = options.treatment_plan_id;
     if (options?.staff_id) where.staff_id = options.staff_id;
     if (options?.user_id) where.user_id = options.user_id;
     if (options?.created_by) where.created_by = options.created_by;
+    if (options?.status) where.status = options.status;
+    if (options?.scope) where.treatment_plan = { patient: buildPatientScopeWhere(options.scope) };
 
     if (options?.dateFrom && options?.dateTo) {
         where.visit_date = { gte: options.dateFrom, lte: options.dateTo };
@@ -168,10 +190,22 @@ export async function getAll(options?: GetAllOptions): Promise<any[]> {
     if (options?.offset) queryOptions.skip = options.offset;
 
     const results = await model.findMany(queryOptions);
+    await AuditService.recordList('treatment_log', results.map((log: any) => ({
+        id: log.id,
+        patient_id: log.treatment_plan?.patient_id
+    })));
     return results.map(formatForTable);
 }
 
-export async function update(id: number, data: UpdateTreatmentLogData): Promise<any> {
+// Setiap update menghasilkan revisi baru; revision.is_amendment dipakai untuk entry yang sudah ditandatangani
+// Hanya berhasil jika status masih sama dengan yang dilihat controller (expectedStatus), agar edit draft
+// yang bersamaan dengan tanda tangan tidak mendarat di entry yang sudah SIGNED; null jika status berubah
+export async function update(
+    id: number,
+    data: UpdateTreatmentLogData,
+    expectedStatus: clinical_entry_status,
+    revision?: RevisionInput
+): Promise<any | null> {
     const updateData: Prisma.treatment_logUncheckedUpdateInput = {
         updated_at: new Date()
     };
@@ -187,16 +221,81 @@ export async function update(id: number, data: UpdateTreatmentLogData): Promise<
     if (data.homework !== undefined) updateData.homework = data.homework;
     if (data.recovery_tips !== undefined) updateData.recovery_tips = data.recovery_tips;
     if (data.notes !== undefined) updateData.notes = data.notes;
+    if (revision?.is_amendment) updateData.status = 'AMENDED';
 
     if (data.visit_date !== undefined) updateData.visit_date = new Date(data.visit_date);
     if (data.recommended_next_session !== undefined) {
-        const nextSession = parseDateOrNull(data.recommended_next_session);
+        const nextSession = hidash.parseDateOrNull(data.recommended_next_session);
         updateData.recommended_next_session = nextSession ?? null;
     }
 
+    const updated = await prisma.$transaction(async (tx) => {
+        const before = await tx.treatment_log.findUniqueOrThrow({ where: { id } });
+        const { count } = await tx.treatment_log.updateMany({
+            where: { id, status: expectedStatus },
+            data: updateData
+        });
+        if (!count) return null;
+
+        const result = await tx.treatment_log.findUniqueOrThrow({
+            where: { id },
+            include: { 
+                treatment_plan: true, 
+                staff: true, 
+                users: true,
+                users_treatment_log_user_idTousers: true
+            }
+        });
+        await appendTreatmentLogRevision(tx, before, result, revision);
+        return { before, result };
+    });
+    if (!updated) return null;
+
+    const { before, result } = updated;
+    await AuditService.recordUpdate('treatment_log', before, result, result.treatment_plan.patient_id, revision?.reason);
+
+    return formatForTable(result);
+}
+
+// Tanda tangan mengunci entry; perubahan berikutnya hanya lewat amendment (lihat update)
+// Status dicek di dalam update agar dua penandatangan bersamaan tidak sama-sama berhasil; null jika sudah ditandatangani
+export async function sign(id: number, signed_by: number): Promise<any | null> {
+    const signed = await prisma.$transaction(async (tx) => {
+        const before = await tx.treatment_log.findUniqueOrThrow({ where: { id } });
+        const { count } = await tx.treatment_log.updateMany({
+            where: { id, status: { in: SignatureService.SIGNABLE_STATUSES } },
+            data: {
+                status: 'SIGNED',
+                signed_at: hidash.nowWithoutMillis(),
+                signed_by,
+                signature_hash: SignatureService.computeContentHash(before)
+            }
+        });
+        if (!count) return null;
+
+        const result = await tx.treatment_log.findUniqueOrThrow({
+            where: { id },
+            include: {
+                treatment_plan: true,
+                staff: true,
+                users: true,
+                users_treatment_log_user_idTousers: true
+            }
+        });
+        return { before, result };
+    });
+    if (!signed) return null;
+
+    const { before, result } = signed;
+    await AuditService.recordUpdate('treatment_log', before, result, result.treatment_plan.patient_id);
+    return formatForTable(result);
+}
+
+export async function deleteLog(id: number, deleted_by?: number): Promise<any> {
+    const before = await model.findUnique({ where: { id } });
     const result = await model.update({
         where: { id },
-        data: updateData,
+        data: { deleted_at: hidash.nowWithoutMillis(), deleted_by },
         include: { 
             treatment_plan: true, 
             staff: true, 
@@ -204,13 +303,51 @@ export async function update(id: number, data: UpdateTreatmentLogData): Promise<
             users_treatment_log_user_idTousers: true
         }
     });
+    await AuditService.recordDelete('treatment_log', before, result, result.treatment_plan.patient_id);
+    return result;
+}
 
-    return formatForTable(result);
+export async function getDeletedById(id: number) {
+    return await model.findFirst({
+        where: { id, deleted_at: { not: null } },
+        include: { treatment_plan: true }
+    });
 }
 
-export async function deleteLog(id: number): Promise<any> {
-    return await model.delete({
+export async function getDeleted(options?: GetDeletedOptions): Promise<any[]> {
+    const where: Prisma.treatment_logWhereInput = { deleted_at: { not: null } };
+    if (options?.treatment_plan_id) where.treatment_plan_id = options.treatment_plan_id;
+    if (options?.patient_id) where.treatment_plan = { patient_id: options.patient_id };
+
+    const results = await model.findMany({
+        where,
+        include: { 
+            treatment_plan: true, 
+            staff: true, 
+            users: true,
+            users_treatment_log_user_idTousers: true
+        },
+        orderBy: { deleted_at: 'desc' },
+        take: options?.limit,
+        skip: options?.offset
+    });
+    await AuditService.recordList('treatment_log', results.map((log) => ({
+        id: log.id,
+        patient_id: log.treatment_plan.patient_id
+    })));
+
+    return results.map((log) => ({
+        ...formatForTable(log),
+        deleted_at: log.deleted_at,
+        deleted_by: log.deleted_by
+    }));
+}
+
+export async function restoreLog(id: number): Promise<any> {
+    const before = await model.findUniqueOrThrow({ where: { id } });
+    const result = await model.update({
         where: { id },
+        data: { deleted_at: null, deleted_by: null },
         include: { 
             treatment_plan: true, 
             staff: true, 
@@ -218,17 +355,46 @@ export async function deleteLog(id: number): Promise<any> {
             users_treatment_log_user_idTousers: true
         }
     });
+    await AuditService.recordRestore('treatment_log', before, result, result.treatment_plan.patient_id);
+    return formatForTable(result);
+}
+
+export async function purgeLog(id: number) {
+    const result = await model.delete({
+        where: { id },
+        include: { treatment_plan: true }
+    });
+    await AuditService.recordPurge('treatment_log', result, result.treatment_plan.patient_id);
+    return result;
+}
+
+export async function purgeDeletedBefore(cutoff: Date): Promise<number> {
+    const expired = await model.findMany({
+        where: { deleted_at: { lt: cutoff } },
+        select: { id: true, treatment_plan: { select: { patient_id: true } } }
+    });
+    if (expired.length === 0) return 0;
+
+    const result = await model.deleteMany({ where: { id: { in: expired.map((log) => log.id) } } });
+    await AuditService.recordList('treatment_log', expired.map((log) => ({
+        id: log.id,
+        patient_id: log.treatment_plan.patient_id
+    })), 'PURGE');
+    return result.count;
 }
 
-export async function getFollowUpList(): Promise<any[]> {
+export async function getFollowUpList(scope?: PatientScope): Promise<any[]> {
     // 1. Get active treatment plans with their latest log
     const activePlans = await prisma.treatment_plan.findMany({
         where: {
-            status: 'ACTIVE'
+            status: 'ACTIVE',
+            deleted_at: null,
+            patient: scope ? buildPatientScopeWhere(scope) : undefined
         },
         include: {
             patient: true,
             treatment_log: {
+                where: { deleted_at: null },
                 orderBy: {
                     visit_date: 'desc'
                 },
@@ -266,6 +432,8 @@ export async function getFollowUpList(): Promise<any[]> {
 
 
 
+    await AuditService.recordList('treatment_log', followUps.map((f) => ({ id: f.id, patient_id: f.patient_id })));
+
     // Sort by recommended_next_session ascending (nearest date first)
     followUps.sort((a, b) => {
         const dateA = new Date(a.recommended_next_session).getTime();
@@ -275,3 +443,37 @@ export async function getFollowUpList(): Promise<any[]> {
 
     return followUps;
 }
+
+/**
+ * Sama seperti getFollowUpList, tetapi hanya log terakhir yang recommended_next_session-nya
+ * sudah lewat (dalam rentang [since, asOf)) dan pasien belum punya appointment BOOKED ke depan.
+ * Dipakai job pengingat, sehingga tidak dicatat sebagai READ di audit log.
+ */
+// since/today berupa tanggal (@db.Date); dayStart instant awal hari ini untuk cek appointment mendatang
+export async function getOverdueFollowUps(since: Date, today: Date, dayStart: Date) {
+    const activePlans = await prisma.treatment_plan.findMany({
+        where: {
+            status: 'ACTIVE',
+            deleted_at: null,
+            patient: {
+                deleted_at: null,
+                appointment: { none: { status: 'BOOKED', start_at: { gte: dayStart } } }
+            }
+        },
+        include: {
+            patient: true,
+            treatment_log: {
+                where: { deleted_at: null },
+                orderBy: { visit_date: 'desc' },
+                take: 1
+            }
+        }
+    });
+
+    return activePlans
+        .filter((plan) => {
+            const due = plan.treatment_log[0]?.recommended_next_session;
+            return due && due >= since && due < today;
+        })
+        .map((plan) => ({ plan, log: plan.treatment_log[0], patient: plan.patient }));
+}
@@ -1,5 +1,8 @@
 import { Prisma, treatment_plan_status } from '@prisma/client';
 import prisma from '../services/prisma';
+import hidash from '../utils/hidash';
+import { PatientScope, buildPatientScopeWhere } from './patientAssignmentDAO';
+import AuditService from '../services/AuditService';
 
 const model = prisma.treatment_plan;
 
@@ -15,9 +18,7 @@ export interface CreateTreatmentPlanData {
     expected_recovery_time?: string | null;
     recovery_goals?: string | null;
     image_url?: string | null;
-    status?: treatment_plan_status;
     started_at: Date;
-    ended_at?: Date | null;
 }
 
 export interface UpdateTreatmentPlanData {
@@ -31,9 +32,7 @@ export interface UpdateTreatmentPlanData {
     expected_recovery_time?: string | null;
     recovery_goals?: string | null;
     image_url?: string | null;
-    status?: treatment_plan_status;
     started_at?: Date;
-    ended_at?: Date | null;
 }
 
 export interface GetAllOptions {
@@ -46,12 +45,13 @@ export interface GetAllOptions {
     offset?: number;
     sortBy?: string;
     sortOrder?: 'asc' | 'desc';
+    scope?: PatientScope;
 }
 
-function parseDateOrNull(value: any): Date | null {
-    if (!value) return null;
-    const d = new Date(value);
-    return isNaN(d.getTime()) ? null : d;
+export interface GetDeletedOptions {
+    patient_id?: number;
+    limit?: number;
+    offset?: number;
 }
 
 export function formatForTable(plan: any) {
@@ -103,10 +103,6 @@ export function formatCreate(data: any): Prisma.treatment_planUncheckedCreateInp
     if (data.expected_recovery_time !== undefined) formatted.expected_recovery_time = data.expected_recovery_time;
     if (data.recovery_goals !== undefined) formatted.recovery_goals = data.recovery_goals;
     if (data.image_url !== undefined) formatted.image_url = data.image_url;
-    if (data.status !== undefined) formatted.status = data.status;
-
-    const endedAt = parseDateOrNull(data.ended_at);
-    if (endedAt) formatted.ended_at = endedAt;
 
     return formatted;
 }
@@ -116,17 +112,19 @@ export async function create(data: Prisma.treatment_planUncheckedCreateInput): P
         data,
         include: { patient: true, staff: true, users: true }
     });
+    await AuditService.recordCreate('treatment_plan', result, result.patient_id);
     return formatForTable(result);
 }
 
 export async function getById(id: number): Promise<any | null> {
-    const result = await model.findUnique({
-        where: { id },
+    const result = await model.findFirst({
+        where: { id, deleted_at: null },
         include: { 
             patient: true, 
             staff: true, 
             users: true,
             treatment_log: {
+                where: { deleted_at: null },
                 orderBy: { visit_date: 'asc' },
                 include: {
                     staff: true,
@@ -161,6 +159,8 @@ export async function getById(id: number): Promise<any | null> {
             recovery_tips: log.recovery_tips,
             recommended_next_session: log.recommended_next_session,
             notes: log.notes,
+            status: log.status,
+            signed_at: log.signed_at,
             created_at: log.created_at,
             updated_at: log.updated_at
         }));
@@ -169,12 +169,13 @@ export async function getById(id: number): Promise<any | null> {
 }
 
 export async function getAll(options?: GetAllOptions): Promise<any[]> {
-    const where: Prisma.treatment_planWhereInput = {};
+    const where: Prisma.treatment_planWhereInput = { deleted_at: null };
 
     if (options?.patient_id) where.patient_id = options.patient_id;
     if (options?.staff_id) where.staff_id = options.staff_id;
     if (options?.user_id) where.user_id = options.user_id;
     if (options?.status) where.status = options.status;
+    if (options?.scope) where.patient = buildPatientScopeWhere(options.scope);
 
     if (options?.search) {
         where.OR = [
@@ -199,6 +200,7 @@ export async function getAll(options?: GetAllOptions): Promise<any[]> {
     if (options?.offset) queryOptions.skip = options.offset;
 
     const results = await model.findMany(queryOptions);
+    await AuditService.recordList('treatment_plan', results);
     return results.map(formatForTable);
 }
 
@@ -217,26 +219,168 @@ export async function update(id: number, data: UpdateTreatmentPlanData): Promise
     if (data.expected_recovery_time !== undefined) updateData.expected_recovery_time = data.expected_recovery_time;
     if (data.recovery_goals !== undefined) updateData.recovery_goals = data.recovery_goals;
     if (data.image_url !== undefined) updateData.image_url = data.image_url;
-    if (data.status !== undefined) updateData.status = data.status;
 
     if (data.started_at !== undefined) updateData.started_at = new Date(data.started_at);
-    if (data.ended_at !== undefined) {
-        const endedAt = parseDateOrNull(data.ended_at);
-        updateData.ended_at = endedAt ?? null;
-    }
 
+    const before = await model.findUnique({ where: { id } });
     const result = await model.update({
         where: { id },
         data: updateData,
         include: { patient: true, staff: true, users: true }
     });
+    await AuditService.recordUpdate('treatment_plan', before, result, result.patient_id);
 
     return formatForTable(result);
 }
 
-export async function deletePlan(id: number): Promise<any> {
-    return await model.delete({
-        where: { id },
-        include: { patient: true, staff: true, users: true }
+export function formatStatusHistory(entry: any) {
+    if (!entry) return null;
+    return {
+        id: entry.id,
+        treatment_plan_id: entry.treatment_plan_id,
+        from_status: entry.from_status,
+        to_status: entry.to_status,
+        reason: entry.reason,
+        changed_by: entry.changed_by,
+        changed_by_name: entry.users?.username || '-',
+        changed_at: entry.changed_at
+    };
+}
+
+/**
+ * Ubah status plan dan catat riwayatnya dalam satu transaksi. Update bersyarat pada status yang
+ * dibaca di dalam transaksi, jadi dua transisi bersamaan tidak bisa sama-sama berhasil; null jika
+ * plan tidak ada atau statusnya (sudah) tidak termasuk `from`. ended_at mengikuti status:
+ * diisi tanggal hari ini saat ditutup (COMPLETED/CANCELLED), dikosongkan saat dibuka kembali.
+ */
+export async function changeStatus(
+    id: number,
+    from: treatment_plan_status[],
+    to_status: treatment_plan_status,
+    reason: string,
+    changed_by?: number
+): Promise<any | null> {
+    const changed = await prisma.$transaction(async (tx) => {
+        const before = await tx.treatment_plan.findUnique({ where: { id } });
+        if (!before || !from.includes(before.status)) return null;
+
+        const data: Prisma.treatment_planUncheckedUpdateManyInput = { status: to_status, updated_at: new Date() };
+        if (to_status === 'COMPLETED' || to_status === 'CANCELLED') data.ended_at = new Date();
+        else if (before.status === 'COMPLETED' || before.status === 'CANCELLED') data.ended_at = null;
+
+        const { count } = await tx.treatment_plan.updateMany({ where: { id, status: before.status }, data });
+        if (!count) return null;
+
+        await tx.treatment_plan_status_history.create({
+            data: {
+                treatment_plan_id: id,
+                from_status: before.status,
+                to_status,
+                reason,
+                changed_by: changed_by ?? null
+            }
+        });
+        const result = await tx.treatment_plan.findUniqueOrThrow({
+            where: { id },
+            include: { patient: true, staff: true, users: true }
+        });
+        return { before, result };
+    });
+    if (!changed) return null;
+
+    const { before, result } = changed;
+    await AuditService.recordUpdate('treatment_plan', before, result, result.patient_id, reason);
+    return formatForTable(result);
+}
+
+export async function getStatusHistory(treatment_plan_id: number): Promise<any[]> {
+    const results = await prisma.treatment_plan_status_history.findMany({
+        where: { treatment_plan_id },
+        include: { users: true },
+        orderBy: [{ changed_at: 'asc' }, { id: 'asc' }]
     });
+    return results.map(formatStatusHistory);
+}
+
+// Soft delete; log di bawah plan ikut masuk trash dengan deleted_at yang sama
+export async function deletePlan(id: number, deleted_by?: number): Promise<any> {
+    const before = await model.findUnique({ where: { id } });
+    const data = { deleted_at: hidash.nowWithoutMillis(), deleted_by };
+
+    const [result, logs] = await prisma.$transaction([
+        model.update({
+            where: { id },
+            data,
+            include: { patient: true, staff: true, users: true }
+        }),
+        prisma.treatment_log.updateMany({ where: { treatment_plan_id: id, deleted_at: null }, data })
+    ]);
+    await AuditService.recordDelete('treatment_plan', before, result, result.patient_id, {
+        treatment_log: logs.count
+    });
+    return result;
+}
+
+export async function getDeletedById(id: number) {
+    return await model.findFirst({
+        where: { id, deleted_at: { not: null } },
+        include: { patient: true }
+    });
+}
+
+export async function getDeleted(options?: GetDeletedOptions): Promise<any[]> {
+    const where: Prisma.treatment_planWhereInput = { deleted_at: { not: null } };
+    if (options?.patient_id) where.patient_id = options.patient_id;
+
+    const results = await model.findMany({
+        where,
+        include: { patient: true, staff: true, users: true },
+        orderBy: { deleted_at: 'desc' },
+        take: options?.limit,
+        skip: options?.offset
+    });
+    await AuditService.recordList('treatment_plan', results);
+
+    return results.map((p) => ({
+        ...formatForTable(p),
+        deleted_at: p.deleted_at,
+        deleted_by: p.deleted_by
+    }));
+}
+
+// Log yang terhapus bersama plan (deleted_at sama) ikut di-restore
+export async function restorePlan(id: number): Promise<any> {
+    const before = await model.findUniqueOrThrow({ where: { id } });
+    const data = { deleted_at: null, deleted_by: null };
+
+    const [result, logs] = await prisma.$transaction([
+        model.update({
+            where: { id },
+            data,
+            include: { patient: true, staff: true, users: true }
+        }),
+        prisma.treatment_log.updateMany({ where: { treatment_plan_id: id, deleted_at: before.deleted_at }, data })
+    ]);
+    await AuditService.recordRestore('treatment_plan', before, result, result.patient_id, {
+        treatment_log: logs.count
+    });
+    return formatForTable(result);
+}
+
+export async function purgePlan(id: number) {
+    const result = await model.delete({ where: { id } });
+    await AuditService.recordPurge('treatment_plan', result, result.patient_id);
+    return result;
+}
+
+export async function purgeDeletedBefore(cutoff: Date): Promise<number> {
+    const expired = await model.findMany({
+        where: { deleted_at: { lt: cutoff } },
+        select: { id: true, patient_id: true }
+    });
+    if (expired.length === 0) return 0;
+
+    const result = await model.deleteMany({ where: { id: { in: expired.map((p) => p.id) } } });
+    await AuditService.recordList('treatment_plan', expired, 'PURGE');
+    return result.count;
 }
@@ -5,7 +5,7 @@ import hidash from '../utils/hidash';
 
 const model = prisma.users;
 
-export type Required = Omit<RequiredKeys<User>, 'id' | 'created_at' | 'modified_at' | 'active'>;
+export type Required = Omit<RequiredKeys<User>, 'id' | 'created_at' | 'modified_at' | 'active' | 'otp_attempts'>;
 export type Optional = Partial<OptionalKeys<User>>;
 export type Create = Mapped<Required & Optional>;
 
@@ -24,6 +24,7 @@ export function formatCreate(data: any) {
         password: data.password,
         salt: data.salt,
         role: data.role ?? 'THERAPIST',
+        email: data.email ? String(data.email).trim().toLowerCase() : undefined,
     };
 
     hidash.clean(formatted);
@@ -38,6 +39,10 @@ export async function getByUsername(username: User['username']) {
     return await model.findUnique({ where: { username } });
 }
 
+export async function getByEmail(email: string) {
+    return await model.findUnique({ where: { email: email.trim().toLowerCase() } });
+}
+
 export async function getById(id: User['id']) {
     return await model.findUnique({ where: { id } });
 }
@@ -115,4 +120,117 @@ export async function restoreUser(id: User['id']) {
             modified_at: new Date()
         }
     });
-}
\ No newline at end of file
+}
+
+export async function setEmail(id: User['id'], email: string, otp: string, otp_expired_at: Date) {
+    return await model.update({
+        where: { id },
+        data: {
+            email: email.trim().toLowerCase(),
+            email_verified_at: null,
+            otp,
+            otp_expired_at,
+            otp_attempts: 0,
+            modified_at: new Date()
+        }
+    });
+}
+
+export async function incrementOtpAttempts(id: User['id']) {
+    return await model.update({
+        where: { id },
+        data: { otp_attempts: { increment: 1 } }
+    });
+}
+
+export async function markEmailVerified(id: User['id']) {
+    return await model.update({
+        where: { id },
+        data: {
+            email_verified_at: new Date(),
+            otp: null,
+            otp_expired_at: null,
+            otp_attempts: 0,
+            modified_at: new Date()
+        }
+    });
+}
+
+export async function setPasswordResetToken(id: User['id'], password_reset_token: string, password_reset_token_expired_at: Date) {
+    return await model.update({
+        where: { id },
+        data: {
+            password_reset_token,
+            password_reset_token_expired_at
+        }
+    });
+}
+
+export async function getByValidPasswordResetToken(password_reset_token: string) {
+    return await model.findFirst({
+        where: {
+            password_reset_token,
+            password_reset_token_expired_at: { gt: new Date() },
+            active: true
+        }
+    });
+}
+
+// Token dikonsumsi secara atomik: false jika sudah dipakai request lain atau kedaluwarsa
+export async function resetPasswordWithToken(id: User['id'], password_reset_token: string, password: string, salt: string) {
+    const { count } = await model.updateMany({
+        where: { id, password_reset_token, password_reset_token_expired_at: { gt: new Date() } },
+        data: {
+            password,
+            salt,
+            password_reset_token: null,
+            password_reset_token_expired_at: null,
+            modified_at: new Date()
+        }
+    });
+    return count > 0;
+}
+
+export async function setPendingTotpSecret(id: User['id'], totp_secret: string) {
+    return await model.update({
+        where: { id },
+        data: {
+            totp_secret,
+            totp_enabled: false,
+            totp_enabled_at: null,
+            totp_last_used_step: null
+        }
+    });
+}
+
+export async function enableTotp(id: User['id']) {
+    return await model.update({
+        where: { id },
+        data: {
+            totp_enabled: true,
+            totp_enabled_at: new Date(),
+            modified_at: new Date()
+        }
+    });
+}
+
+export async function disableTotp(id: User['id']) {
+    return await model.update({
+        where: { id },
+        data: {
+            totp_secret: null,
+            totp_enabled: false,
+            totp_enabled_at: null,
+            totp_last_used_step: null,
+            modified_at: new Date()
+        }
+    });
+}
+
+export async function setTotpLastUsedStep(id: User['id'], totp_last_used_step: number) {
+    return await model.update({
+        where: { id },
+        data: { totp_last_used_step }
+    });
+}
+
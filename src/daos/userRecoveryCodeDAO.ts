@@ -0,0 +1,37 @@
+import prisma from '../services/prisma';
+
+const model = prisma.user_recovery_code;
+
+export async function replaceAll(user_id: number, codeHashes: string[]) {
+    return await prisma.$transaction([
+        model.deleteMany({ where: { user_id } }),
+        model.createMany({
+            data: codeHashes.map((code_hash) => ({ user_id, code_hash }))
+        })
+    ]);
+}
+
+export async function getUnused(user_id: number, code_hash: string) {
+    return await model.findFirst({
+        where: { user_id, code_hash, used_at: null }
+    });
+}
+
+export async function countUnused(user_id: number) {
+    return await model.count({
+        where: { user_id, used_at: null }
+    });
+}
+
+export async function markUsed(id: number) {
+    // updateMany + used_at: null supaya kode yang sama tidak bisa dipakai dua kali secara bersamaan
+    const result = await model.updateMany({
+        where: { id, used_at: null },
+        data: { used_at: new Date() }
+    });
+    return result.count > 0;
+}
+
+export async function deleteAllByUser(user_id: number) {
+    return await model.deleteMany({ where: { user_id } });
+}
@@ -0,0 +1,79 @@
+import { Prisma, user_session as UserSession } from '@prisma/client';
+import prisma from '../services/prisma';
+
+const model = prisma.user_session;
+
+export function formatForList(session: UserSession, currentSessionId?: number) {
+    return {
+        id: session.id,
+        user_agent: session.user_agent,
+        ip_address: session.ip_address,
+        created_at: session.created_at,
+        last_used_at: session.last_used_at,
+        expires_at: session.expires_at,
+        mfa_verified: !!session.mfa_verified,
+        current: session.id === currentSessionId,
+    };
+}
+
+export async function create(data: Prisma.user_sessionUncheckedCreateInput) {
+    return await model.create({ data });
+}
+
+export async function getById(id: UserSession['id']) {
+    return await model.findUnique({ where: { id } });
+}
+
+export async function getActiveByUser(user_id: number) {
+    return await model.findMany({
+        where: {
+            user_id,
+            revoked_at: null,
+            expires_at: { gt: new Date() }
+        },
+        orderBy: { created_at: 'desc' }
+    });
+}
+
+// Compare-and-swap: hanya berhasil jika hash lama masih berlaku; false berarti token sudah dipakai
+export async function rotate(id: UserSession['id'], old_refresh_token_hash: string, refresh_token_hash: string, expires_at: Date) {
+    const { count } = await model.updateMany({
+        where: { id, refresh_token_hash: old_refresh_token_hash, revoked_at: null },
+        data: {
+            refresh_token_hash,
+            expires_at,
+            last_used_at: new Date()
+        }
+    });
+    return count > 0;
+}
+
+export async function markMfaVerified(id: UserSession['id']) {
+    return await model.update({
+        where: { id },
+        data: { mfa_verified: true }
+    });
+}
+
+export async function revoke(id: UserSession['id'], reason: string) {
+    return await model.updateMany({
+        where: { id, revoked_at: null },
+        data: {
+            revoked_at: new Date(),
+            revoked_reason: reason
+        }
+    });
+}
+
+export async function revokeAllByUser(user_id: number, reason: string, exceptId?: number) {
+    const where: Prisma.user_sessionWhereInput = { user_id, revoked_at: null };
+    if (exceptId) where.NOT = { id: exceptId };
+
+    return await model.updateMany({
+        where,
+        data: {
+            revoked_at: new Date(),
+            revoked_reason: reason
+        }
+    });
+}
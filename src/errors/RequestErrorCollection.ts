@@ -119,6 +119,30 @@ export class UnauthorizedError extends RequestError {
   }
 }
 
+export class TooManyRequestsError extends RequestError {
+  constructor(message: string, code: string = "TOO_MANY_REQUESTS", retryAfterSeconds?: number) {
+      super(message, 429, code, new Date(), retryAfterSeconds !== undefined ? { retry_after_seconds: retryAfterSeconds } : undefined);
+  }
+}
+
+export class EntryLockedError extends RequestError {
+  constructor(entityName: string, entityReference: string | number) {
+      super(`${entityName.toUpperCase()} [${entityReference}] is signed. Provide an amendment_reason to amend it.`, 409, 'ENTRY_LOCKED');
+  }
+}
+
+export class PlanClosedError extends RequestError {
+  constructor(planId: number, status: string) {
+      super(`TREATMENT PLAN [${planId}] is ${status}. Reopen the plan before adding treatment logs.`, 409, 'PLAN_CLOSED');
+  }
+}
+
+export class AppointmentConflictError extends RequestError {
+  constructor(conflicts: any[]) {
+      super('Appointment overlaps with existing appointments', 409, 'APPOINTMENT_CONFLICT', new Date(), { conflicts });
+  }
+}
+
 export class MissingBodyError extends RequestError {
   constructor() {
     super('Data not found in request body!', 404, 'MISSING_BODY_ERROR');
@@ -3,7 +3,10 @@ import express, { Express } from 'express';
 import bodyParser from 'body-parser';
 import cors from 'cors';
 import prisma from './services/prisma';
+import RequestContext from './services/RequestContext';
 import errorMiddleware from './middlewares/errorMiddleware';
+import jobScheduler from './jobScheduler';
+import { resolveTrustProxy } from './utils/requestInfo';
 import userRoutes from './routes/v1/userRoutes'; 
 import uploadRoutes from './routes/v1/uploadRoutes';
 import staffRoutes from "./routes/v1/staffRoutes";
@@ -11,16 +14,33 @@ import patientRoutes from "./routes/v1/patientRoutes";
 import medicalHistoryRoutes from "./routes/v1/medicalHistoryRoutes";
 import treatmentPlanRoutes from "./routes/v1/treatmentPlanRoutes";
 import treatmentLogRoutes from "./routes/v1/treatmentLogRoutes";
+import permissionRoutes from "./routes/v1/permissionRoutes";
+import patientAssignmentRoutes from "./routes/v1/patientAssignmentRoutes";
+import auditLogRoutes from "./routes/v1/auditLogRoutes";
+import trashRoutes from "./routes/v1/trashRoutes";
+import appointmentRoutes from "./routes/v1/appointmentRoutes";
+import reminderRoutes from "./routes/v1/reminderRoutes";
+import notificationRoutes from "./routes/v1/notificationRoutes";
+import portalRoutes from "./routes/v1/portalRoutes";
+import exerciseRoutes from "./routes/v1/exerciseRoutes";
+import exercisePrescriptionRoutes from "./routes/v1/exercisePrescriptionRoutes";
+import outcomeMeasureRoutes from "./routes/v1/outcomeMeasureRoutes";
+import romMeasurementRoutes from "./routes/v1/romMeasurementRoutes";
+import bodyChartRoutes from "./routes/v1/bodyChartRoutes";
+import treatmentGoalRoutes from "./routes/v1/treatmentGoalRoutes";
 
 const app: Express = express();
 
 const PORT = process.env.SERVER_PORT || 9876;
 
+app.set('trust proxy', resolveTrustProxy());
+
 app.get('/', (req, res) => res.send('Hello'));
 
 app.use(bodyParser.urlencoded({ extended: true }));
 app.use(bodyParser.json({ limit: '50mb' }));
 app.use(cors());
+app.use(RequestContext.middleware);
 app.use('/public', express.static('public'));
 app.use('/uploads', express.static('uploads/'));
 
@@ -32,6 +52,20 @@ app.use('/v1/patient', patientRoutes);
 app.use('/v1/medical-history', medicalHistoryRoutes);
 app.use('/v1/treatment-plan', treatmentPlanRoutes);
 app.use('/v1/treatment-log', treatmentLogRoutes);
+app.use('/v1/permission', permissionRoutes);
+app.use('/v1/patient-assignment', patientAssignmentRoutes);
+app.use('/v1/audit-log', auditLogRoutes);
+app.use('/v1/trash', trashRoutes);
+app.use('/v1/appointment', appointmentRoutes);
+app.use('/v1/reminder', reminderRoutes);
+app.use('/v1/notification', notificationRoutes);
+app.use('/v1/portal', portalRoutes);
+app.use('/v1/exercise', exerciseRoutes);
+app.use('/v1/exercise-prescription', exercisePrescriptionRoutes);
+app.use('/v1/outcome-measure', outcomeMeasureRoutes);
+app.use('/v1/rom-measurement', romMeasurementRoutes);
+app.use('/v1/body-chart', bodyChartRoutes);
+app.use('/v1/treatment-goal', treatmentGoalRoutes);
 
 // Image proxy for CORS — fetches external image server-side
 app.get('/v1/image-proxy', (req, res) => {
@@ -61,6 +95,7 @@ app.use(errorMiddleware);
 async function main() {
 	await prisma.$connect();
 	console.log(`Successfully connected to database`);
+	await jobScheduler.initiateJobs();
 	app.listen(PORT, () => {
 		console.log(`Server ready at port ${PORT}`);
 	});
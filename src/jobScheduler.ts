@@ -1,4 +1,9 @@
 import scheduler from 'node-schedule'
+import TrashService from './services/TrashService'
+import ReminderService from './services/ReminderService'
+import NotificationService from './services/NotificationService'
+import PatientPortalService from './services/PatientPortalService'
+import LogServices from './services/LogServices'
 // import { rejectIncompleteConsumerVisit } from './controllers/consumerVisitsController'
 
 // */1 * * * * = every 1 minute
@@ -7,5 +12,50 @@ import scheduler from 'node-schedule'
 export default {
     initiateJobs: async () => {
         // scheduler.scheduleJob("REJECT_INCOMPLETE_CONSUMER_VISIT", '05 25 * * *', async () => {
+
+        // Hapus permanen record klinis yang sudah melewati masa retensi trash
+        scheduler.scheduleJob("PURGE_SOFT_DELETED_RECORDS", '30 2 * * *', async () => {
+            try {
+                await TrashService.purgeExpired()
+            } catch (error: any) {
+                LogServices.logToFile('PURGE_SOFT_DELETED_RECORDS failed', error)
+            }
+        })
+
+        // Hapus kode OTP / magic link portal pasien yang sudah kedaluwarsa
+        scheduler.scheduleJob("PURGE_PORTAL_LOGIN_CHALLENGES", '45 2 * * *', async () => {
+            try {
+                await PatientPortalService.purgeExpiredChallenges()
+            } catch (error: any) {
+                LogServices.logToFile('PURGE_PORTAL_LOGIN_CHALLENGES failed', error)
+            }
+        })
+
+        // Kirim notifikasi outbox yang jatuh tempo (termasuk retry dengan backoff)
+        scheduler.scheduleJob("DISPATCH_NOTIFICATION_OUTBOX", '* * * * *', async () => {
+            try {
+                await NotificationService.dispatchDue()
+            } catch (error: any) {
+                LogServices.logToFile('DISPATCH_NOTIFICATION_OUTBOX failed', error)
+            }
+        })
+
+        // Pengingat appointment; idempotent, jadi aman dijalankan sering dan setelah restart
+        scheduler.scheduleJob("SEND_APPOINTMENT_REMINDERS", '*/15 * * * *', async () => {
+            try {
+                await ReminderService.runScheduled('APPOINTMENT')
+            } catch (error: any) {
+                LogServices.logToFile('SEND_APPOINTMENT_REMINDERS failed', error)
+            }
+        })
+
+        // Pengingat follow-up untuk recommended_next_session yang terlewat
+        scheduler.scheduleJob("SEND_FOLLOW_UP_REMINDERS", '5 * * * *', async () => {
+            try {
+                await ReminderService.runScheduled('FOLLOW_UP')
+            } catch (error: any) {
+                LogServices.logToFile('SEND_FOLLOW_UP_REMINDERS failed', error)
+            }
+        })
     }
 }
@@ -2,6 +2,12 @@ import { NextFunction, Request, Response } from 'express';
 import jwt, { Secret } from 'jsonwebtoken';
 import { RequestError } from '../errors/RequestErrorCollection';
 import * as UserDAO from '../daos/userDAO';
+import SessionService from '../services/SessionService';
+import { PORTAL_TOKEN_AUDIENCE } from '../services/PatientPortalService';
+import TwoFactorService from '../services/TwoFactorService';
+import PermissionService from '../services/PermissionService';
+import RequestContext from '../services/RequestContext';
+import { Permission } from '../utils/permissions';
 
 declare module 'express-serve-static-core' {
   interface Request {
@@ -22,6 +28,12 @@ const processToken = async (req: Request, successCallback: Function, errorCallba
       try {
         const decoded = jwt.verify(token, <Secret>secret) as any;
 
+        // Token portal pasien tidak pernah berlaku untuk route staf
+        if (decoded.portal || decoded.aud === PORTAL_TOKEN_AUDIENCE) {
+          errorCallback({ msg: 'INVALID_TOKEN_TYPE' });
+          return;
+        }
+
         const user = await UserDAO.getById(decoded.id);
         if (!user) {
           errorCallback({ msg: 'USER_NOT_FOUND' });
@@ -33,8 +45,17 @@ const processToken = async (req: Request, successCallback: Function, errorCallba
           return;
         }
 
+        // Token tanpa sesi (format lama) atau sesi yang sudah dicabut ditolak
+        const session = decoded.sid ? await SessionService.getActiveSession(decoded.sid, user.id) : null;
+        if (!session) {
+          errorCallback({ msg: 'SESSION_REVOKED' });
+          return;
+        }
+
+        decoded.mfa = !!session.mfa_verified;
         decoded.user = user;
         req.decoded = decoded;
+        RequestContext.setActor(user);
 
         successCallback();
       } catch (err: any) {
@@ -51,8 +72,35 @@ const processToken = async (req: Request, successCallback: Function, errorCallba
   }
 };
 
+// Jika role user diwajibkan 2FA oleh admin, sesi harus sudah diverifikasi 2FA
+async function checkMfaPolicy(req: Request): Promise<RequestError | null> {
+  const role = req.decoded?.user?.role;
+  if (req.decoded?.mfa !== true && (await TwoFactorService.isRequiredForRole(role))) {
+    return new RequestError('Two-factor authentication is required for your role', 403, 'MFA_REQUIRED');
+  }
+  return null;
+}
+
 // Any authenticated user
 function auth(req: Request, res: Response, next: NextFunction) {
+  processToken(
+    req,
+    async () => {
+      if (req.decoded?.authenticated !== true) {
+        return next(new RequestError('Authentication required', 403, 'NO_AUTH_DATA'));
+      }
+      const mfaError = await checkMfaPolicy(req);
+      if (mfaError) return next(mfaError);
+      next();
+    },
+    (err: any) => {
+      return next(new RequestError('Authentication failed', 403, err.msg));
+    }
+  );
+}
+
+// Any authenticated user, tanpa cek kebijakan 2FA — hanya untuk endpoint enrolment 2FA, self & logout
+function authAllowMfaPending(req: Request, res: Response, next: NextFunction) {
   processToken(
     req,
     async () => {
@@ -80,6 +128,8 @@ function authAdmin(req: Request, res: Response, next: NextFunction) {
       if (role !== 'ADMIN') {
         return next(new RequestError('Admin access required', 403, 'FORBIDDEN'));
       }
+      const mfaError = await checkMfaPolicy(req);
+      if (mfaError) return next(mfaError);
       next();
     },
     (err: any) => {
@@ -100,6 +150,8 @@ function authAny(req: Request, res: Response, next: NextFunction) {
       if (role !== 'ADMIN' && role !== 'DOCTOR') {
         return next(new RequestError('Access denied', 403, 'FORBIDDEN'));
       }
+      const mfaError = await checkMfaPolicy(req);
+      if (mfaError) return next(mfaError);
       next();
     },
     (err: any) => {
@@ -108,6 +160,31 @@ function authAny(req: Request, res: Response, next: NextFunction) {
   );
 }
 
+// Authenticated user yang role-nya memiliki SEMUA permission yang diminta (lihat utils/permissions)
+function requirePermission(...permissions: Permission[]) {
+  return function (req: Request, res: Response, next: NextFunction) {
+    processToken(
+      req,
+      async () => {
+        if (req.decoded?.authenticated !== true) {
+          return next(new RequestError('Authentication required', 403, 'NO_AUTH_DATA'));
+        }
+        const mfaError = await checkMfaPolicy(req);
+        if (mfaError) return next(mfaError);
+
+        const role = req.decoded?.user?.role;
+        if (!(await PermissionService.hasPermissions(role, permissions))) {
+          return next(new RequestError('Access denied', 403, 'FORBIDDEN', new Date(), { required_permissions: permissions }));
+        }
+        next();
+      },
+      (err: any) => {
+        return next(new RequestError('Authentication failed', 403, err.msg));
+      }
+    );
+  };
+}
+
 function optional(req: Request, res: Response, next: NextFunction) {
   if (!req.headers['authorization']) {
     req.decoded = { none: true };
@@ -136,8 +213,10 @@ function developer(req: Request, res: Response, next: NextFunction) {
 
 export default {
   auth,
+  authAllowMfaPending,
   authAdmin,
   authAny,
+  requirePermission,
   admin: authAdmin,        // alias backward compat
   any: authAny,            // alias backward compat
   optional,
@@ -0,0 +1,47 @@
+import { NextFunction, Request, Response } from 'express';
+import { RequestError } from '../errors/RequestErrorCollection';
+import * as PortalDAO from '../daos/portalDAO';
+import PatientPortalService from '../services/PatientPortalService';
+import RequestContext from '../services/RequestContext';
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    portal?: { patient_id: number; session_id: number; patient: any };
+  }
+}
+
+// Pasien yang login lewat portal. Hanya menerima token portal; token staf ditolak dan sebaliknya.
+async function patient(req: Request, res: Response, next: NextFunction) {
+  const [scheme, token] = (req.headers['authorization'] || '').split(' ');
+  if (scheme !== 'Bearer' || !token) {
+    return next(new RequestError('Authentication required', 401, 'NO_TOKEN_PROVIDED'));
+  }
+
+  try {
+    const decoded = PatientPortalService.verifyAccessToken(token);
+    if (!decoded) {
+      return next(new RequestError('Authentication failed', 401, 'INVALID_PORTAL_TOKEN'));
+    }
+
+    const session = await PatientPortalService.getActiveSession(decoded.psid, decoded.patient_id);
+    if (!session) {
+      return next(new RequestError('Authentication failed', 401, 'SESSION_REVOKED'));
+    }
+
+    // Portal dinonaktifkan staf atau pasien dihapus: token yang masih berlaku ikut ditolak
+    const patient = await PortalDAO.getPortalPatientById(decoded.patient_id);
+    if (!patient) {
+      return next(new RequestError('Portal access is not available for this account', 403, 'PORTAL_DISABLED'));
+    }
+
+    req.portal = { patient_id: patient.id, session_id: session.id, patient };
+    RequestContext.setPortalActor(patient.id);
+    next();
+  } catch (error: any) {
+    return next(new RequestError('Authentication failed', 401, error?.message || 'AUTHENTICATION_FAILED'));
+  }
+}
+
+export default {
+  patient,
+};
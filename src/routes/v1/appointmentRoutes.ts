@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import * as controller from '../../controllers/appointmentController';
+import auth from '../../middlewares/auth';
+
+const router = Router();
+
+// Izin per endpoint diatur lewat permission registry (utils/permissions)
+router.post('/create', auth.requirePermission('appointment:write'), controller.createAppointment);
+router.get('/all', auth.requirePermission('appointment:read'), controller.getAllAppointments);
+router.get('/calendar', auth.requirePermission('appointment:read'), controller.getCalendar);
+router.get('/upcoming', auth.requirePermission('appointment:read'), controller.getUpcomingAppointments);
+router.get('/:id', auth.requirePermission('appointment:read'), controller.getAppointmentById);
+router.put('/:id', auth.requirePermission('appointment:write'), controller.updateAppointment);
+router.put('/:id/status', auth.requirePermission('appointment:write'), controller.updateAppointmentStatus);
+router.post('/:id/complete', auth.requirePermission('appointment:write'), controller.completeAppointment);
+router.delete('/:id', auth.requirePermission('appointment:delete'), controller.deleteAppointment);
+
+export default router;
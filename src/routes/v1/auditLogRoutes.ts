@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import * as controller from '../../controllers/auditLogController';
+import auth from '../../middlewares/auth';
+
+const router = Router();
+
+// ?patient_id=&user_id=&entity_type=&entity_id=&action=&dateFrom=&dateTo=&limit=&offset=
+router.get('/', auth.requirePermission('audit:read'), controller.getAuditLogs);
+router.get('/verify', auth.requirePermission('audit:read'), controller.verifyAuditChain);
+router.get('/:id', auth.requirePermission('audit:read'), controller.getAuditLogById);
+
+export default router;
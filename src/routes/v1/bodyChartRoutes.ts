@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import * as controller from '../../controllers/bodyChartController';
+import auth from '../../middlewares/auth';
+
+const router = Router();
+
+// Body chart terstruktur (pin per tampilan & region) untuk medical history dan treatment log
+router.get('/definitions', auth.requirePermission('medical_history:read'), controller.getDefinitions);
+// body {marks: [{view, x, y, symptom_type, intensity?, region?, side?, notes?}]}
+router.put('/medical-history/:historyId', auth.requirePermission('medical_history:write'), controller.saveMedicalHistoryChart);
+router.get('/medical-history/:historyId', auth.requirePermission('medical_history:read'), controller.getMedicalHistoryChart);
+// ?format=svg|png&views=FRONT,BACK
+router.get('/medical-history/:historyId/render', auth.requirePermission('medical_history:read'), controller.renderMedicalHistoryChart);
+router.put('/treatment-log/:logId', auth.requirePermission('treatment_log:write'), controller.saveTreatmentLogChart);
+router.get('/treatment-log/:logId', auth.requirePermission('treatment_log:read'), controller.getTreatmentLogChart);
+router.get('/treatment-log/:logId/render', auth.requirePermission('treatment_log:read'), controller.renderTreatmentLogChart);
+// ?side=&symptom_type=&min_intensity=
+router.get('/plan/:planId/region/:region', auth.requirePermission('treatment_plan:read'), controller.getPlanRegionEntries);
+
+export default router;
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import * as controller from '../../controllers/exercisePrescriptionController';
+import auth from '../../middlewares/auth';
+
+const router = Router();
+
+// Resep latihan mengikuti izin treatment plan
+router.post('/create', auth.requirePermission('treatment_plan:write'), controller.createPrescription);
+router.get('/plan/:planId', auth.requirePermission('treatment_plan:read'), controller.getPrescriptionsByPlan);
+// ?treatment_plan_id=&date=&locale=id|en&format=json|html|text
+router.get('/program/:patientId', auth.requirePermission('treatment_plan:read'), controller.getPatientProgram);
+// Sesi latihan yang dicatat staf; pencatatan mengikuti izin treatment log
+router.get('/adherence/plan/:planId', auth.requirePermission('treatment_plan:read'), controller.getPlanAdherence);
+router.delete('/sessions/:sessionId', auth.requirePermission('treatment_log:write'), controller.deleteSession);
+router.post('/:id/sessions', auth.requirePermission('treatment_log:write'), controller.logSession);
+// ?dateFrom=&dateTo=&limit=&offset=
+router.get('/:id/sessions', auth.requirePermission('treatment_plan:read'), controller.getSessions);
+router.get('/:id', auth.requirePermission('treatment_plan:read'), controller.getPrescriptionById);
+router.put('/:id', auth.requirePermission('treatment_plan:write'), controller.updatePrescription);
+router.delete('/:id', auth.requirePermission('treatment_plan:write'), controller.deletePrescription);
+
+export default router;
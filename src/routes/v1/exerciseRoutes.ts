@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import * as controller from '../../controllers/exerciseController';
+import auth from '../../middlewares/auth';
+
+const router = Router();
+
+// Library latihan (home exercise program); resep per pasien ada di /v1/exercise-prescription
+router.post('/create', auth.requirePermission('exercise:write'), controller.createExercise);
+// ?search=&body_region=&active=true|false|all&limit=&offset=
+router.get('/all', auth.requirePermission('exercise:read'), controller.getAllExercises);
+router.get('/body-regions', auth.requirePermission('exercise:read'), controller.getBodyRegions);
+router.get('/:id', auth.requirePermission('exercise:read'), controller.getExerciseById);
+router.put('/:id', auth.requirePermission('exercise:write'), controller.updateExercise);
+router.delete('/:id', auth.requirePermission('exercise:write'), controller.deactivateExercise);
+
+export default router;
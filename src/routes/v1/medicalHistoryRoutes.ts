@@ -4,21 +4,22 @@ import auth from '../../middlewares/auth';
 
 const router = Router();
 
-// Both ADMIN & DOCTOR
-router.post('/create', auth.auth, controller.createMedicalHistory);
-router.get('/all', auth.auth, controller.getAllMedicalHistories);
-router.get('/search', auth.auth, controller.searchMedicalHistories);
-router.get('/recent', auth.auth, controller.getRecentMedicalHistories);
-router.get('/upcoming', auth.auth, controller.getUpcomingAppointments);
-router.get('/date-range', auth.auth, controller.getByDateRange);
-router.get('/stats', auth.auth, controller.getStatistics);
-router.get('/patient/:patientId', auth.auth, controller.getMedicalHistoriesByPatient);
-router.get('/progress-report/:patientId', auth.auth, controller.getPatientProgressReport);
-router.get('/:id', auth.auth, controller.getMedicalHistoryById);
-router.put('/:id', auth.auth, controller.updateMedicalHistory);
-
-// ADMIN only — delete & export
-router.delete('/:id', auth.authAdmin, controller.deleteMedicalHistory);
-router.get('/export/csv', auth.authAdmin, controller.exportMedicalHistoriesToCSV);
+// Izin per endpoint diatur lewat permission registry (utils/permissions)
+router.post('/create', auth.requirePermission('medical_history:write'), controller.createMedicalHistory);
+router.get('/all', auth.requirePermission('medical_history:read'), controller.getAllMedicalHistories);
+router.get('/search', auth.requirePermission('medical_history:read'), controller.searchMedicalHistories);
+router.get('/recent', auth.requirePermission('medical_history:read'), controller.getRecentMedicalHistories);
+router.get('/upcoming', auth.requirePermission('medical_history:read'), controller.getUpcomingAppointments);
+router.get('/date-range', auth.requirePermission('medical_history:read'), controller.getByDateRange);
+router.get('/stats', auth.requirePermission('medical_history:read'), controller.getStatistics);
+router.get('/export/csv', auth.requirePermission('medical_history:export'), controller.exportMedicalHistoriesToCSV);
+router.get('/patient/:patientId', auth.requirePermission('medical_history:read'), controller.getMedicalHistoriesByPatient);
+router.get('/progress-report/:patientId', auth.requirePermission('medical_history:read'), controller.getPatientProgressReport);
+router.get('/progress-report/:patientId/pdf', auth.requirePermission('medical_history:read'), controller.getPatientProgressReportPdf);
+router.get('/:id', auth.requirePermission('medical_history:read'), controller.getMedicalHistoryById);
+router.get('/:id/revisions', auth.requirePermission('medical_history:read'), controller.getMedicalHistoryRevisions);
+router.post('/:id/sign', auth.requirePermission('medical_history:sign'), controller.signMedicalHistory);
+router.put('/:id', auth.requirePermission('medical_history:write'), controller.updateMedicalHistory);
+router.delete('/:id', auth.requirePermission('medical_history:delete'), controller.deleteMedicalHistory);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import * as controller from '../../controllers/notificationController';
+import auth from '../../middlewares/auth';
+
+const router = Router();
+
+// Webhook status pengiriman dari provider (mailjet|qontak|infobip), diverifikasi lewat token, bukan login
+router.post('/callback/:adapter', controller.handleDeliveryCallback);
+
+// Template file di templates/notifications; preview ?locale=id|en&format=html
+router.get('/templates', auth.requirePermission('notification:manage'), controller.getTemplates);
+router.get('/templates/:name/preview', auth.requirePermission('notification:manage'), controller.previewTemplate);
+router.post('/templates/:name/preview', auth.requirePermission('notification:manage'), controller.previewTemplate);
+
+// ?status=&channel=&template=&recipient=&patient_id=&dateFrom=&dateTo=&limit=&offset=
+router.get('/', auth.requirePermission('notification:manage'), controller.getNotifications);
+router.get('/:id', auth.requirePermission('notification:manage'), controller.getNotificationById);
+router.post('/:id/resend', auth.requirePermission('notification:manage'), controller.resendNotification);
+
+export default router;
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import * as controller from '../../controllers/outcomeMeasureController';
+import auth from '../../middlewares/auth';
+
+const router = Router();
+
+// Kuesioner outcome tervalidasi (NPRS, ODI, NDI, LEFS, QuickDASH)
+router.get('/definitions', auth.requirePermission('outcome_measure:read'), controller.getDefinitions);
+router.get('/definitions/:code', auth.requirePermission('outcome_measure:read'), controller.getDefinition);
+// body {patient_id, measure, responses: {item_id: nilai}, treatment_plan_id?, administered_at?, notes?}
+router.post('/administer', auth.requirePermission('outcome_measure:write'), controller.administerMeasure);
+// ?measure=&treatment_plan_id=&dateFrom=&dateTo=&limit=&offset=
+router.get('/patient/:patientId', auth.requirePermission('outcome_measure:read'), controller.getPatientResults);
+// ?measure=&treatment_plan_id=
+router.get('/patient/:patientId/series', auth.requirePermission('outcome_measure:read'), controller.getPatientSeries);
+router.get('/:id', auth.requirePermission('outcome_measure:read'), controller.getResultById);
+router.delete('/:id', auth.requirePermission('outcome_measure:write'), controller.deleteResult);
+
+export default router;
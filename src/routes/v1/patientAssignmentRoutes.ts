@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import * as controller from '../../controllers/patientAssignmentController';
+import auth from '../../middlewares/auth';
+
+const router = Router();
+
+// Care team per pasien
+router.get('/patient/:patientId', auth.requirePermission('patient:read'), controller.getCareTeam);
+router.post('/assign', auth.requirePermission('patient:assign'), controller.assignClinician);
+router.delete('/patient/:patientId/user/:userId', auth.requirePermission('patient:assign'), controller.unassignClinician);
+router.post('/backfill', auth.requirePermission('patient:assign'), controller.backfillAssignments);
+
+// Break-the-glass — akses darurat sementara, selalu tercatat
+router.post('/emergency-access', auth.requirePermission('patient:emergency_access'), controller.openEmergencyAccess);
+router.get('/emergency-access', auth.requirePermission('patient:assign'), controller.getEmergencyAccessLog);
+router.delete('/emergency-access/:id', auth.requirePermission('patient:assign'), controller.revokeEmergencyAccess);
+
+export default router;
@@ -4,22 +4,20 @@ import auth from '../../middlewares/auth';
 
 const router = Router();
 
-// Both ADMIN & DOCTOR
-router.get('/stats', auth.auth, controller.getPatientStats);
-router.get('/validate/email', auth.auth, controller.validateEmail);
-router.get('/validate/phone', auth.auth, controller.validatePhone);
-router.post('/create', auth.auth, controller.createPatient);
-router.get('/all', auth.auth, controller.getAllPatients);
-router.get('/search', auth.auth, controller.searchPatients);
-router.get('/phone', auth.auth, controller.getPatientByPhone);
-router.get('/email', auth.auth, controller.getPatientByEmail);
-router.get('/code', auth.auth, controller.getPatientByCode);
-router.get('/recent', auth.auth, controller.getRecentPatients);
-router.get('/:id', auth.auth, controller.getPatientById);
-router.put('/:id', auth.auth, controller.updatePatient);
-
-// ADMIN only — delete & export
-router.delete('/:id', auth.authAdmin, controller.deletePatient);
-router.get('/export/csv', auth.authAdmin, controller.exportPatientsToCSV);
+// Izin per endpoint diatur lewat permission registry (utils/permissions)
+router.get('/stats', auth.requirePermission('patient:read'), controller.getPatientStats);
+router.get('/validate/email', auth.requirePermission('patient:read'), controller.validateEmail);
+router.get('/validate/phone', auth.requirePermission('patient:read'), controller.validatePhone);
+router.post('/create', auth.requirePermission('patient:write'), controller.createPatient);
+router.get('/all', auth.requirePermission('patient:read'), controller.getAllPatients);
+router.get('/search', auth.requirePermission('patient:read'), controller.searchPatients);
+router.get('/phone', auth.requirePermission('patient:read'), controller.getPatientByPhone);
+router.get('/email', auth.requirePermission('patient:read'), controller.getPatientByEmail);
+router.get('/code', auth.requirePermission('patient:read'), controller.getPatientByCode);
+router.get('/recent', auth.requirePermission('patient:read'), controller.getRecentPatients);
+router.get('/export/csv', auth.requirePermission('patient:export'), controller.exportPatientsToCSV);
+router.get('/:id', auth.requirePermission('patient:read'), controller.getPatientById);
+router.put('/:id', auth.requirePermission('patient:write'), controller.updatePatient);
+router.delete('/:id', auth.requirePermission('patient:delete'), controller.deletePatient);
 
 export default router;
\ No newline at end of file
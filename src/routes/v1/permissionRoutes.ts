@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import * as controller from '../../controllers/permissionController';
+import auth from '../../middlewares/auth';
+
+const router = Router();
+
+// Semua user login boleh membaca matrix, dipakai frontend untuk menyembunyikan aksi
+router.get('/matrix', auth.auth, controller.getPermissionMatrix);
+router.get('/self', auth.auth, controller.getOwnPermissions);
+
+// Override per role — :permission berformat resource:action, mis. patient:delete
+router.put('/:role/:permission', auth.requirePermission('permission:manage'), controller.setPermissionOverride);
+router.delete('/:role/:permission', auth.requirePermission('permission:manage'), controller.resetPermissionOverride);
+
+export default router;
@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import * as controller from '../../controllers/portalController';
+import portalAuth from '../../middlewares/portalAuth';
+
+const router = Router();
+
+// Login pasien tanpa password: body {email, method: otp|magic_link}, lalu {email, otp} atau {token}
+router.post('/auth/request', controller.requestLogin);
+router.post('/auth/verify', controller.verifyLogin);
+router.post('/auth/refresh', controller.refreshToken);
+router.post('/auth/logout', portalAuth.patient, controller.logout);
+
+// Selalu dibatasi ke pasien pemilik token; satu-satunya penulisan adalah catatan sesi latihan
+router.get('/me', portalAuth.patient, controller.getMe);
+router.get('/treatment-plans', portalAuth.patient, controller.getTreatmentPlans);
+router.get('/treatment-plans/:id', portalAuth.patient, controller.getTreatmentPlanById);
+// ?treatment_plan_id=&limit=&offset=
+router.get('/homework', portalAuth.patient, controller.getHomework);
+router.get('/exercise-program', portalAuth.patient, controller.getExerciseProgram);
+// body {performed_on?, sets_completed?, reps_completed?, pain_rating?, difficulty_rating?, notes?}
+router.post('/exercise-program/:prescriptionId/sessions', portalAuth.patient, controller.logExerciseSession);
+router.get('/adherence', portalAuth.patient, controller.getAdherence);
+router.get('/appointments/upcoming', portalAuth.patient, controller.getUpcomingAppointments);
+// ?treatment_plan_id=
+router.get('/progress', portalAuth.patient, controller.getProgress);
+
+export default router;
@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import * as controller from '../../controllers/reminderController';
+import auth from '../../middlewares/auth';
+
+const router = Router();
+
+// ?patient_id=&appointment_id=&treatment_log_id=&reminder_type=&channel=&status=&dateFrom=&dateTo=&limit=&offset=
+router.get('/deliveries', auth.requirePermission('reminder:read'), controller.getDeliveries);
+
+export default router;
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import * as controller from '../../controllers/romMeasurementController';
+import auth from '../../middlewares/auth';
+
+const router = Router();
+
+// Pengukuran ROM (derajat) & MMT per sendi, menempel pada medical history atau treatment log
+router.get('/definitions', auth.requirePermission('treatment_log:read'), controller.getDefinitions);
+// body {measurements: [{joint, movement, side?, mode?, degrees?, mmt_grade?, normative_degrees?, notes?}]}
+router.post('/medical-history/:historyId', auth.requirePermission('medical_history:write'), controller.addToMedicalHistory);
+router.get('/medical-history/:historyId', auth.requirePermission('medical_history:read'), controller.getByMedicalHistory);
+router.post('/treatment-log/:logId', auth.requirePermission('treatment_log:write'), controller.addToTreatmentLog);
+router.get('/treatment-log/:logId', auth.requirePermission('treatment_log:read'), controller.getByTreatmentLog);
+// ?joint=&movement=&side=
+router.get('/plan/:planId/trends', auth.requirePermission('treatment_plan:read'), controller.getPlanTrends);
+// Izin dicek di controller sesuai entry induk
+router.delete('/:id', auth.requirePermission(), controller.deleteMeasurement);
+
+export default router;
@@ -4,17 +4,17 @@ import auth from '../../middlewares/auth';
 
 const router = Router();
 
-// Both ADMIN & DOCTOR (read)
-router.get('/active', auth.auth, controller.getActiveStaff);
-router.get('/search', auth.auth, controller.bulkSearchStaff);
-router.get('/by-phone', auth.auth, controller.getStaffByPhone);
-router.get('/all', auth.auth, controller.getAllStaff);
-router.get('/:id', auth.auth, controller.getStaffById);
-
-// ADMIN only (write)
-router.post('/create', auth.authAdmin, controller.createStaff);
-router.put('/:id', auth.authAdmin, controller.updateStaff);
-router.delete('/:id', auth.authAdmin, controller.deleteStaff);
-router.post('/:id/reactivate', auth.authAdmin, controller.reactivateStaff);
+// Izin per endpoint diatur lewat permission registry (utils/permissions)
+router.get('/active', auth.requirePermission('staff:read'), controller.getActiveStaff);
+router.get('/search', auth.requirePermission('staff:read'), controller.bulkSearchStaff);
+router.get('/by-phone', auth.requirePermission('staff:read'), controller.getStaffByPhone);
+router.get('/all', auth.requirePermission('staff:read'), controller.getAllStaff);
+router.get('/:id', auth.requirePermission('staff:read'), controller.getStaffById);
+router.get('/:id/working-hours', auth.requirePermission('staff:read'), controller.getWorkingHours);
+router.put('/:id/working-hours', auth.requirePermission('staff:write'), controller.setWorkingHours);
+router.post('/create', auth.requirePermission('staff:write'), controller.createStaff);
+router.put('/:id', auth.requirePermission('staff:write'), controller.updateStaff);
+router.delete('/:id', auth.requirePermission('staff:delete'), controller.deleteStaff);
+router.post('/:id/reactivate', auth.requirePermission('staff:write'), controller.reactivateStaff);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import * as controller from '../../controllers/trashController';
+import auth from '../../middlewares/auth';
+
+const router = Router();
+
+// ?entity_type=patient|medical_history|treatment_plan|treatment_log&patient_id=&search=&limit=&offset=
+router.get('/', auth.requirePermission('trash:manage'), controller.getTrash);
+router.post('/:entityType/:id/restore', auth.requirePermission('trash:manage'), controller.restoreRecord);
+router.delete('/:entityType/:id', auth.requirePermission('trash:manage'), controller.purgeRecord);
+
+export default router;
@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import * as controller from '../../controllers/treatmentGoalController';
+import auth from '../../middlewares/auth';
+
+const router = Router();
+
+// Goal SMART per treatment plan mengikuti izin treatment plan; progress mengikuti izin treatment log
+// body {treatment_plan_id, description, target_metric, unit?, baseline_value?, target_value?, target_date?, sort_order?}
+router.post('/create', auth.requirePermission('treatment_plan:write'), controller.createGoal);
+router.get('/plan/:planId', auth.requirePermission('treatment_plan:read'), controller.getGoalsByPlan);
+// ?dateFrom=&dateTo=&staff_id=&service_type=
+router.get('/report', auth.requirePermission('treatment_plan:read'), controller.getClinicReport);
+// body {progress: [{goal_id, value?, note?}]}
+router.post('/treatment-log/:logId', auth.requirePermission('treatment_log:write'), controller.recordProgress);
+router.get('/treatment-log/:logId', auth.requirePermission('treatment_log:read'), controller.getProgressByLog);
+router.delete('/progress/:id', auth.requirePermission('treatment_log:write'), controller.deleteProgress);
+router.get('/:id', auth.requirePermission('treatment_plan:read'), controller.getGoalById);
+router.put('/:id', auth.requirePermission('treatment_plan:write'), controller.updateGoal);
+router.delete('/:id', auth.requirePermission('treatment_plan:write'), controller.deleteGoal);
+
+export default router;
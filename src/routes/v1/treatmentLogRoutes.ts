@@ -4,14 +4,14 @@ import auth from '../../middlewares/auth';
 
 const router = Router();
 
-// Both ADMIN & DOCTOR / THERAPIST
-router.post('/create', auth.auth, controller.createLog);
-router.get('/all', auth.auth, controller.getAllLogs);
-router.get('/follow-up', auth.auth, controller.getFollowUpLogs);
-router.get('/:id', auth.auth, controller.getLogById);
-router.put('/:id', auth.auth, controller.updateLog);
-
-// ADMIN only
-router.delete('/:id', auth.authAdmin, controller.deleteLog);
+// Izin per endpoint diatur lewat permission registry (utils/permissions)
+router.post('/create', auth.requirePermission('treatment_log:write'), controller.createLog);
+router.get('/all', auth.requirePermission('treatment_log:read'), controller.getAllLogs);
+router.get('/follow-up', auth.requirePermission('treatment_log:read'), controller.getFollowUpLogs);
+router.get('/:id', auth.requirePermission('treatment_log:read'), controller.getLogById);
+router.get('/:id/revisions', auth.requirePermission('treatment_log:read'), controller.getLogRevisions);
+router.post('/:id/sign', auth.requirePermission('treatment_log:sign'), controller.signLog);
+router.put('/:id', auth.requirePermission('treatment_log:write'), controller.updateLog);
+router.delete('/:id', auth.requirePermission('treatment_log:delete'), controller.deleteLog);
 
 export default router;
@@ -1,16 +1,25 @@
 import { Router } from 'express';
 import * as controller from '../../controllers/treatmentPlanController';
+import * as dischargeController from '../../controllers/dischargeSummaryController';
 import auth from '../../middlewares/auth';
 
 const router = Router();
 
-// Both ADMIN & DOCTOR / THERAPIST
-router.post('/create', auth.auth, controller.createPlan);
-router.get('/all', auth.auth, controller.getAllPlans);
-router.get('/:id', auth.auth, controller.getPlanById);
-router.put('/:id', auth.auth, controller.updatePlan);
-
-// ADMIN only
-router.delete('/:id', auth.authAdmin, controller.deletePlan);
+// Izin per endpoint diatur lewat permission registry (utils/permissions)
+router.post('/create', auth.requirePermission('treatment_plan:write'), controller.createPlan);
+router.get('/all', auth.requirePermission('treatment_plan:read'), controller.getAllPlans);
+router.get('/:id', auth.requirePermission('treatment_plan:read'), controller.getPlanById);
+router.put('/:id', auth.requirePermission('treatment_plan:write'), controller.updatePlan);
+router.delete('/:id', auth.requirePermission('treatment_plan:delete'), controller.deletePlan);
+router.post('/:id/hold', auth.requirePermission('treatment_plan:write'), controller.holdPlan);
+router.post('/:id/resume', auth.requirePermission('treatment_plan:write'), controller.resumePlan);
+router.post('/:id/complete', auth.requirePermission('treatment_plan:write'), controller.completePlan);
+router.post('/:id/cancel', auth.requirePermission('treatment_plan:write'), controller.cancelPlan);
+router.post('/:id/reopen', auth.requirePermission('treatment_plan:reopen'), controller.reopenPlan);
+router.get('/:id/status-history', auth.requirePermission('treatment_plan:read'), controller.getStatusHistory);
+router.get('/:id/discharge-summary', auth.requirePermission('treatment_plan:read'), dischargeController.getDischargeSummary);
+router.get('/:id/discharge-summary/pdf', auth.requirePermission('treatment_plan:read'), dischargeController.getDischargeSummaryPdf);
+router.put('/:id/discharge-summary', auth.requirePermission('treatment_plan:write'), dischargeController.saveConclusions);
+router.post('/:id/discharge-summary/email', auth.requirePermission('treatment_plan:write'), dischargeController.emailDischargeSummary);
 
 export default router;
@@ -4,11 +4,9 @@ import auth from '../../middlewares/auth';
 
 const router = Router();
 
-// Both ADMIN & DOCTOR
-router.post('/public/file', auth.auth, uploadController.uploadSingleFilePublic);
-router.post('/public/image', auth.auth, uploadController.uploadSingleFilePublicImage);
-
-// ADMIN only
-router.post('/public/3dfile', auth.authAdmin, uploadController.uploadSingleFilePublic);
+// Izin per endpoint diatur lewat permission registry (utils/permissions)
+router.post('/public/file', auth.requirePermission('upload:file'), uploadController.uploadSingleFilePublic);
+router.post('/public/image', auth.requirePermission('upload:file'), uploadController.uploadSingleFilePublicImage);
+router.post('/public/3dfile', auth.requirePermission('upload:3d_file'), uploadController.uploadSingleFilePublic);
 
 export default router;
\ No newline at end of file
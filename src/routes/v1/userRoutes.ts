@@ -7,22 +7,44 @@ const router = Router();
 // ── Public ────────────────────────────────────────────────────────────────────
 router.post('/create', controller.createUser);          // register sebagai DOCTOR
 router.post('/login', controller.login);
+router.post('/login/2fa', controller.loginTwoFactor);
+router.post('/refresh', controller.refreshToken);
+router.post('/forgot-password', controller.forgotPassword);
+router.post('/reset-password/confirm', controller.confirmPasswordReset);
 
 // ── Self (any authenticated user) ────────────────────────────────────────────
-router.get('/self', auth.auth, controller.getSelfData);
+router.get('/self', auth.authAllowMfaPending, controller.getSelfData);
+router.post('/logout', auth.authAllowMfaPending, controller.logout);
+router.get('/sessions', auth.auth, controller.getOwnSessions);
+router.delete('/sessions/:sessionId', auth.auth, controller.revokeOwnSession);
 router.post('/reset-password', auth.auth, controller.resetOwnPassword);
 router.put('/profile', auth.auth, controller.updateOwnProfile);
+router.put('/email', auth.auth, controller.updateOwnEmail);
+router.post('/email/verify', auth.auth, controller.verifyOwnEmail);
 router.delete('/account', auth.auth, controller.deleteOwnAccount);
 
-// ── Admin only ────────────────────────────────────────────────────────────────
-router.post('/admin/create', auth.authAdmin, controller.adminCreateUser);          // buat user dgn role bebas
-router.get('/all', auth.authAdmin, controller.getAllUsers);
-router.get('/all-with-inactive', auth.authAdmin, controller.getAllUsersWithInactive);
-router.get('/by-role', auth.auth, controller.getUsersByRole);                 // ?role=DOCTOR|ADMIN
-router.get('/:id', auth.authAdmin, controller.getUserById);
-router.patch('/:id/role', auth.authAdmin, controller.adminUpdateUserRole);
-router.patch('/:id/reset-password', auth.authAdmin, controller.adminResetUserPassword);
-router.delete('/:id', auth.authAdmin, controller.adminDeleteUser);
-router.post('/:id/restore', auth.authAdmin, controller.adminRestoreUser);
+// ── Two-factor (boleh diakses sebelum 2FA aktif, supaya user bisa enrol) ────────
+router.get('/2fa', auth.authAllowMfaPending, controller.getTwoFactorStatus);
+router.post('/2fa/setup', auth.authAllowMfaPending, controller.setupTwoFactor);
+router.post('/2fa/confirm', auth.authAllowMfaPending, controller.confirmTwoFactor);
+router.post('/2fa/disable', auth.auth, controller.disableTwoFactor);
+router.post('/2fa/recovery-codes', auth.auth, controller.regenerateRecoveryCodes);
+
+// ── Admin (permission user:*) ────────────────────────────────────────────────
+router.post('/admin/create', auth.requirePermission('user:manage'), controller.adminCreateUser);          // buat user dgn role bebas
+router.get('/admin/lockouts', auth.requirePermission('user:security'), controller.adminGetLoginLockouts);   // ?scope=USERNAME|IP&active=true
+router.delete('/admin/lockouts/:lockoutId', auth.requirePermission('user:security'), controller.adminClearLoginLockout);
+router.get('/admin/2fa-policy', auth.requirePermission('user:security'), controller.adminGetTwoFactorPolicies);
+router.put('/admin/2fa-policy/:role', auth.requirePermission('user:security'), controller.adminUpdateTwoFactorPolicy);
+router.get('/all', auth.requirePermission('user:read'), controller.getAllUsers);
+router.get('/all-with-inactive', auth.requirePermission('user:read'), controller.getAllUsersWithInactive);
+router.get('/by-role', auth.requirePermission('user:list'), controller.getUsersByRole);                 // ?role=DOCTOR|ADMIN
+router.get('/:id', auth.requirePermission('user:read'), controller.getUserById);
+router.patch('/:id/role', auth.requirePermission('user:manage'), controller.adminUpdateUserRole);
+router.patch('/:id/reset-password', auth.requirePermission('user:manage'), controller.adminResetUserPassword);
+router.delete('/:id', auth.requirePermission('user:manage'), controller.adminDeleteUser);
+router.post('/:id/restore', auth.requirePermission('user:manage'), controller.adminRestoreUser);
+router.delete('/:id/sessions', auth.requirePermission('user:security'), controller.adminRevokeUserSessions);
+router.delete('/:id/2fa', auth.requirePermission('user:security'), controller.adminResetTwoFactor);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,144 @@
+import * as ExerciseAdherenceDAO from '../daos/exerciseAdherenceDAO';
+import { BadRequestError } from '../errors/RequestErrorCollection';
+import { calendarDate, clinicDate } from '../utils/clinicTime';
+
+// Resep tanpa target sesi per minggu dianggap sekali sehari
+const DEFAULT_SESSIONS_PER_WEEK = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type PrescriptionWithLogs = Awaited<ReturnType<typeof ExerciseAdherenceDAO.getPrescriptionsWithLogs>>[number];
+
+const RATING_RANGES: Record<string, [number, number]> = {
+    pain_rating: [0, 10],
+    difficulty_rating: [1, 5],
+    sets_completed: [0, 1000],
+    reps_completed: [0, 1000],
+};
+
+/**
+ * Validasi input sesi latihan (dari pasien maupun staf). performed_on default hari ini,
+ * tidak boleh di masa depan dan harus berada dalam rentang tanggal resep.
+ */
+const validateSession = (body: any, prescription: { start_date: Date; end_date: Date | null }): BadRequestError | null => {
+    for (const [field, [min, max]] of Object.entries(RATING_RANGES)) {
+        const value = body[field];
+        if (value === undefined || value === null) continue;
+        if (!Number.isInteger(Number(value)) || Number(value) < min || Number(value) > max) {
+            return new BadRequestError(`${field} must be a whole number between ${min} and ${max}`);
+        }
+    }
+
+    // Tanpa performed_on DAO mencatat hari ini (hari kalender klinik), jadi rentang resep tetap dicek terhadap hari ini
+    const performedOn = body.performed_on === undefined || body.performed_on === null ? new Date() : new Date(body.performed_on);
+    if (isNaN(performedOn.getTime())) return new BadRequestError('performed_on must be a valid date');
+
+    const day = calendarDate(performedOn);
+    if (day > clinicDate(new Date())) return new BadRequestError('performed_on cannot be in the future');
+    if (day < calendarDate(prescription.start_date) || (prescription.end_date && day > calendarDate(prescription.end_date))) {
+        return new BadRequestError('performed_on must be within the prescription date range', 'OUTSIDE_PRESCRIPTION_RANGE');
+    }
+    return null;
+};
+
+const toPercent = (completed: number, expected: number) =>
+    expected > 0 ? Math.min(100, Math.round((completed / expected) * 100)) : null;
+
+const average = (values: Array<number | null>) => {
+    const present = values.filter((value): value is number => value !== null);
+    return present.length ? Math.round((present.reduce((sum, value) => sum + value, 0) / present.length) * 10) / 10 : null;
+};
+
+/**
+ * Adherence satu resep sampai `asOf`: sesi tercatat dibanding sesi yang diharapkan
+ * (jumlah hari berjalan x sessions_per_week / 7, dibulatkan ke atas). Resep yang belum
+ * mulai menghasilkan adherence_percent null.
+ */
+const computePrescription = (prescription: PrescriptionWithLogs, asOf: Date = new Date()) => {
+    const start = calendarDate(prescription.start_date);
+    const today = calendarDate(asOf);
+    const end = prescription.end_date && calendarDate(prescription.end_date) < today ? calendarDate(prescription.end_date) : today;
+
+    const days = end >= start ? Math.round((end.getTime() - start.getTime()) / DAY_MS) + 1 : 0;
+    const sessionsPerWeek = prescription.sessions_per_week || DEFAULT_SESSIONS_PER_WEEK;
+    const expected = Math.ceil((days * sessionsPerWeek) / 7);
+
+    const logs = prescription.exercise_adherence_log.filter((log) => {
+        const day = calendarDate(log.performed_on);
+        return day >= start && day <= end;
+    });
+    const lastPerformed = logs.reduce<Date | null>(
+        (latest, log) => (!latest || log.performed_on > latest ? log.performed_on : latest),
+        null
+    );
+
+    return {
+        prescription_id: prescription.id,
+        exercise_id: prescription.exercise_id,
+        exercise_name: prescription.exercise.name,
+        sessions_per_week: sessionsPerWeek,
+        start_date: prescription.start_date,
+        end_date: prescription.end_date,
+        expected_sessions: expected,
+        completed_sessions: logs.length,
+        adherence_percent: toPercent(logs.length, expected),
+        last_performed_on: lastPerformed,
+        average_pain: average(logs.map((log) => log.pain_rating)),
+        average_difficulty: average(logs.map((log) => log.difficulty_rating))
+    };
+};
+
+// Sesi berlebih di satu resep tidak menutupi resep lain yang terlewat
+const summarize = (prescriptions: Array<ReturnType<typeof computePrescription>>) => {
+    const expected = prescriptions.reduce((sum, p) => sum + p.expected_sessions, 0);
+    const completed = prescriptions.reduce((sum, p) => sum + Math.min(p.completed_sessions, p.expected_sessions), 0);
+    return {
+        expected_sessions: expected,
+        completed_sessions: completed,
+        adherence_percent: toPercent(completed, expected)
+    };
+};
+
+const getPlanAdherence = async (treatment_plan_id: number, asOf: Date = new Date()) => {
+    const prescriptions = await ExerciseAdherenceDAO.getPrescriptionsWithLogs({ treatment_plan_id });
+    const computed = prescriptions.map((prescription) => computePrescription(prescription, asOf));
+
+    return {
+        treatment_plan_id,
+        as_of: calendarDate(asOf),
+        ...summarize(computed),
+        prescriptions: computed
+    };
+};
+
+// Adherence semua treatment plan pasien yang belum dihapus, untuk laporan progres
+const getPatientAdherence = async (patient_id: number, asOf: Date = new Date()) => {
+    const prescriptions = await ExerciseAdherenceDAO.getPrescriptionsWithLogs({
+        treatment_plan: { patient_id, deleted_at: null }
+    });
+
+    const byPlan = new Map<number, Array<ReturnType<typeof computePrescription>>>();
+    for (const prescription of prescriptions) {
+        if (!byPlan.has(prescription.treatment_plan_id)) byPlan.set(prescription.treatment_plan_id, []);
+        byPlan.get(prescription.treatment_plan_id)!.push(computePrescription(prescription, asOf));
+    }
+
+    const plans = Array.from(byPlan.entries()).map(([treatment_plan_id, computed]) => ({
+        treatment_plan_id,
+        ...summarize(computed),
+        prescriptions: computed
+    }));
+
+    return {
+        as_of: calendarDate(asOf),
+        ...summarize(plans.flatMap((plan) => plan.prescriptions)),
+        plans
+    };
+};
+
+export default {
+    DEFAULT_SESSIONS_PER_WEEK,
+    validateSession,
+    computePrescription,
+    getPlanAdherence,
+    getPatientAdherence,
+};
@@ -0,0 +1,122 @@
+import { appointment_status } from '@prisma/client';
+import * as AppointmentDAO from '../daos/appointmentDAO';
+import * as StaffWorkingHoursDAO from '../daos/staffWorkingHoursDAO';
+import * as MedicalHistoryDAO from '../daos/medicalHistoryDAO';
+import * as TreatmentLogDAO from '../daos/treatmentLogDAO';
+import AuditService from './AuditService';
+import { addClinicDays, clinicParts, isSameClinicDay, startOfClinicDay, toClinicHHmm } from '../utils/clinicTime';
+
+export type CalendarView = 'day' | 'week';
+export type SpawnRecordType = 'medical_history' | 'treatment_log';
+
+// Transisi status yang diizinkan; COMPLETED, NO_SHOW dan CANCELLED adalah status akhir
+const STATUS_TRANSITIONS: Record<appointment_status, appointment_status[]> = {
+    BOOKED: ['ARRIVED', 'COMPLETED', 'NO_SHOW', 'CANCELLED'],
+    ARRIVED: ['COMPLETED', 'CANCELLED'],
+    COMPLETED: [],
+    NO_SHOW: [],
+    CANCELLED: [],
+};
+
+const canTransition = (from: appointment_status, to: appointment_status) => STATUS_TRANSITIONS[from].includes(to);
+
+// Status asal yang boleh berpindah ke `to`; dipakai sebagai syarat update status di database
+const sourcesFor = (to: appointment_status) =>
+    (Object.keys(STATUS_TRANSITIONS) as appointment_status[]).filter((from) => canTransition(from, to));
+
+/**
+ * Staff tanpa jadwal kerja dianggap tidak dibatasi. Jika ada, appointment harus
+ * berada utuh di dalam salah satu slot pada hari yang sama (waktu klinik, CLINIC_TIMEZONE).
+ */
+const isWithinWorkingHours = async (staff_id: number, start_at: Date, end_at: Date) => {
+    if ((await StaffWorkingHoursDAO.countByStaffId(staff_id)) === 0) return true;
+    if (!isSameClinicDay(start_at, end_at)) return false;
+
+    const slots = await StaffWorkingHoursDAO.getByStaffAndDay(staff_id, clinicParts(start_at).weekday);
+    const start = toClinicHHmm(start_at);
+    const end = toClinicHHmm(end_at);
+    return slots.some((slot) => slot.start_time <= start && end <= slot.end_time);
+};
+
+// Rentang [from, to) untuk kalender harian atau mingguan (minggu dimulai Senin), per hari waktu klinik
+const getCalendarRange = (view: CalendarView, date: Date) => {
+    let from = startOfClinicDay(date);
+    if (view === 'week') {
+        const day = clinicParts(from).weekday;
+        from = addClinicDays(from, -(day === 0 ? 6 : day - 1));
+    }
+
+    return { from, to: addClinicDays(from, view === 'week' ? 7 : 1) };
+};
+
+const getCalendar = async (view: CalendarView, date: Date, options?: AppointmentDAO.GetAllOptions) => {
+    const { from, to } = getCalendarRange(view, date);
+    const appointments = await AppointmentDAO.getAll({ ...options, dateFrom: from, dateTo: to });
+
+    const days: Array<{ date: Date; appointments: any[] }> = [];
+    for (let dayStart = from; dayStart < to; dayStart = addClinicDays(dayStart, 1)) {
+        const dayEnd = addClinicDays(dayStart, 1);
+        days.push({
+            date: dayStart,
+            appointments: appointments.filter((a) => a.start_at < dayEnd && a.end_at > dayStart),
+        });
+    }
+
+    return { view, from, to, count: appointments.length, days };
+};
+
+/**
+ * Tandai appointment COMPLETED dan (opsional) buat draft medical_history atau treatment_log
+ * dari data appointment. Transisi diklaim dulu, draft dibuat dan ditautkan di transaksi yang
+ * sama, jadi complete yang bersamaan tidak membuat draft ganda. Null jika sudah diselesaikan.
+ */
+const complete = async (appointment: any, spawn: SpawnRecordType | null, user_id: number) => {
+    let history: any = null;
+    let log: any = null;
+
+    const result = await AppointmentDAO.updateStatus(appointment.id, sourcesFor('COMPLETED'), 'COMPLETED', undefined, async (tx) => {
+        if (spawn === 'medical_history') {
+            history = await MedicalHistoryDAO.createInTransaction(tx, MedicalHistoryDAO.formatCreate({
+                patient_id: appointment.patient_id,
+                appointment_date: appointment.start_at,
+                staff_id: appointment.staff_id,
+                user_id,
+            }), user_id);
+            return { medical_history_id: history.id };
+        }
+
+        if (spawn === 'treatment_log') {
+            log = await TreatmentLogDAO.createInTransaction(tx, TreatmentLogDAO.formatCreate({
+                treatment_plan_id: appointment.treatment_plan_id,
+                visit_date: appointment.start_at,
+                staff_id: appointment.staff_id,
+                user_id,
+                created_by: user_id,
+            }));
+            return { treatment_log_id: log.id };
+        }
+
+        return {};
+    });
+    if (!result) return null;
+
+    if (history) {
+        await AuditService.recordCreate('medical_history', history, history.patient_id);
+        return { appointment: result, medical_history: MedicalHistoryDAO.formatMedicalHistoryForTable(history) };
+    }
+    if (log) {
+        await AuditService.recordCreate('treatment_log', log, log.treatment_plan.patient_id);
+        return { appointment: result, treatment_log: TreatmentLogDAO.formatForTable(log) };
+    }
+    return { appointment: result };
+};
+
+export default {
+    STATUS_TRANSITIONS,
+    canTransition,
+    sourcesFor,
+    isWithinWorkingHours,
+    getCalendarRange,
+    getCalendar,
+    complete,
+};
@@ -0,0 +1,222 @@
+import crypto from 'crypto';
+import { audit_action, audit_log as AuditLog } from '@prisma/client';
+import * as AuditLogDAO from '../daos/auditLogDAO';
+import RequestContext from './RequestContext';
+import hidash from '../utils/hidash';
+import { FieldDiff, canonicalize, diffFields, toJsonValue } from '../utils/fieldDiff';
+
+export type AuditEntityType =
+    | 'patient'
+    | 'medical_history'
+    | 'treatment_plan'
+    | 'treatment_log'
+    | 'appointment'
+    | 'exercise_prescription'
+    | 'exercise_adherence_log'
+    | 'outcome_measure_result'
+    | 'rom_measurement'
+    | 'body_chart_mark'
+    | 'discharge_summary'
+    | 'treatment_goal'
+    | 'treatment_goal_progress';
+
+const VERIFY_BATCH_SIZE = 500;
+
+// MySQL menyimpan JSON dengan urutan key sendiri, jadi hash dihitung dari bentuk kanonik (key diurutkan)
+const computeHash = (row: Omit<AuditLog, 'id' | 'hash'>) => {
+    const payload = canonicalize({
+        prev_hash: row.prev_hash ?? null,
+        actor_user_id: row.actor_user_id ?? null,
+        actor_username: row.actor_username ?? null,
+        actor_role: row.actor_role ?? null,
+        action: row.action,
+        entity_type: row.entity_type,
+        entity_id: row.entity_id ?? null,
+        patient_id: row.patient_id ?? null,
+        changes: toJsonValue(row.changes),
+        metadata: toJsonValue(row.metadata),
+        ip_address: row.ip_address ?? null,
+        user_agent: row.user_agent ?? null,
+        created_at: row.created_at.toISOString(),
+    });
+    return crypto.createHash('sha256').update(JSON.stringify(payload)).digest('hex');
+};
+
+interface RecordInput {
+    action: audit_action;
+    entity_type: AuditEntityType;
+    entity_id?: number | null;
+    patient_id?: number | null;
+    changes?: FieldDiff | null;
+    metadata?: Record<string, any> | null;
+}
+
+const record = (input: RecordInput) => {
+    const context = RequestContext.get();
+    const metadata = context?.portal_patient_id
+        ? { ...(input.metadata ?? {}), portal_patient_id: context.portal_patient_id }
+        : input.metadata;
+
+    const row = {
+        actor_user_id: context?.user_id ?? null,
+        actor_username: context?.username ?? null,
+        actor_role: context?.role ?? null,
+        action: input.action,
+        entity_type: input.entity_type,
+        entity_id: input.entity_id ?? null,
+        patient_id: input.patient_id ?? null,
+        changes: input.changes ? toJsonValue(input.changes) : null,
+        metadata: metadata ? toJsonValue(metadata) : null,
+        ip_address: context?.ip_address ?? null,
+        user_agent: context?.user_agent ?? null,
+        created_at: hidash.nowWithoutMillis(),
+    };
+    const toCreate = (prev_hash: string | null) => ({
+        ...row,
+        changes: row.changes ?? undefined,
+        metadata: row.metadata ?? undefined,
+        prev_hash,
+        hash: computeHash({ ...row, prev_hash }),
+    });
+
+    return AuditLogDAO.appendToChain(AuditLogDAO.chainOf(input.action), toCreate);
+};
+
+const recordRead = (entity_type: AuditEntityType, entity_id: number, patient_id: number | null) => {
+    return record({ action: 'READ', entity_type, entity_id, patient_id });
+};
+
+// Satu baris per query list; id record & pasien yang terlihat disimpan di metadata
+const recordList = (
+    entity_type: AuditEntityType,
+    rows: Array<{ id: number; patient_id?: number | null } | null>,
+    action: audit_action = 'LIST'
+) => {
+    const visible = rows.filter((r): r is { id: number; patient_id?: number | null } => !!r);
+    if (visible.length === 0 && action === 'LIST') return Promise.resolve(null);
+
+    const patientIds = Array.from(new Set(visible.map((r) => r.patient_id).filter((id): id is number => !!id)));
+    return record({
+        action,
+        entity_type,
+        patient_id: patientIds.length === 1 ? patientIds[0] : null,
+        metadata: {
+            count: visible.length,
+            entity_ids: visible.map((r) => r.id),
+            patient_ids: patientIds,
+        },
+    });
+};
+
+const recordCreate = (entity_type: AuditEntityType, after: any, patient_id: number | null) => {
+    return record({ action: 'CREATE', entity_type, entity_id: after.id, patient_id, changes: diffFields(null, after) });
+};
+
+const recordUpdate = (entity_type: AuditEntityType, before: any, after: any, patient_id: number | null, reason?: string | null) => {
+    return record({
+        action: 'UPDATE',
+        entity_type,
+        entity_id: before.id,
+        patient_id,
+        changes: diffFields(before, after),
+        metadata: reason ? { reason } : null
+    });
+};
+
+// Untuk soft delete diff hanya berisi deleted_at/deleted_by, jumlah record turunan yang ikut terhapus di metadata
+const recordDelete = (
+    entity_type: AuditEntityType,
+    before: any,
+    after: any,
+    patient_id: number | null,
+    metadata?: Record<string, any>
+) => {
+    return record({ action: 'DELETE', entity_type, entity_id: before.id, patient_id, changes: diffFields(before, after), metadata });
+};
+
+const recordRestore = (
+    entity_type: AuditEntityType,
+    before: any,
+    after: any,
+    patient_id: number | null,
+    metadata?: Record<string, any>
+) => {
+    return record({ action: 'RESTORE', entity_type, entity_id: before.id, patient_id, changes: diffFields(before, after), metadata });
+};
+
+// Hapus permanen dari trash, isi terakhir record disimpan di diff
+const recordPurge = (entity_type: AuditEntityType, before: any, patient_id: number | null) => {
+    return record({ action: 'PURGE', entity_type, entity_id: before.id, patient_id, changes: diffFields(before, null) });
+};
+
+/**
+ * Verifikasi kedua chain: hash setiap baris dihitung ulang, prev_hash harus sama dengan hash baris
+ * sebelumnya di chain yang sama, dan baris yang tercatat di audit_chain_head harus ada dengan hash
+ * yang sama (menghapus baris paling baru tidak memutus link apa pun, tapi terlihat dari head).
+ * Head dibaca sebelum scan, jadi baris yang ditambahkan selama verifikasi tetap valid.
+ */
+const verifyChain = async () => {
+    const heads = await AuditLogDAO.getChainHeads();
+    const chains = Object.keys(AuditLogDAO.CHAIN_HEAD_IDS) as AuditLogDAO.AuditChain[];
+    const headOf = (chain: AuditLogDAO.AuditChain) => heads.find((h) => h.id === AuditLogDAO.CHAIN_HEAD_IDS[chain]);
+
+    const previous: Partial<Record<AuditLogDAO.AuditChain, AuditLog>> = {};
+    const reachedHead = new Set<AuditLogDAO.AuditChain>();
+    let checked = 0;
+    let lastId = 0;
+
+    while (true) {
+        const batch = await AuditLogDAO.getBatchAfter(lastId, VERIFY_BATCH_SIZE);
+        if (batch.length === 0) break;
+
+        for (const row of batch) {
+            const { id, hash, ...rest } = row;
+            if (computeHash(rest) !== hash) {
+                return { valid: false, checked, broken_at_id: id, reason: 'HASH_MISMATCH' };
+            }
+
+            const chain = AuditLogDAO.chainOf(row.action);
+            if ((row.prev_hash ?? null) !== (previous[chain]?.hash ?? null)) {
+                return { valid: false, checked, broken_at_id: id, reason: 'CHAIN_BROKEN' };
+            }
+
+            const head = headOf(chain);
+            if (head?.last_id === id) {
+                if (head.last_hash !== hash) return { valid: false, checked, broken_at_id: id, reason: 'HEAD_MISMATCH' };
+                reachedHead.add(chain);
+            }
+
+            previous[chain] = row;
+            checked++;
+        }
+        lastId = batch[batch.length - 1].id;
+    }
+
+    for (const chain of chains) {
+        const head = headOf(chain);
+        if (head?.last_id != null && !reachedHead.has(chain)) {
+            return { valid: false, checked, broken_at_id: head.last_id, reason: 'HEAD_MISMATCH' };
+        }
+    }
+
+    return {
+        valid: true,
+        checked,
+        chains: Object.fromEntries(chains.map((chain) => [
+            chain,
+            { last_id: previous[chain]?.id ?? null, last_hash: previous[chain]?.hash ?? null }
+        ])),
+    };
+};
+
+export default {
+    record,
+    recordRead,
+    recordList,
+    recordCreate,
+    recordUpdate,
+    recordDelete,
+    recordRestore,
+    recordPurge,
+    verifyChain,
+};
@@ -0,0 +1,344 @@
+import { body_side, body_view, symptom_type } from '@prisma/client';
+import { BadRequestError } from '../errors/RequestErrorCollection';
+import {
+    BODY_VIEWS,
+    CHART_HEIGHT,
+    CHART_WIDTH,
+    ChartShape,
+    isBodyView,
+    isRegionCode,
+    isSymptomType,
+    REGION_LABELS,
+    regionAt,
+    shapeBounds,
+    shapeDistance,
+    SYMPTOM_COLORS,
+    SYMPTOM_TYPES,
+    VIEW_REGIONS,
+} from '../utils/bodyChart';
+import { encodePng } from '../utils/png';
+
+const MAX_MARKS_PER_ENTRY = 100;
+const PANEL_PADDING = 10;
+const LABEL_HEIGHT = 24;
+const LEGEND_HEIGHT = 28;
+const PNG_SCALE = 2;
+
+const SILHOUETTE_FILL = '#f3f4f6';
+const SILHOUETTE_STROKE = '#9ca3af';
+
+export interface BodyChartMark {
+    view: body_view;
+    region: string;
+    side: body_side | null;
+    x: number;
+    y: number;
+    symptom_type: symptom_type;
+    intensity: number | null;
+}
+
+const VIEW_LABELS: Record<body_view, string> = {
+    FRONT: 'Front',
+    BACK: 'Back',
+    LEFT: 'Left side',
+    RIGHT: 'Right side',
+};
+
+const listDefinitions = () => ({
+    width: CHART_WIDTH,
+    height: CHART_HEIGHT,
+    views: BODY_VIEWS.map((view) => ({
+        view,
+        label: VIEW_LABELS[view],
+        regions: VIEW_REGIONS[view].map((region) => ({ ...region, label: REGION_LABELS[region.code] })),
+    })),
+    symptom_types: SYMPTOM_TYPES.map((type) => ({ type, color: SYMPTOM_COLORS[type] })),
+});
+
+/**
+ * Validasi & lengkapi satu pin. Region/sisi boleh dikosongkan: diturunkan dari koordinat.
+ * Mengembalikan pin yang sudah dinormalisasi atau BadRequestError.
+ */
+const normalizeMark = (mark: any, label: string): BadRequestError | (BodyChartMark & { notes: string | null }) => {
+    if (!mark || typeof mark !== 'object') return new BadRequestError(`${label} must be an object`);
+    if (!isBodyView(mark.view)) return new BadRequestError(`${label}: view must be one of ${BODY_VIEWS.join(', ')}`);
+    if (!isSymptomType(mark.symptom_type)) {
+        return new BadRequestError(`${label}: symptom_type must be one of ${SYMPTOM_TYPES.join(', ')}`);
+    }
+
+    const x = Number(mark.x);
+    const y = Number(mark.y);
+    if (mark.x == null || mark.y == null || isNaN(x) || isNaN(y) || x < 0 || x > 1 || y < 0 || y > 1) {
+        return new BadRequestError(`${label}: x and y must be numbers between 0 and 1`);
+    }
+
+    let intensity: number | null = null;
+    if (mark.intensity !== undefined && mark.intensity !== null) {
+        intensity = Number(mark.intensity);
+        if (!Number.isInteger(intensity) || intensity < 0 || intensity > 10) {
+            return new BadRequestError(`${label}: intensity must be a whole number between 0 and 10`);
+        }
+    }
+
+    const view: body_view = mark.view;
+    const hit = regionAt(view, x, y);
+    let region: string;
+    let side: body_side | null;
+
+    if (mark.region == null) {
+        if (!hit) return new BadRequestError(`${label}: point is outside the body chart, provide a region`);
+        region = hit.code;
+        side = hit.side;
+    } else {
+        const candidates = VIEW_REGIONS[view].filter((r) => r.code === mark.region);
+        if (!isRegionCode(mark.region) || !candidates.length) {
+            return new BadRequestError(`${label}: region ${mark.region} is not shown on the ${view} view`);
+        }
+        region = mark.region;
+
+        const bilateral = candidates.some((r) => r.side !== null);
+        if (!bilateral) {
+            if (mark.side != null) return new BadRequestError(`${label}: ${region} is a midline region without side`);
+            side = null;
+        } else if (mark.side != null) {
+            if (!candidates.some((r) => r.side === mark.side)) {
+                return new BadRequestError(`${label}: side must be ${candidates.map((r) => r.side).join(' or ')} for ${region} on the ${view} view`);
+            }
+            side = mark.side;
+        } else {
+            // Sisi mengikuti region terdekat dari titik pin
+            const nearest = candidates.reduce((best, r) =>
+                shapeDistance(r.shape, x * CHART_WIDTH, y * CHART_HEIGHT) < shapeDistance(best.shape, x * CHART_WIDTH, y * CHART_HEIGHT) ? r : best
+            );
+            side = nearest.side;
+        }
+    }
+
+    return {
+        view,
+        region,
+        side,
+        x,
+        y,
+        symptom_type: mark.symptom_type,
+        intensity,
+        notes: mark.notes ? String(mark.notes).slice(0, 255) : null,
+    };
+};
+
+// Validasi batch {marks: [...]}; array kosong berarti menghapus semua anotasi entry
+const normalizeMarks = (marks: any): BadRequestError | Array<BodyChartMark & { notes: string | null }> => {
+    if (!Array.isArray(marks)) return new BadRequestError('marks must be an array');
+    if (marks.length > MAX_MARKS_PER_ENTRY) {
+        return new BadRequestError(`At most ${MAX_MARKS_PER_ENTRY} marks can be stored per entry`);
+    }
+
+    const normalized: Array<BodyChartMark & { notes: string | null }> = [];
+    for (let i = 0; i < marks.length; i++) {
+        const result = normalizeMark(marks[i], `marks[${i}]`);
+        if (result instanceof BadRequestError) return result;
+        normalized.push(result);
+    }
+    return normalized;
+};
+
+// Tampilan yang dirender: yang diminta, atau yang memiliki pin (default depan & belakang)
+const resolveViews = (marks: BodyChartMark[], views?: body_view[]) => {
+    if (views && views.length) return BODY_VIEWS.filter((view) => views.includes(view));
+    const used = BODY_VIEWS.filter((view) => marks.some((mark) => mark.view === view));
+    return used.length ? used : (['FRONT', 'BACK'] as body_view[]);
+};
+
+const pinRadius = (mark: BodyChartMark) => 4 + (mark.intensity ?? 5) * 0.4;
+
+// Region yang berisi pin diberi warna gejala dengan intensitas tertinggi
+const highlightedRegions = (view: body_view, marks: BodyChartMark[]) => {
+    const highlights = new Map<number, string>();
+    VIEW_REGIONS[view].forEach((region, index) => {
+        const inRegion = marks.filter((mark) => mark.view === view && mark.region === region.code && mark.side === region.side);
+        if (!inRegion.length) return;
+        const strongest = inRegion.reduce((best, mark) => ((mark.intensity ?? 0) > (best.intensity ?? 0) ? mark : best));
+        highlights.set(index, SYMPTOM_COLORS[strongest.symptom_type]);
+    });
+    return highlights;
+};
+
+const layout = (viewCount: number) => ({
+    panelWidth: CHART_WIDTH + PANEL_PADDING * 2,
+    width: (CHART_WIDTH + PANEL_PADDING * 2) * viewCount,
+    height: LABEL_HEIGHT + CHART_HEIGHT + PANEL_PADDING + LEGEND_HEIGHT,
+});
+
+const escapeXml = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const svgShape = (shape: ChartShape, attrs: string) =>
+    shape.kind === 'ellipse'
+        ? `<ellipse cx="${shape.cx}" cy="${shape.cy}" rx="${shape.rx}" ry="${shape.ry}" ${attrs}/>`
+        : `<line x1="${shape.x1}" y1="${shape.y1}" x2="${shape.x2}" y2="${shape.y2}" stroke-width="${shape.r * 2}" stroke-linecap="round" ${attrs}/>`;
+
+const renderSvg = (marks: BodyChartMark[], options?: { views?: body_view[]; title?: string }) => {
+    const views = resolveViews(marks, options?.views);
+    const { panelWidth, width, height } = layout(views.length);
+    const parts: string[] = [];
+
+    views.forEach((view, index) => {
+        const highlights = highlightedRegions(view, marks);
+        const regions = VIEW_REGIONS[view];
+        parts.push(`<g transform="translate(${index * panelWidth + PANEL_PADDING},0)">`);
+        parts.push(`<text x="${CHART_WIDTH / 2}" y="16" text-anchor="middle" font-family="sans-serif" font-size="13" fill="#374151">${VIEW_LABELS[view]}</text>`);
+        parts.push(`<g transform="translate(0,${LABEL_HEIGHT})">`);
+        // Garis tepi digambar dulu sebagai shape yang sedikit lebih besar, lalu isi di atasnya
+        for (const region of regions) {
+            parts.push(svgShape(
+                region.shape.kind === 'ellipse'
+                    ? { ...region.shape, rx: region.shape.rx + 1.5, ry: region.shape.ry + 1.5 }
+                    : { ...region.shape, r: region.shape.r + 1.5 },
+                region.shape.kind === 'ellipse' ? `fill="${SILHOUETTE_STROKE}"` : `stroke="${SILHOUETTE_STROKE}"`
+            ));
+        }
+        regions.forEach((region, regionIndex) => {
+            parts.push(svgShape(
+                region.shape,
+                region.shape.kind === 'ellipse' ? `fill="${SILHOUETTE_FILL}"` : `stroke="${SILHOUETTE_FILL}"`
+            ));
+            const highlight = highlights.get(regionIndex);
+            if (highlight) {
+                parts.push(svgShape(
+                    region.shape,
+                    region.shape.kind === 'ellipse' ? `fill="${highlight}" fill-opacity="0.25"` : `stroke="${highlight}" stroke-opacity="0.25"`
+                ));
+            }
+        });
+        for (const mark of marks.filter((m) => m.view === view)) {
+            const cx = Math.round(mark.x * CHART_WIDTH * 10) / 10;
+            const cy = Math.round(mark.y * CHART_HEIGHT * 10) / 10;
+            const tooltip = `${REGION_LABELS[mark.region]}${mark.side ? ` (${mark.side.toLowerCase()})` : ''}: ${mark.symptom_type.toLowerCase()}${mark.intensity != null ? ` ${mark.intensity}/10` : ''}`;
+            parts.push(
+                `<circle cx="${cx}" cy="${cy}" r="${pinRadius(mark)}" fill="${SYMPTOM_COLORS[mark.symptom_type]}" stroke="#ffffff" stroke-width="1.5"><title>${escapeXml(tooltip)}</title></circle>`
+            );
+        }
+        parts.push('</g></g>');
+    });
+
+    const legendTypes = SYMPTOM_TYPES.filter((type) => marks.some((mark) => mark.symptom_type === type));
+    legendTypes.forEach((type, index) => {
+        const x = PANEL_PADDING + index * 95;
+        const y = height - LEGEND_HEIGHT / 2;
+        parts.push(`<circle cx="${x + 6}" cy="${y}" r="6" fill="${SYMPTOM_COLORS[type]}"/>`);
+        parts.push(`<text x="${x + 16}" y="${y + 4}" font-family="sans-serif" font-size="11" fill="#374151">${type.charAt(0) + type.slice(1).toLowerCase()}</text>`);
+    });
+
+    const title = options?.title ? `<title>${escapeXml(options.title)}</title>` : '';
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">${title}<rect width="100%" height="100%" fill="#ffffff"/>${parts.join('')}</svg>`;
+};
+
+const hexToRgb = (hex: string): [number, number, number] => [
+    parseInt(hex.slice(1, 3), 16),
+    parseInt(hex.slice(3, 5), 16),
+    parseInt(hex.slice(5, 7), 16),
+];
+
+/**
+ * Rasterizer sederhana (tanpa teks): urutan panel & warna sama dengan SVG. Menghasilkan
+ * piksel RGB mentah agar bisa di-encode sebagai PNG atau disematkan langsung di PDF.
+ */
+const rasterize = (marks: BodyChartMark[], options?: { views?: body_view[]; legend?: boolean }) => {
+    const views = resolveViews(marks, options?.views);
+    const { panelWidth, width, height } = layout(views.length);
+    const pxWidth = width * PNG_SCALE;
+    const pxHeight = height * PNG_SCALE;
+    const pixels = Buffer.alloc(pxWidth * pxHeight * 3, 0xff);
+
+    // Isi piksel di dalam `inside(x, y)` (koordinat chart) dengan warna & opacity tertentu
+    const fill = (
+        offsetX: number,
+        offsetY: number,
+        bounds: { minX: number; maxX: number; minY: number; maxY: number },
+        inside: (x: number, y: number) => boolean,
+        color: string,
+        opacity: number = 1
+    ) => {
+        const [r, g, b] = hexToRgb(color);
+        const x0 = Math.max(0, Math.floor((offsetX + bounds.minX) * PNG_SCALE));
+        const x1 = Math.min(pxWidth - 1, Math.ceil((offsetX + bounds.maxX) * PNG_SCALE));
+        const y0 = Math.max(0, Math.floor((offsetY + bounds.minY) * PNG_SCALE));
+        const y1 = Math.min(pxHeight - 1, Math.ceil((offsetY + bounds.maxY) * PNG_SCALE));
+
+        for (let py = y0; py <= y1; py++) {
+            for (let px = x0; px <= x1; px++) {
+                if (!inside((px + 0.5) / PNG_SCALE - offsetX, (py + 0.5) / PNG_SCALE - offsetY)) continue;
+                const i = (py * pxWidth + px) * 3;
+                pixels[i] = Math.round(pixels[i] * (1 - opacity) + r * opacity);
+                pixels[i + 1] = Math.round(pixels[i + 1] * (1 - opacity) + g * opacity);
+                pixels[i + 2] = Math.round(pixels[i + 2] * (1 - opacity) + b * opacity);
+            }
+        }
+    };
+
+    const circle = (cx: number, cy: number, radius: number) => ({
+        bounds: { minX: cx - radius, maxX: cx + radius, minY: cy - radius, maxY: cy + radius },
+        inside: (x: number, y: number) => Math.hypot(x - cx, y - cy) <= radius,
+    });
+
+    views.forEach((view, index) => {
+        const offsetX = index * panelWidth + PANEL_PADDING;
+        const offsetY = LABEL_HEIGHT;
+        const regions = VIEW_REGIONS[view];
+        const highlights = highlightedRegions(view, marks);
+
+        for (const region of regions) {
+            fill(offsetX, offsetY, shapeBounds(region.shape, 1.5), (x, y) => shapeDistance(region.shape, x, y) <= 1.5, SILHOUETTE_STROKE);
+        }
+        regions.forEach((region, regionIndex) => {
+            const inside = (x: number, y: number) => shapeDistance(region.shape, x, y) <= 0;
+            fill(offsetX, offsetY, shapeBounds(region.shape), inside, SILHOUETTE_FILL);
+            const highlight = highlights.get(regionIndex);
+            if (highlight) fill(offsetX, offsetY, shapeBounds(region.shape), inside, highlight, 0.25);
+        });
+        for (const mark of marks.filter((m) => m.view === view)) {
+            const cx = mark.x * CHART_WIDTH;
+            const cy = mark.y * CHART_HEIGHT;
+            const outline = circle(cx, cy, pinRadius(mark) + 1.5);
+            const pin = circle(cx, cy, pinRadius(mark));
+            fill(offsetX, offsetY, outline.bounds, outline.inside, '#ffffff');
+            fill(offsetX, offsetY, pin.bounds, pin.inside, SYMPTOM_COLORS[mark.symptom_type]);
+        }
+    });
+
+    // Legenda PNG hanya titik warna; pemanggil yang bisa menulis teks (mis. PDF) boleh menggambar sendiri
+    const legendTypes = options?.legend === false ? [] : SYMPTOM_TYPES.filter((type) => marks.some((mark) => mark.symptom_type === type));
+    legendTypes.forEach((type, index) => {
+        const dot = circle(PANEL_PADDING + index * 95 + 6, height - LEGEND_HEIGHT / 2, 6);
+        fill(0, 0, dot.bounds, dot.inside, SYMPTOM_COLORS[type]);
+    });
+
+    return { width: pxWidth, height: pxHeight, pixels };
+};
+
+const renderPng = (marks: BodyChartMark[], options?: { views?: body_view[] }) => {
+    const { width, height, pixels } = rasterize(marks, options);
+    return encodePng(width, height, pixels);
+};
+
+// Kelompokkan pin hasil query region per entry (medical history / treatment log), urut tanggal
+const groupByEntry = (marks: any[]) => {
+    const entries = new Map<string, any>();
+    for (const mark of marks) {
+        const entry_type = mark.medical_history_id ? 'medical_history' : 'treatment_log';
+        const entry_id = mark.medical_history_id ?? mark.treatment_log_id;
+        const key = `${entry_type}:${entry_id}`;
+        if (!entries.has(key)) entries.set(key, { entry_type, entry_id, recorded_at: mark.recorded_at, marks: [] });
+        entries.get(key).marks.push(mark);
+    }
+    return Array.from(entries.values()).sort((a, b) => new Date(a.recorded_at).getTime() - new Date(b.recorded_at).getTime());
+};
+
+export default {
+    listDefinitions,
+    normalizeMarks,
+    renderSvg,
+    rasterize,
+    renderPng,
+    groupByEntry,
+};
@@ -0,0 +1,489 @@
+import { treatment_goal_status, treatment_plan_status } from '@prisma/client';
+import { BadRequestError } from '../errors/RequestErrorCollection';
+import * as DischargeSummaryDAO from '../daos/dischargeSummaryDAO';
+import * as MedicalHistoryDAO from '../daos/medicalHistoryDAO';
+import * as TreatmentGoalDAO from '../daos/treatmentGoalDAO';
+import { PdfReport, REPORT_COLORS } from '../utils/pdfReport';
+import AdherenceService from './AdherenceService';
+import NotificationTemplates, { DEFAULT_NOTIFICATION_LOCALE, NotificationLocale } from './NotificationTemplates';
+import OutcomeMeasureService from './OutcomeMeasureService';
+import TreatmentGoalService from './TreatmentGoalService';
+
+const MAX_CONCLUSION_LENGTH = 5000;
+const VISIT_NOTES_MAX_LINES = 2;
+
+const LABELS = {
+    id: {
+        title: 'Ringkasan Akhir Terapi',
+        generated: 'Dibuat',
+        patient_plan: 'Pasien & Rencana Terapi',
+        name: 'Nama',
+        code: 'Kode pasien',
+        dob: 'Tanggal lahir',
+        plan: 'Rencana terapi',
+        status: 'Status',
+        ACTIVE: 'Aktif',
+        ON_HOLD: 'Ditunda',
+        COMPLETED: 'Selesai',
+        CANCELLED: 'Dibatalkan',
+        period: 'Periode',
+        clinician: 'Klinisi',
+        service_type: 'Layanan',
+        area_concern: 'Area keluhan',
+        diagnosis: 'Diagnosis Awal',
+        goals: 'Target Pemulihan',
+        goal: 'Target',
+        target: 'Target nilai',
+        goal_summary: (achieved: number, evaluated: number, score: number | null) =>
+            `${achieved} dari ${evaluated} target yang dievaluasi tercapai${score != null ? ` (skor pencapaian ${score}%)` : ''}.`,
+        IN_PROGRESS: 'Berjalan',
+        ACHIEVED: 'Tercapai',
+        PARTIALLY_ACHIEVED: 'Tercapai sebagian',
+        NOT_ACHIEVED: 'Tidak tercapai',
+        outcome: 'Ringkasan Hasil',
+        sessions: 'Jumlah sesi',
+        signed: 'ditandatangani',
+        first_pain: 'Nyeri awal',
+        last_pain: 'Nyeri akhir',
+        pain_change: 'Perubahan nyeri',
+        adherence: 'Kepatuhan latihan',
+        measures: 'Outcome Measure',
+        measure: 'Instrumen',
+        baseline: 'Awal',
+        latest: 'Akhir',
+        change: 'Perubahan',
+        mcid: 'MCID',
+        yes: 'Tercapai',
+        no: 'Belum',
+        visits: 'Kunjungan',
+        date: 'Tanggal',
+        pain: 'Nyeri',
+        notes: 'Terapi & progres',
+        no_visits: 'Belum ada kunjungan tercatat.',
+        conclusions: 'Kesimpulan Klinisi',
+        conclusion: 'Kesimpulan',
+        goals_outcome: 'Pencapaian target',
+        recommendations: 'Rekomendasi',
+        follow_up: 'Tindak lanjut',
+        prepared_by: 'Disusun oleh',
+        clinician_signature: 'Tanda tangan & nama klinisi',
+        confidential: 'Rahasia',
+        page: 'Halaman',
+        of: 'dari',
+    },
+    en: {
+        title: 'Discharge Summary',
+        generated: 'Generated',
+        patient_plan: 'Patient & Treatment Plan',
+        name: 'Name',
+        code: 'Patient code',
+        dob: 'Date of birth',
+        plan: 'Treatment plan',
+        status: 'Status',
+        ACTIVE: 'Active',
+        ON_HOLD: 'On hold',
+        COMPLETED: 'Completed',
+        CANCELLED: 'Cancelled',
+        period: 'Period',
+        clinician: 'Clinician',
+        service_type: 'Service',
+        area_concern: 'Area of concern',
+        diagnosis: 'Initial Diagnosis',
+        goals: 'Recovery Goals',
+        goal: 'Goal',
+        target: 'Target',
+        goal_summary: (achieved: number, evaluated: number, score: number | null) =>
+            `${achieved} of ${evaluated} evaluated goals achieved${score != null ? ` (attainment score ${score}%)` : ''}.`,
+        IN_PROGRESS: 'In progress',
+        ACHIEVED: 'Achieved',
+        PARTIALLY_ACHIEVED: 'Partially achieved',
+        NOT_ACHIEVED: 'Not achieved',
+        outcome: 'Outcome Summary',
+        sessions: 'Sessions',
+        signed: 'signed',
+        first_pain: 'Initial pain',
+        last_pain: 'Final pain',
+        pain_change: 'Pain change',
+        adherence: 'Exercise adherence',
+        measures: 'Outcome Measures',
+        measure: 'Measure',
+        baseline: 'Baseline',
+        latest: 'Final',
+        change: 'Change',
+        mcid: 'MCID',
+        yes: 'Reached',
+        no: 'Not reached',
+        visits: 'Visits',
+        date: 'Date',
+        pain: 'Pain',
+        notes: 'Treatment & progress',
+        no_visits: 'No visits recorded.',
+        conclusions: 'Clinician Conclusions',
+        conclusion: 'Conclusion',
+        goals_outcome: 'Goal attainment',
+        recommendations: 'Recommendations',
+        follow_up: 'Follow-up',
+        prepared_by: 'Prepared by',
+        clinician_signature: 'Clinician signature & name',
+        confidential: 'Confidential',
+        page: 'Page',
+        of: 'of',
+    },
+};
+
+const resolveLocale = (locale?: string | null): NotificationLocale =>
+    NotificationTemplates.isLocale(locale) ? locale : DEFAULT_NOTIFICATION_LOCALE;
+
+// Body PUT: hanya field kesimpulan, string atau null
+const validateConclusions = (body: any): BadRequestError | DischargeSummaryDAO.DischargeConclusions => {
+    const conclusions: DischargeSummaryDAO.DischargeConclusions = {};
+    for (const field of DischargeSummaryDAO.CONCLUSION_FIELDS) {
+        const value = body[field];
+        if (value === undefined) continue;
+        if (value !== null && typeof value !== 'string') return new BadRequestError(`${field} must be a string or null`);
+        if (value && value.length > MAX_CONCLUSION_LENGTH) {
+            return new BadRequestError(`${field} must be at most ${MAX_CONCLUSION_LENGTH} characters`);
+        }
+        conclusions[field] = value;
+    }
+    if (!Object.keys(conclusions).length) {
+        return new BadRequestError(`Provide at least one of ${DischargeSummaryDAO.CONCLUSION_FIELDS.join(', ')}`);
+    }
+    return conclusions;
+};
+
+const endOfDay = (date: Date) => {
+    const end = new Date(date);
+    end.setHours(23, 59, 59, 999);
+    return end;
+};
+
+/**
+ * Ringkasan episode terapi satu treatment plan: target & diagnosis awal, semua kunjungan,
+ * nyeri pertama vs terakhir, adherence dan outcome measure, ditambah kesimpulan klinisi yang
+ * tersimpan. `plan` adalah hasil TreatmentPlanDAO.getById (sudah berisi treatment_logs).
+ */
+const build = async (plan: any, patient: any) => {
+    const endedAt = plan.ended_at ? endOfDay(plan.ended_at) : new Date();
+    const visits = (plan.treatment_logs || []).map((log: any) => ({
+        id: log.id,
+        visit_date: log.visit_date,
+        staff_name: log.staff_name,
+        pain_before: log.pain_before,
+        pain_after: log.pain_after,
+        treatment: log.treatment,
+        objective_progress: log.objective_progress,
+        status: log.status,
+        signed_at: log.signed_at
+    }));
+
+    // Diagnosis plan diutamakan; jika kosong pakai asesmen pertama dalam rentang plan
+    const assessments = await MedicalHistoryDAO.getByPatientId(plan.patient_id, { dateFrom: plan.started_at, dateTo: endedAt });
+    const initialAssessment = assessments.length ? assessments[assessments.length - 1] : null;
+
+    // Nyeri awal = pain_before kunjungan pertama yang tercatat, nyeri akhir = pain_after (atau pain_before) terakhir
+    const firstScored = visits.find((visit: any) => visit.pain_before != null || visit.pain_after != null);
+    const lastScored = [...visits].reverse().find((visit: any) => visit.pain_before != null || visit.pain_after != null);
+    const firstPain = firstScored ? firstScored.pain_before ?? firstScored.pain_after : null;
+    const lastPain = lastScored ? lastScored.pain_after ?? lastScored.pain_before : null;
+    const painChange = firstPain != null && lastPain != null ? lastPain - firstPain : null;
+
+    const adherence = await AdherenceService.getPlanAdherence(plan.id, endedAt);
+    const outcomeMeasures = await OutcomeMeasureService.getSeries(plan.patient_id, { treatment_plan_id: plan.id });
+    const conclusions = await DischargeSummaryDAO.getByPlan(plan.id);
+    const goals = TreatmentGoalService.buildPlanReport(await TreatmentGoalDAO.getByPlan(plan.id));
+
+    return {
+        treatment_plan: {
+            id: plan.id,
+            title: plan.title,
+            status: plan.status,
+            service_type: plan.service_type,
+            injury_type: plan.injury_type,
+            area_concern: plan.area_concern,
+            expected_recovery_time: plan.expected_recovery_time,
+            staff_name: plan.staff_name,
+            started_at: plan.started_at,
+            ended_at: plan.ended_at
+        },
+        patient: {
+            id: patient.id,
+            patient_code: patient.patient_code,
+            name: patient.name,
+            gender: patient.gender,
+            date_of_birth: patient.date_of_birth,
+            age: patient.age,
+            email: patient.email
+        },
+        recovery_goals: plan.recovery_goals,
+        goals: {
+            summary: goals.summary,
+            items: goals.goals.map((goal) => ({
+                id: goal.id,
+                description: goal.description,
+                target_metric: goal.target_metric,
+                unit: goal.unit,
+                baseline_value: goal.baseline_value,
+                target_value: goal.target_value,
+                target_date: goal.target_date,
+                latest_value: goal.attainment.latest_value,
+                percent_to_target: goal.attainment.percent_to_target,
+                status: goal.status,
+                status_note: goal.status_note
+            }))
+        },
+        initial_diagnosis: plan.diagnosis_result || initialAssessment?.diagnosis_result || null,
+        initial_assessment: initialAssessment
+            ? { id: initialAssessment.id, appointment_date: initialAssessment.appointment_date, diagnosis_result: initialAssessment.diagnosis_result }
+            : null,
+        sessions: {
+            total: visits.length,
+            signed: visits.filter((visit: any) => visit.status !== 'DRAFT').length,
+            first_visit: visits[0]?.visit_date ?? null,
+            last_visit: visits[visits.length - 1]?.visit_date ?? null
+        },
+        pain: {
+            first: firstPain,
+            last: lastPain,
+            change: painChange,
+            percent_change: painChange != null && firstPain ? Math.round((painChange / firstPain) * 100) : null
+        },
+        adherence: {
+            expected_sessions: adherence.expected_sessions,
+            completed_sessions: adherence.completed_sessions,
+            adherence_percent: adherence.adherence_percent,
+            prescriptions: adherence.prescriptions.length
+        },
+        outcome_measures: outcomeMeasures.map((series) => ({
+            measure: series.measure,
+            name: series.name,
+            score_unit: series.score_unit,
+            higher_is_better: series.higher_is_better,
+            baseline: series.baseline,
+            latest: series.latest,
+            total_administrations: series.total_administrations,
+            change_from_baseline: series.change_from_baseline,
+            mcid_reached: series.mcid_reached
+        })),
+        visits,
+        conclusions: {
+            conclusion: conclusions?.conclusion ?? null,
+            goals_outcome: conclusions?.goals_outcome ?? null,
+            recommendations: conclusions?.recommendations ?? null,
+            follow_up: conclusions?.follow_up ?? null,
+            updated_at: conclusions?.updated_at ?? null,
+            updated_by: conclusions?.updated_by ?? null,
+            emailed_at: conclusions?.emailed_at ?? null,
+            emailed_to: conclusions?.emailed_to ?? null
+        }
+    };
+};
+
+type DischargeSummary = Awaited<ReturnType<typeof build>>;
+
+const signed = (value: number | null) => (value == null ? '-' : value > 0 ? `+${value}` : String(value));
+
+const renderPdf = (summary: DischargeSummary, options?: { locale?: string | null; preparedBy?: string | null }): Buffer => {
+    const locale = resolveLocale(options?.locale);
+    const t = LABELS[locale];
+    const { patient, treatment_plan: plan } = summary;
+    const report = new PdfReport({ title: t.title, locale, generatedLabel: t.generated, documentTitle: `${t.title} - ${patient.name}` });
+    const { doc, left, contentWidth } = report;
+
+    report.sectionTitle(t.patient_plan, 100);
+    report.keyValues([
+        [t.name, patient.name || '-'],
+        [t.code, patient.patient_code || '-'],
+        [t.dob, patient.date_of_birth ? report.formatDate(patient.date_of_birth) : '-'],
+        [t.plan, plan.title],
+        [t.status, t[plan.status as treatment_plan_status] || plan.status],
+        [t.period, `${report.formatDate(plan.started_at)} - ${plan.ended_at ? report.formatDate(plan.ended_at) : '...'}`],
+        [t.clinician, plan.staff_name || '-'],
+        [t.service_type, plan.service_type || '-'],
+        [t.area_concern, plan.area_concern || '-'],
+    ], { boldFirst: true });
+    report.y += 8;
+
+    report.sectionTitle(t.diagnosis, 30);
+    report.paragraph(summary.initial_diagnosis || '-');
+    report.y += 8;
+    report.sectionTitle(t.goals, 30);
+    if (summary.recovery_goals || !summary.goals.items.length) {
+        report.paragraph(summary.recovery_goals || '-');
+        report.y += 8;
+    }
+
+    // Tabel goal terstruktur: baseline, target dan nilai terakhir per goal
+    if (summary.goals.items.length) {
+        const columns = [205, 70, 70, 70, contentWidth - 415];
+        const headers = [t.goal, t.baseline, t.target, t.latest, t.status];
+        const withUnit = (value: number | null, unit: string | null) => (value == null ? '-' : unit ? `${value} ${unit}` : String(value));
+        const goalHeader = () => {
+            doc.rect(left, report.y, contentWidth, 18, { fill: '#f3f4f6' });
+            let x = left;
+            headers.forEach((header, index) => {
+                doc.text(x + 4, report.y + 12, header, { size: 8.5, bold: true });
+                x += columns[index];
+            });
+            report.y += 18;
+        };
+        report.ensure(18 + 28);
+        goalHeader();
+        for (const goal of summary.goals.items) {
+            if (report.ensure(28)) goalHeader();
+            const cells = [
+                withUnit(goal.baseline_value, goal.unit),
+                withUnit(goal.target_value, goal.unit),
+                withUnit(goal.latest_value, goal.unit),
+                t[goal.status as treatment_goal_status],
+            ];
+            doc.text(left + 4, report.y + 11, doc.wrap(goal.description, columns[0] - 8, 8)[0], { size: 8 });
+            doc.text(left + 4, report.y + 21, doc.wrap(goal.target_metric, columns[0] - 8, 7)[0], { size: 7, color: REPORT_COLORS.muted });
+            let x = left + columns[0];
+            cells.forEach((cell, index) => {
+                doc.text(x + 4, report.y + 11, doc.wrap(cell, columns[index + 1] - 8, 8)[0], { size: 8 });
+                x += columns[index + 1];
+            });
+            report.y += 28;
+            doc.line(left, report.y, left + contentWidth, report.y, { stroke: REPORT_COLORS.border, lineWidth: 0.5 });
+        }
+        const { achieved, evaluated, attainment_score } = summary.goals.summary;
+        if (evaluated) {
+            report.y += 6;
+            report.paragraph(t.goal_summary(achieved, evaluated, attainment_score), { color: REPORT_COLORS.muted });
+        }
+        report.y += 12;
+    }
+
+    const { pain, adherence, sessions } = summary;
+    report.sectionTitle(t.outcome, 50);
+    report.keyValues([
+        [t.sessions, `${sessions.total} (${sessions.signed} ${t.signed})`],
+        [t.adherence, adherence.adherence_percent != null
+            ? `${adherence.adherence_percent}% (${adherence.completed_sessions}/${adherence.expected_sessions})`
+            : '-'],
+        [t.first_pain, pain.first != null ? `${pain.first}/10` : '-'],
+        [t.last_pain, pain.last != null ? `${pain.last}/10` : '-'],
+        [t.pain_change, pain.change != null ? `${signed(pain.change)}${pain.percent_change != null ? ` (${signed(pain.percent_change)}%)` : ''}` : '-'],
+    ], { labelWidth: 95 });
+    report.y += 8;
+
+    // Tabel outcome measure: baseline vs akhir per instrumen
+    if (summary.outcome_measures.length) {
+        const columns = [150, 95, 95, 70, contentWidth - 410];
+        const headers = [t.measure, t.baseline, t.latest, t.change, t.mcid];
+        report.sectionTitle(t.measures, 18 + summary.outcome_measures.length * 16);
+        doc.rect(left, report.y, contentWidth, 18, { fill: '#f3f4f6' });
+        let x = left;
+        headers.forEach((header, index) => {
+            doc.text(x + 4, report.y + 12, header, { size: 8.5, bold: true });
+            x += columns[index];
+        });
+        report.y += 18;
+        for (const series of summary.outcome_measures) {
+            report.ensure(16);
+            const cells = [
+                doc.wrap(series.name, columns[0] - 8, 8)[0],
+                `${series.baseline.score} (${report.formatDate(series.baseline.administered_at)})`,
+                `${series.latest.score} (${report.formatDate(series.latest.administered_at)})`,
+                signed(series.change_from_baseline),
+                series.total_administrations > 1 ? (series.mcid_reached ? t.yes : t.no) : '-',
+            ];
+            x = left;
+            cells.forEach((cell, index) => {
+                doc.text(x + 4, report.y + 11, cell, { size: 8 });
+                x += columns[index];
+            });
+            report.y += 16;
+            doc.line(left, report.y, left + contentWidth, report.y, { stroke: REPORT_COLORS.border, lineWidth: 0.5 });
+        }
+        report.y += 12;
+    }
+
+    // Tabel kunjungan
+    const columns = [70, 100, 50, contentWidth - 220];
+    const headers = [t.date, t.clinician, t.pain, t.notes];
+    const tableHeader = () => {
+        doc.rect(left, report.y, contentWidth, 18, { fill: '#f3f4f6' });
+        let x = left;
+        headers.forEach((header, index) => {
+            doc.text(x + 4, report.y + 12, header, { size: 8.5, bold: true });
+            x += columns[index];
+        });
+        report.y += 18;
+    };
+    report.sectionTitle(t.visits, 50);
+    if (!summary.visits.length) {
+        doc.text(left, report.y + 4, t.no_visits, { size: 9, color: REPORT_COLORS.muted });
+        report.y += 18;
+    } else {
+        tableHeader();
+        for (const visit of summary.visits) {
+            const notes = doc.wrap([visit.treatment, visit.objective_progress].filter(Boolean).join(' | ') || '-', columns[3] - 8, 8);
+            if (notes.length > VISIT_NOTES_MAX_LINES) {
+                notes.length = VISIT_NOTES_MAX_LINES;
+                notes[VISIT_NOTES_MAX_LINES - 1] = `${notes[VISIT_NOTES_MAX_LINES - 1].replace(/.{0,3}$/, '')}...`;
+            }
+            const rowHeight = notes.length * 10 + 8;
+            if (report.ensure(rowHeight)) tableHeader();
+
+            const cells = [
+                report.formatDate(visit.visit_date),
+                doc.wrap(visit.staff_name || '-', columns[1] - 8, 8)[0],
+                visit.pain_before == null && visit.pain_after == null ? '-' : `${visit.pain_before ?? '-'} -> ${visit.pain_after ?? '-'}`,
+            ];
+            let x = left;
+            cells.forEach((cell, index) => {
+                doc.text(x + 4, report.y + 12, cell, { size: 8 });
+                x += columns[index];
+            });
+            notes.forEach((line, index) => doc.text(x + 4, report.y + 12 + index * 10, line, { size: 8 }));
+            report.y += rowHeight;
+            doc.line(left, report.y, left + contentWidth, report.y, { stroke: REPORT_COLORS.border, lineWidth: 0.5 });
+        }
+    }
+    report.y += 12;
+
+    // Kesimpulan klinisi yang diedit lewat PUT
+    report.sectionTitle(t.conclusions, 60);
+    for (const field of DischargeSummaryDAO.CONCLUSION_FIELDS) {
+        report.ensure(30);
+        doc.text(left, report.y + 9, t[field], { size: 9, bold: true });
+        report.y += 14;
+        report.paragraph(summary.conclusions[field] || '-', { indent: 8 });
+        report.y += 6;
+    }
+
+    report.ensure(90);
+    doc.text(left, report.y + 12, t.prepared_by, { size: 9, color: REPORT_COLORS.muted });
+    doc.text(left + 95, report.y + 12, options?.preparedBy || '-', { size: 9 });
+    report.signatureLine(t.clinician_signature, options?.preparedBy);
+
+    return report.finish(
+        `${t.confidential} - ${patient.name} (${patient.patient_code})`,
+        (page, total) => `${t.page} ${page} ${t.of} ${total}`
+    );
+};
+
+// Payload template email pengantar (discharge_summary); PDF dilampirkan oleh pemanggil. Skor nyeri
+// dikirim sebagai teks agar nilai 0 tetap tampil di blok kondisional template
+const emailPayload = (summary: DischargeSummary) => ({
+    name: summary.patient.name,
+    plan_title: summary.treatment_plan.title,
+    period_start: summary.treatment_plan.started_at,
+    period_end: summary.treatment_plan.ended_at,
+    sessions_completed: summary.sessions.total,
+    pain_initial: summary.pain.first != null ? String(summary.pain.first) : null,
+    pain_final: summary.pain.last != null ? String(summary.pain.last) : null,
+    recommendations: summary.conclusions.recommendations,
+    follow_up: summary.conclusions.follow_up,
+    staff_name: summary.treatment_plan.staff_name !== '-' ? summary.treatment_plan.staff_name : null
+});
+
+export default {
+    resolveLocale,
+    validateConclusions,
+    build,
+    renderPdf,
+    emailPayload,
+};
@@ -6,20 +6,12 @@ require('moment/locale/id')
 const USER = process.env.MAILJET_USERNAME
 const PASS = process.env.MAILJET_PASSWORD
 const SERVICE = 'Mailjet'
+// Jika SMTP_HOST diisi (mis. MailHog/smtp4dev lokal), email dikirim ke SMTP tersebut, bukan Mailjet
+const SMTP_HOST = process.env.SMTP_HOST
+const SMTP_PORT = parseInt(process.env.SMTP_PORT || '1025')
+const SMTP_SECURE = process.env.SMTP_SECURE === 'true'
 // import 'moment/locale/id'
 
-const replaceEmailTemplate = (replacer: any, emailTemplate: string) => {
-    let oldTemplate = emailTemplate
-    do {
-        oldTemplate = emailTemplate
-        for (let key in replacer) {
-            emailTemplate = emailTemplate.replace(`%${key}%`, replacer[key])
-        }
-    } while (emailTemplate !== oldTemplate)
-
-    return emailTemplate
-}
-
 interface MailAttachment {
     filename?: string,
     content?: string | Buffer | Stream,
@@ -32,10 +24,33 @@ interface IAdditionalConfiguration {
     attachments?: MailAttachment[],
     replyTo?: string,
     textMode?: boolean, //If true, will pass email as text. if false, will pass email as RichText/HTML
+    textAlternative?: string, //Versi teks polos untuk email HTML (multipart/alternative)
     fromDomain?: string,
     fromName?: string
 }
 
+const createTransporter = () => {
+    if (SMTP_HOST) {
+        return nodemailer.createTransport({
+            host: SMTP_HOST,
+            port: SMTP_PORT,
+            secure: SMTP_SECURE,
+            auth: process.env.SMTP_USERNAME ? {
+                user: process.env.SMTP_USERNAME,
+                pass: process.env.SMTP_PASSWORD
+            } : undefined
+        })
+    }
+
+    return nodemailer.createTransport({
+        service: SERVICE,
+        auth: {
+            user: USER,
+            pass: PASS
+        }
+    })
+}
+
 const sendEmailAsync = async (to: string, subject: string, body: string, config?: IAdditionalConfiguration): Promise<SentMessageInfo> => {
 
     let fromDomain = config?.fromDomain ?? 'komunestudio.com'
@@ -56,6 +71,9 @@ const sendEmailAsync = async (to: string, subject: string, body: string, config?
         mailOptions.text = body
     } else {
         mailOptions.html = body
+        if (config?.textAlternative) {
+            mailOptions.text = config.textAlternative
+        }
     }
 
     if (config?.attachments) {
@@ -64,13 +82,7 @@ const sendEmailAsync = async (to: string, subject: string, body: string, config?
         }
     }
 
-    let transporter = nodemailer.createTransport({
-        service: SERVICE,
-        auth: {
-            user: USER,
-            pass: PASS
-        }
-    })
+    let transporter = createTransporter()
 
     let result: SentMessageInfo = await transporter.sendMail(mailOptions)
     {
@@ -106,6 +118,5 @@ const sendEmailAsync = async (to: string, subject: string, body: string, config?
 
 
 export default {
-    sendEmailAsync,
-    replaceEmailTemplate
+    sendEmailAsync
 }
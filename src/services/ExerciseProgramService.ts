@@ -0,0 +1,107 @@
+import * as ExercisePrescriptionDAO from '../daos/exercisePrescriptionDAO';
+import AuditService from './AuditService';
+import NotificationTemplates, { NotificationLocale } from './NotificationTemplates';
+
+const DOSAGE_LABELS: Record<NotificationLocale, { reps: string; hold: string }> = {
+    id: { reps: 'repetisi', hold: 'tahan {n} detik' },
+    en: { reps: 'reps', hold: 'hold {n} s' },
+};
+
+// "3 x 10 repetisi, tahan 5 detik, 2x sehari"
+const formatDosage = (
+    prescription: { sets: number | null; reps: number | null; hold_seconds: number | null; frequency: string | null },
+    locale: string = 'id'
+) => {
+    const labels = DOSAGE_LABELS[NotificationTemplates.isLocale(locale) ? locale : 'id'];
+    const parts: string[] = [];
+
+    if (prescription.sets && prescription.reps) parts.push(`${prescription.sets} x ${prescription.reps} ${labels.reps}`);
+    else if (prescription.reps) parts.push(`${prescription.reps} ${labels.reps}`);
+    else if (prescription.sets) parts.push(`${prescription.sets} set`);
+    if (prescription.hold_seconds) parts.push(labels.hold.replace('{n}', String(prescription.hold_seconds)));
+    if (prescription.frequency) parts.push(prescription.frequency);
+
+    return parts.join(', ');
+};
+
+/**
+ * Program latihan pasien yang berlaku pada tanggal tertentu, dikelompokkan per treatment plan.
+ * Homework & recovery tips diambil dari log bertanda tangan terakhir; teks bebas itu tetap
+ * dipakai untuk catatan di luar resep latihan.
+ */
+const getCurrentProgram = async (
+    patient_id: number,
+    options?: { date?: Date; treatment_plan_id?: number; locale?: string }
+) => {
+    const date = ExercisePrescriptionDAO.toDateOnly(options?.date);
+    const prescriptions = await ExercisePrescriptionDAO.getCurrentForPatient(patient_id, date, options?.treatment_plan_id);
+    await AuditService.recordList('exercise_prescription', prescriptions.map((p) => ({ id: p.id, patient_id })));
+
+    const plans = new Map<number, any>();
+    for (const prescription of prescriptions) {
+        const plan = prescription.treatment_plan;
+        if (!plans.has(plan.id)) {
+            const latestLog = plan.treatment_log[0];
+            plans.set(plan.id, {
+                treatment_plan_id: plan.id,
+                title: plan.title,
+                staff_name: plan.staff?.name ?? null,
+                homework: latestLog?.homework ?? null,
+                recovery_tips: latestLog?.recovery_tips ?? null,
+                exercises: []
+            });
+        }
+
+        plans.get(plan.id).exercises.push({
+            prescription_id: prescription.id,
+            exercise_id: prescription.exercise_id,
+            name: prescription.exercise.name,
+            description: prescription.exercise.description,
+            body_region: prescription.exercise.body_region,
+            media_url: prescription.exercise.media_url,
+            sets: prescription.sets,
+            reps: prescription.reps,
+            hold_seconds: prescription.hold_seconds,
+            frequency: prescription.frequency,
+            sessions_per_week: prescription.sessions_per_week,
+            dosage: formatDosage(prescription, options?.locale),
+            instructions: prescription.instructions,
+            start_date: prescription.start_date,
+            end_date: prescription.end_date
+        });
+    }
+
+    return {
+        patient_id,
+        date,
+        plans: Array.from(plans.values())
+    };
+};
+
+// Render program dengan template notifikasi home_exercise_program (HTML & teks) untuk dicetak / dikirim
+const renderProgram = (
+    program: Awaited<ReturnType<typeof getCurrentProgram>>,
+    patient: { name: string },
+    locale?: string | null
+) => {
+    const join = (values: Array<string | null>) => values.filter((value) => !!value).join('\n') || null;
+
+    return NotificationTemplates.render('home_exercise_program', locale, {
+        name: patient.name,
+        plan_title: program.plans.map((plan) => plan.title).join(', '),
+        staff_name: program.plans.length === 1 ? program.plans[0].staff_name : null,
+        exercises: program.plans.flatMap((plan) => plan.exercises.map((exercise: any) => ({
+            name: exercise.name,
+            dosage: exercise.dosage,
+            instructions: exercise.instructions || exercise.description
+        }))),
+        homework: join(program.plans.map((plan) => plan.homework)),
+        recovery_tips: join(program.plans.map((plan) => plan.recovery_tips))
+    });
+};
+
+export default {
+    formatDosage,
+    getCurrentProgram,
+    renderProgram,
+};
@@ -0,0 +1,82 @@
+import { login_throttle_scope } from '@prisma/client';
+import * as LoginThrottleDAO from '../daos/loginThrottleDAO';
+import { TooManyRequestsError } from '../errors/RequestErrorCollection';
+
+// Gagal login di bawah FREE_ATTEMPTS tidak diberi jeda. Setelah itu jeda naik 2^n detik
+// sampai MAX_ATTEMPTS tercapai, lalu akun/IP dikunci selama LOCKOUT_MINUTES.
+const POLICY: Record<login_throttle_scope, { freeAttempts: number; maxAttempts: number }> = {
+    USERNAME: {
+        freeAttempts: parseInt(process.env.LOGIN_FREE_ATTEMPTS || '3'),
+        maxAttempts: parseInt(process.env.LOGIN_MAX_ATTEMPTS_PER_USERNAME || '10'),
+    },
+    IP: {
+        freeAttempts: parseInt(process.env.LOGIN_FREE_ATTEMPTS_PER_IP || '10'),
+        maxAttempts: parseInt(process.env.LOGIN_MAX_ATTEMPTS_PER_IP || '50'),
+    },
+};
+const LOCKOUT_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15');
+// Hitungan gagal di-reset jika tidak ada percobaan gagal selama jendela ini
+const FAILURE_WINDOW_MINUTES = parseInt(process.env.LOGIN_FAILURE_WINDOW_MINUTES || '60');
+
+const normalizeUsername = (username: string) => (username || '').trim().toLowerCase().slice(0, 150);
+
+const computeLockedUntil = (scope: login_throttle_scope, failedCount: number): Date | null => {
+    const { freeAttempts, maxAttempts } = POLICY[scope];
+    if (failedCount < freeAttempts) return null;
+
+    const lockoutSeconds = LOCKOUT_MINUTES * 60;
+    const delaySeconds = failedCount >= maxAttempts
+        ? lockoutSeconds
+        : Math.min(Math.pow(2, failedCount - freeAttempts), lockoutSeconds);
+
+    return new Date(Date.now() + delaySeconds * 1000);
+};
+
+const registerFailureFor = async (scope: login_throttle_scope, identifier: string) => {
+    const windowStart = new Date(Date.now() - FAILURE_WINDOW_MINUTES * 60 * 1000);
+    const record = await LoginThrottleDAO.incrementFailure(scope, identifier, windowStart);
+    const lockedUntil = computeLockedUntil(scope, record.failed_count);
+    if (lockedUntil) await LoginThrottleDAO.extendLock(record.id, lockedUntil);
+    return { ...record, locked_until: lockedUntil ?? record.locked_until };
+};
+
+const assertNotLocked = async (username: string, ip: string | null) => {
+    const checks: Array<[login_throttle_scope, string | null]> = [
+        ['USERNAME', normalizeUsername(username)],
+        ['IP', ip],
+    ];
+
+    for (const [scope, identifier] of checks) {
+        if (!identifier) continue;
+        const record = await LoginThrottleDAO.getByIdentifier(scope, identifier);
+        if (record?.locked_until && record.locked_until > new Date()) {
+            const retryAfter = Math.ceil((record.locked_until.getTime() - Date.now()) / 1000);
+            throw new TooManyRequestsError(
+                'Too many failed login attempts. Please try again later.',
+                'LOGIN_TEMPORARILY_LOCKED',
+                retryAfter
+            );
+        }
+    }
+};
+
+const registerFailure = async (username: string, ip: string | null) => {
+    const normalized = normalizeUsername(username);
+    if (normalized) await registerFailureFor('USERNAME', normalized);
+    if (ip) await registerFailureFor('IP', ip);
+};
+
+const registerSuccess = async (username: string) => {
+    await LoginThrottleDAO.clearByIdentifier('USERNAME', normalizeUsername(username));
+};
+
+const clearUsername = async (username: string) => {
+    return await LoginThrottleDAO.clearByIdentifier('USERNAME', normalizeUsername(username));
+};
+
+export default {
+    assertNotLocked,
+    registerFailure,
+    registerSuccess,
+    clearUsername,
+};
@@ -0,0 +1,150 @@
+import { Prisma, notification_channel } from '@prisma/client';
+import * as NotificationOutboxDAO from '../daos/notificationOutboxDAO';
+import NotificationTemplates, { RenderedNotification } from './NotificationTemplates';
+import { getAdapter, getAdapterByName, NotificationAttachment } from '../utils/notificationAdapters';
+import LogServices from './LogServices';
+import prisma from './prisma';
+
+export interface NotificationInput {
+    channel: notification_channel;
+    template: string;
+    recipient: string;
+    recipient_name?: string | null;
+    locale?: string | null;
+    payload?: any;
+    patient_id?: number | null;
+    max_attempts?: number;
+    created_by?: number | null;
+    attachments?: NotificationAttachment[];
+}
+
+const NOTIFICATION_MAX_ATTEMPTS = parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS || '5');
+// Backoff eksponensial: base, 2x base, 4x base, ... dibatasi NOTIFICATION_RETRY_MAX_SECONDS
+const NOTIFICATION_RETRY_BASE_SECONDS = parseInt(process.env.NOTIFICATION_RETRY_BASE_SECONDS || '60');
+const NOTIFICATION_RETRY_MAX_SECONDS = parseInt(process.env.NOTIFICATION_RETRY_MAX_SECONDS || '3600');
+const NOTIFICATION_PROCESSING_TIMEOUT_MINUTES = parseInt(process.env.NOTIFICATION_PROCESSING_TIMEOUT_MINUTES || '10');
+const NOTIFICATION_DISPATCH_BATCH_SIZE = parseInt(process.env.NOTIFICATION_DISPATCH_BATCH_SIZE || '50');
+
+const getRetryDelaySeconds = (attempts: number) =>
+    Math.min(NOTIFICATION_RETRY_BASE_SECONDS * Math.pow(2, Math.max(attempts - 1, 0)), NOTIFICATION_RETRY_MAX_SECONDS);
+
+/**
+ * Render template lalu simpan ke outbox sebagai PENDING. Pengiriman dilakukan oleh
+ * dispatcher (job) atau langsung lewat send(). `tx` dipakai jika enqueue harus atomik
+ * dengan penulisan lain (mis. ledger pengingat). Lampiran ikut tersimpan di outbox.
+ */
+const enqueue = async (input: NotificationInput, tx?: Prisma.TransactionClient) => {
+    if (input.attachments?.length && input.channel !== 'EMAIL') {
+        throw new Error(`Attachments are not supported on the ${input.channel} channel`);
+    }
+    const { locale, content } = NotificationTemplates.render(input.template, input.locale, input.payload ?? {});
+
+    return await NotificationOutboxDAO.create({
+        channel: input.channel,
+        template: input.template,
+        locale,
+        recipient: input.recipient,
+        recipient_name: input.recipient_name ?? null,
+        payload: input.payload ?? Prisma.DbNull,
+        content: content as Prisma.InputJsonValue,
+        patient_id: input.patient_id ?? null,
+        max_attempts: input.max_attempts ?? NOTIFICATION_MAX_ATTEMPTS,
+        created_by: input.created_by ?? null
+    }, tx ?? prisma, input.attachments);
+};
+
+// Kirim satu notifikasi dari outbox. Gagal -> dijadwalkan ulang dengan backoff, atau DEAD jika jatah habis.
+const dispatch = async (id: number) => {
+    const notification = await NotificationOutboxDAO.claim(id);
+    if (!notification) return null;
+
+    let adapterName: string | null = null;
+    try {
+        const adapter = getAdapter(notification.channel);
+        adapterName = adapter.name;
+
+        const content = notification.content as unknown as RenderedNotification | null;
+        if (!content) throw new Error('Notification content is no longer available');
+
+        const attachments = await NotificationOutboxDAO.getAttachments(id);
+        const result = await adapter.send(notification.recipient, notification.recipient_name, content, notification.locale, attachments);
+        return await NotificationOutboxDAO.markSent(
+            id,
+            adapter.name,
+            result.message_id,
+            NotificationTemplates.isSensitive(notification.template)
+        );
+    } catch (error: any) {
+        const message = error?.message || String(error);
+        LogServices.logToFile(`NOTIFICATION_DISPATCH_FAILED id=${id} attempt=${notification.attempts}`, error);
+
+        if (notification.attempts >= notification.max_attempts) {
+            return await NotificationOutboxDAO.markDead(id, adapterName, message);
+        }
+        const nextAttemptAt = new Date(Date.now() + getRetryDelaySeconds(notification.attempts) * 1000);
+        return await NotificationOutboxDAO.markRetry(id, adapterName, message, nextAttemptAt);
+    }
+};
+
+// Simpan ke outbox lalu langsung coba kirim; jika gagal, retry diteruskan oleh dispatcher
+const send = async (input: NotificationInput) => {
+    const notification = await enqueue(input);
+    return (await dispatch(notification.id)) ?? notification;
+};
+
+let isDispatching = false;
+
+// Dipanggil job setiap menit
+const dispatchDue = async (limit: number = NOTIFICATION_DISPATCH_BATCH_SIZE) => {
+    if (isDispatching) return { skipped: true, dead_lettered: 0, processed: 0 };
+    isDispatching = true;
+
+    try {
+        const staleCutoff = new Date(Date.now() - NOTIFICATION_PROCESSING_TIMEOUT_MINUTES * 60 * 1000);
+        const deadLettered = await NotificationOutboxDAO.deadLetterStale(staleCutoff);
+
+        const ids = await NotificationOutboxDAO.getDueIds(new Date(), limit);
+        const summary: Record<string, number> = {};
+        for (const id of ids) {
+            const result = await dispatch(id);
+            if (result) summary[result.status] = (summary[result.status] || 0) + 1;
+        }
+
+        return { skipped: false, dead_lettered: deadLettered, processed: ids.length, ...summary };
+    } finally {
+        isDispatching = false;
+    }
+};
+
+const resend = async (id: number) => {
+    if (!(await NotificationOutboxDAO.requeue(id))) return null;
+    return await dispatch(id);
+};
+
+/**
+ * Terapkan webhook status dari provider. Mengembalikan null jika adapter tidak dikenal
+ * atau tidak mendukung callback.
+ */
+const handleCallback = async (adapterName: string, body: any) => {
+    const adapter = getAdapterByName(adapterName);
+    if (!adapter?.parseCallback) return null;
+
+    const updates = adapter.parseCallback(body);
+    let matched = 0;
+    for (const update of updates) {
+        matched += await NotificationOutboxDAO.applyCallback(adapter.name, update.provider_message_id, update.status, update.error);
+    }
+
+    return { received: updates.length, matched };
+};
+
+export default {
+    NOTIFICATION_MAX_ATTEMPTS,
+    getRetryDelaySeconds,
+    enqueue,
+    dispatch,
+    send,
+    dispatchDue,
+    resend,
+    handleCallback,
+};
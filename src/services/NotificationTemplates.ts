@@ -0,0 +1,150 @@
+import fs from 'fs';
+import path from 'path';
+import { htmlToText, render as renderTemplate } from '../utils/templateEngine';
+
+export type NotificationLocale = 'id' | 'en';
+
+export const NOTIFICATION_LOCALES: NotificationLocale[] = ['id', 'en'];
+export const DEFAULT_NOTIFICATION_LOCALE: NotificationLocale = 'id';
+
+// Type alias (bukan interface) agar bisa langsung disimpan sebagai kolom Json Prisma
+export type WhatsappTemplateContent = {
+    template_id: string | null;
+    params: Array<{ key: string; value: string; value_text: string }>;
+    text: string | null;
+};
+
+// Hasil render yang disimpan di outbox; adapter memilih bagian yang relevan untuk channel-nya
+export type RenderedNotification = {
+    subject: string | null;
+    html: string | null;
+    text: string;
+    whatsapp: WhatsappTemplateContent | null;
+};
+
+type Localized = Partial<Record<NotificationLocale, string>>;
+
+// Isi template.json
+interface TemplateDefinition {
+    description?: string;
+    // Konten sensitif (OTP, link reset) dihapus dari outbox setelah terkirim
+    sensitive?: boolean;
+    subject: Localized;
+    title?: Localized;
+    whatsapp?: {
+        template_id_env?: string;
+        params?: Record<string, string>;
+        text?: Localized;
+    };
+    sample?: Record<string, any>;
+}
+
+/**
+ * Template disimpan sebagai file, bukan kode:
+ *   templates/notifications/_layout.html          layout HTML bersama
+ *   templates/notifications/_common.json          teks umum per locale (nama klinik, footer)
+ *   templates/notifications/<nama>/template.json  subject, title, whatsapp, sample data
+ *   templates/notifications/<nama>/<locale>.html  isi email; <locale>.txt opsional untuk versi teks
+ * Template baru cukup ditambahkan sebagai folder baru.
+ */
+const TEMPLATE_DIR = process.env.NOTIFICATION_TEMPLATE_DIR || path.join(__dirname, '../../templates/notifications');
+const TEMPLATE_NAME_PATTERN = /^[a-z0-9_]+$/;
+
+const readTemplateFile = (...segments: string[]) => {
+    const file = path.join(TEMPLATE_DIR, ...segments);
+    return fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : null;
+};
+
+const isLocale = (value: any): value is NotificationLocale => NOTIFICATION_LOCALES.includes(value);
+
+const isTemplate = (value: any): value is string =>
+    typeof value === 'string' && TEMPLATE_NAME_PATTERN.test(value) && fs.existsSync(path.join(TEMPLATE_DIR, value, 'template.json'));
+
+const getDefinition = (template: string): TemplateDefinition | null => {
+    if (!isTemplate(template)) return null;
+    return JSON.parse(readTemplateFile(template, 'template.json')!);
+};
+
+const getLocales = (template: string) =>
+    NOTIFICATION_LOCALES.filter((locale) => fs.existsSync(path.join(TEMPLATE_DIR, template, `${locale}.html`)));
+
+const getCommon = (locale: NotificationLocale) => {
+    const raw = readTemplateFile('_common.json');
+    return raw ? JSON.parse(raw)[locale] ?? {} : {};
+};
+
+const isSensitive = (template: string) => getDefinition(template)?.sensitive === true;
+
+const listTemplates = () =>
+    fs.readdirSync(TEMPLATE_DIR, { withFileTypes: true })
+        .filter((entry) => entry.isDirectory() && isTemplate(entry.name))
+        .map((entry) => {
+            const definition = getDefinition(entry.name)!;
+            return {
+                name: entry.name,
+                description: definition.description ?? null,
+                sensitive: definition.sensitive === true,
+                locales: getLocales(entry.name),
+                whatsapp: !!definition.whatsapp,
+                sample: definition.sample ?? {},
+            };
+        });
+
+/**
+ * Render template untuk locale yang diminta. Jika varian locale tidak ada, jatuh ke
+ * DEFAULT_NOTIFICATION_LOCALE. Variabel di HTML di-escape; subject, teks dan parameter
+ * WhatsApp tidak. Mengembalikan locale yang benar-benar dipakai.
+ */
+const render = (template: string, locale: string | null | undefined, payload: any) => {
+    const definition = getDefinition(template);
+    if (!definition) throw new Error(`Unknown notification template: ${template}`);
+
+    const requested = isLocale(locale) ? locale : DEFAULT_NOTIFICATION_LOCALE;
+    const resolved = getLocales(template).includes(requested) ? requested : DEFAULT_NOTIFICATION_LOCALE;
+    const body = readTemplateFile(template, `${resolved}.html`);
+    if (!body) throw new Error(`Notification template ${template} has no ${resolved} variant`);
+
+    const data = { ...payload, locale: resolved, year: new Date().getFullYear(), common: getCommon(resolved) };
+    const renderText = (source?: string | null) => (source ? renderTemplate(source, data, { escape: false, locale: resolved }) : '');
+
+    const title = renderText(definition.title?.[resolved]);
+    const content = renderTemplate(body, data, { escape: true, locale: resolved });
+    const layout = readTemplateFile('_layout.html');
+    const plain = readTemplateFile(template, `${resolved}.txt`);
+
+    const rendered: RenderedNotification = {
+        subject: renderText(definition.subject[resolved] ?? definition.subject[DEFAULT_NOTIFICATION_LOCALE]) || null,
+        html: layout ? renderTemplate(layout, { ...data, title, content }, { escape: true, locale: resolved }) : content,
+        text: plain ? renderText(plain) : htmlToText(content),
+        whatsapp: definition.whatsapp
+            ? {
+                template_id: definition.whatsapp.template_id_env ? process.env[definition.whatsapp.template_id_env] || null : null,
+                params: Object.entries(definition.whatsapp.params ?? {}).map(([value, source], index) => ({
+                    key: String(index + 1),
+                    value,
+                    value_text: renderText(source),
+                })),
+                text: renderText(definition.whatsapp.text?.[resolved]) || null,
+            }
+            : null,
+    };
+
+    return { locale: resolved, content: rendered };
+};
+
+// Render dengan sample data dari template.json, ditimpa data yang dikirim admin
+const preview = (template: string, locale: string | null | undefined, data?: Record<string, any>) => {
+    const definition = getDefinition(template);
+    if (!definition) return null;
+    return render(template, locale, { ...(definition.sample ?? {}), ...(data ?? {}) });
+};
+
+export default {
+    isLocale,
+    isTemplate,
+    isSensitive,
+    getCommon,
+    listTemplates,
+    render,
+    preview,
+};
@@ -0,0 +1,153 @@
+import { outcome_measure_code } from '@prisma/client';
+import * as OutcomeMeasureDAO from '../daos/outcomeMeasureDAO';
+import { BadRequestError } from '../errors/RequestErrorCollection';
+import { OUTCOME_MEASURES, OUTCOME_MEASURE_CODES, OutcomeMeasureDefinition } from '../utils/outcomeMeasures';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Ringkasan definisi untuk client (form kuesioner & legenda grafik)
+const describe = (definition: OutcomeMeasureDefinition) => ({
+    ...definition,
+    mcid_direction: definition.higher_is_better ? 'increase' : 'decrease',
+});
+
+const listDefinitions = () => OUTCOME_MEASURE_CODES.map((code) => describe(OUTCOME_MEASURES[code]));
+
+const getDefinition = (code: outcome_measure_code) => describe(OUTCOME_MEASURES[code]);
+
+const interpret = (definition: OutcomeMeasureDefinition, score: number) =>
+    definition.interpretation.find((band) => score <= band.max)?.label ?? null;
+
+/**
+ * Validasi jawaban kuesioner: objek {item_id: nilai}. Item tak dikenal ditolak, nilai harus
+ * bilangan bulat dalam rentang item, dan item kosong tidak boleh melebihi max_missing_items.
+ */
+const validateResponses = (code: outcome_measure_code, responses: any): BadRequestError | null => {
+    const definition = OUTCOME_MEASURES[code];
+    if (!responses || typeof responses !== 'object' || Array.isArray(responses)) {
+        return new BadRequestError('responses must be an object keyed by item id');
+    }
+
+    const itemIds = definition.items.map((item) => item.id);
+    const unknown = Object.keys(responses).filter((key) => !itemIds.includes(key));
+    if (unknown.length) return new BadRequestError(`Unknown ${code} item(s): ${unknown.join(', ')}`);
+
+    let missing = 0;
+    for (const id of itemIds) {
+        const value = responses[id];
+        if (value === undefined || value === null || value === '') {
+            missing++;
+            continue;
+        }
+        if (!Number.isInteger(Number(value)) || Number(value) < definition.item_min || Number(value) > definition.item_max) {
+            return new BadRequestError(`${code} item ${id} must be a whole number between ${definition.item_min} and ${definition.item_max}`);
+        }
+    }
+
+    if (missing > definition.max_missing_items) {
+        return new BadRequestError(
+            `${code} allows at most ${definition.max_missing_items} unanswered item(s), ${missing} missing`,
+            'INCOMPLETE_OUTCOME_MEASURE'
+        );
+    }
+    return null;
+};
+
+// Hitung skor dari jawaban yang sudah lolos validateResponses
+const score = (code: outcome_measure_code, responses: Record<string, any>) => {
+    const definition = OUTCOME_MEASURES[code];
+    const normalized: Record<string, number | null> = {};
+    const answered: number[] = [];
+
+    for (const item of definition.items) {
+        const value = responses[item.id];
+        const present = value !== undefined && value !== null && value !== '';
+        normalized[item.id] = present ? Number(value) : null;
+        if (present) answered.push(Number(value));
+    }
+
+    const raw = answered.reduce((sum, value) => sum + value, 0);
+    let result: number;
+    switch (definition.scoring) {
+        case 'percent_of_max':
+            result = (raw / (definition.item_max * answered.length)) * 100;
+            break;
+        case 'dash':
+            result = (raw / answered.length - 1) * 25;
+            break;
+        default:
+            result = raw;
+    }
+
+    const rounded = round(result);
+    return {
+        responses: normalized,
+        answered_items: answered.length,
+        raw_score: raw,
+        score: rounded,
+        interpretation: interpret(definition, rounded)
+    };
+};
+
+/**
+ * Deret waktu per measure: perubahan terhadap baseline (hasil pertama dalam cakupan yang sama)
+ * dan penanda MCID. `improvement` selalu positif bila membaik, apa pun arah skalanya.
+ */
+const buildSeries = (code: outcome_measure_code, results: any[]) => {
+    const definition = OUTCOME_MEASURES[code];
+    const baseline = results[0];
+
+    const points = results.map((result) => {
+        const change = round(result.score - baseline.score);
+        const improvement = definition.higher_is_better ? change : -change;
+        return {
+            id: result.id,
+            treatment_plan_id: result.treatment_plan_id,
+            administered_at: result.administered_at,
+            score: result.score,
+            interpretation: result.interpretation,
+            change_from_baseline: change,
+            percent_change: baseline.score !== 0 ? round((change / baseline.score) * 100) : null,
+            improvement,
+            clinically_important_improvement: improvement >= definition.mcid,
+            clinically_important_deterioration: improvement <= -definition.mcid
+        };
+    });
+    const latest = points[points.length - 1];
+
+    return {
+        measure: code,
+        name: definition.name,
+        score_unit: definition.score_unit,
+        higher_is_better: definition.higher_is_better,
+        mcid: definition.mcid,
+        baseline: { id: baseline.id, administered_at: baseline.administered_at, score: baseline.score, interpretation: baseline.interpretation },
+        latest: { id: latest.id, administered_at: latest.administered_at, score: latest.score, interpretation: latest.interpretation },
+        total_administrations: points.length,
+        change_from_baseline: latest.change_from_baseline,
+        mcid_reached: latest.clinically_important_improvement,
+        points
+    };
+};
+
+const getSeries = async (patient_id: number, options?: { measure?: outcome_measure_code; treatment_plan_id?: number }) => {
+    const results = await OutcomeMeasureDAO.getSeries(patient_id, options?.measure, options?.treatment_plan_id);
+
+    const byMeasure = new Map<outcome_measure_code, any[]>();
+    for (const result of results) {
+        if (!byMeasure.has(result.measure)) byMeasure.set(result.measure, []);
+        byMeasure.get(result.measure)!.push(result);
+    }
+
+    return OUTCOME_MEASURE_CODES
+        .filter((code) => byMeasure.has(code))
+        .map((code) => buildSeries(code, byMeasure.get(code)!));
+};
+
+export default {
+    listDefinitions,
+    getDefinition,
+    validateResponses,
+    score,
+    getSeries,
+};
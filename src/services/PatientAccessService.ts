@@ -0,0 +1,57 @@
+import { Request } from 'express';
+import * as PatientAssignmentDAO from '../daos/patientAssignmentDAO';
+import PermissionService from './PermissionService';
+import LogServices from './LogServices';
+import { getClientIp, getUserAgent } from '../utils/requestInfo';
+import hidash from '../utils/hidash';
+
+const EMERGENCY_ACCESS_MINUTES = parseInt(process.env.EMERGENCY_ACCESS_MINUTES || '60');
+
+const getUserId = (req: Request): number => parseInt(req.decoded?.user?.id ?? req.decoded?.id);
+
+// User dengan permission patient:read_all (default ADMIN) tidak dibatasi care team
+const hasUnrestrictedAccess = async (req: Request) => {
+    return await PermissionService.hasPermissions(req.decoded?.user?.role, ['patient:read_all']);
+};
+
+/**
+ * Scope untuk query list di DAO klinis. undefined berarti tanpa batasan.
+ */
+const getScope = async (req: Request): Promise<PatientAssignmentDAO.PatientScope | undefined> => {
+    if (await hasUnrestrictedAccess(req)) return undefined;
+    return { user_id: getUserId(req) };
+};
+
+const canAccessPatient = async (req: Request, patientId: number) => {
+    if (await hasUnrestrictedAccess(req)) return true;
+
+    const userId = getUserId(req);
+    if (await PatientAssignmentDAO.hasAssignment(patientId, userId)) return true;
+    return await PatientAssignmentDAO.hasActiveEmergencyAccess(patientId, userId);
+};
+
+// Break-the-glass: akses sementara ke pasien yang tidak di-assign, selalu tercatat
+const openEmergencyAccess = async (req: Request, patientId: number, reason: string) => {
+    const userId = getUserId(req);
+    const access = await PatientAssignmentDAO.createEmergencyAccess({
+        patient_id: patientId,
+        user_id: userId,
+        reason,
+        ip_address: getClientIp(req),
+        user_agent: getUserAgent(req),
+        expires_at: hidash.nowPlusMinute(EMERGENCY_ACCESS_MINUTES)
+    });
+
+    LogServices.logToFile(
+        `EMERGENCY_ACCESS user_id=${userId} patient_id=${patientId} access_id=${access?.id} ` +
+        `expires_at=${access?.expires_at?.toISOString()} reason=${JSON.stringify(reason)}`
+    );
+    return access;
+};
+
+export default {
+    EMERGENCY_ACCESS_MINUTES,
+    getScope,
+    canAccessPatient,
+    openEmergencyAccess,
+};
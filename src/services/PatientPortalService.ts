@@ -0,0 +1,261 @@
+import { Request } from 'express';
+import jwt from 'jsonwebtoken';
+import nodeCrypto from 'crypto';
+import { patient as Patient } from '@prisma/client';
+import * as PatientLoginChallengeDAO from '../daos/patientLoginChallengeDAO';
+import * as PatientSessionDAO from '../daos/patientSessionDAO';
+import * as PortalDAO from '../daos/portalDAO';
+import NotificationService from './NotificationService';
+import LoginThrottleService from './LoginThrottleService';
+import LogServices from './LogServices';
+import cryptoUtils from '../utils/crypto';
+import hidash from '../utils/hidash';
+import { getClientIp, getUserAgent } from '../utils/requestInfo';
+import { BadRequestError, UnauthorizedError } from '../errors/RequestErrorCollection';
+
+export const PORTAL_TOKEN_AUDIENCE = 'patient-portal';
+
+const PORTAL_ACCESS_TOKEN_EXPIRES_IN = (process.env.PORTAL_ACCESS_TOKEN_EXPIRES_IN || '15m') as jwt.SignOptions['expiresIn'];
+const PORTAL_REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.PORTAL_REFRESH_TOKEN_TTL_DAYS || '30');
+const PORTAL_OTP_EXPIRY_MINUTES = parseInt(process.env.PORTAL_OTP_EXPIRY_MINUTES || '10');
+const PORTAL_OTP_MAX_ATTEMPTS = parseInt(process.env.PORTAL_OTP_MAX_ATTEMPTS || '5');
+const PORTAL_MAGIC_LINK_EXPIRY_MINUTES = parseInt(process.env.PORTAL_MAGIC_LINK_EXPIRY_MINUTES || '15');
+// Batas permintaan kode/link per pasien dalam 15 menit, mencegah email dibanjiri
+const PORTAL_LOGIN_MAX_REQUESTS = parseInt(process.env.PORTAL_LOGIN_MAX_REQUESTS || '5');
+const PORTAL_LOGIN_REQUEST_WINDOW_MINUTES = 15;
+
+export const PatientSessionRevokeReason = {
+    LOGOUT: 'LOGOUT',
+    PORTAL_DISABLED: 'PORTAL_DISABLED',
+    TOKEN_REUSE: 'TOKEN_REUSE',
+};
+
+export type PortalLoginMethod = 'otp' | 'magic_link';
+
+/**
+ * Token portal ditandatangani dengan secret terpisah dan audience sendiri, jadi tidak bisa
+ * lolos verifikasi middleware staf (dan token staf tidak lolos middleware portal).
+ * Jika PORTAL_TOKEN_SECRET kosong, secret diturunkan dari TOKEN_SECRET.
+ */
+const getTokenSecret = () => {
+    if (process.env.PORTAL_TOKEN_SECRET) return process.env.PORTAL_TOKEN_SECRET;
+    if (!process.env.TOKEN_SECRET) throw new Error('NO_SECRET_DEFINED');
+    return nodeCrypto.createHmac('sha256', process.env.TOKEN_SECRET).update(PORTAL_TOKEN_AUDIENCE).digest('hex');
+};
+
+// Identifier throttle dipisah dari username staf
+const throttleKey = (email: string) => `portal:${email.trim().toLowerCase()}`;
+
+const refreshTokenExpiry = () => {
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + PORTAL_REFRESH_TOKEN_TTL_DAYS);
+    return expiresAt;
+};
+
+const generateSecret = () => nodeCrypto.randomBytes(48).toString('hex');
+
+const signAccessToken = (patient: Patient, sessionId: number) => {
+    return jwt.sign(
+        { portal: true, patient_id: patient.id, psid: sessionId },
+        getTokenSecret(),
+        { expiresIn: PORTAL_ACCESS_TOKEN_EXPIRES_IN, audience: PORTAL_TOKEN_AUDIENCE }
+    );
+};
+
+// Mengembalikan payload token atau null; tidak pernah menerima token staf
+const verifyAccessToken = (token: string): { patient_id: number; psid: number } | null => {
+    try {
+        const decoded = jwt.verify(token, getTokenSecret(), { audience: PORTAL_TOKEN_AUDIENCE }) as any;
+        if (decoded?.portal !== true || !decoded.patient_id || !decoded.psid) return null;
+        return { patient_id: decoded.patient_id, psid: decoded.psid };
+    } catch (error) {
+        return null;
+    }
+};
+
+// Token berbentuk "<id>.<secret>" (refresh token & magic link), yang disimpan hanya hash dari secret
+const parseToken = (token: string) => {
+    const [idPart, secret] = String(token || '').split('.');
+    const id = parseInt(idPart);
+    if (isNaN(id) || !secret) return null;
+    return { id, secret };
+};
+
+const createSession = async (patient: Patient, req: Request) => {
+    const secret = generateSecret();
+    const session = await PatientSessionDAO.create({
+        patient_id: patient.id,
+        refresh_token_hash: cryptoUtils.hashSHA512(secret),
+        user_agent: getUserAgent(req),
+        ip_address: getClientIp(req),
+        expires_at: refreshTokenExpiry(),
+        last_used_at: new Date(),
+    });
+
+    return {
+        patient: PortalDAO.formatProfile(patient),
+        token: signAccessToken(patient, session.id),
+        refresh_token: `${session.id}.${secret}`,
+        expires_in: PORTAL_ACCESS_TOKEN_EXPIRES_IN,
+    };
+};
+
+/**
+ * Kirim kode OTP atau magic link ke email pasien. Email yang tidak terdaftar, portal yang
+ * belum diaktifkan, atau permintaan yang melebihi batas tidak menghasilkan error supaya
+ * endpoint tidak bisa dipakai untuk menebak email pasien.
+ */
+const requestLogin = async (email: string, method: PortalLoginMethod, req: Request) => {
+    const patient = await PortalDAO.getPortalPatientByEmail(email);
+    if (!patient || !patient.email) return;
+
+    const since = new Date(Date.now() - PORTAL_LOGIN_REQUEST_WINDOW_MINUTES * 60 * 1000);
+    if ((await PatientLoginChallengeDAO.countSince(patient.id, since)) >= PORTAL_LOGIN_MAX_REQUESTS) return;
+
+    const isOtp = method === 'otp';
+    const secret = isOtp ? cryptoUtils.generateNumericCode(6) : cryptoUtils.generateSecureToken();
+    const expiryMinutes = isOtp ? PORTAL_OTP_EXPIRY_MINUTES : PORTAL_MAGIC_LINK_EXPIRY_MINUTES;
+
+    const challenge = await PatientLoginChallengeDAO.create({
+        patient_id: patient.id,
+        method: isOtp ? 'OTP' : 'MAGIC_LINK',
+        secret_hash: cryptoUtils.hashSHA512(secret),
+        expires_at: hidash.nowPlusMinute(expiryMinutes),
+        ip_address: getClientIp(req),
+    });
+
+    const magicLinkUrl = process.env.PORTAL_MAGIC_LINK_URL || 'http://localhost:3000/portal/login';
+    try {
+        await NotificationService.send({
+            channel: 'EMAIL',
+            template: isOtp ? 'otp' : 'portal_magic_link',
+            recipient: patient.email,
+            recipient_name: patient.name,
+            patient_id: patient.id,
+            payload: isOtp
+                ? { name: patient.name, otp_code: secret, expiry_minutes: expiryMinutes, purpose: 'login portal pasien' }
+                : { name: patient.name, login_link: `${magicLinkUrl}?token=${challenge.id}.${secret}`, expiry_minutes: expiryMinutes },
+        });
+    } catch (error: any) {
+        LogServices.logToFile(`Failed to send portal login ${method} to patient ${patient.id}`, error);
+    }
+};
+
+const verifyOtp = async (email: string, otp: string, req: Request) => {
+    const ip = getClientIp(req);
+    await LoginThrottleService.assertNotLocked(throttleKey(email), ip);
+
+    const invalid = async () => {
+        await LoginThrottleService.registerFailure(throttleKey(email), ip);
+        return new BadRequestError('Invalid or expired verification code', 'INVALID_OTP');
+    };
+
+    const patient = await PortalDAO.getPortalPatientByEmail(email);
+    if (!patient) throw await invalid();
+
+    const challenge = await PatientLoginChallengeDAO.getLatest(patient.id, 'OTP');
+    if (!challenge || challenge.consumed_at || challenge.expires_at <= new Date()
+        || challenge.attempts >= PORTAL_OTP_MAX_ATTEMPTS) {
+        throw await invalid();
+    }
+
+    if (cryptoUtils.hashSHA512(String(otp)) !== challenge.secret_hash) {
+        await PatientLoginChallengeDAO.incrementAttempts(challenge.id);
+        throw await invalid();
+    }
+
+    if (!(await PatientLoginChallengeDAO.consume(challenge.id))) throw await invalid();
+
+    await LoginThrottleService.registerSuccess(throttleKey(email));
+    return await createSession(patient, req);
+};
+
+const verifyMagicLink = async (token: string, req: Request) => {
+    const invalid = new BadRequestError('Login link is invalid or has expired', 'INVALID_LOGIN_LINK');
+
+    const parsed = parseToken(token);
+    if (!parsed) throw invalid;
+
+    const challenge = await PatientLoginChallengeDAO.getById(parsed.id);
+    if (!challenge || challenge.method !== 'MAGIC_LINK' || challenge.consumed_at || challenge.expires_at <= new Date()) {
+        throw invalid;
+    }
+    if (cryptoUtils.hashSHA512(parsed.secret) !== challenge.secret_hash) throw invalid;
+
+    const patient = await PortalDAO.getPortalPatientById(challenge.patient_id);
+    if (!patient) throw invalid;
+
+    if (!(await PatientLoginChallengeDAO.consume(challenge.id))) throw invalid;
+    return await createSession(patient, req);
+};
+
+const rotateRefreshToken = async (refreshToken: string) => {
+    const parsed = parseToken(refreshToken);
+    if (!parsed) throw new UnauthorizedError('Invalid refresh token', 'INVALID_REFRESH_TOKEN');
+
+    const session = await PatientSessionDAO.getById(parsed.id);
+    if (!session || session.revoked_at || session.expires_at < new Date()) {
+        throw new UnauthorizedError('Session expired or revoked', 'SESSION_REVOKED');
+    }
+
+    // Token lama dipakai ulang: anggap bocor, matikan sesi
+    const reused = async () => {
+        await PatientSessionDAO.revoke(session.id, PatientSessionRevokeReason.TOKEN_REUSE);
+        return new UnauthorizedError('Refresh token has already been used', 'REFRESH_TOKEN_REUSED');
+    };
+
+    const presentedHash = cryptoUtils.hashSHA512(parsed.secret);
+    if (presentedHash !== session.refresh_token_hash) throw await reused();
+
+    const patient = await PortalDAO.getPortalPatientById(session.patient_id);
+    if (!patient) {
+        await PatientSessionDAO.revoke(session.id, PatientSessionRevokeReason.PORTAL_DISABLED);
+        throw new UnauthorizedError('Portal access is not available for this account', 'PORTAL_DISABLED');
+    }
+
+    const secret = generateSecret();
+    if (!(await PatientSessionDAO.rotate(session.id, presentedHash, cryptoUtils.hashSHA512(secret), refreshTokenExpiry()))) {
+        throw await reused();
+    }
+
+    return {
+        patient: PortalDAO.formatProfile(patient),
+        token: signAccessToken(patient, session.id),
+        refresh_token: `${session.id}.${secret}`,
+        expires_in: PORTAL_ACCESS_TOKEN_EXPIRES_IN,
+    };
+};
+
+const getActiveSession = async (sessionId: number, patientId: number) => {
+    const session = await PatientSessionDAO.getById(sessionId);
+    if (!session || session.patient_id !== patientId || session.revoked_at || session.expires_at <= new Date()) {
+        return null;
+    }
+    return session;
+};
+
+const revokeSession = async (sessionId: number, reason: string) => {
+    return await PatientSessionDAO.revoke(sessionId, reason);
+};
+
+const revokeAllForPatient = async (patientId: number, reason: string) => {
+    return await PatientSessionDAO.revokeAllByPatient(patientId, reason);
+};
+
+// Challenge disimpan sehari setelah kedaluwarsa supaya batas permintaan per jendela tetap terhitung
+const purgeExpiredChallenges = async () => {
+    return await PatientLoginChallengeDAO.deleteExpiredBefore(hidash.nowMinusDay(1));
+};
+
+export default {
+    PORTAL_TOKEN_AUDIENCE,
+    verifyAccessToken,
+    requestLogin,
+    verifyOtp,
+    verifyMagicLink,
+    rotateRefreshToken,
+    getActiveSession,
+    revokeSession,
+    revokeAllForPatient,
+    purgeExpiredChallenges,
+};
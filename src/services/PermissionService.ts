@@ -0,0 +1,86 @@
+import { role_permission as RolePermission, users_role } from '@prisma/client';
+import * as RolePermissionDAO from '../daos/rolePermissionDAO';
+import {
+    ALL_PERMISSIONS,
+    DEFAULT_ROLE_PERMISSIONS,
+    LOCKED_ADMIN_PERMISSIONS,
+    Permission,
+    PERMISSIONS,
+    isPermission,
+} from '../utils/permissions';
+
+const CACHE_TTL_MS = 60 * 1000;
+
+let cache: { loadedAt: number; overrides: RolePermission[] } | null = null;
+
+const getOverrides = async () => {
+    if (!cache || Date.now() - cache.loadedAt > CACHE_TTL_MS) {
+        cache = { loadedAt: Date.now(), overrides: await RolePermissionDAO.getAll() };
+    }
+    return cache.overrides;
+};
+
+// Default role + override admin. Override untuk permission yang sudah tidak ada di registry diabaikan.
+const getPermissionsForRole = async (role: users_role): Promise<Set<Permission>> => {
+    const result = new Set<Permission>(DEFAULT_ROLE_PERMISSIONS[role] || []);
+    const overrides = await getOverrides();
+
+    for (const override of overrides) {
+        if (override.role !== role || !isPermission(override.permission)) continue;
+        if (override.granted) result.add(override.permission);
+        else result.delete(override.permission);
+    }
+
+    if (role === 'ADMIN') LOCKED_ADMIN_PERMISSIONS.forEach((p) => result.add(p));
+    return result;
+};
+
+const hasPermissions = async (role: users_role | null | undefined, permissions: Permission[]) => {
+    if (!role) return false;
+    const granted = await getPermissionsForRole(role);
+    return permissions.every((p) => granted.has(p));
+};
+
+const getMatrix = async () => {
+    const overrides = await getOverrides();
+    const roles = Object.values(users_role);
+
+    const grantedByRole: Record<string, Set<Permission>> = {};
+    for (const role of roles) grantedByRole[role] = await getPermissionsForRole(role);
+
+    return {
+        roles,
+        permissions: ALL_PERMISSIONS.map((permission) => ({
+            permission,
+            description: PERMISSIONS[permission],
+            roles: Object.fromEntries(roles.map((role) => {
+                const override = overrides.find((o) => o.role === role && o.permission === permission);
+                return [role, {
+                    granted: grantedByRole[role].has(permission),
+                    default: DEFAULT_ROLE_PERMISSIONS[role].includes(permission),
+                    overridden: !!override,
+                }];
+            })),
+        })),
+    };
+};
+
+const setOverride = async (role: users_role, permission: Permission, granted: boolean, updatedBy?: number) => {
+    const result = await RolePermissionDAO.upsert(role, permission, granted, updatedBy);
+    cache = null;
+    return result;
+};
+
+const clearOverride = async (role: users_role, permission: Permission) => {
+    const result = await RolePermissionDAO.remove(role, permission);
+    cache = null;
+    return result;
+};
+
+export default {
+    getPermissionsForRole,
+    hasPermissions,
+    getMatrix,
+    setOverride,
+    clearOverride,
+};
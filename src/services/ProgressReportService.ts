@@ -0,0 +1,346 @@
+import { body_view, patient_gender } from '@prisma/client';
+import { PdfReport, REPORT_COLORS } from '../utils/pdfReport';
+import { BODY_VIEWS, SYMPTOM_COLORS, SYMPTOM_TYPES } from '../utils/bodyChart';
+import { toClinicDateMoment } from '../utils/clinicTime';
+import BodyChartService from './BodyChartService';
+import NotificationTemplates, { DEFAULT_NOTIFICATION_LOCALE, NotificationLocale } from './NotificationTemplates';
+
+const NOTES_MAX_LINES = 3;
+
+const PAIN_BEFORE_COLOR = '#dc2626';
+const PAIN_AFTER_COLOR = '#16a34a';
+
+const LABELS = {
+    id: {
+        title: 'Laporan Progres Pasien',
+        generated: 'Dibuat',
+        patient: 'Data Pasien',
+        name: 'Nama',
+        code: 'Kode pasien',
+        gender: 'Jenis kelamin',
+        MALE: 'Laki-laki',
+        FEMALE: 'Perempuan',
+        dob: 'Tanggal lahir',
+        years: 'tahun',
+        phone: 'Telepon',
+        email: 'Email',
+        address: 'Alamat',
+        plan: 'Rencana terapi',
+        period: 'Periode',
+        all_dates: 'Semua tanggal',
+        sessions: 'Riwayat Sesi',
+        date: 'Tanggal',
+        type: 'Jenis',
+        clinician: 'Klinisi',
+        pain: 'Nyeri',
+        notes: 'Catatan',
+        medical_history: 'Asesmen',
+        treatment_log: 'Kunjungan',
+        draft: 'draf',
+        no_sessions: 'Tidak ada sesi pada periode ini.',
+        pain_trend: 'Tren Nyeri (0-10)',
+        pain_before: 'Sebelum terapi',
+        pain_after: 'Sesudah terapi',
+        no_pain: 'Belum ada skor nyeri yang tercatat.',
+        body_chart: 'Anotasi Tubuh',
+        baseline: 'Awal',
+        latest: 'Terakhir',
+        FRONT: 'Depan',
+        BACK: 'Belakang',
+        LEFT: 'Sisi kiri',
+        RIGHT: 'Sisi kanan',
+        signature: 'Pengesahan Klinisi',
+        prepared_by: 'Disusun oleh',
+        signed_entries: 'Entry yang ditandatangani',
+        last_signed: 'Tanda tangan terakhir',
+        clinician_signature: 'Tanda tangan & nama klinisi',
+        confidential: 'Rahasia',
+        page: 'Halaman',
+        of: 'dari',
+    },
+    en: {
+        title: 'Patient Progress Report',
+        generated: 'Generated',
+        patient: 'Patient Details',
+        name: 'Name',
+        code: 'Patient code',
+        gender: 'Gender',
+        MALE: 'Male',
+        FEMALE: 'Female',
+        dob: 'Date of birth',
+        years: 'years',
+        phone: 'Phone',
+        email: 'Email',
+        address: 'Address',
+        plan: 'Treatment plan',
+        period: 'Period',
+        all_dates: 'All dates',
+        sessions: 'Session History',
+        date: 'Date',
+        type: 'Type',
+        clinician: 'Clinician',
+        pain: 'Pain',
+        notes: 'Notes',
+        medical_history: 'Assessment',
+        treatment_log: 'Visit',
+        draft: 'draft',
+        no_sessions: 'No sessions in this period.',
+        pain_trend: 'Pain Trend (0-10)',
+        pain_before: 'Before treatment',
+        pain_after: 'After treatment',
+        no_pain: 'No pain scores recorded yet.',
+        body_chart: 'Body Annotations',
+        baseline: 'Baseline',
+        latest: 'Latest',
+        FRONT: 'Front',
+        BACK: 'Back',
+        LEFT: 'Left side',
+        RIGHT: 'Right side',
+        signature: 'Clinician Sign-off',
+        prepared_by: 'Prepared by',
+        signed_entries: 'Signed entries',
+        last_signed: 'Last signature',
+        clinician_signature: 'Clinician signature & name',
+        confidential: 'Confidential',
+        page: 'Page',
+        of: 'of',
+    },
+};
+
+type Labels = typeof LABELS.id;
+
+export interface ProgressReportEntry {
+    entry_type: 'medical_history' | 'treatment_log';
+    id: number;
+    date: Date;
+    staff_name: string;
+    pain_before: number | null;
+    pain_after: number | null;
+    summary: string;
+    status: string;
+    signed_at: Date | null;
+    signer_name: string | null;
+    signature_hash: string | null;
+    body_chart: any[];
+}
+
+export interface ProgressReportInput {
+    patient: any;
+    entries: ProgressReportEntry[];
+    plan?: { title: string; started_at: Date; ended_at: Date | null } | null;
+    dateFrom?: Date;
+    dateTo?: Date;
+    preparedBy?: string | null;
+    locale?: string;
+}
+
+/**
+ * Render laporan progres pasien sebagai PDF A4 sepenuhnya di server (tanpa browser/servis luar):
+ * kop klinik, data pasien, tabel sesi, grafik tren nyeri, body chart awal vs terakhir, dan
+ * blok tanda tangan klinisi. Gambar body chart lama (URL) tidak diunduh agar tetap offline.
+ */
+const renderPdf = (input: ProgressReportInput): Buffer => {
+    const locale: NotificationLocale = NotificationTemplates.isLocale(input.locale) ? input.locale : DEFAULT_NOTIFICATION_LOCALE;
+    const t: Labels = LABELS[locale];
+    const patient = input.patient;
+    const report = new PdfReport({ title: t.title, locale, generatedLabel: t.generated, documentTitle: `${t.title} - ${patient.name}` });
+    const { doc, left, contentWidth } = report;
+    const formatDate = (date: Date | string | null | undefined) => report.formatDate(date);
+
+    // Data pasien, dua kolom label/nilai
+    const period = input.dateFrom || input.dateTo
+        ? `${formatDate(input.dateFrom ?? input.plan?.started_at)} - ${input.dateTo ? formatDate(input.dateTo) : '...'}`
+        : input.plan
+            ? `${formatDate(input.plan.started_at)} - ${input.plan.ended_at ? formatDate(input.plan.ended_at) : '...'}`
+            : t.all_dates;
+    report.sectionTitle(t.patient, 80);
+    report.keyValues([
+        [t.name, patient.name || '-'],
+        [t.code, patient.patient_code || '-'],
+        [t.gender, patient.gender ? t[patient.gender as patient_gender] : '-'],
+        [t.dob, patient.date_of_birth ? `${formatDate(patient.date_of_birth)}${patient.age != null ? ` (${patient.age} ${t.years})` : ''}` : '-'],
+        [t.phone, patient.phone || '-'],
+        [t.email, patient.email || '-'],
+        [t.plan, input.plan?.title || '-'],
+        [t.period, period],
+    ], { boldFirst: true });
+    if (patient.address) {
+        const lines = doc.wrap(patient.address, contentWidth - 80, 9).slice(0, 2);
+        doc.text(left, report.y, t.address, { size: 9, color: REPORT_COLORS.muted });
+        lines.forEach((line, index) => doc.text(left + 80, report.y + index * 12, line, { size: 9 }));
+        report.y += lines.length * 12 + 4;
+    }
+    report.y += 8;
+
+    // Tabel sesi
+    const columns: Array<{ key: keyof Labels; width: number }> = [
+        { key: 'date', width: 68 },
+        { key: 'type', width: 62 },
+        { key: 'clinician', width: 95 },
+        { key: 'pain', width: 45 },
+        { key: 'notes', width: contentWidth - 270 },
+    ];
+    const tableHeader = () => {
+        doc.rect(left, report.y, contentWidth, 18, { fill: '#f3f4f6' });
+        let x = left;
+        for (const column of columns) {
+            doc.text(x + 4, report.y + 12, t[column.key], { size: 8.5, bold: true });
+            x += column.width;
+        }
+        report.y += 18;
+    };
+
+    report.sectionTitle(t.sessions, 60);
+    if (!input.entries.length) {
+        doc.text(left, report.y + 4, t.no_sessions, { size: 9, color: REPORT_COLORS.muted });
+        report.y += 18;
+    } else {
+        tableHeader();
+        for (const entry of input.entries) {
+            const notes = doc.wrap(entry.summary || '-', columns[4].width - 8, 8);
+            if (notes.length > NOTES_MAX_LINES) {
+                notes.length = NOTES_MAX_LINES;
+                notes[NOTES_MAX_LINES - 1] = `${notes[NOTES_MAX_LINES - 1].replace(/.{0,3}$/, '')}...`;
+            }
+            const rowHeight = Math.max(notes.length, 1) * 10 + 8;
+            if (report.ensure(rowHeight)) tableHeader();
+
+            const pain = entry.pain_before == null && entry.pain_after == null
+                ? '-'
+                : `${entry.pain_before ?? '-'} -> ${entry.pain_after ?? '-'}`;
+            const cells = [
+                formatDate(entry.date),
+                `${t[entry.entry_type]}${entry.status === 'DRAFT' ? ` (${t.draft})` : ''}`,
+                doc.wrap(entry.staff_name, columns[2].width - 8, 8)[0],
+                pain,
+            ];
+            let x = left;
+            cells.forEach((cell, index) => {
+                doc.text(x + 4, report.y + 12, cell, { size: 8 });
+                x += columns[index].width;
+            });
+            notes.forEach((line, index) => doc.text(x + 4, report.y + 12 + index * 10, line, { size: 8 }));
+            report.y += rowHeight;
+            doc.line(left, report.y, left + contentWidth, report.y, { stroke: REPORT_COLORS.border, lineWidth: 0.5 });
+        }
+    }
+    report.y += 12;
+
+    // Grafik tren nyeri: sumbu x urutan sesi, sumbu y skor 0-10
+    const chartHeight = 150;
+    report.sectionTitle(t.pain_trend, chartHeight + 30);
+    const scored = input.entries.filter((entry) => entry.pain_before != null || entry.pain_after != null);
+    if (!scored.length) {
+        doc.text(left, report.y + 4, t.no_pain, { size: 9, color: REPORT_COLORS.muted });
+        report.y += 18;
+    } else {
+        const plotLeft = left + 24;
+        const plotWidth = contentWidth - 34;
+        const plotTop = report.y;
+        const toX = (index: number) => plotLeft + (scored.length === 1 ? plotWidth / 2 : (index / (scored.length - 1)) * plotWidth);
+        const toY = (score: number) => plotTop + chartHeight - (score / 10) * chartHeight;
+
+        for (let score = 0; score <= 10; score += 2) {
+            doc.line(plotLeft, toY(score), plotLeft + plotWidth, toY(score), { stroke: score === 0 ? REPORT_COLORS.muted : '#e5e7eb', lineWidth: 0.5 });
+            doc.text(left, toY(score) + 3, String(score), { size: 7, color: REPORT_COLORS.muted, align: 'right', width: 18 });
+        }
+        // Label tanggal dijarangkan agar tidak bertumpuk
+        const labelEvery = Math.max(1, Math.ceil(scored.length / Math.floor(plotWidth / 55)));
+        scored.forEach((entry, index) => {
+            if (index % labelEvery !== 0 && index !== scored.length - 1) return;
+            doc.text(toX(index) - 30, plotTop + chartHeight + 12, toClinicDateMoment(entry.date).locale(locale).format('D MMM YY'), {
+                size: 7, color: REPORT_COLORS.muted, align: 'center', width: 60
+            });
+        });
+
+        const series: Array<['pain_before' | 'pain_after', string]> = [['pain_before', PAIN_BEFORE_COLOR], ['pain_after', PAIN_AFTER_COLOR]];
+        for (const [key, color] of series) {
+            const points = scored
+                .map((entry, index) => (entry[key] != null ? [toX(index), toY(entry[key] as number)] as [number, number] : null))
+                .filter((point): point is [number, number] => point !== null);
+            doc.polyline(points, { stroke: color, lineWidth: 1.5 });
+            points.forEach(([px, py]) => doc.circle(px, py, 2.5, { fill: color, stroke: '#ffffff', lineWidth: 0.75 }));
+        }
+
+        report.y = plotTop + chartHeight + 24;
+        series.forEach(([key, color], index) => {
+            const x = plotLeft + index * 120;
+            doc.circle(x + 4, report.y - 3, 4, { fill: color });
+            doc.text(x + 12, report.y, t[key], { size: 8 });
+        });
+        report.y += 16;
+    }
+
+    // Body chart awal vs terakhir, dirender dari pin terstruktur
+    const charted = input.entries.filter((entry) => entry.body_chart.length);
+    if (charted.length) {
+        const shown = charted.length > 1
+            ? [{ label: t.baseline, entry: charted[0] }, { label: t.latest, entry: charted[charted.length - 1] }]
+            : [{ label: t.latest, entry: charted[0] }];
+        const allMarks = shown.flatMap(({ entry }) => entry.body_chart);
+        const used = BODY_VIEWS.filter((view) => allMarks.some((mark) => mark.view === view));
+        const views: body_view[] = used.length ? used : ['FRONT', 'BACK'];
+
+        const slotWidth = (contentWidth - 15) / 2;
+        const rendered = shown.map(({ entry }) => BodyChartService.rasterize(entry.body_chart, { views, legend: false }));
+        const imageHeight = slotWidth * (rendered[0].height / rendered[0].width);
+
+        report.sectionTitle(t.body_chart, imageHeight + 40);
+        const top = report.y;
+        shown.forEach(({ label, entry }, index) => {
+            const image = rendered[index];
+            const x = left + index * (slotWidth + 15);
+            doc.text(x, top, `${label}: ${formatDate(entry.date)} (${t[entry.entry_type]})`, { size: 9, bold: true });
+            doc.image(image.pixels, image.width, image.height, { x, y: top + 6, width: slotWidth, height: imageHeight });
+            // Raster tidak berisi teks; label tampilan ditulis di pita atas panel
+            views.forEach((view, viewIndex) => {
+                const panelWidth = slotWidth / views.length;
+                doc.text(x + viewIndex * panelWidth, top + 6 + imageHeight * 0.035, t[view], {
+                    size: 7.5, color: REPORT_COLORS.muted, align: 'center', width: panelWidth
+                });
+            });
+            doc.rect(x, top + 6, slotWidth, imageHeight, { stroke: REPORT_COLORS.border, lineWidth: 0.5 });
+        });
+        report.y += imageHeight + 18;
+
+        const legendTypes = SYMPTOM_TYPES.filter((type) => allMarks.some((mark) => mark.symptom_type === type));
+        legendTypes.forEach((type, index) => {
+            const x = left + index * 72;
+            doc.circle(x + 4, report.y - 3, 4, { fill: SYMPTOM_COLORS[type] });
+            doc.text(x + 12, report.y, type.charAt(0) + type.slice(1).toLowerCase(), { size: 8 });
+        });
+        report.y += 16;
+    }
+
+    // Blok tanda tangan
+    report.sectionTitle(t.signature, 90);
+    const signed = input.entries.filter((entry) => entry.status !== 'DRAFT' && entry.signed_at);
+    const lastSigned = signed.reduce<ProgressReportEntry | null>(
+        (latest, entry) => (!latest || entry.signed_at!.getTime() > latest.signed_at!.getTime() ? entry : latest),
+        null
+    );
+    const summary: Array<[string, string]> = [
+        [t.prepared_by, input.preparedBy || '-'],
+        [t.signed_entries, `${signed.length} / ${input.entries.length}`],
+        [
+            t.last_signed,
+            lastSigned
+                ? `${lastSigned.signer_name || '-'}, ${report.formatDateTime(lastSigned.signed_at)}${lastSigned.signature_hash ? ` (#${lastSigned.signature_hash.slice(0, 12)})` : ''}`
+                : '-',
+        ],
+    ];
+    summary.forEach(([label, value], index) => {
+        doc.text(left, report.y + index * 14, label, { size: 9, color: REPORT_COLORS.muted });
+        doc.text(left + 130, report.y + index * 14, value, { size: 9 });
+    });
+    report.signatureLine(t.clinician_signature, input.preparedBy);
+
+    return report.finish(
+        `${t.confidential} - ${patient.name} (${patient.patient_code})`,
+        (page, total) => `${t.page} ${page} ${t.of} ${total}`
+    );
+};
+
+export default {
+    renderPdf,
+};
@@ -0,0 +1,167 @@
+import { notification_channel } from '@prisma/client';
+import * as AppointmentDAO from '../daos/appointmentDAO';
+import * as TreatmentLogDAO from '../daos/treatmentLogDAO';
+import * as ReminderDeliveryDAO from '../daos/reminderDeliveryDAO';
+import NotificationService from './NotificationService';
+import LogServices from './LogServices';
+import prisma from './prisma';
+import hidash from '../utils/hidash';
+import { addClinicDays, clinicDate, startOfClinicDay, toClinicHHmm } from '../utils/clinicTime';
+
+export type ReminderOutcome = 'queued' | 'skipped' | 'duplicate';
+
+// Pengingat appointment dikirim saat appointment mulai dalam N jam ke depan
+const APPOINTMENT_REMINDER_HOURS = parseInt(process.env.APPOINTMENT_REMINDER_HOURS || '24');
+// Follow-up yang sudah lewat lebih lama dari ini tidak lagi diingatkan
+const FOLLOW_UP_REMINDER_LOOKBACK_DAYS = parseInt(process.env.FOLLOW_UP_REMINDER_LOOKBACK_DAYS || '14');
+// Jam tenang (HH:mm waktu klinik); boleh melewati tengah malam, mis. 21:00 - 07:00
+const REMINDER_QUIET_HOURS_START = process.env.REMINDER_QUIET_HOURS_START || '21:00';
+const REMINDER_QUIET_HOURS_END = process.env.REMINDER_QUIET_HOURS_END || '07:00';
+const REMINDER_CHANNELS = (process.env.REMINDER_CHANNELS || 'EMAIL,WHATSAPP')
+    .split(',')
+    .map((channel) => channel.trim().toUpperCase())
+    .filter((channel): channel is notification_channel => Object.values(notification_channel).includes(channel as notification_channel));
+
+const isQuietHours = (date: Date, start = REMINDER_QUIET_HOURS_START, end = REMINDER_QUIET_HOURS_END) => {
+    if (start === end) return false;
+    const now = toClinicHHmm(date);
+    return start < end ? now >= start && now < end : now >= start || now < end;
+};
+
+// Channel yang aktif dan punya alamat tujuan di data pasien
+const getRecipients = (patient: { email: string | null; phone: string | null }) => {
+    const recipients: Array<{ channel: notification_channel; recipient: string }> = [];
+    if (REMINDER_CHANNELS.includes('EMAIL') && patient.email) {
+        recipients.push({ channel: 'EMAIL', recipient: patient.email });
+    }
+    if (REMINDER_CHANNELS.includes('WHATSAPP') && patient.phone) {
+        recipients.push({ channel: 'WHATSAPP', recipient: patient.phone });
+    }
+    return recipients;
+};
+
+// start_at ikut di key supaya appointment yang di-reschedule mendapat pengingat baru
+const appointmentReminderKey = (appointment: { id: number; start_at: Date }, channel: notification_channel) =>
+    `APPOINTMENT:${appointment.id}:${appointment.start_at.getTime()}:${channel}`;
+
+// Satu pengingat per log terakhir; log baru akan menghasilkan key baru
+const followUpReminderKey = (treatment_log_id: number, channel: notification_channel) =>
+    `FOLLOW_UP:${treatment_log_id}:${channel}`;
+
+const emptySummary = (): Record<ReminderOutcome, number> => ({ queued: 0, skipped: 0, duplicate: 0 });
+
+/**
+ * Antrekan satu pengingat secara idempotent: baris ledger (unik per idempotency_key) dan
+ * notifikasi outbox dibuat dalam satu transaksi, jadi restart atau job yang tumpang tindih
+ * tidak akan mengantrekan dua kali. Pengiriman dan retry ditangani NotificationService.
+ */
+const deliver = async (
+    data: ReminderDeliveryDAO.ReminderDeliveryData,
+    template: string,
+    payload: any,
+    recipient_name: string,
+    opted_out: boolean
+): Promise<ReminderOutcome> => {
+    if (opted_out) {
+        const skipped = await ReminderDeliveryDAO.recordSkipped(data, 'Patient opted out of reminders');
+        return skipped ? 'skipped' : 'duplicate';
+    }
+
+    if (await ReminderDeliveryDAO.existsByKey(data.idempotency_key)) return 'duplicate';
+
+    try {
+        await prisma.$transaction(async (tx) => {
+            const notification = await NotificationService.enqueue({
+                channel: data.channel,
+                template,
+                recipient: data.recipient!,
+                recipient_name,
+                payload,
+                patient_id: data.patient_id
+            }, tx);
+            await ReminderDeliveryDAO.createQueued(data, notification.id, tx);
+        });
+        return 'queued';
+    } catch (error: any) {
+        if (ReminderDeliveryDAO.isUniqueViolation(error)) return 'duplicate';
+        throw error;
+    }
+};
+
+const sendAppointmentReminders = async (now: Date = new Date()) => {
+    const summary = emptySummary();
+    if (isQuietHours(now)) return { quiet_hours: true, ...summary };
+
+    const until = new Date(now.getTime() + APPOINTMENT_REMINDER_HOURS * 60 * 60 * 1000);
+    const appointments = await AppointmentDAO.getDueForReminder(now, until);
+
+    for (const appointment of appointments) {
+        for (const { channel, recipient } of getRecipients(appointment.patient)) {
+            const outcome = await deliver({
+                idempotency_key: appointmentReminderKey(appointment, channel),
+                reminder_type: 'APPOINTMENT',
+                channel,
+                patient_id: appointment.patient_id,
+                appointment_id: appointment.id,
+                recipient
+            }, 'appointment_reminder', {
+                name: appointment.patient.name,
+                start_at: appointment.start_at,
+                staff_name: appointment.staff?.name,
+                room: appointment.room
+            }, appointment.patient.name, appointment.patient.reminder_opt_out);
+            summary[outcome]++;
+        }
+    }
+
+    return { quiet_hours: false, ...summary };
+};
+
+const sendFollowUpReminders = async (now: Date = new Date()) => {
+    const summary = emptySummary();
+    if (isQuietHours(now)) return { quiet_hours: true, ...summary };
+
+    // recommended_next_session kolom @db.Date, dibandingkan dengan tanggal kalender klinik
+    const today = clinicDate(now);
+    const since = clinicDate(addClinicDays(now, -FOLLOW_UP_REMINDER_LOOKBACK_DAYS));
+
+    const followUps = await TreatmentLogDAO.getOverdueFollowUps(since, today, startOfClinicDay(now));
+
+    for (const { plan, log, patient } of followUps) {
+        for (const { channel, recipient } of getRecipients(patient)) {
+            const outcome = await deliver({
+                idempotency_key: followUpReminderKey(log.id, channel),
+                reminder_type: 'FOLLOW_UP',
+                channel,
+                patient_id: patient.id,
+                treatment_log_id: log.id,
+                recipient
+            }, 'follow_up_reminder', {
+                name: patient.name,
+                plan_title: plan.title,
+                recommended_next_session: log.recommended_next_session
+            }, patient.name, patient.reminder_opt_out);
+            summary[outcome]++;
+        }
+    }
+
+    return { quiet_hours: false, ...summary };
+};
+
+// Dipanggil job scheduler; hasil dicatat ke log file
+const runScheduled = async (job: 'APPOINTMENT' | 'FOLLOW_UP') => {
+    const result = job === 'APPOINTMENT' ? await sendAppointmentReminders() : await sendFollowUpReminders();
+    LogServices.logToFile(`REMINDER_${job} at=${hidash.nowWithoutMillis().toISOString()} ${JSON.stringify(result)}`);
+    return result;
+};
+
+export default {
+    APPOINTMENT_REMINDER_HOURS,
+    isQuietHours,
+    appointmentReminderKey,
+    followUpReminderKey,
+    deliver,
+    sendAppointmentReminders,
+    sendFollowUpReminders,
+    runScheduled,
+};
@@ -0,0 +1,49 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { NextFunction, Request, Response } from 'express';
+import { users_role } from '@prisma/client';
+import { getClientIp, getUserAgent } from '../utils/requestInfo';
+
+// Konteks per-request (actor, IP, user agent) yang bisa dibaca dari DAO/service
+// tanpa harus meneruskan `req` ke setiap fungsi.
+export interface RequestContextStore {
+    ip_address: string | null;
+    user_agent: string | null;
+    user_id?: number;
+    username?: string;
+    role?: users_role | null;
+    // Diisi jika request berasal dari portal pasien (bukan staf)
+    portal_patient_id?: number;
+}
+
+const storage = new AsyncLocalStorage<RequestContextStore>();
+
+function middleware(req: Request, res: Response, next: NextFunction) {
+    storage.run({ ip_address: getClientIp(req), user_agent: getUserAgent(req) }, () => next());
+}
+
+function get(): RequestContextStore | undefined {
+    return storage.getStore();
+}
+
+// Dipanggil middleware auth setelah token valid
+function setActor(user: { id: number; username: string; role?: users_role | null }) {
+    const store = storage.getStore();
+    if (!store) return;
+    store.user_id = user.id;
+    store.username = user.username;
+    store.role = user.role;
+}
+
+// Dipanggil middleware portal; audit log mencatat pasien ini di metadata karena actor_user_id hanya untuk staf
+function setPortalActor(patient_id: number) {
+    const store = storage.getStore();
+    if (!store) return;
+    store.portal_patient_id = patient_id;
+}
+
+export default {
+    middleware,
+    get,
+    setActor,
+    setPortalActor,
+};
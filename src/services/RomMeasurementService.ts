@@ -0,0 +1,132 @@
+import { BadRequestError } from '../errors/RequestErrorCollection';
+import { getMovement, isJointCode, JOINT_CODES, JOINTS, MMT_GRADES } from '../utils/jointMovements';
+
+const MAX_MEASUREMENTS_PER_REQUEST = 50;
+const SIDES = ['LEFT', 'RIGHT'];
+const MODES = ['ACTIVE', 'PASSIVE'];
+
+const listDefinitions = () => ({
+    joints: JOINT_CODES.map((code) => JOINTS[code]),
+    mmt_grades: MMT_GRADES,
+    sides: SIDES,
+    modes: MODES,
+});
+
+const validateItem = (item: any, label: string): BadRequestError | null => {
+    if (!item || typeof item !== 'object') return new BadRequestError(`${label} must be an object`);
+    if (!isJointCode(item.joint)) return new BadRequestError(`${label}: joint must be one of ${JOINT_CODES.join(', ')}`);
+
+    const movement = getMovement(item.joint, item.movement);
+    if (!movement) {
+        const movements = JOINTS[item.joint].movements.map((m) => m.id);
+        return new BadRequestError(`${label}: movement for ${item.joint} must be one of ${movements.join(', ')}`);
+    }
+
+    if (movement.sided && !SIDES.includes(item.side)) {
+        return new BadRequestError(`${label}: side (LEFT or RIGHT) is required for ${item.joint} ${movement.id}`);
+    }
+    if (!movement.sided && item.side != null) {
+        return new BadRequestError(`${label}: ${item.joint} ${movement.id} is not measured per side`);
+    }
+
+    const hasDegrees = item.degrees !== undefined && item.degrees !== null;
+    const hasGrade = item.mmt_grade !== undefined && item.mmt_grade !== null;
+    if (!hasDegrees && !hasGrade) return new BadRequestError(`${label}: degrees or mmt_grade is required`);
+
+    if (hasDegrees) {
+        const degrees = Number(item.degrees);
+        if (!Number.isInteger(degrees) || degrees < movement.min || degrees > movement.max) {
+            return new BadRequestError(
+                `${label}: ${item.joint} ${movement.id} degrees must be a whole number between ${movement.min} and ${movement.max}`
+            );
+        }
+        if (item.mode != null && !MODES.includes(item.mode)) {
+            return new BadRequestError(`${label}: mode must be ACTIVE or PASSIVE`);
+        }
+    }
+    if (hasGrade && !MMT_GRADES.includes(String(item.mmt_grade))) {
+        return new BadRequestError(`${label}: mmt_grade must be one of ${MMT_GRADES.join(', ')}`);
+    }
+
+    if (item.normative_degrees !== undefined && item.normative_degrees !== null) {
+        const normative = Number(item.normative_degrees);
+        if (!Number.isInteger(normative) || normative < 0 || normative > movement.max) {
+            return new BadRequestError(`${label}: normative_degrees must be a whole number between 0 and ${movement.max}`);
+        }
+    }
+    return null;
+};
+
+// Validasi batch pengukuran {measurements: [...]} sebelum disimpan
+const validateMeasurements = (measurements: any): BadRequestError | null => {
+    if (!Array.isArray(measurements) || !measurements.length) {
+        return new BadRequestError('measurements must be a non-empty array');
+    }
+    if (measurements.length > MAX_MEASUREMENTS_PER_REQUEST) {
+        return new BadRequestError(`At most ${MAX_MEASUREMENTS_PER_REQUEST} measurements can be recorded at once`);
+    }
+    for (let i = 0; i < measurements.length; i++) {
+        const error = validateItem(measurements[i], `measurements[${i}]`);
+        if (error) return error;
+    }
+    return null;
+};
+
+const normalFor = (item: { joint: string; movement: string }) => getMovement(item.joint, item.movement)!.normal;
+
+/**
+ * Tren per sendi/gerakan/sisi/mode sepanjang treatment plan, urut tanggal pengukuran.
+ * Pengukuran MMT tanpa derajat dikelompokkan dengan mode null.
+ */
+const buildTrends = (measurements: any[]) => {
+    const sorted = [...measurements].sort((a, b) =>
+        new Date(a.measured_at).getTime() - new Date(b.measured_at).getTime() || a.id - b.id
+    );
+
+    const groups = new Map<string, any[]>();
+    for (const measurement of sorted) {
+        const key = [measurement.joint, measurement.movement, measurement.side, measurement.mode].join('|');
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(measurement);
+    }
+
+    return Array.from(groups.values()).map((points) => {
+        const first = points[0];
+        const withDegrees = points.filter((point) => point.degrees !== null);
+        const withGrade = points.filter((point) => point.mmt_grade !== null);
+        const baseline = withDegrees[0] ?? null;
+        const latest = withDegrees[withDegrees.length - 1] ?? null;
+
+        return {
+            joint: first.joint,
+            movement: first.movement,
+            side: first.side,
+            mode: first.mode,
+            normative_degrees: latest?.normative_degrees ?? first.normative_degrees,
+            baseline_degrees: baseline?.degrees ?? null,
+            latest_degrees: latest?.degrees ?? null,
+            change_degrees: baseline && latest ? latest.degrees - baseline.degrees : null,
+            baseline_percent_of_normal: baseline?.percent_of_normal ?? null,
+            latest_percent_of_normal: latest?.percent_of_normal ?? null,
+            baseline_mmt_grade: withGrade[0]?.mmt_grade ?? null,
+            latest_mmt_grade: withGrade[withGrade.length - 1]?.mmt_grade ?? null,
+            points: points.map((point) => ({
+                id: point.id,
+                measured_at: point.measured_at,
+                medical_history_id: point.medical_history_id,
+                treatment_log_id: point.treatment_log_id,
+                degrees: point.degrees,
+                percent_of_normal: point.percent_of_normal,
+                mmt_grade: point.mmt_grade,
+                mmt_value: point.mmt_value
+            }))
+        };
+    });
+};
+
+export default {
+    listDefinitions,
+    validateMeasurements,
+    normalFor,
+    buildTrends,
+};
@@ -0,0 +1,133 @@
+import { Request } from 'express';
+import jwt from 'jsonwebtoken';
+import nodeCrypto from 'crypto';
+import { users as User } from '@prisma/client';
+import * as UserSessionDAO from '../daos/userSessionDAO';
+import * as UserDAO from '../daos/userDAO';
+import cryptoUtils from '../utils/crypto';
+import { getClientIp, getUserAgent } from '../utils/requestInfo';
+import { UnauthorizedError } from '../errors/RequestErrorCollection';
+
+const ACCESS_TOKEN_EXPIRES_IN = (process.env.ACCESS_TOKEN_EXPIRES_IN || '15m') as jwt.SignOptions['expiresIn'];
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30');
+
+export const SessionRevokeReason = {
+    LOGOUT: 'LOGOUT',
+    REVOKED_BY_USER: 'REVOKED_BY_USER',
+    REVOKED_BY_ADMIN: 'REVOKED_BY_ADMIN',
+    PASSWORD_CHANGED: 'PASSWORD_CHANGED',
+    ROLE_CHANGED: 'ROLE_CHANGED',
+    USER_DEACTIVATED: 'USER_DEACTIVATED',
+    TOKEN_REUSE: 'TOKEN_REUSE',
+};
+
+const refreshTokenExpiry = () => {
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + REFRESH_TOKEN_TTL_DAYS);
+    return expiresAt;
+};
+
+const generateRefreshSecret = () => nodeCrypto.randomBytes(48).toString('hex');
+
+const signAccessToken = (user: User, sessionId: number) => {
+    return jwt.sign(
+        {
+            authenticated: true,
+            id: user.id,
+            username: user.username,
+            role: user.role,
+            sid: sessionId,
+        },
+        process.env.TOKEN_SECRET as jwt.Secret,
+        { expiresIn: ACCESS_TOKEN_EXPIRES_IN }
+    );
+};
+
+// Refresh token berbentuk "<session_id>.<secret>", yang disimpan hanya hash dari secret
+const parseRefreshToken = (refreshToken: string) => {
+    const [idPart, secret] = (refreshToken || '').split('.');
+    const sessionId = parseInt(idPart);
+    if (isNaN(sessionId) || !secret) return null;
+    return { sessionId, secret };
+};
+
+const createSession = async (user: User, req: Request, mfaVerified: boolean = false) => {
+    const secret = generateRefreshSecret();
+    const session = await UserSessionDAO.create({
+        user_id: user.id,
+        refresh_token_hash: cryptoUtils.hashSHA512(secret),
+        user_agent: getUserAgent(req),
+        ip_address: getClientIp(req),
+        expires_at: refreshTokenExpiry(),
+        last_used_at: new Date(),
+        mfa_verified: mfaVerified,
+    });
+
+    return {
+        token: signAccessToken(user, session.id),
+        refresh_token: `${session.id}.${secret}`,
+        expires_in: ACCESS_TOKEN_EXPIRES_IN,
+    };
+};
+
+const rotateRefreshToken = async (refreshToken: string) => {
+    const parsed = parseRefreshToken(refreshToken);
+    if (!parsed) throw new UnauthorizedError('Invalid refresh token', 'INVALID_REFRESH_TOKEN');
+
+    const session = await UserSessionDAO.getById(parsed.sessionId);
+    if (!session || session.revoked_at || session.expires_at < new Date()) {
+        throw new UnauthorizedError('Session expired or revoked', 'SESSION_REVOKED');
+    }
+
+    // Token lama dipakai ulang: anggap bocor, matikan sesi
+    const reused = async () => {
+        await UserSessionDAO.revoke(session.id, SessionRevokeReason.TOKEN_REUSE);
+        return new UnauthorizedError('Refresh token has already been used', 'REFRESH_TOKEN_REUSED');
+    };
+
+    const presentedHash = cryptoUtils.hashSHA512(parsed.secret);
+    if (presentedHash !== session.refresh_token_hash) throw await reused();
+
+    const user = await UserDAO.getById(session.user_id);
+    if (!user || !user.active) {
+        await UserSessionDAO.revoke(session.id, SessionRevokeReason.USER_DEACTIVATED);
+        throw new UnauthorizedError('Your account is deactivated. Please contact administrator.', 'ACCOUNT_DEACTIVATED');
+    }
+
+    const secret = generateRefreshSecret();
+    // Dua refresh bersamaan dengan token yang sama: hanya satu yang lolos, sisanya dianggap reuse
+    if (!(await UserSessionDAO.rotate(session.id, presentedHash, cryptoUtils.hashSHA512(secret), refreshTokenExpiry()))) {
+        throw await reused();
+    }
+
+    return {
+        user,
+        token: signAccessToken(user, session.id),
+        refresh_token: `${session.id}.${secret}`,
+        expires_in: ACCESS_TOKEN_EXPIRES_IN,
+    };
+};
+
+const getActiveSession = async (sessionId: number, userId: number) => {
+    const session = await UserSessionDAO.getById(sessionId);
+    if (!session || session.user_id !== userId || session.revoked_at || session.expires_at <= new Date()) {
+        return null;
+    }
+    return session;
+};
+
+const revokeSession = async (sessionId: number, reason: string) => {
+    return await UserSessionDAO.revoke(sessionId, reason);
+};
+
+const revokeAllForUser = async (userId: number, reason: string, exceptSessionId?: number) => {
+    return await UserSessionDAO.revokeAllByUser(userId, reason, exceptSessionId);
+};
+
+export default {
+    createSession,
+    rotateRefreshToken,
+    getActiveSession,
+    revokeSession,
+    revokeAllForUser,
+};
@@ -0,0 +1,41 @@
+import crypto from 'crypto';
+import { clinical_entry_status } from '@prisma/client';
+import * as UserDAO from '../daos/userDAO';
+import passwordCrypto from '../utils/crypto';
+import { CLINICAL_NON_CONTENT_FIELDS, canonicalize, toSnapshot } from '../utils/fieldDiff';
+
+// AMENDED bisa ditandatangani ulang agar isi hasil amendment kembali tercakup signature
+const SIGNABLE_STATUSES: clinical_entry_status[] = ['DRAFT', 'AMENDED'];
+
+const canSign = (status: clinical_entry_status) => SIGNABLE_STATUSES.includes(status);
+
+/**
+ * Hash isi catatan saat ditandatangani. Kolom administratif (status, signed_*, timestamps)
+ * tidak ikut, sehingga hash bisa dihitung ulang untuk membuktikan isi belum berubah.
+ */
+const computeContentHash = (row: Record<string, any>) => {
+    const snapshot = toSnapshot(row);
+    CLINICAL_NON_CONTENT_FIELDS.forEach((field) => delete snapshot[field]);
+    return crypto.createHash('sha256').update(JSON.stringify(canonicalize(snapshot))).digest('hex');
+};
+
+// Penandatangan wajib memasukkan ulang password-nya
+const verifySignerPassword = async (userId: number, password: string) => {
+    const user = await UserDAO.getById(userId);
+    if (!user) return false;
+    return await passwordCrypto.verifyPassword(password, user.salt, user.password);
+};
+
+// false jika isi sudah berubah setelah ditandatangani (mis. lewat amendment)
+const isSignatureIntact = (row: Record<string, any>) => {
+    if (!row.signature_hash) return false;
+    return computeContentHash(row) === row.signature_hash;
+};
+
+export default {
+    SIGNABLE_STATUSES,
+    canSign,
+    computeContentHash,
+    verifySignerPassword,
+    isSignatureIntact,
+};
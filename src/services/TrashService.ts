@@ -0,0 +1,129 @@
+import * as PatientDAO from '../daos/patientDAO';
+import * as MedicalHistoryDAO from '../daos/medicalHistoryDAO';
+import * as TreatmentPlanDAO from '../daos/treatmentPlanDAO';
+import * as TreatmentLogDAO from '../daos/treatmentLogDAO';
+import LogServices from './LogServices';
+import hidash from '../utils/hidash';
+
+export type TrashEntityType = 'patient' | 'medical_history' | 'treatment_plan' | 'treatment_log';
+
+export const TRASH_ENTITY_TYPES: TrashEntityType[] = ['patient', 'medical_history', 'treatment_plan', 'treatment_log'];
+
+// Record di trash dihapus permanen setelah melewati masa retensi ini
+const SOFT_DELETE_RETENTION_DAYS = parseInt(process.env.SOFT_DELETE_RETENTION_DAYS || '30');
+
+export interface TrashListOptions {
+    patient_id?: number;
+    search?: string;
+    limit?: number;
+    offset?: number;
+}
+
+const isTrashEntityType = (value: any): value is TrashEntityType => TRASH_ENTITY_TYPES.includes(value);
+
+const getDeleted = async (entity_type: TrashEntityType, options?: TrashListOptions) => {
+    switch (entity_type) {
+        case 'patient':
+            return await PatientDAO.getDeleted(options);
+        case 'medical_history':
+            return await MedicalHistoryDAO.getDeleted(options);
+        case 'treatment_plan':
+            return await TreatmentPlanDAO.getDeleted(options);
+        case 'treatment_log':
+            return await TreatmentLogDAO.getDeleted(options);
+    }
+};
+
+const getDeletedRecord = async (entity_type: TrashEntityType, id: number) => {
+    switch (entity_type) {
+        case 'patient':
+            return await PatientDAO.getDeletedById(id);
+        case 'medical_history':
+            return await MedicalHistoryDAO.getDeletedById(id);
+        case 'treatment_plan':
+            return await TreatmentPlanDAO.getDeletedById(id);
+        case 'treatment_log':
+            return await TreatmentLogDAO.getDeletedById(id);
+    }
+};
+
+/**
+ * Record turunan tidak bisa di-restore selama induknya masih di trash.
+ * Mengembalikan induk yang masih terhapus, atau null jika aman di-restore.
+ */
+const getDeletedParent = async (
+    entity_type: TrashEntityType,
+    id: number
+): Promise<{ entity_type: TrashEntityType; id: number } | null> => {
+    let patientId: number | null = null;
+
+    if (entity_type === 'medical_history') {
+        patientId = (await MedicalHistoryDAO.getDeletedById(id))?.patient_id ?? null;
+    } else if (entity_type === 'treatment_plan') {
+        patientId = (await TreatmentPlanDAO.getDeletedById(id))?.patient_id ?? null;
+    } else if (entity_type === 'treatment_log') {
+        const log = await TreatmentLogDAO.getDeletedById(id);
+        if (log && await TreatmentPlanDAO.getDeletedById(log.treatment_plan_id)) {
+            return { entity_type: 'treatment_plan', id: log.treatment_plan_id };
+        }
+        patientId = log?.treatment_plan.patient_id ?? null;
+    }
+
+    if (patientId && await PatientDAO.getDeletedById(patientId)) {
+        return { entity_type: 'patient', id: patientId };
+    }
+    return null;
+};
+
+const restore = async (entity_type: TrashEntityType, id: number) => {
+    switch (entity_type) {
+        case 'patient':
+            return await PatientDAO.restorePatient(id);
+        case 'medical_history':
+            return await MedicalHistoryDAO.restoreMedicalHistory(id);
+        case 'treatment_plan':
+            return await TreatmentPlanDAO.restorePlan(id);
+        case 'treatment_log':
+            return await TreatmentLogDAO.restoreLog(id);
+    }
+};
+
+const purge = async (entity_type: TrashEntityType, id: number) => {
+    switch (entity_type) {
+        case 'patient':
+            return await PatientDAO.purgePatient(id);
+        case 'medical_history':
+            return await MedicalHistoryDAO.purgeMedicalHistory(id);
+        case 'treatment_plan':
+            return await TreatmentPlanDAO.purgePlan(id);
+        case 'treatment_log':
+            return await TreatmentLogDAO.purgeLog(id);
+    }
+};
+
+// Dipanggil job harian. Urutan dari record paling bawah supaya setiap record tercatat di audit log
+// sebelum cascade FK menghapusnya.
+const purgeExpired = async (retentionDays: number = SOFT_DELETE_RETENTION_DAYS) => {
+    const cutoff = hidash.nowMinusDay(retentionDays);
+
+    const result = {
+        treatment_log: await TreatmentLogDAO.purgeDeletedBefore(cutoff),
+        medical_history: await MedicalHistoryDAO.purgeDeletedBefore(cutoff),
+        treatment_plan: await TreatmentPlanDAO.purgeDeletedBefore(cutoff),
+        patient: await PatientDAO.purgeDeletedBefore(cutoff),
+    };
+
+    LogServices.logToFile(`TRASH_PURGE cutoff=${cutoff.toISOString()} ${JSON.stringify(result)}`);
+    return result;
+};
+
+export default {
+    SOFT_DELETE_RETENTION_DAYS,
+    isTrashEntityType,
+    getDeleted,
+    getDeletedRecord,
+    getDeletedParent,
+    restore,
+    purge,
+    purgeExpired,
+};
@@ -0,0 +1,185 @@
+import { treatment_goal_status } from '@prisma/client';
+import { BadRequestError } from '../errors/RequestErrorCollection';
+import { GoalProgressInput } from '../daos/treatmentGoalDAO';
+import { toDateOnly } from '../daos/exercisePrescriptionDAO';
+
+const GOAL_STATUSES = Object.values(treatment_goal_status);
+const MAX_DESCRIPTION_LENGTH = 2000;
+const MAX_METRIC_LENGTH = 150;
+const MAX_UNIT_LENGTH = 30;
+const MAX_NOTE_LENGTH = 2000;
+// Batas kolom Decimal(10, 2)
+const MAX_ABS_VALUE = 99999999;
+
+// Bobot status untuk skor pencapaian: tercapai penuh 1, sebagian 0.5
+const ATTAINMENT_WEIGHT: Record<Exclude<treatment_goal_status, 'IN_PROGRESS'>, number> = {
+    ACHIEVED: 1,
+    PARTIALLY_ACHIEVED: 0.5,
+    NOT_ACHIEVED: 0,
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const isValue = (value: any) => value !== '' && Number.isFinite(Number(value)) && Math.abs(Number(value)) <= MAX_ABS_VALUE;
+
+const checkText = (body: any, field: string, max: number, required = false): BadRequestError | null => {
+    const value = body[field];
+    if (value === undefined || (!required && value === null)) return null;
+    if (typeof value !== 'string' || (required && !value.trim())) {
+        return new BadRequestError(required ? `${field} is required` : `${field} must be a string or null`);
+    }
+    if (value.trim().length > max) return new BadRequestError(`${field} must be at most ${max} characters`);
+    return null;
+};
+
+/**
+ * Validasi goal SMART. Saat update `current` berisi nilai lama; baseline dan target tidak boleh
+ * sama karena persentase pencapaian dihitung dari selisih keduanya.
+ */
+const validateGoal = (body: any, current?: { baseline_value: number | null; target_value: number | null }): BadRequestError | null => {
+    const textError = checkText(body, 'description', MAX_DESCRIPTION_LENGTH, !current || body.description !== undefined)
+        || checkText(body, 'target_metric', MAX_METRIC_LENGTH, !current || body.target_metric !== undefined)
+        || checkText(body, 'unit', MAX_UNIT_LENGTH)
+        || checkText(body, 'status_note', MAX_NOTE_LENGTH);
+    if (textError) return textError;
+
+    for (const field of ['baseline_value', 'target_value']) {
+        if (body[field] != null && !isValue(body[field])) {
+            return new BadRequestError(`${field} must be a number between -${MAX_ABS_VALUE} and ${MAX_ABS_VALUE}`);
+        }
+    }
+    const baseline = body.baseline_value !== undefined ? body.baseline_value : current?.baseline_value;
+    const target = body.target_value !== undefined ? body.target_value : current?.target_value;
+    if (baseline != null && target != null && Number(baseline) === Number(target)) {
+        return new BadRequestError('target_value must differ from baseline_value');
+    }
+
+    if (body.target_date != null && isNaN(new Date(body.target_date).getTime())) {
+        return new BadRequestError('target_date must be a valid date');
+    }
+    if (body.status !== undefined && !GOAL_STATUSES.includes(body.status)) {
+        return new BadRequestError(`status must be one of ${GOAL_STATUSES.join(', ')}`);
+    }
+    if (body.sort_order !== undefined && !Number.isInteger(Number(body.sort_order))) {
+        return new BadRequestError('sort_order must be a whole number');
+    }
+    return null;
+};
+
+// Body progress: [{goal_id, value?, note?}]; goal harus milik plan dari treatment log tersebut
+const validateProgress = (items: any, planGoalIds: number[]): BadRequestError | GoalProgressInput[] => {
+    if (!Array.isArray(items) || !items.length) return new BadRequestError('progress must be a non-empty array');
+
+    const seen = new Set<number>();
+    const parsed: GoalProgressInput[] = [];
+    for (const [index, item] of items.entries()) {
+        const goalId = Number(item?.goal_id);
+        if (!Number.isInteger(goalId) || !planGoalIds.includes(goalId)) {
+            return new BadRequestError(`progress[${index}].goal_id is not a goal of this treatment plan`);
+        }
+        if (seen.has(goalId)) return new BadRequestError(`progress[${index}].goal_id ${goalId} is listed more than once`);
+        seen.add(goalId);
+
+        if (item.value != null && !isValue(item.value)) {
+            return new BadRequestError(`progress[${index}].value must be a number between -${MAX_ABS_VALUE} and ${MAX_ABS_VALUE}`);
+        }
+        if (item.note != null && (typeof item.note !== 'string' || item.note.length > MAX_NOTE_LENGTH)) {
+            return new BadRequestError(`progress[${index}].note must be a string of at most ${MAX_NOTE_LENGTH} characters`);
+        }
+        if (item.value == null && !item.note) return new BadRequestError(`progress[${index}] needs a value or a note`);
+
+        parsed.push({ goal_id: goalId, value: item.value != null ? Number(item.value) : null, note: item.note || null });
+    }
+    return parsed;
+};
+
+/**
+ * Posisi satu goal terhadap targetnya: nilai terakhir yang tercatat, perubahan dari baseline
+ * dan persentase jarak baseline -> target yang sudah ditempuh (bisa < 0 bila memburuk atau
+ * > 100 bila melampaui target). `goal` adalah hasil TreatmentGoalDAO.formatForTable.
+ */
+const attainment = (goal: any, asOf: Date = new Date()) => {
+    const measured = goal.progress.filter((entry: any) => entry.value != null);
+    const latest = measured.length ? measured[measured.length - 1] : null;
+    const latestValue: number | null = latest?.value ?? null;
+
+    const change = latestValue != null && goal.baseline_value != null ? round1(latestValue - goal.baseline_value) : null;
+    const span = goal.baseline_value != null && goal.target_value != null ? goal.target_value - goal.baseline_value : null;
+    const percent = change != null && span ? round1((change / span) * 100) : null;
+
+    return {
+        latest_value: latestValue,
+        latest_recorded_at: latest?.visit_date ?? null,
+        measurements: measured.length,
+        change_from_baseline: change,
+        percent_to_target: percent,
+        target_reached: percent != null ? percent >= 100 : null,
+        overdue: goal.status === 'IN_PROGRESS' && !!goal.target_date && toDateOnly(goal.target_date) < toDateOnly(asOf)
+    };
+};
+
+// Rekap status sekumpulan goal; rate dihitung dari goal yang sudah dievaluasi saja
+const summarize = (goals: any[], asOf: Date = new Date()) => {
+    const counts = Object.fromEntries(GOAL_STATUSES.map((status) => [status, 0])) as Record<treatment_goal_status, number>;
+    for (const goal of goals) counts[goal.status as treatment_goal_status]++;
+
+    const evaluated = goals.length - counts.IN_PROGRESS;
+    const weighted = (Object.keys(ATTAINMENT_WEIGHT) as Array<keyof typeof ATTAINMENT_WEIGHT>)
+        .reduce((sum, status) => sum + counts[status] * ATTAINMENT_WEIGHT[status], 0);
+
+    return {
+        total: goals.length,
+        in_progress: counts.IN_PROGRESS,
+        achieved: counts.ACHIEVED,
+        partially_achieved: counts.PARTIALLY_ACHIEVED,
+        not_achieved: counts.NOT_ACHIEVED,
+        evaluated,
+        overdue: goals.filter((goal) => attainment(goal, asOf).overdue).length,
+        achieved_rate: evaluated ? round1((counts.ACHIEVED / evaluated) * 100) : null,
+        attainment_score: evaluated ? round1((weighted / evaluated) * 100) : null
+    };
+};
+
+// Laporan per plan: rekap + tiap goal beserta seri progress dan posisinya terhadap target
+const buildPlanReport = (goals: any[]) => ({
+    summary: summarize(goals),
+    goals: goals.map((goal) => ({ ...goal, attainment: attainment(goal) }))
+});
+
+const groupSummary = (goals: any[], keyOf: (goal: any) => string | number | null) => {
+    const groups = new Map<string | number | null, any[]>();
+    for (const goal of goals) {
+        const key = keyOf(goal);
+        groups.set(key, [...(groups.get(key) || []), goal]);
+    }
+    return [...groups.entries()].map(([key, group]) => ({ key, ...summarize(group) }));
+};
+
+/**
+ * Laporan tingkat klinik dari TreatmentGoalDAO.getForReport: rekap keseluruhan, per jenis
+ * layanan, per klinisi penanggung jawab plan dan per metrik target.
+ */
+const buildClinicReport = (goals: any[]) => ({
+    summary: summarize(goals),
+    by_service_type: groupSummary(goals, (goal) => goal.service_type || null)
+        .map(({ key, ...summary }) => ({ service_type: key, ...summary })),
+    by_staff: groupSummary(goals, (goal) => goal.staff_id ?? null)
+        .map(({ key, ...summary }) => ({
+            staff_id: key,
+            staff_name: goals.find((goal) => (goal.staff_id ?? null) === key)?.staff_name || '-',
+            ...summary
+        })),
+    by_metric: groupSummary(goals, (goal) => goal.target_metric.toLowerCase())
+        .map(({ key, ...summary }) => ({ target_metric: key, ...summary }))
+        .sort((a, b) => b.total - a.total)
+});
+
+export default {
+    GOAL_STATUSES,
+    validateGoal,
+    validateProgress,
+    attainment,
+    summarize,
+    buildPlanReport,
+    buildClinicReport,
+};
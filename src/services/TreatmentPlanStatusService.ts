@@ -0,0 +1,56 @@
+import { treatment_plan_status } from '@prisma/client';
+import { BadRequestError } from '../errors/RequestErrorCollection';
+import * as DischargeSummaryDAO from '../daos/dischargeSummaryDAO';
+import * as TreatmentPlanDAO from '../daos/treatmentPlanDAO';
+
+export type PlanStatusAction = 'hold' | 'resume' | 'complete' | 'cancel' | 'reopen';
+
+const MAX_REASON_LENGTH = 1000;
+
+/**
+ * State machine treatment plan: ACTIVE <-> ON_HOLD, ACTIVE -> COMPLETED/CANCELLED, dan
+ * reopen plan yang sudah ditutup kembali ke ACTIVE (butuh permission treatment_plan:reopen, default hanya ADMIN).
+ * Setiap aksi punya endpoint sendiri dan wajib menyertakan alasan.
+ */
+const ACTIONS: Record<PlanStatusAction, { from: treatment_plan_status[]; to: treatment_plan_status }> = {
+    hold: { from: ['ACTIVE'], to: 'ON_HOLD' },
+    resume: { from: ['ON_HOLD'], to: 'ACTIVE' },
+    complete: { from: ['ACTIVE'], to: 'COMPLETED' },
+    cancel: { from: ['ACTIVE'], to: 'CANCELLED' },
+    reopen: { from: ['COMPLETED', 'CANCELLED'], to: 'ACTIVE' },
+};
+
+const CLOSED_STATUSES: treatment_plan_status[] = ['COMPLETED', 'CANCELLED'];
+
+// Plan yang sudah ditutup tidak menerima treatment log baru
+const isClosed = (status: treatment_plan_status) => CLOSED_STATUSES.includes(status);
+
+const canApply = (action: PlanStatusAction, from: treatment_plan_status) => ACTIONS[action].from.includes(from);
+
+const validateReason = (reason: any): BadRequestError | string => {
+    if (typeof reason !== 'string' || !reason.trim()) return new BadRequestError('reason is required');
+    if (reason.trim().length > MAX_REASON_LENGTH) return new BadRequestError(`reason must be at most ${MAX_REASON_LENGTH} characters`);
+    return reason.trim();
+};
+
+// null jika status plan sudah diubah request lain sejak dibaca pemanggil
+const apply = async (plan: { id: number; patient_id: number }, action: PlanStatusAction, reason: string, changed_by?: number) => {
+    const { from, to } = ACTIONS[action];
+    const result = await TreatmentPlanDAO.changeStatus(plan.id, from, to, reason, changed_by);
+    // Plan yang selesai langsung mendapat discharge summary untuk dilengkapi klinisi
+    if (result?.status === 'COMPLETED') await DischargeSummaryDAO.ensureForPlan(plan);
+    return result;
+};
+
+// Aksi yang tersedia dari status saat ini, untuk ditampilkan sebagai tombol di frontend
+const availableActions = (status: treatment_plan_status) =>
+    (Object.keys(ACTIONS) as PlanStatusAction[]).filter((action) => canApply(action, status));
+
+export default {
+    ACTIONS,
+    isClosed,
+    canApply,
+    validateReason,
+    apply,
+    availableActions,
+};
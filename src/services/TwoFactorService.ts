@@ -0,0 +1,113 @@
+import jwt from 'jsonwebtoken';
+import { users as User, users_role } from '@prisma/client';
+import * as UserDAO from '../daos/userDAO';
+import * as UserRecoveryCodeDAO from '../daos/userRecoveryCodeDAO';
+import * as RoleSecurityPolicyDAO from '../daos/roleSecurityPolicyDAO';
+import cryptoUtils from '../utils/crypto';
+import * as totp from '../utils/totp';
+
+const CHALLENGE_TOKEN_EXPIRES_IN = '5m';
+const CHALLENGE_PURPOSE = '2fa_challenge';
+const RECOVERY_CODE_COUNT = 10;
+const POLICY_CACHE_TTL_MS = 60 * 1000;
+
+let policyCache: { loadedAt: number; requiredRoles: Set<users_role> } | null = null;
+
+const isRequiredForRole = async (role: users_role | null | undefined) => {
+    if (!role) return false;
+    if (!policyCache || Date.now() - policyCache.loadedAt > POLICY_CACHE_TTL_MS) {
+        const policies = await RoleSecurityPolicyDAO.getAll();
+        policyCache = {
+            loadedAt: Date.now(),
+            requiredRoles: new Set(policies.filter((p) => p.require_2fa).map((p) => p.role)),
+        };
+    }
+    return policyCache.requiredRoles.has(role);
+};
+
+const setRequiredForRole = async (role: users_role, required: boolean, updatedBy?: number) => {
+    const result = await RoleSecurityPolicyDAO.upsert(role, required, updatedBy);
+    policyCache = null;
+    return result;
+};
+
+const normalizeRecoveryCode = (code: string) => (code || '').replace(/[\s-]/g, '').toLowerCase();
+
+const generateRecoveryCodes = async (userId: number) => {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+        const raw = cryptoUtils.generateSecureToken(5);
+        return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+    await UserRecoveryCodeDAO.replaceAll(
+        userId,
+        codes.map((c) => cryptoUtils.hashSHA512(normalizeRecoveryCode(c)))
+    );
+    return codes;
+};
+
+const consumeRecoveryCode = async (userId: number, code: string) => {
+    const record = await UserRecoveryCodeDAO.getUnused(userId, cryptoUtils.hashSHA512(normalizeRecoveryCode(code)));
+    if (!record) return false;
+    return await UserRecoveryCodeDAO.markUsed(record.id);
+};
+
+// Verifikasi kode dari authenticator untuk secret yang tersimpan (aktif maupun pending).
+// Step yang sudah pernah dipakai ditolak agar kode yang sama tidak bisa di-replay.
+const verifyTotp = async (user: User, code: string) => {
+    if (!user.totp_secret) return false;
+
+    const secret = cryptoUtils.decryptText(user.totp_secret);
+    const step = totp.verifyCode(secret, code);
+    if (step === null) return false;
+    if (user.totp_last_used_step !== null && step <= user.totp_last_used_step) return false;
+
+    await UserDAO.setTotpLastUsedStep(user.id, step);
+    return true;
+};
+
+const verifySecondFactor = async (user: User, code?: string, recoveryCode?: string) => {
+    if (code) return await verifyTotp(user, code);
+    if (recoveryCode) return await consumeRecoveryCode(user.id, recoveryCode);
+    return false;
+};
+
+const beginEnrollment = async (user: User) => {
+    const secret = totp.generateSecret();
+    await UserDAO.setPendingTotpSecret(user.id, cryptoUtils.encryptText(secret));
+
+    const issuer = process.env.TOTP_ISSUER || 'Medical Form';
+    return {
+        secret,
+        otpauth_uri: totp.buildOtpAuthUri(secret, user.username, issuer),
+    };
+};
+
+const signChallengeToken = (user: User) => {
+    return jwt.sign(
+        { purpose: CHALLENGE_PURPOSE, id: user.id },
+        process.env.TOKEN_SECRET as jwt.Secret,
+        { expiresIn: CHALLENGE_TOKEN_EXPIRES_IN }
+    );
+};
+
+const verifyChallengeToken = (token: string): number | null => {
+    try {
+        const decoded = jwt.verify(token, process.env.TOKEN_SECRET as jwt.Secret) as any;
+        if (decoded?.purpose !== CHALLENGE_PURPOSE) return null;
+        return decoded.id;
+    } catch (err) {
+        return null;
+    }
+};
+
+export default {
+    CHALLENGE_TOKEN_EXPIRES_IN,
+    isRequiredForRole,
+    setRequiredForRole,
+    generateRecoveryCodes,
+    verifyTotp,
+    verifySecondFactor,
+    beginEnrollment,
+    signChallengeToken,
+    verifyChallengeToken,
+};
@@ -0,0 +1,164 @@
+import { body_side, body_view, symptom_type } from '@prisma/client';
+
+// Body chart digambar di bidang 200 x 440 per tampilan; koordinat pin disimpan ternormalisasi (0..1)
+export const CHART_WIDTH = 200;
+export const CHART_HEIGHT = 440;
+
+export type ChartShape =
+    | { kind: 'ellipse'; cx: number; cy: number; rx: number; ry: number }
+    | { kind: 'capsule'; x1: number; y1: number; x2: number; y2: number; r: number };
+
+export interface ChartRegion {
+    code: string;
+    side: body_side | null;
+    shape: ChartShape;
+}
+
+export const BODY_VIEWS: body_view[] = ['FRONT', 'BACK', 'LEFT', 'RIGHT'];
+
+export const SYMPTOM_TYPES: symptom_type[] = ['PAIN', 'NUMBNESS', 'TINGLING', 'STIFFNESS', 'SWELLING', 'WEAKNESS', 'BURNING'];
+
+export const SYMPTOM_COLORS: Record<symptom_type, string> = {
+    PAIN: '#dc2626',
+    NUMBNESS: '#2563eb',
+    TINGLING: '#9333ea',
+    STIFFNESS: '#ea580c',
+    SWELLING: '#0891b2',
+    WEAKNESS: '#65a30d',
+    BURNING: '#ca8a04',
+};
+
+export const REGION_LABELS: Record<string, string> = {
+    head: 'Head',
+    neck: 'Neck',
+    shoulder: 'Shoulder',
+    upper_arm: 'Upper arm',
+    elbow: 'Elbow',
+    forearm: 'Forearm',
+    wrist_hand: 'Wrist & hand',
+    chest: 'Chest',
+    abdomen: 'Abdomen',
+    pelvis: 'Pelvis & groin',
+    upper_back: 'Upper back',
+    lower_back: 'Lower back',
+    gluteal: 'Gluteal',
+    trunk: 'Trunk',
+    thigh: 'Thigh',
+    knee: 'Knee',
+    lower_leg: 'Lower leg',
+    ankle_foot: 'Ankle & foot',
+};
+
+const ellipse = (cx: number, cy: number, rx: number, ry: number): ChartShape => ({ kind: 'ellipse', cx, cy, rx, ry });
+const capsule = (x1: number, y1: number, x2: number, y2: number, r: number): ChartShape => ({ kind: 'capsule', x1, y1, x2, y2, r });
+
+const mirror = (shape: ChartShape): ChartShape =>
+    shape.kind === 'ellipse'
+        ? { ...shape, cx: CHART_WIDTH - shape.cx }
+        : { ...shape, x1: CHART_WIDTH - shape.x1, x2: CHART_WIDTH - shape.x2 };
+
+// Anggota gerak sisi kiri gambar (x < 100), dicerminkan untuk sisi lainnya
+const LIMBS: Array<[string, ChartShape]> = [
+    ['shoulder', ellipse(58, 92, 15, 13)],
+    ['upper_arm', capsule(52, 104, 44, 170, 11)],
+    ['elbow', ellipse(43, 180, 10, 10)],
+    ['forearm', capsule(42, 192, 37, 250, 9)],
+    ['wrist_hand', ellipse(36, 268, 10, 17)],
+    ['thigh', capsule(82, 245, 80, 318, 18)],
+    ['knee', ellipse(80, 332, 14, 13)],
+    ['lower_leg', capsule(80, 347, 80, 400, 12)],
+    ['ankle_foot', ellipse(80, 418, 13, 11)],
+];
+
+const HEAD_NECK: ChartRegion[] = [
+    { code: 'head', side: null, shape: ellipse(100, 36, 24, 30) },
+    { code: 'neck', side: null, shape: capsule(100, 64, 100, 80, 10) },
+];
+
+// Tampak depan: sisi kanan pasien ada di kiri gambar. Tampak belakang sebaliknya.
+const frontal = (trunk: string[], viewerLeft: body_side, viewerRight: body_side): ChartRegion[] => [
+    ...HEAD_NECK,
+    { code: trunk[0], side: null, shape: ellipse(100, 122, 42, 36) },
+    { code: trunk[1], side: null, shape: ellipse(100, 182, 35, 28) },
+    { code: trunk[2], side: null, shape: ellipse(100, 226, 40, 22) },
+    ...LIMBS.flatMap(([code, shape]) => [
+        { code, side: viewerLeft, shape },
+        { code, side: viewerRight, shape: mirror(shape) },
+    ]),
+];
+
+// Tampak samping hanya memperlihatkan anggota gerak sisi tersebut
+const lateral = (side: body_side): ChartRegion[] => [
+    { code: 'head', side: null, shape: ellipse(100, 36, 22, 30) },
+    { code: 'neck', side: null, shape: capsule(100, 64, 100, 80, 10) },
+    { code: 'trunk', side: null, shape: capsule(100, 100, 100, 215, 30) },
+    { code: 'thigh', side, shape: capsule(100, 238, 100, 318, 19) },
+    { code: 'knee', side, shape: ellipse(100, 332, 14, 13) },
+    { code: 'lower_leg', side, shape: capsule(100, 347, 100, 400, 12) },
+    { code: 'ankle_foot', side, shape: ellipse(108, 418, 20, 10) },
+    { code: 'shoulder', side, shape: ellipse(100, 95, 14, 13) },
+    { code: 'upper_arm', side, shape: capsule(100, 105, 100, 170, 10) },
+    { code: 'elbow', side, shape: ellipse(100, 180, 9, 9) },
+    { code: 'forearm', side, shape: capsule(100, 190, 104, 248, 8) },
+    { code: 'wrist_hand', side, shape: ellipse(105, 266, 9, 16) },
+];
+
+// Urutan = urutan gambar; region belakangan berada di atas (dipakai juga untuk hit test)
+export const VIEW_REGIONS: Record<body_view, ChartRegion[]> = {
+    FRONT: frontal(['chest', 'abdomen', 'pelvis'], 'RIGHT', 'LEFT'),
+    BACK: frontal(['upper_back', 'lower_back', 'gluteal'], 'LEFT', 'RIGHT'),
+    LEFT: lateral('LEFT'),
+    RIGHT: lateral('RIGHT'),
+};
+
+export function isBodyView(value: any): value is body_view {
+    return typeof value === 'string' && BODY_VIEWS.includes(value as body_view);
+}
+
+export function isSymptomType(value: any): value is symptom_type {
+    return typeof value === 'string' && SYMPTOM_TYPES.includes(value as symptom_type);
+}
+
+export function isRegionCode(value: any): boolean {
+    return typeof value === 'string' && value in REGION_LABELS;
+}
+
+// Jarak titik ke tepi shape (negatif = di dalam); cukup akurat untuk hit test & garis tepi
+export function shapeDistance(shape: ChartShape, x: number, y: number): number {
+    if (shape.kind === 'ellipse') {
+        const k = Math.sqrt(((x - shape.cx) / shape.rx) ** 2 + ((y - shape.cy) / shape.ry) ** 2);
+        return (k - 1) * Math.min(shape.rx, shape.ry);
+    }
+
+    const dx = shape.x2 - shape.x1;
+    const dy = shape.y2 - shape.y1;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq ? Math.max(0, Math.min(1, ((x - shape.x1) * dx + (y - shape.y1) * dy) / lengthSq)) : 0;
+    return Math.hypot(x - (shape.x1 + t * dx), y - (shape.y1 + t * dy)) - shape.r;
+}
+
+export function shapeBounds(shape: ChartShape, margin: number = 0) {
+    if (shape.kind === 'ellipse') {
+        return {
+            minX: shape.cx - shape.rx - margin,
+            maxX: shape.cx + shape.rx + margin,
+            minY: shape.cy - shape.ry - margin,
+            maxY: shape.cy + shape.ry + margin,
+        };
+    }
+    return {
+        minX: Math.min(shape.x1, shape.x2) - shape.r - margin,
+        maxX: Math.max(shape.x1, shape.x2) + shape.r + margin,
+        minY: Math.min(shape.y1, shape.y2) - shape.r - margin,
+        maxY: Math.max(shape.y1, shape.y2) + shape.r + margin,
+    };
+}
+
+// Region pada koordinat ternormalisasi (0..1), null jika di luar siluet
+export function regionAt(view: body_view, x: number, y: number): ChartRegion | null {
+    const regions = VIEW_REGIONS[view];
+    for (let i = regions.length - 1; i >= 0; i--) {
+        if (shapeDistance(regions[i].shape, x * CHART_WIDTH, y * CHART_HEIGHT) <= 0) return regions[i];
+    }
+    return null;
+}
@@ -0,0 +1,107 @@
+import moment from 'moment';
+
+// Zona waktu klinik untuk jam kerja & kalender; hasilnya tidak bergantung pada TZ server
+export const CLINIC_TIMEZONE = process.env.CLINIC_TIMEZONE || 'Asia/Jakarta';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric',
+            weekday: 'short'
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+};
+
+// Komponen tanggal & jam sebuah instant menurut jam dinding klinik
+export function clinicParts(date: Date, timeZone: string = CLINIC_TIMEZONE) {
+    const parts: Record<string, string> = {};
+    for (const part of getFormatter(timeZone).formatToParts(date)) parts[part.type] = part.value;
+    return {
+        year: Number(parts.year),
+        month: Number(parts.month),
+        day: Number(parts.day),
+        hour: Number(parts.hour),
+        minute: Number(parts.minute),
+        second: Number(parts.second),
+        // 0 = Minggu ... 6 = Sabtu, sama dengan Date.getDay()
+        weekday: WEEKDAYS.indexOf(parts.weekday)
+    };
+}
+
+// Selisih jam dinding klinik terhadap UTC pada instant tersebut (ms)
+const offsetAt = (date: Date, timeZone: string) => {
+    const p = clinicParts(date, timeZone);
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+// Instant untuk pukul 00:00 waktu klinik; day boleh melewati batas bulan (dinormalisasi Date.UTC)
+export function clinicMidnight(year: number, month: number, day: number, timeZone: string = CLINIC_TIMEZONE) {
+    const wallClock = Date.UTC(year, month - 1, day);
+    const guess = new Date(wallClock - offsetAt(new Date(wallClock), timeZone));
+    // Koreksi sekali bila offset berbeda di sekitar tengah malam (pergantian DST)
+    return new Date(wallClock - offsetAt(guess, timeZone));
+}
+
+export function startOfClinicDay(date: Date, timeZone: string = CLINIC_TIMEZONE) {
+    const p = clinicParts(date, timeZone);
+    return clinicMidnight(p.year, p.month, p.day, timeZone);
+}
+
+// Geser n hari kalender klinik dari awal hari `date`
+export function addClinicDays(date: Date, days: number, timeZone: string = CLINIC_TIMEZONE) {
+    const p = clinicParts(date, timeZone);
+    return clinicMidnight(p.year, p.month, p.day + days, timeZone);
+}
+
+// Tanggal kalender klinik dalam bentuk nilai kolom @db.Date (00:00 UTC pada tanggal tersebut)
+export function clinicDate(date: Date, timeZone: string = CLINIC_TIMEZONE) {
+    const p = clinicParts(date, timeZone);
+    return new Date(Date.UTC(p.year, p.month - 1, p.day));
+}
+
+// Tanggal kalender dari nilai kolom @db.Date (tepat 00:00 UTC, dipakai apa adanya) atau dari sebuah instant
+export function calendarDate(value: Date, timeZone: string = CLINIC_TIMEZONE) {
+    return value.getTime() % 86400000 === 0 ? new Date(value) : clinicDate(value, timeZone);
+}
+
+export function toClinicHHmm(date: Date, timeZone: string = CLINIC_TIMEZONE) {
+    const p = clinicParts(date, timeZone);
+    return `${String(p.hour).padStart(2, '0')}:${String(p.minute).padStart(2, '0')}`;
+}
+
+export function isSameClinicDay(a: Date, b: Date, timeZone: string = CLINIC_TIMEZONE) {
+    return startOfClinicDay(a, timeZone).getTime() === startOfClinicDay(b, timeZone).getTime();
+}
+
+// Offset jam dinding klinik terhadap UTC pada instant tersebut, dalam menit (untuk moment.utcOffset)
+export function clinicUtcOffset(date: Date, timeZone: string = CLINIC_TIMEZONE) {
+    return Math.round(offsetAt(date, timeZone) / 60000);
+}
+
+// moment pada jam dinding klinik, untuk menampilkan jam & tanggal di template dan PDF
+export function toClinicMoment(value: moment.MomentInput, timeZone: string = CLINIC_TIMEZONE) {
+    const parsed = moment.utc(value);
+    return parsed.isValid() ? parsed.utcOffset(clinicUtcOffset(parsed.toDate(), timeZone)) : parsed;
+}
+
+// Seperti toClinicMoment, tetapi nilai kolom @db.Date (tepat 00:00 UTC) sudah berupa tanggal kalender
+// dan tidak digeser, supaya tanggal lahir/kunjungan tidak mundur sehari di zona waktu barat UTC
+export function toClinicDateMoment(value: moment.MomentInput, timeZone: string = CLINIC_TIMEZONE) {
+    const parsed = moment.utc(value);
+    if (!parsed.isValid() || parsed.valueOf() % 86400000 === 0) return parsed;
+    return parsed.utcOffset(clinicUtcOffset(parsed.toDate(), timeZone));
+}
@@ -3,6 +3,13 @@
 import crypto from 'crypto'
 //const {v4: generateV4UUID} = require("uuid");
 
+// Format hash password baru: $scrypt$N=16384,r=8,p=1$<hex>
+// Salt tetap disimpan di kolom users.salt. Hash tanpa prefix dianggap SHA1 lama.
+const SCRYPT_PREFIX = '$scrypt$'
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 }
+const SCRYPT_KEY_LENGTH = 64
+const SCRYPT_MAX_MEM = 64 * 1024 * 1024
+
 const hashSHA1 = (str: string) => {
     return crypto.createHash('sha1').update(str).digest('hex')
 }
@@ -11,13 +18,99 @@ const hashSHA512 = (str: string) =>{
     return crypto.createHash('sha512').update(str).digest('hex')
 }
 
+const scrypt = (password: string, salt: string, params: { N: number, r: number, p: number }) => {
+    return new Promise<Buffer>((resolve, reject) => {
+        crypto.scrypt(password, salt, SCRYPT_KEY_LENGTH, { ...params, maxmem: SCRYPT_MAX_MEM }, (err, derivedKey) => {
+            if (err) reject(err)
+            else resolve(derivedKey)
+        })
+    })
+}
+
+const parseScryptHash = (stored: string) => {
+    // ['', 'scrypt', 'N=16384,r=8,p=1', '<hex>']
+    const parts = stored.split('$')
+    if (parts.length !== 4 || parts[1] !== 'scrypt') return null
+
+    const params: any = {}
+    for (const pair of parts[2].split(',')) {
+        const [key, value] = pair.split('=')
+        params[key] = parseInt(value)
+    }
+    if (!params.N || !params.r || !params.p) return null
+
+    return { params: params as { N: number, r: number, p: number }, hash: parts[3] }
+}
+
+const safeEqualHex = (a: string, b: string) => {
+    const bufA = Buffer.from(a, 'hex')
+    const bufB = Buffer.from(b, 'hex')
+    if (bufA.length !== bufB.length || bufA.length === 0) return false
+    return crypto.timingSafeEqual(bufA, bufB)
+}
+
+// Kunci enkripsi data sensitif (mis. secret TOTP), fallback ke TOKEN_SECRET
+const getEncryptionKey = () => {
+    const secret = process.env.DATA_ENCRYPTION_KEY || process.env.TOKEN_SECRET || ''
+    return crypto.createHash('sha256').update(secret).digest()
+}
+
+const isLegacyPasswordHash = (stored: string) => {
+    return !stored.startsWith(SCRYPT_PREFIX)
+}
+
 export default {
 
     generateSalt: () => {
         return crypto.randomBytes(20).toString('hex')
     },
-    generatePassword: (password : string, salt: string) => {
-        return hashSHA1(salt + password)
+    generatePassword: async (password : string, salt: string) => {
+        const derivedKey = await scrypt(password, salt, SCRYPT_PARAMS)
+        const { N, r, p } = SCRYPT_PARAMS
+        return `${SCRYPT_PREFIX}N=${N},r=${r},p=${p}$${derivedKey.toString('hex')}`
+    },
+    verifyPassword: async (password: string, salt: string, stored: string) => {
+        if (!password || !stored) return false
+
+        if (isLegacyPasswordHash(stored)) {
+            return safeEqualHex(hashSHA1(salt + password), stored)
+        }
+
+        const parsed = parseScryptHash(stored)
+        if (!parsed) return false
+
+        const derivedKey = await scrypt(password, salt, parsed.params)
+        return safeEqualHex(derivedKey.toString('hex'), parsed.hash)
+    },
+    // true jika hash masih SHA1 atau parameter scrypt sudah tidak sesuai default
+    passwordNeedsRehash: (stored: string) => {
+        if (isLegacyPasswordHash(stored)) return true
+        const parsed = parseScryptHash(stored)
+        if (!parsed) return true
+        const { N, r, p } = SCRYPT_PARAMS
+        return parsed.params.N !== N || parsed.params.r !== r || parsed.params.p !== p
+    },
+
+    // Token acak untuk link reset password dsb. Simpan hanya hash-nya (hashSHA512) di database
+    generateSecureToken: (bytes: number = 32) => {
+        return crypto.randomBytes(bytes).toString('hex')
+    },
+    generateNumericCode: (length: number = 6) => {
+        return Array.from({length: length}, _ => crypto.randomInt(0, 10)).join('')
+    },
+
+    // AES-256-GCM, hasil: <iv>.<authTag>.<ciphertext> (hex)
+    encryptText: (plainText: string) => {
+        const iv = crypto.randomBytes(12)
+        const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv)
+        const encrypted = Buffer.concat([cipher.update(plainText, 'utf8'), cipher.final()])
+        return [iv.toString('hex'), cipher.getAuthTag().toString('hex'), encrypted.toString('hex')].join('.')
+    },
+    decryptText: (payload: string) => {
+        const [iv, authTag, encrypted] = payload.split('.')
+        const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), Buffer.from(iv, 'hex'))
+        decipher.setAuthTag(Buffer.from(authTag, 'hex'))
+        return Buffer.concat([decipher.update(Buffer.from(encrypted, 'hex')), decipher.final()]).toString('utf8')
     },
 
     generateRandomStringWithLength : (length:number) => {
@@ -0,0 +1,61 @@
+export type FieldDiff = Record<string, { before: any; after: any }>;
+
+// Kolom yang tidak perlu dicatat di diff
+export const DEFAULT_IGNORED_FIELDS = ['created_at', 'updated_at', 'modified_at'];
+
+// Decimal/Date -> representasi JSON, undefined -> null
+export const toJsonValue = (value: any) => (value === undefined ? null : JSON.parse(JSON.stringify(value)));
+
+// Kolom administratif medical_history/treatment_log yang bukan isi catatan klinis
+export const CLINICAL_NON_CONTENT_FIELDS = [
+    'created_at',
+    'updated_at',
+    'deleted_at',
+    'deleted_by',
+    'status',
+    'signed_at',
+    'signed_by',
+    'signature_hash',
+];
+
+// Key object diurutkan supaya hasil JSON.stringify deterministik (untuk hashing)
+export const canonicalize = (value: any): any => {
+    if (Array.isArray(value)) return value.map(canonicalize);
+    if (value && typeof value === 'object') {
+        return Object.keys(value).sort().reduce((acc: any, key) => {
+            acc[key] = canonicalize(value[key]);
+            return acc;
+        }, {});
+    }
+    return value;
+};
+
+// Buang relasi hasil include, sisakan kolom tabelnya saja
+export const toSnapshot = (row: Record<string, any>) => {
+    const json = toJsonValue(row);
+    return Object.keys(json).reduce((acc: Record<string, any>, key) => {
+        if (!json[key] || typeof json[key] !== 'object') acc[key] = json[key];
+        return acc;
+    }, {});
+};
+
+export const diffFields = (
+    before: Record<string, any> | null,
+    after: Record<string, any> | null,
+    ignoredFields: string[] = DEFAULT_IGNORED_FIELDS
+): FieldDiff => {
+    const diff: FieldDiff = {};
+    const keys = Object.keys(before ?? after ?? {});
+
+    for (const key of keys) {
+        if (ignoredFields.includes(key)) continue;
+        const oldValue = before ? toJsonValue(before[key]) : null;
+        const newValue = after ? toJsonValue(after[key]) : null;
+        // Relasi (object/array hasil include) tidak ikut di-diff
+        if ((oldValue && typeof oldValue === 'object') || (newValue && typeof newValue === 'object')) continue;
+        if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+            diff[key] = { before: oldValue, after: newValue };
+        }
+    }
+    return diff;
+};
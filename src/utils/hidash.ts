@@ -93,10 +93,22 @@ export default {
         let now = new Date()
         return new Date(now.setMinutes(now.getMinutes() - n))
     },
+    nowPlusMinute: (n: number) => {
+        let now = new Date()
+        return new Date(now.setMinutes(now.getMinutes() + n))
+    },
     nowPlusDay:(n:number)=>{
         let now = new Date()
         return new Date(now.setDate(now.getDate() + n))
     },
+    nowMinusDay:(n:number)=>{
+        let now = new Date()
+        return new Date(now.setDate(now.getDate() - n))
+    },
+    // Kolom Timestamp(0) tidak menyimpan milidetik
+    nowWithoutMillis: () => {
+        return new Date(Math.floor(Date.now() / 1000) * 1000)
+    },
     dynamicSort(property:string, ascending:boolean) {
         let sortOrder = ascending? 1 : -1;
 
@@ -121,6 +133,12 @@ export default {
         return o
     },
     isDate: isDate,
+    // Nilai kosong atau tanggal tidak valid -> null
+    parseDateOrNull: (value: any): Date | null => {
+        if (!value) return null
+        const d = new Date(value)
+        return isNaN(d.getTime()) ? null : d
+    },
     handleDate(o:any){
         return this.isDate(o) ? new Date(o) : null
     },
@@ -4,16 +4,18 @@ export default class infoBipProvider {
 
     static BASE_URL = process.env.INFOBIP_BASE_URL;
     static INFOBIP_API_KEY = process.env.INFOBIP_API_KEY;
-    static async sendWhatsapp(to_phone: string, message: string) {
+    static SENDER = process.env.INFOBIP_WHATSAPP_SENDER;
+
+    // Pesan teks WhatsApp; error diteruskan ke pemanggil supaya bisa di-retry oleh outbox
+    static async sendWhatsapp(to_phone: string, message: string, callback_data?: string) {
         try {
             const data = {
-                "from": "+447860099299",
-                "to": "+62895348736962",
-                "messageId": "test-message-tes",
+                "from": this.SENDER,
+                "to": to_phone,
                 "content": {
-                    "text": "tes"
+                    "text": message
                 },
-                "callbackData": "Callback data"
+                "callbackData": callback_data
             };
             const response = await axios.post(`${this.BASE_URL}/whatsapp/1/message/text`, data, {
                 headers: {
@@ -24,9 +26,10 @@ export default class infoBipProvider {
             });
 
             console.log("[INFOBIP RESPONSE]", response.data);
+            return response.data;
         } catch (err: any) {
             console.log(err?.response?.data?.requestError?.serviceException?.validationErrors)
-            // console.error("[INFOBIP ERROR]", err.response ? err.response.data : err.message);
+            throw err;
         }
     }
-}
\ No newline at end of file
+}
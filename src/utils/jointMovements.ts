@@ -0,0 +1,131 @@
+// Registry sendi & gerakan untuk pengukuran ROM. `normal` mengikuti nilai rujukan AAOS (derajat);
+// `min`/`max` adalah batas wajar input (nilai negatif = defisit ekstensi / hiperekstensi).
+export interface JointMovement {
+    id: string;
+    name: string;
+    normal: number;
+    min: number;
+    max: number;
+    // Gerakan ekstremitas & rotasi/lateral fleksi spine diukur per sisi
+    sided: boolean;
+}
+
+export interface JointDefinition {
+    code: string;
+    name: string;
+    movements: JointMovement[];
+}
+
+const movement = (id: string, name: string, normal: number, min: number, max: number, sided: boolean = true): JointMovement =>
+    ({ id, name, normal, min, max, sided });
+
+export const JOINTS: Record<string, JointDefinition> = {
+    SHOULDER: {
+        code: 'SHOULDER',
+        name: 'Shoulder',
+        movements: [
+            movement('flexion', 'Flexion', 180, 0, 200),
+            movement('extension', 'Extension', 60, 0, 90),
+            movement('abduction', 'Abduction', 180, 0, 200),
+            movement('internal_rotation', 'Internal rotation', 70, 0, 100),
+            movement('external_rotation', 'External rotation', 90, 0, 120),
+        ],
+    },
+    ELBOW: {
+        code: 'ELBOW',
+        name: 'Elbow',
+        movements: [
+            movement('flexion', 'Flexion', 150, 0, 165),
+            movement('extension', 'Extension', 0, -60, 20),
+        ],
+    },
+    FOREARM: {
+        code: 'FOREARM',
+        name: 'Forearm',
+        movements: [
+            movement('pronation', 'Pronation', 80, 0, 100),
+            movement('supination', 'Supination', 80, 0, 100),
+        ],
+    },
+    WRIST: {
+        code: 'WRIST',
+        name: 'Wrist',
+        movements: [
+            movement('flexion', 'Flexion', 80, 0, 100),
+            movement('extension', 'Extension', 70, 0, 95),
+            movement('radial_deviation', 'Radial deviation', 20, 0, 40),
+            movement('ulnar_deviation', 'Ulnar deviation', 30, 0, 50),
+        ],
+    },
+    HIP: {
+        code: 'HIP',
+        name: 'Hip',
+        movements: [
+            movement('flexion', 'Flexion', 120, 0, 140),
+            movement('extension', 'Extension', 30, 0, 45),
+            movement('abduction', 'Abduction', 45, 0, 60),
+            movement('adduction', 'Adduction', 30, 0, 45),
+            movement('internal_rotation', 'Internal rotation', 45, 0, 60),
+            movement('external_rotation', 'External rotation', 45, 0, 70),
+        ],
+    },
+    KNEE: {
+        code: 'KNEE',
+        name: 'Knee',
+        movements: [
+            movement('flexion', 'Flexion', 135, 0, 160),
+            movement('extension', 'Extension', 0, -60, 15),
+        ],
+    },
+    ANKLE: {
+        code: 'ANKLE',
+        name: 'Ankle',
+        movements: [
+            movement('dorsiflexion', 'Dorsiflexion', 20, -20, 40),
+            movement('plantarflexion', 'Plantarflexion', 50, 0, 70),
+            movement('inversion', 'Inversion', 35, 0, 50),
+            movement('eversion', 'Eversion', 15, 0, 30),
+        ],
+    },
+    CERVICAL_SPINE: {
+        code: 'CERVICAL_SPINE',
+        name: 'Cervical spine',
+        movements: [
+            movement('flexion', 'Flexion', 45, 0, 80, false),
+            movement('extension', 'Extension', 45, 0, 90, false),
+            movement('lateral_flexion', 'Lateral flexion', 45, 0, 60),
+            movement('rotation', 'Rotation', 60, 0, 90),
+        ],
+    },
+    LUMBAR_SPINE: {
+        code: 'LUMBAR_SPINE',
+        name: 'Thoracolumbar spine',
+        movements: [
+            movement('flexion', 'Flexion', 80, 0, 110, false),
+            movement('extension', 'Extension', 25, 0, 45, false),
+            movement('lateral_flexion', 'Lateral flexion', 35, 0, 50),
+            movement('rotation', 'Rotation', 45, 0, 60),
+        ],
+    },
+};
+
+export const JOINT_CODES = Object.keys(JOINTS);
+
+// Oxford / MRC manual muscle testing, dengan modifier +/-
+export const MMT_GRADES = ['0', '1', '2-', '2', '2+', '3-', '3', '3+', '4-', '4', '4+', '5'];
+
+export function isJointCode(value: any): boolean {
+    return typeof value === 'string' && value in JOINTS;
+}
+
+export function getMovement(joint: string, movementId: string): JointMovement | null {
+    return JOINTS[joint]?.movements.find((m) => m.id === movementId) ?? null;
+}
+
+// Nilai numerik grade untuk grafik: "4-" = 3.67, "4+" = 4.33
+export function mmtGradeValue(grade: string | null | undefined): number | null {
+    if (!grade || !MMT_GRADES.includes(grade)) return null;
+    const base = parseInt(grade);
+    const modifier = grade.endsWith('+') ? 1 / 3 : grade.endsWith('-') ? -1 / 3 : 0;
+    return Math.round((base + modifier) * 100) / 100;
+}
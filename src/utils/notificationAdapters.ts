@@ -0,0 +1,177 @@
+import fs from 'fs';
+import path from 'path';
+import { notification_channel } from '@prisma/client';
+import EmailService from '../services/EmailService';
+import LogServices from '../services/LogServices';
+import { RenderedNotification } from '../services/NotificationTemplates';
+import Qontak from './qontak';
+import infoBipProvider from './infobipProvider';
+
+export interface NotificationSendResult {
+    message_id: string | null;
+}
+
+// Status pengiriman dari webhook provider, dicocokkan lewat provider_message_id
+export interface NotificationCallbackUpdate {
+    provider_message_id: string;
+    status: 'DELIVERED' | 'FAILED';
+    error?: string | null;
+}
+
+// Lampiran hanya didukung channel EMAIL
+export interface NotificationAttachment {
+    filename: string;
+    content_type: string;
+    content: Buffer;
+}
+
+export interface NotificationAdapter {
+    name: string;
+    send(
+        recipient: string,
+        recipient_name: string | null,
+        content: RenderedNotification,
+        locale: string,
+        attachments?: NotificationAttachment[]
+    ): Promise<NotificationSendResult>;
+    parseCallback?(body: any): NotificationCallbackUpdate[];
+}
+
+// Qontak/Infobip butuh nomor format internasional tanpa '+', mis. 0812... -> 62812...
+export function normalizeWhatsappNumber(phone: string) {
+    const digits = phone.replace(/\D/g, '');
+    return digits.startsWith('0') ? `62${digits.slice(1)}` : digits;
+}
+
+const asArray = (body: any) => (Array.isArray(body) ? body : body ? [body] : []);
+
+export const mailjetEmailAdapter: NotificationAdapter = {
+    name: 'mailjet',
+    send: async (recipient, recipient_name, content, locale, attachments = []) => {
+        const result = await EmailService.sendEmailAsync(
+            recipient,
+            content.subject || '',
+            content.html ?? content.text,
+            {
+                ...(content.html ? { textAlternative: content.text } : { textMode: true }),
+                attachments: attachments.map((attachment) => ({ filename: attachment.filename, content: attachment.content }))
+            }
+        );
+        // Mailjet mengembalikan GUID di akhir response SMTP; GUID ini yang dikirim balik di event webhook
+        return { message_id: result?.response?.split(' ').pop() ?? result?.messageId ?? null };
+    },
+    parseCallback: (body) => asArray(body)
+        .filter((event: any) => event?.Message_GUID && ['sent', 'open', 'click', 'bounce', 'blocked', 'spam'].includes(event.event))
+        .map((event: any) => ({
+            provider_message_id: String(event.Message_GUID),
+            status: ['sent', 'open', 'click'].includes(event.event) ? 'DELIVERED' as const : 'FAILED' as const,
+            error: ['sent', 'open', 'click'].includes(event.event) ? null : `${event.event}${event.error ? `: ${event.error}` : ''}`
+        }))
+};
+
+export const qontakWhatsappAdapter: NotificationAdapter = {
+    name: 'qontak',
+    send: async (recipient, recipient_name, content, locale) => {
+        if (!content.whatsapp?.template_id) throw new Error('No Qontak message template configured for this notification');
+        const response = await Qontak.sendTemplate(
+            recipient_name || recipient,
+            normalizeWhatsappNumber(recipient),
+            content.whatsapp.template_id,
+            content.whatsapp.params,
+            locale
+        );
+        return { message_id: response?.data?.id ?? null };
+    },
+    parseCallback: (body) => asArray(body?.data ?? body)
+        .filter((event: any) => (event?.id || event?.message_id) && ['delivered', 'read', 'failed'].includes(event.status))
+        .map((event: any) => ({
+            provider_message_id: String(event.id ?? event.message_id),
+            status: event.status === 'failed' ? 'FAILED' as const : 'DELIVERED' as const,
+            error: event.status === 'failed' ? (event.error?.message ?? event.error ?? 'failed') : null
+        }))
+};
+
+export const infobipWhatsappAdapter: NotificationAdapter = {
+    name: 'infobip',
+    send: async (recipient, recipient_name, content) => {
+        const response = await infoBipProvider.sendWhatsapp(normalizeWhatsappNumber(recipient), content.whatsapp?.text ?? content.text);
+        return { message_id: response?.messageId ?? response?.messages?.[0]?.messageId ?? null };
+    },
+    parseCallback: (body) => asArray(body?.results)
+        .filter((result: any) => result?.messageId && ['DELIVERED', 'UNDELIVERABLE', 'REJECTED', 'EXPIRED'].includes(result.status?.groupName))
+        .map((result: any) => ({
+            provider_message_id: String(result.messageId),
+            status: result.status.groupName === 'DELIVERED' ? 'DELIVERED' as const : 'FAILED' as const,
+            error: result.status.groupName === 'DELIVERED' ? null : (result.error?.description ?? result.status.description ?? result.status.groupName)
+        }))
+};
+
+// Adapter offline: tidak mengirim apa pun, hanya mencetak ke console dan menulis ke logs/notifications.log.
+// Pesan juga disimpan di memori supaya bisa diperiksa dari test.
+export class ConsoleNotificationAdapter implements NotificationAdapter {
+    name = 'console';
+    sent: Array<{
+        recipient: string;
+        recipient_name: string | null;
+        content: RenderedNotification;
+        locale: string;
+        attachments: Array<{ filename: string; content_type: string; size: number }>;
+        sent_at: Date;
+    }> = [];
+
+    send = async (recipient: string, recipient_name: string | null, content: RenderedNotification, locale: string, attachments: NotificationAttachment[] = []) => {
+        // Isi lampiran tidak ikut ditulis ke log, cukup nama dan ukurannya
+        const files = attachments.map((attachment) => ({
+            filename: attachment.filename,
+            content_type: attachment.content_type,
+            size: attachment.content.length
+        }));
+        const entry = { recipient, recipient_name, content, locale, attachments: files, sent_at: new Date() };
+        this.sent.push(entry);
+
+        console.log(`[NOTIFICATION] to ${recipient}: ${content.subject ?? ''}\n${content.text}`);
+        if (!fs.existsSync(LogServices.logDirectory)) fs.mkdirSync(LogServices.logDirectory);
+        fs.appendFile(path.join(LogServices.logDirectory, 'notifications.log'), JSON.stringify(entry) + '\n', (err) => {
+            if (err) console.error('Failed to write notification log:', err);
+        });
+
+        return { message_id: `console-${Date.now()}-${this.sent.length}` };
+    };
+
+    clear() {
+        this.sent = [];
+    }
+}
+
+export const consoleNotificationAdapter = new ConsoleNotificationAdapter();
+
+const ADAPTERS: Record<string, NotificationAdapter> = {
+    mailjet: mailjetEmailAdapter,
+    qontak: qontakWhatsappAdapter,
+    infobip: infobipWhatsappAdapter,
+    console: consoleNotificationAdapter,
+};
+
+// NOTIFICATION_EMAIL_ADAPTER=mailjet|console, NOTIFICATION_WHATSAPP_ADAPTER=qontak|infobip|console
+const DEFAULT_ADAPTERS: Record<notification_channel, string> = {
+    EMAIL: process.env.NOTIFICATION_EMAIL_ADAPTER || 'mailjet',
+    WHATSAPP: process.env.NOTIFICATION_WHATSAPP_ADAPTER || 'qontak',
+};
+
+const overrides: Partial<Record<notification_channel, NotificationAdapter>> = {};
+
+export function getAdapter(channel: notification_channel): NotificationAdapter {
+    const adapter = overrides[channel] ?? ADAPTERS[DEFAULT_ADAPTERS[channel]];
+    if (!adapter) throw new Error(`Unknown notification adapter for ${channel}: ${DEFAULT_ADAPTERS[channel]}`);
+    return adapter;
+}
+
+export function getAdapterByName(name: string): NotificationAdapter | null {
+    return ADAPTERS[name] ?? null;
+}
+
+// Dipakai test untuk mengganti adapter tanpa mengubah env; null mengembalikan ke default
+export function setAdapter(channel: notification_channel, adapter: NotificationAdapter | null) {
+    if (adapter) overrides[channel] = adapter;
+    else delete overrides[channel];
+}
@@ -0,0 +1,212 @@
+import { outcome_measure_code } from '@prisma/client';
+
+// Cara menghitung skor dari jawaban item yang terisi:
+// - sum: jumlah skor item
+// - percent_of_max: jumlah / (skor maks. x item terisi) x 100 (ODI, NDI)
+// - dash: (rata-rata item - 1) x 25 (QuickDASH)
+export type OutcomeMeasureScoring = 'sum' | 'percent_of_max' | 'dash';
+
+export interface OutcomeMeasureItem {
+    id: string;
+    text: string;
+}
+
+export interface OutcomeMeasureDefinition {
+    code: outcome_measure_code;
+    name: string;
+    description: string;
+    body_region: string | null;
+    items: OutcomeMeasureItem[];
+    item_min: number;
+    item_max: number;
+    max_missing_items: number;
+    scoring: OutcomeMeasureScoring;
+    score_min: number;
+    score_max: number;
+    score_unit: 'points' | 'percent';
+    higher_is_better: boolean;
+    // Minimal clinically important difference, dalam satuan skor
+    mcid: number;
+    // Batas atas (inklusif) tiap kategori interpretasi, urut naik
+    interpretation: Array<{ max: number; label: string }>;
+}
+
+const items = (texts: Record<string, string>): OutcomeMeasureItem[] =>
+    Object.entries(texts).map(([id, text]) => ({ id, text }));
+
+// Registry outcome measure tervalidasi. Teks item diringkas; formulir lengkap mengikuti lisensi masing-masing instrumen.
+export const OUTCOME_MEASURES: Record<outcome_measure_code, OutcomeMeasureDefinition> = {
+    NPRS: {
+        code: 'NPRS',
+        name: 'Numeric Pain Rating Scale',
+        description: 'Self-reported pain intensity from 0 (no pain) to 10 (worst imaginable pain).',
+        body_region: null,
+        items: items({ pain: 'Current pain intensity' }),
+        item_min: 0,
+        item_max: 10,
+        max_missing_items: 0,
+        scoring: 'sum',
+        score_min: 0,
+        score_max: 10,
+        score_unit: 'points',
+        higher_is_better: false,
+        mcid: 2,
+        interpretation: [
+            { max: 0, label: 'No pain' },
+            { max: 3, label: 'Mild pain' },
+            { max: 6, label: 'Moderate pain' },
+            { max: 10, label: 'Severe pain' },
+        ],
+    },
+    ODI: {
+        code: 'ODI',
+        name: 'Oswestry Disability Index',
+        description: 'Disability caused by low back pain across 10 daily activity sections, each scored 0-5.',
+        body_region: 'Lumbar spine',
+        items: items({
+            pain_intensity: 'Pain intensity',
+            personal_care: 'Personal care (washing, dressing)',
+            lifting: 'Lifting',
+            walking: 'Walking',
+            sitting: 'Sitting',
+            standing: 'Standing',
+            sleeping: 'Sleeping',
+            sex_life: 'Sex life',
+            social_life: 'Social life',
+            travelling: 'Travelling',
+        }),
+        item_min: 0,
+        item_max: 5,
+        max_missing_items: 1,
+        scoring: 'percent_of_max',
+        score_min: 0,
+        score_max: 100,
+        score_unit: 'percent',
+        higher_is_better: false,
+        mcid: 10,
+        interpretation: [
+            { max: 20, label: 'Minimal disability' },
+            { max: 40, label: 'Moderate disability' },
+            { max: 60, label: 'Severe disability' },
+            { max: 80, label: 'Crippled' },
+            { max: 100, label: 'Bed-bound or exaggerating symptoms' },
+        ],
+    },
+    NDI: {
+        code: 'NDI',
+        name: 'Neck Disability Index',
+        description: 'Disability caused by neck pain across 10 daily activity sections, each scored 0-5.',
+        body_region: 'Cervical spine',
+        items: items({
+            pain_intensity: 'Pain intensity',
+            personal_care: 'Personal care (washing, dressing)',
+            lifting: 'Lifting',
+            reading: 'Reading',
+            headaches: 'Headaches',
+            concentration: 'Concentration',
+            work: 'Work',
+            driving: 'Driving',
+            sleeping: 'Sleeping',
+            recreation: 'Recreation',
+        }),
+        item_min: 0,
+        item_max: 5,
+        max_missing_items: 1,
+        scoring: 'percent_of_max',
+        score_min: 0,
+        score_max: 100,
+        score_unit: 'percent',
+        higher_is_better: false,
+        mcid: 10,
+        interpretation: [
+            { max: 8, label: 'No disability' },
+            { max: 28, label: 'Mild disability' },
+            { max: 48, label: 'Moderate disability' },
+            { max: 68, label: 'Severe disability' },
+            { max: 100, label: 'Complete disability' },
+        ],
+    },
+    LEFS: {
+        code: 'LEFS',
+        name: 'Lower Extremity Functional Scale',
+        description: 'Difficulty with 20 lower limb activities, each scored 0 (extreme difficulty) to 4 (no difficulty).',
+        body_region: 'Lower extremity',
+        items: items({
+            usual_activities: 'Usual work, housework or school activities',
+            hobbies: 'Usual hobbies, recreational or sporting activities',
+            bath: 'Getting into or out of the bath',
+            walking_rooms: 'Walking between rooms',
+            shoes_socks: 'Putting on shoes or socks',
+            squatting: 'Squatting',
+            lifting_floor: 'Lifting an object, like a bag of groceries, from the floor',
+            light_home: 'Performing light activities around the home',
+            heavy_home: 'Performing heavy activities around the home',
+            car: 'Getting into or out of a car',
+            walking_2_blocks: 'Walking 2 blocks',
+            walking_mile: 'Walking a mile',
+            stairs: 'Going up or down 10 stairs',
+            standing: 'Standing for 1 hour',
+            sitting: 'Sitting for 1 hour',
+            running_even: 'Running on even ground',
+            running_uneven: 'Running on uneven ground',
+            sharp_turns: 'Making sharp turns while running fast',
+            hopping: 'Hopping',
+            rolling_bed: 'Rolling over in bed',
+        }),
+        item_min: 0,
+        item_max: 4,
+        max_missing_items: 0,
+        scoring: 'sum',
+        score_min: 0,
+        score_max: 80,
+        score_unit: 'points',
+        higher_is_better: true,
+        mcid: 9,
+        interpretation: [
+            { max: 20, label: 'Extreme functional limitation' },
+            { max: 40, label: 'Severe functional limitation' },
+            { max: 60, label: 'Moderate functional limitation' },
+            { max: 80, label: 'Minimal functional limitation' },
+        ],
+    },
+    QUICKDASH: {
+        code: 'QUICKDASH',
+        name: 'QuickDASH',
+        description: 'Upper limb disability and symptoms over the past week, 11 items scored 1 (none) to 5 (extreme).',
+        body_region: 'Upper extremity',
+        items: items({
+            tight_jar: 'Open a tight or new jar',
+            heavy_chores: 'Do heavy household chores',
+            carry_bag: 'Carry a shopping bag or briefcase',
+            wash_back: 'Wash your back',
+            knife: 'Use a knife to cut food',
+            recreation: 'Recreational activities with force or impact through the arm, shoulder or hand',
+            social: 'Interference with normal social activities',
+            work_limited: 'Limitation in work or other regular daily activities',
+            pain: 'Arm, shoulder or hand pain',
+            tingling: 'Tingling (pins and needles) in the arm, shoulder or hand',
+            sleeping: 'Difficulty sleeping because of pain',
+        }),
+        item_min: 1,
+        item_max: 5,
+        max_missing_items: 1,
+        scoring: 'dash',
+        score_min: 0,
+        score_max: 100,
+        score_unit: 'points',
+        higher_is_better: false,
+        mcid: 8,
+        interpretation: [
+            { max: 20, label: 'No or mild disability' },
+            { max: 40, label: 'Moderate disability' },
+            { max: 60, label: 'Severe disability' },
+            { max: 100, label: 'Extreme disability' },
+        ],
+    },
+};
+
+export const OUTCOME_MEASURE_CODES = Object.keys(OUTCOME_MEASURES) as outcome_measure_code[];
+
+export function isOutcomeMeasureCode(value: any): value is outcome_measure_code {
+    return typeof value === 'string' && value in OUTCOME_MEASURES;
+}
@@ -0,0 +1,292 @@
+import zlib from 'zlib';
+
+/**
+ * Penulis PDF minimal tanpa dependency (tanpa headless browser): teks Helvetica standar
+ * (WinAnsi), garis, kotak, lingkaran dan gambar RGB. Koordinat memakai titik (pt) dengan
+ * origin di kiri atas halaman; konversi ke koordinat PDF dilakukan di sini.
+ */
+
+export const A4 = { width: 595.28, height: 841.89 };
+
+export interface TextOptions {
+    size?: number;
+    bold?: boolean;
+    color?: string;
+    align?: 'left' | 'center' | 'right';
+    // Lebar acuan untuk align center/right
+    width?: number;
+}
+
+export interface ShapeOptions {
+    fill?: string;
+    stroke?: string;
+    lineWidth?: number;
+    dash?: number[];
+}
+
+// Lebar glyph Helvetica / Helvetica-Bold (AFM, per 1000 unit) untuk karakter 32..126
+const HELVETICA_WIDTHS = [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+    556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556,
+    556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+    556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611,
+    611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+const DEFAULT_GLYPH_WIDTH = 556;
+
+// Karakter di luar Latin-1 (dan blok kontrol 0x80-0x9F) tidak ada di font standar
+const toWinAnsi = (text: string) =>
+    String(text ?? '')
+        .replace(/[\r\n\t]+/g, ' ')
+        .replace(/[‘’]/g, "'")
+        .replace(/[“”]/g, '"')
+        .replace(/[–—]/g, '-')
+        .replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+
+const escapePdfString = (text: string) => text.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+
+const num = (value: number) => (Math.round(value * 100) / 100).toString();
+
+const colorOp = (hex: string, op: 'rg' | 'RG') => {
+    const r = parseInt(hex.slice(1, 3), 16) / 255;
+    const g = parseInt(hex.slice(3, 5), 16) / 255;
+    const b = parseInt(hex.slice(5, 7), 16) / 255;
+    return `${num(r)} ${num(g)} ${num(b)} ${op}`;
+};
+
+interface PdfImage {
+    name: string;
+    width: number;
+    height: number;
+    data: Buffer;
+}
+
+export class PdfDocument {
+    readonly width: number;
+    readonly height: number;
+    private pages: string[][] = [];
+    private current = -1;
+    private images: PdfImage[] = [];
+    private title: string;
+
+    constructor(options?: { title?: string; width?: number; height?: number }) {
+        this.width = options?.width ?? A4.width;
+        this.height = options?.height ?? A4.height;
+        this.title = options?.title ?? '';
+    }
+
+    get pageCount() {
+        return this.pages.length;
+    }
+
+    addPage() {
+        this.pages.push([]);
+        this.current = this.pages.length - 1;
+        return this;
+    }
+
+    // Pindah ke halaman yang sudah ada (mis. untuk menulis footer "halaman x dari y")
+    setPage(index: number) {
+        if (index < 0 || index >= this.pages.length) throw new Error(`Page ${index} does not exist`);
+        this.current = index;
+        return this;
+    }
+
+    measure(text: string, size: number = 10, bold: boolean = false) {
+        const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+        let total = 0;
+        for (const char of toWinAnsi(text)) {
+            const code = char.charCodeAt(0);
+            total += code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_GLYPH_WIDTH;
+        }
+        return (total * size) / 1000;
+    }
+
+    // Pecah teks menjadi baris yang muat di `maxWidth`; kata yang terlalu panjang dipotong paksa
+    wrap(text: string, maxWidth: number, size: number = 10, bold: boolean = false): string[] {
+        const lines: string[] = [];
+        for (const paragraph of String(text ?? '').split(/\r?\n/)) {
+            let line = '';
+            for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+                const candidate = line ? `${line} ${word}` : word;
+                if (this.measure(candidate, size, bold) <= maxWidth) {
+                    line = candidate;
+                    continue;
+                }
+                if (line) lines.push(line);
+                let rest = word;
+                while (this.measure(rest, size, bold) > maxWidth && rest.length > 1) {
+                    let cut = rest.length - 1;
+                    while (cut > 1 && this.measure(rest.slice(0, cut), size, bold) > maxWidth) cut--;
+                    lines.push(rest.slice(0, cut));
+                    rest = rest.slice(cut);
+                }
+                line = rest;
+            }
+            lines.push(line);
+        }
+        return lines;
+    }
+
+    // `y` adalah baseline teks, diukur dari atas halaman
+    text(x: number, y: number, text: string, options?: TextOptions) {
+        const size = options?.size ?? 10;
+        const bold = options?.bold ?? false;
+        let left = x;
+        if (options?.align && options.align !== 'left' && options.width !== undefined) {
+            const free = options.width - this.measure(text, size, bold);
+            left = options.align === 'center' ? x + free / 2 : x + free;
+        }
+
+        this.push(
+            'BT',
+            colorOp(options?.color ?? '#111827', 'rg'),
+            `/${bold ? 'F2' : 'F1'} ${num(size)} Tf`,
+            `${num(left)} ${num(this.height - y)} Td`,
+            `(${escapePdfString(toWinAnsi(text))}) Tj`,
+            'ET'
+        );
+        return this;
+    }
+
+    line(x1: number, y1: number, x2: number, y2: number, options?: ShapeOptions) {
+        this.push(
+            'q',
+            colorOp(options?.stroke ?? '#111827', 'RG'),
+            `${num(options?.lineWidth ?? 1)} w`,
+            options?.dash ? `[${options.dash.map(num).join(' ')}] 0 d` : '',
+            `${num(x1)} ${num(this.height - y1)} m ${num(x2)} ${num(this.height - y2)} l S`,
+            'Q'
+        );
+        return this;
+    }
+
+    polyline(points: Array<[number, number]>, options?: ShapeOptions) {
+        if (points.length < 2) return this;
+        const path = points
+            .map(([x, y], index) => `${num(x)} ${num(this.height - y)} ${index === 0 ? 'm' : 'l'}`)
+            .join(' ');
+        this.push('q', colorOp(options?.stroke ?? '#111827', 'RG'), `${num(options?.lineWidth ?? 1)} w`, '1 j', `${path} S`, 'Q');
+        return this;
+    }
+
+    rect(x: number, y: number, width: number, height: number, options?: ShapeOptions) {
+        this.push('q', ...this.paint(options, `${num(x)} ${num(this.height - y - height)} ${num(width)} ${num(height)} re`), 'Q');
+        return this;
+    }
+
+    circle(cx: number, cy: number, radius: number, options?: ShapeOptions) {
+        // Empat kurva Bezier; k = 4/3 * (sqrt(2) - 1)
+        const k = radius * 0.5523;
+        const y = this.height - cy;
+        const path = [
+            `${num(cx + radius)} ${num(y)} m`,
+            `${num(cx + radius)} ${num(y + k)} ${num(cx + k)} ${num(y + radius)} ${num(cx)} ${num(y + radius)} c`,
+            `${num(cx - k)} ${num(y + radius)} ${num(cx - radius)} ${num(y + k)} ${num(cx - radius)} ${num(y)} c`,
+            `${num(cx - radius)} ${num(y - k)} ${num(cx - k)} ${num(y - radius)} ${num(cx)} ${num(y - radius)} c`,
+            `${num(cx + k)} ${num(y - radius)} ${num(cx + radius)} ${num(y - k)} ${num(cx + radius)} ${num(y)} c`,
+        ].join(' ');
+        this.push('q', ...this.paint(options, path), 'Q');
+        return this;
+    }
+
+    /**
+     * Gambar RGB 8-bit (width x height piksel) yang diskalakan ke kotak `box` dalam pt.
+     * Gambar yang sama bisa dipakai ulang dengan memanggil image() beberapa kali.
+     */
+    image(rgb: Buffer, pixelWidth: number, pixelHeight: number, box: { x: number; y: number; width: number; height: number }) {
+        let image = this.images.find((candidate) => candidate.data === rgb);
+        if (!image) {
+            image = { name: `Im${this.images.length + 1}`, width: pixelWidth, height: pixelHeight, data: rgb };
+            this.images.push(image);
+        }
+        this.push(
+            'q',
+            `${num(box.width)} 0 0 ${num(box.height)} ${num(box.x)} ${num(this.height - box.y - box.height)} cm`,
+            `/${image.name} Do`,
+            'Q'
+        );
+        return this;
+    }
+
+    toBuffer(): Buffer {
+        const objects: Buffer[] = [];
+        const add = (body: string | Buffer) => {
+            objects.push(typeof body === 'string' ? Buffer.from(body, 'latin1') : body);
+            return objects.length;
+        };
+        const stream = (dict: string, data: Buffer) =>
+            Buffer.concat([Buffer.from(`<< ${dict} /Length ${data.length} >>\nstream\n`, 'latin1'), data, Buffer.from('\nendstream', 'latin1')]);
+
+        const catalogId = add('');
+        const pagesId = add('');
+        const regularFontId = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+        const boldFontId = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+        const imageIds = this.images.map((image) =>
+            add(stream(
+                `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /FlateDecode`,
+                zlib.deflateSync(image.data)
+            ))
+        );
+        const xObjects = this.images.map((image, index) => `/${image.name} ${imageIds[index]} 0 R`).join(' ');
+        const resources = `<< /Font << /F1 ${regularFontId} 0 R /F2 ${boldFontId} 0 R >>${xObjects ? ` /XObject << ${xObjects} >>` : ''} >>`;
+
+        const pageIds = this.pages.map((operations) => {
+            const contentId = add(stream('/Filter /FlateDecode', zlib.deflateSync(Buffer.from(operations.join('\n'), 'latin1'))));
+            return add(
+                `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${num(this.width)} ${num(this.height)}] /Resources ${resources} /Contents ${contentId} 0 R >>`
+            );
+        });
+
+        objects[catalogId - 1] = Buffer.from(`<< /Type /Catalog /Pages ${pagesId} 0 R >>`, 'latin1');
+        objects[pagesId - 1] = Buffer.from(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`, 'latin1');
+        const infoId = add(`<< /Title (${escapePdfString(toWinAnsi(this.title))}) /Producer (medical_form) >>`);
+
+        const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+        let offset = chunks[0].length;
+        const offsets: number[] = [];
+        objects.forEach((body, index) => {
+            const chunk = Buffer.concat([Buffer.from(`${index + 1} 0 obj\n`, 'latin1'), body, Buffer.from('\nendobj\n', 'latin1')]);
+            offsets.push(offset);
+            offset += chunk.length;
+            chunks.push(chunk);
+        });
+
+        const xref = [
+            'xref',
+            `0 ${objects.length + 1}`,
+            '0000000000 65535 f ',
+            ...offsets.map((value) => `${String(value).padStart(10, '0')} 00000 n `),
+            'trailer',
+            `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>`,
+            'startxref',
+            String(offset),
+            '%%EOF',
+        ].join('\n');
+        chunks.push(Buffer.from(xref, 'latin1'));
+        return Buffer.concat(chunks);
+    }
+
+    private paint(options: ShapeOptions | undefined, path: string) {
+        const fill = options?.fill;
+        const stroke = options?.stroke;
+        const ops = [
+            fill ? colorOp(fill, 'rg') : '',
+            stroke ? colorOp(stroke, 'RG') : '',
+            stroke ? `${num(options?.lineWidth ?? 1)} w` : '',
+            options?.dash ? `[${options.dash.map(num).join(' ')}] 0 d` : '',
+        ];
+        ops.push(`${path} ${fill && stroke ? 'B' : fill ? 'f' : 'S'}`);
+        return ops;
+    }
+
+    private push(...operations: string[]) {
+        if (this.current < 0) this.addPage();
+        this.pages[this.current].push(...operations.filter(Boolean));
+    }
+}
@@ -0,0 +1,133 @@
+import NotificationTemplates, { NotificationLocale } from '../services/NotificationTemplates';
+import { PdfDocument } from './pdfDocument';
+import { toClinicDateMoment, toClinicMoment } from './clinicTime';
+require('moment/locale/id');
+
+export const REPORT_MARGIN = 40;
+const FOOTER_HEIGHT = 40;
+
+export const REPORT_COLORS = {
+    brand: '#0f766e',
+    muted: '#6b7280',
+    border: '#d1d5db',
+    text: '#111827',
+};
+
+// Identitas klinik: env lebih dulu, nama jatuh ke _common.json template notifikasi
+export const getClinic = (locale: NotificationLocale) => ({
+    name: process.env.CLINIC_NAME || NotificationTemplates.getCommon(locale).clinic_name || 'Clinic',
+    address: process.env.CLINIC_ADDRESS || '',
+    phone: process.env.CLINIC_PHONE || '',
+});
+
+/**
+ * Kerangka laporan klinis A4 di atas PdfDocument: kop klinik, judul section, pindah halaman
+ * otomatis dan footer "halaman x dari y". `y` adalah posisi kursor vertikal saat ini.
+ */
+export class PdfReport {
+    readonly doc: PdfDocument;
+    readonly locale: NotificationLocale;
+    readonly left = REPORT_MARGIN;
+    readonly contentWidth: number;
+    readonly bottom: number;
+    y = REPORT_MARGIN;
+
+    constructor(options: { title: string; locale: NotificationLocale; generatedLabel: string; documentTitle?: string }) {
+        this.locale = options.locale;
+        this.doc = new PdfDocument({ title: options.documentTitle ?? options.title });
+        this.contentWidth = this.doc.width - REPORT_MARGIN * 2;
+        this.bottom = this.doc.height - FOOTER_HEIGHT - REPORT_MARGIN / 2;
+        this.doc.addPage();
+        this.header(options.title, options.generatedLabel);
+    }
+
+    formatDate(date: Date | string | null | undefined) {
+        return date ? toClinicDateMoment(date).locale(this.locale).format('D MMM YYYY') : '-';
+    }
+
+    formatDateTime(date: Date | string | null | undefined) {
+        return date ? toClinicMoment(date).locale(this.locale).format('D MMM YYYY HH:mm') : '-';
+    }
+
+    // Pindah halaman bila sisa ruang kurang dari `height`; true jika halaman baru dibuat
+    ensure(height: number) {
+        if (this.y + height <= this.bottom) return false;
+        this.doc.addPage();
+        this.y = REPORT_MARGIN;
+        return true;
+    }
+
+    sectionTitle(title: string, spaceNeeded: number) {
+        this.ensure(spaceNeeded + 24);
+        this.doc.text(this.left, this.y + 12, title, { size: 12, bold: true, color: REPORT_COLORS.brand });
+        this.doc.line(this.left, this.y + 17, this.left + this.contentWidth, this.y + 17, { stroke: REPORT_COLORS.border, lineWidth: 0.5 });
+        this.y += 28;
+    }
+
+    // Pasangan label/nilai dalam dua kolom; nilai yang terlalu panjang dipotong satu baris
+    keyValues(rows: Array<[string, string]>, options?: { labelWidth?: number; boldFirst?: boolean }) {
+        const columnWidth = this.contentWidth / 2;
+        const labelWidth = options?.labelWidth ?? 80;
+        rows.forEach(([label, value], index) => {
+            const x = this.left + (index % 2) * columnWidth;
+            const rowY = this.y + Math.floor(index / 2) * 16;
+            this.doc.text(x, rowY, label, { size: 9, color: REPORT_COLORS.muted });
+            this.doc.text(x + labelWidth, rowY, this.doc.wrap(value, columnWidth - labelWidth - 10, 9)[0], {
+                size: 9,
+                bold: options?.boldFirst && index === 0
+            });
+        });
+        this.y += Math.ceil(rows.length / 2) * 16;
+    }
+
+    // Teks bebas yang dibungkus per baris, bisa berlanjut ke halaman berikutnya
+    paragraph(text: string, options?: { size?: number; color?: string; indent?: number }) {
+        const size = options?.size ?? 9;
+        const indent = options?.indent ?? 0;
+        const lineHeight = size + 3;
+        for (const line of this.doc.wrap(text, this.contentWidth - indent, size)) {
+            this.ensure(lineHeight);
+            this.doc.text(this.left + indent, this.y + size, line, { size, color: options?.color });
+            this.y += lineHeight;
+        }
+    }
+
+    // Garis tanda tangan di kanan dengan keterangan & nama di bawahnya
+    signatureLine(caption: string, name: string | null | undefined) {
+        const width = 180;
+        const x = this.left + this.contentWidth - width;
+        this.doc.line(x, this.y + 50, this.left + this.contentWidth, this.y + 50, { stroke: REPORT_COLORS.text, lineWidth: 0.75 });
+        this.doc.text(x, this.y + 62, caption, { size: 8, color: REPORT_COLORS.muted, align: 'center', width });
+        this.doc.text(x, this.y + 74, name || '', { size: 9, bold: true, align: 'center', width });
+    }
+
+    // Footer tiap halaman ditulis setelah jumlah halaman diketahui
+    finish(footerText: string, pageLabel: (page: number, total: number) => string): Buffer {
+        for (let page = 0; page < this.doc.pageCount; page++) {
+            this.doc.setPage(page);
+            const footerY = this.doc.height - REPORT_MARGIN / 2 - 6;
+            this.doc.line(this.left, footerY - 12, this.left + this.contentWidth, footerY - 12, { stroke: REPORT_COLORS.border, lineWidth: 0.5 });
+            this.doc.text(this.left, footerY, footerText, { size: 7.5, color: REPORT_COLORS.muted });
+            this.doc.text(this.left, footerY, pageLabel(page + 1, this.doc.pageCount), {
+                size: 7.5, color: REPORT_COLORS.muted, align: 'right', width: this.contentWidth
+            });
+        }
+        return this.doc.toBuffer();
+    }
+
+    private header(title: string, generatedLabel: string) {
+        const clinic = getClinic(this.locale);
+        const doc = this.doc;
+        doc.rect(0, 0, doc.width, 6, { fill: REPORT_COLORS.brand });
+        doc.text(this.left, this.y + 14, clinic.name, { size: 16, bold: true, color: REPORT_COLORS.brand });
+        const contact = [clinic.address, clinic.phone].filter(Boolean).join('  |  ');
+        if (contact) doc.text(this.left, this.y + 30, contact, { size: 9, color: REPORT_COLORS.muted });
+        doc.text(this.left, this.y + 14, title, { size: 12, bold: true, align: 'right', width: this.contentWidth });
+        doc.text(this.left, this.y + 30, `${generatedLabel}: ${this.formatDateTime(new Date())}`, {
+            size: 9, color: REPORT_COLORS.muted, align: 'right', width: this.contentWidth
+        });
+        this.y += 42;
+        doc.line(this.left, this.y, this.left + this.contentWidth, this.y, { stroke: REPORT_COLORS.brand, lineWidth: 1.5 });
+        this.y += 16;
+    }
+}
@@ -0,0 +1,114 @@
+import { users_role } from '@prisma/client';
+
+// Registry semua permission yang dikenal sistem. Key dipakai di requirePermission(...)
+// dan di tabel role_permission (override dari admin).
+export const PERMISSIONS = {
+    'patient:read': 'View patients and patient statistics',
+    'patient:write': 'Create and update patients',
+    'patient:delete': 'Delete patients',
+    'patient:export': 'Export patients to CSV',
+    'patient:read_all': 'Access every patient regardless of care team assignment',
+    'patient:assign': 'Manage patient care teams and review emergency access',
+    'patient:emergency_access': 'Open temporary break-the-glass access to an unassigned patient',
+
+    'medical_history:read': 'View medical histories and progress reports',
+    'medical_history:write': 'Create and update medical histories',
+    'medical_history:sign': 'Sign (finalize) medical histories',
+    'medical_history:delete': 'Delete medical histories',
+    'medical_history:export': 'Export medical histories to CSV',
+
+    'treatment_plan:read': 'View treatment plans',
+    'treatment_plan:write': 'Create and update treatment plans',
+    'treatment_plan:delete': 'Delete treatment plans',
+    'treatment_plan:reopen': 'Reopen completed or cancelled treatment plans',
+
+    'treatment_log:read': 'View treatment logs',
+    'treatment_log:write': 'Create and update treatment logs',
+    'treatment_log:sign': 'Sign (finalize) treatment logs',
+    'treatment_log:delete': 'Delete treatment logs',
+
+    'appointment:read': 'View appointments and clinician calendars',
+    'appointment:write': 'Book, reschedule, check in and complete appointments',
+    'appointment:delete': 'Delete appointments',
+
+    'exercise:read': 'View the home exercise library',
+    'exercise:write': 'Create, update and deactivate exercises in the library',
+
+    'outcome_measure:read': 'View outcome measure results and change over time',
+    'outcome_measure:write': 'Administer and delete outcome measures',
+
+    'staff:read': 'View staff',
+    'staff:write': 'Create, update and reactivate staff',
+    'staff:delete': 'Deactivate staff',
+
+    'upload:file': 'Upload files and images',
+    'upload:3d_file': 'Upload 3D files',
+
+    'user:list': 'List users by role (e.g. doctor picker)',
+    'user:read': 'View all user accounts',
+    'user:manage': 'Create, delete, restore users and change roles/passwords',
+    'user:security': 'Manage sessions, login lockouts and two-factor policy',
+
+    'permission:manage': 'Edit the role permission matrix',
+    'audit:read': 'Query the clinical audit log and verify its integrity',
+    'trash:manage': 'View, restore and permanently delete soft-deleted clinical records',
+    'reminder:read': 'View the appointment and follow-up reminder delivery log',
+    'notification:manage': 'Inspect the notification outbox and resend failed notifications',
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+export function isPermission(value: any): value is Permission {
+    return typeof value === 'string' && value in PERMISSIONS;
+}
+
+// Permission bawaan per role, bisa di-override admin lewat tabel role_permission
+export const DEFAULT_ROLE_PERMISSIONS: Record<users_role, Permission[]> = {
+    ADMIN: ALL_PERMISSIONS,
+    DOCTOR: [
+        'patient:read',
+        'patient:write',
+        'patient:emergency_access',
+        'medical_history:read',
+        'medical_history:write',
+        'medical_history:sign',
+        'treatment_plan:read',
+        'treatment_plan:write',
+        'treatment_log:read',
+        'treatment_log:write',
+        'treatment_log:sign',
+        'appointment:read',
+        'appointment:write',
+        'exercise:read',
+        'exercise:write',
+        'outcome_measure:read',
+        'outcome_measure:write',
+        'staff:read',
+        'upload:file',
+        'user:list',
+    ],
+    THERAPIST: [
+        'patient:read',
+        'patient:write',
+        'patient:emergency_access',
+        'medical_history:read',
+        'treatment_plan:read',
+        'treatment_log:read',
+        'treatment_log:write',
+        'treatment_log:sign',
+        'appointment:read',
+        'appointment:write',
+        'exercise:read',
+        'exercise:write',
+        'outcome_measure:read',
+        'outcome_measure:write',
+        'staff:read',
+        'upload:file',
+        'user:list',
+    ],
+};
+
+// Permission yang tidak boleh dicabut dari ADMIN agar admin tidak mengunci dirinya sendiri
+export const LOCKED_ADMIN_PERMISSIONS: Permission[] = ['permission:manage'];
@@ -62,115 +62,25 @@ export default class Qontak {
 		}
 	};
 
-	static sendInvitation = async (name: string, phone: string, title: string, invitation_link: string) => {
-		const requestBody = {
-			to_number: phone,
-			to_name: name,
-			message_template_id: 'cc0bb2df-bcb1-4d26-a4fd-fc0df88237f4',
-			channel_integration_id: '149930ba-848e-4802-ab81-b9c8be186961',
-			language: {
-				code: 'id',
-			},
-			parameters: {
-				header: {
-					format: 'IMAGE',
-					params: [
-						{
-							key: 'url',
-							value: 'https://premiere-api.komunestudio.com/public/whatsapp_invitation_header.png',
-						},
-					],
-				},
-				body: [
-					{
-						key: '1',
-						value: 'invitation_link',
-						value_text: invitation_link,
-					},
-				],
-			},
-		};
-
-		return await this.fetch('/qontak/chat/v1/broadcasts/whatsapp/direct', 'POST', requestBody);
-	};
-
-	static sendCheckInConfirmation = async (
+	// Kirim pesan template WhatsApp; template ID dan parameter ditentukan oleh NotificationTemplates
+	static sendTemplate = async (
 		name: string,
 		phone: string,
-		title: string,
-		studio_name: string,
-		seats: string
+		message_template_id: string,
+		body: Array<{ key: string; value: string; value_text: string }>,
+		language: string = 'id'
 	) => {
 		const requestBody = {
 			to_number: phone,
 			to_name: name,
-			message_template_id: 'e9b76cb8-70a0-40f3-ad98-68557fca750c',
-			channel_integration_id: '149930ba-848e-4802-ab81-b9c8be186961',
+			message_template_id,
+			channel_integration_id: process.env.QONTAK_CHANNEL_INTEGRATION_ID,
 			language: {
-				code: 'id',
+				code: language,
 			},
 			parameters: {
-				body: [
-					{
-						key: '1',
-						value: 'full_name',
-						value_text: name,
-					},
-					{
-						key: '2',
-						value: 'title',
-						value_text: title,
-					},
-					{
-						key: '3',
-						value: 'studio_name',
-						value_text: studio_name,
-					},
-					{
-						key: '4',
-						value: 'seats',
-						value_text: seats,
-					},
-				],
-			},
-		};
-
-		this.fetch('/qontak/chat/v1/broadcasts/whatsapp/direct', 'POST', requestBody);
-	};
-
-	static sendReminderToUnansweredInvitation = async (name: string, phone: string, invitation_link: string) => {
-		const requestBody = {
-			to_number: phone,
-			to_name: name,
-			message_template_id: '118dc055-a0d3-4709-98b5-62cc5242c1e4',
-			channel_integration_id: '149930ba-848e-4802-ab81-b9c8be186961',
-			language: {
-				code: 'id',
-			},
-			parameters: {
-				body: [
-					{
-						key: '1',
-						value: 'invitation_link',
-						value_text: invitation_link,
-					},
-				],
-			},
-		};
-
-		return await this.fetch('/qontak/chat/v1/broadcasts/whatsapp/direct', 'POST', requestBody);
-	};
-
-	static sendReminderToAcceptedInvitation = async (name: string, phone: string) => {
-		const requestBody = {
-			to_number: phone,
-			to_name: name,
-			message_template_id: 'fedaf1eb-5d3d-4696-927c-ee5549a0dc40',
-			channel_integration_id: '149930ba-848e-4802-ab81-b9c8be186961',
-			language: {
-				code: 'id',
+				body,
 			},
-			parameters: {},
 		};
 
 		return await this.fetch('/qontak/chat/v1/broadcasts/whatsapp/direct', 'POST', requestBody);
@@ -0,0 +1,24 @@
+import { Request } from 'express';
+
+/**
+ * Nilai `trust proxy` Express dari env TRUST_PROXY: jumlah hop (mis. 1), true/false, atau daftar
+ * IP/subnet/preset proxy tepercaya (mis. "loopback, 10.0.0.0/8"). Default false: X-Forwarded-For
+ * diabaikan sehingga klien tidak bisa memalsukan IP untuk lolos dari throttle login.
+ */
+export function resolveTrustProxy(value: string | undefined = process.env.TRUST_PROXY): boolean | number | string {
+    const trimmed = value?.trim();
+    if (!trimmed || trimmed === 'false') return false;
+    if (trimmed === 'true') return true;
+    if (/^\d+$/.test(trimmed)) return parseInt(trimmed);
+    return trimmed;
+}
+
+// req.ip hanya membaca X-Forwarded-For dari proxy yang dipercaya lewat setting `trust proxy`
+export function getClientIp(req: Request): string | null {
+    return (req.ip || req.socket?.remoteAddress)?.slice(0, 45) || null;
+}
+
+export function getUserAgent(req: Request): string | null {
+    const userAgent = req.headers['user-agent'];
+    return userAgent ? userAgent.slice(0, 255) : null;
+}
@@ -0,0 +1,167 @@
+import { toClinicDateMoment, toClinicMoment } from './clinicTime';
+
+/**
+ * Template engine kecil bergaya Mustache untuk template notifikasi:
+ *   {{name}}                 variabel, di-escape HTML pada mode html
+ *   {{{content}}}            variabel tanpa escape
+ *   {{start_at | datetime}}  filter: date, datetime, time (jam klinik), upper, lower, default:"-"
+ *   {{#items}}..{{/items}}   section: diulang untuk array, tampil jika nilai ada
+ *   {{^items}}..{{/items}}   inverted section: tampil jika kosong / array kosong
+ * Angka 0 dianggap ada (mis. skala nyeri 0), berbeda dengan Mustache.
+ *   {{.}}                    item saat ini di dalam section array
+ */
+
+export interface RenderOptions {
+    escape: boolean;
+    locale: string;
+}
+
+type Node =
+    | { type: 'text'; value: string }
+    | { type: 'var'; expression: string; raw: boolean }
+    | { type: 'section'; name: string; inverted: boolean; children: Node[] };
+
+const TAG_PATTERN = /\{\{\{\s*([\s\S]+?)\s*\}\}\}|\{\{\s*([#^/]?)\s*([\s\S]+?)\s*\}\}/g;
+
+export class TemplateSyntaxError extends Error {}
+
+function parse(template: string): Node[] {
+    const root: Node[] = [];
+    const stack: Array<{ name: string; children: Node[] }> = [{ name: '', children: root }];
+    const pattern = new RegExp(TAG_PATTERN.source, 'g');
+    let cursor = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(template)) !== null) {
+        const current = stack[stack.length - 1];
+        if (match.index > cursor) current.children.push({ type: 'text', value: template.slice(cursor, match.index) });
+        cursor = match.index + match[0].length;
+
+        if (match[1] !== undefined) {
+            current.children.push({ type: 'var', expression: match[1], raw: true });
+        } else if (match[2] === '#' || match[2] === '^') {
+            const section: Node = { type: 'section', name: match[3], inverted: match[2] === '^', children: [] };
+            current.children.push(section);
+            stack.push({ name: match[3], children: section.children });
+        } else if (match[2] === '/') {
+            if (stack.length === 1 || current.name !== match[3]) {
+                throw new TemplateSyntaxError(`Unexpected closing tag {{/${match[3]}}}`);
+            }
+            stack.pop();
+        } else {
+            current.children.push({ type: 'var', expression: match[3], raw: false });
+        }
+    }
+
+    if (stack.length > 1) throw new TemplateSyntaxError(`Unclosed section {{#${stack[stack.length - 1].name}}}`);
+    if (cursor < template.length) root.push({ type: 'text', value: template.slice(cursor) });
+    return root;
+}
+
+export function escapeHtml(value: any) {
+    return String(value)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+// Cari variabel dari konteks terdalam ke terluar; mendukung path bertitik (patient.name)
+function lookup(path: string, contexts: any[]) {
+    if (path === '.') return contexts[contexts.length - 1];
+
+    const [head, ...rest] = path.split('.');
+    for (let i = contexts.length - 1; i >= 0; i--) {
+        const context = contexts[i];
+        if (context !== null && typeof context === 'object' && head in context) {
+            return rest.reduce((value, key) => (value == null ? undefined : value[key]), context[head]);
+        }
+    }
+    return undefined;
+}
+
+function applyFilter(value: any, filter: string, locale: string) {
+    const [name, ...args] = filter.split(':');
+    const arg = args.join(':').trim().replace(/^["']|["']$/g, '');
+    const isEmpty = value === undefined || value === null || value === '';
+
+    switch (name.trim()) {
+        case 'default':
+            return isEmpty ? arg : value;
+        case 'date':
+            return isEmpty ? value : toClinicDateMoment(value).locale(locale).format('D MMMM YYYY');
+        case 'datetime':
+            return isEmpty ? value : toClinicMoment(value).locale(locale).format(locale === 'en' ? 'dddd, D MMMM YYYY [at] HH:mm' : 'dddd, D MMMM YYYY [pukul] HH:mm');
+        case 'time':
+            return isEmpty ? value : toClinicMoment(value).locale(locale).format('HH:mm');
+        case 'upper':
+            return isEmpty ? value : String(value).toUpperCase();
+        case 'lower':
+            return isEmpty ? value : String(value).toLowerCase();
+        default:
+            throw new TemplateSyntaxError(`Unknown template filter: ${name.trim()}`);
+    }
+}
+
+function evaluate(expression: string, contexts: any[], locale: string) {
+    const [path, ...filters] = expression.split('|').map((part) => part.trim());
+    return filters.reduce((value, filter) => applyFilter(value, filter, locale), lookup(path, contexts));
+}
+
+function renderNodes(nodes: Node[], contexts: any[], options: RenderOptions): string {
+    let output = '';
+
+    for (const node of nodes) {
+        if (node.type === 'text') {
+            output += node.value;
+        } else if (node.type === 'var') {
+            const value = evaluate(node.expression, contexts, options.locale);
+            if (value === undefined || value === null) continue;
+            output += options.escape && !node.raw ? escapeHtml(value) : String(value);
+        } else {
+            const value = lookup(node.name, contexts);
+            const truthy = Array.isArray(value)
+                ? value.length > 0
+                : value !== undefined && value !== null && value !== false && value !== '';
+
+            if (node.inverted) {
+                if (!truthy) output += renderNodes(node.children, contexts, options);
+            } else if (Array.isArray(value)) {
+                for (const item of value) output += renderNodes(node.children, [...contexts, item], options);
+            } else if (truthy) {
+                const next = typeof value === 'object' ? [...contexts, value] : contexts;
+                output += renderNodes(node.children, next, options);
+            }
+        }
+    }
+
+    return output;
+}
+
+export function render(template: string, data: any, options: RenderOptions) {
+    return renderNodes(parse(template), [data ?? {}], options);
+}
+
+// Fallback teks polos dari HTML yang sudah di-render (untuk multipart email dan channel teks)
+export function htmlToText(html: string) {
+    return html
+        .replace(/<(style|head|title)[\s\S]*?<\/\1>/gi, '')
+        .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_, href, label) => `${label.replace(/<[^>]+>/g, '').trim()} (${href})`)
+        .replace(/<li[^>]*>/gi, '\n- ')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|div|h[1-6]|tr|ul|ol|table)>/gi, '\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&copy;/g, '©')
+        .replace(/&mdash;/g, '—')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&')
+        .replace(/[ \t]+/g, ' ')
+        .replace(/ *\n */g, '\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import AdherenceService from '../src/services/AdherenceService';
+import { BadRequestError } from '../src/errors/RequestErrorCollection';
+import { formatCreate } from '../src/daos/exerciseAdherenceDAO';
+
+// Kolom @db.Date dikembalikan Prisma sebagai 00:00 UTC pada tanggal tersebut
+const day = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+const prescription = (logs: string[]) => ({
+    id: 1,
+    exercise_id: 2,
+    exercise: { name: 'Bridging' },
+    sessions_per_week: 7,
+    start_date: day('2026-03-01'),
+    end_date: null,
+    exercise_adherence_log: logs.map((performed_on) => ({ performed_on: day(performed_on), pain_rating: null, difficulty_rating: null }))
+}) as any;
+
+describe('AdherenceService.computePrescription', () => {
+    it('counts days up to the clinic calendar day', () => {
+        // 20:00 UTC tanggal 2 sudah tanggal 3 di klinik (Asia/Jakarta)
+        const result = AdherenceService.computePrescription(prescription(['2026-03-01', '2026-03-03']), new Date('2026-03-02T20:00:00Z'));
+        assert.equal(result.expected_sessions, 3);
+        assert.equal(result.completed_sessions, 2);
+    });
+});
+
+describe('AdherenceService.validateSession', () => {
+    const range = { start_date: day('2026-03-01'), end_date: day('2026-03-10') };
+
+    it('accepts a date inside the prescription range', () => {
+        assert.equal(AdherenceService.validateSession({ performed_on: '2026-03-05' }, range), null);
+    });
+
+    it('rejects dates outside the prescription range', () => {
+        const error = AdherenceService.validateSession({ performed_on: '2026-02-28' }, range);
+        assert.ok(error instanceof BadRequestError);
+        assert.equal(error.code, 'OUTSIDE_PRESCRIPTION_RANGE');
+    });
+});
+
+describe('ExerciseAdherenceDAO.formatCreate', () => {
+    it('stores performed_on as a date-only value', () => {
+        assert.deepEqual(formatCreate(1, { performed_on: '2026-03-05' }).performed_on, day('2026-03-05'));
+        assert.equal((formatCreate(1, {}).performed_on as Date).getTime() % 86400000, 0);
+    });
+});
@@ -0,0 +1,47 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as AppointmentDAO from '../src/daos/appointmentDAO';
+import * as MedicalHistoryDAO from '../src/daos/medicalHistoryDAO';
+import AppointmentService from '../src/services/AppointmentService';
+import AuditService from '../src/services/AuditService';
+
+const appointment = { id: 5, patient_id: 7, staff_id: 2, treatment_plan_id: null, start_at: new Date('2026-03-02T02:00:00Z') };
+
+describe('AppointmentService.complete', () => {
+    afterEach(() => mock.restoreAll());
+
+    it('claims the transition from every status that may complete', async () => {
+        const updateStatus = mock.method(AppointmentDAO, 'updateStatus', async () => ({ id: 5, status: 'COMPLETED' }));
+
+        await AppointmentService.complete(appointment, null, 1);
+        const [id, from, status] = updateStatus.mock.calls[0].arguments;
+        assert.equal(id, 5);
+        assert.deepEqual(from, ['BOOKED', 'ARRIVED']);
+        assert.equal(status, 'COMPLETED');
+    });
+
+    it('creates the draft inside the claiming transaction and links it', async () => {
+        const tx = {};
+        let linked: any = null;
+        mock.method(AppointmentDAO, 'updateStatus', async (...args: any[]) => {
+            linked = await args[4](tx);
+            return { id: 5, status: 'COMPLETED', ...linked };
+        });
+        const createInTransaction = mock.method(MedicalHistoryDAO, 'createInTransaction', async () => ({ id: 40, patient_id: 7 }));
+        const recordCreate = mock.method(AuditService, 'recordCreate', async () => null);
+
+        const result = await AppointmentService.complete(appointment, 'medical_history', 1);
+        assert.equal(createInTransaction.mock.calls[0].arguments[0], tx);
+        assert.deepEqual(linked, { medical_history_id: 40 });
+        assert.equal(recordCreate.mock.callCount(), 1);
+        assert.equal(result?.medical_history?.id, 40);
+    });
+
+    it('creates no draft when another request completed the appointment first', async () => {
+        mock.method(AppointmentDAO, 'updateStatus', async () => null);
+        const createInTransaction = mock.method(MedicalHistoryDAO, 'createInTransaction', async () => ({ id: 40 }));
+
+        assert.equal(await AppointmentService.complete(appointment, 'medical_history', 1), null);
+        assert.equal(createInTransaction.mock.callCount(), 0);
+    });
+});
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as AuditLogDAO from '../src/daos/auditLogDAO';
+import AuditService from '../src/services/AuditService';
+
+describe('AuditService.verifyChain', () => {
+    // Tabel audit_log dan audit_chain_head di memori
+    let rows: any[];
+    let heads: Map<number, { id: number; last_id: number | null; last_hash: string | null }>;
+
+    beforeEach(async () => {
+        rows = [];
+        heads = new Map();
+        mock.method(AuditLogDAO, 'appendToChain', async (chain: AuditLogDAO.AuditChain, build: (prev: string | null) => any) => {
+            const headId = AuditLogDAO.CHAIN_HEAD_IDS[chain];
+            const head = heads.get(headId) ?? { id: headId, last_id: null, last_hash: null };
+            const row = { id: rows.length + 1, ...build(head.last_hash) };
+            rows.push(row);
+            heads.set(headId, { ...head, last_id: row.id, last_hash: row.hash });
+            return row;
+        });
+        mock.method(AuditLogDAO, 'getChainHeads', async () => Array.from(heads.values()));
+        mock.method(AuditLogDAO, 'getBatchAfter', async (afterId: number, take: number) =>
+            rows.filter((row) => row.id > afterId).slice(0, take).map((row) => ({
+                ...row,
+                changes: row.changes ?? null,
+                metadata: row.metadata ?? null,
+            }))
+        );
+
+        await AuditService.recordCreate('patient', { id: 1, name: 'Budi' }, 1);
+        await AuditService.recordRead('patient', 1, 1);
+        await AuditService.recordUpdate('patient', { id: 1, name: 'Budi' }, { id: 1, name: 'Budi S' }, 1);
+        await AuditService.recordList('patient', [{ id: 1, patient_id: 1 }]);
+        await AuditService.recordRead('patient', 1, 1);
+    });
+
+    afterEach(() => mock.restoreAll());
+
+    it('accepts an untouched log with separate write and read chains', async () => {
+        const result: any = await AuditService.verifyChain();
+        assert.equal(result.valid, true);
+        assert.equal(result.checked, 5);
+        assert.equal(result.chains.WRITE.last_id, 3);
+        assert.equal(result.chains.READ.last_id, 5);
+        assert.equal(rows[3].prev_hash, rows[1].hash);
+    });
+
+    it('detects a rewritten row', async () => {
+        rows[1].entity_id = 2;
+        assert.deepEqual(await AuditService.verifyChain(), { valid: false, checked: 1, broken_at_id: 2, reason: 'HASH_MISMATCH' });
+    });
+
+    it('detects a deleted read row', async () => {
+        rows.splice(1, 1);
+        const result: any = await AuditService.verifyChain();
+        assert.equal(result.reason, 'CHAIN_BROKEN');
+        assert.equal(result.broken_at_id, 4);
+    });
+
+    it('detects deletion of the most recent rows', async () => {
+        rows.splice(3);
+        const result: any = await AuditService.verifyChain();
+        assert.equal(result.valid, false);
+        assert.equal(result.reason, 'HEAD_MISMATCH');
+        assert.equal(result.broken_at_id, 5);
+    });
+
+    it('accepts rows appended after the head was read', async () => {
+        const getChainHeads = async () => [{ id: 1, last_id: 3, last_hash: rows[2].hash }, { id: 2, last_id: 4, last_hash: rows[3].hash }];
+        mock.method(AuditLogDAO, 'getChainHeads', getChainHeads);
+        assert.equal((await AuditService.verifyChain()).valid, true);
+    });
+});
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Prisma } from '@prisma/client';
+import * as LoginThrottleDAO from '../src/daos/loginThrottleDAO';
+import { TooManyRequestsError } from '../src/errors/RequestErrorCollection';
+import LoginThrottleService from '../src/services/LoginThrottleService';
+import prisma from '../src/services/prisma';
+
+describe('LoginThrottleService.registerFailure', () => {
+    // Tabel login_throttle di memori; kenaikan hitungan terjadi di "database", bukan di service
+    let rows: Map<string, any>;
+    let extended: Array<[number, Date]>;
+
+    beforeEach(() => {
+        rows = new Map();
+        extended = [];
+        mock.method(LoginThrottleDAO, 'incrementFailure', async (scope: string, identifier: string) => {
+            await new Promise((resolve) => setImmediate(resolve));
+            const key = `${scope}:${identifier}`;
+            const row = rows.get(key) ?? { id: rows.size + 1, scope, identifier, failed_count: 0, locked_until: null };
+            row.failed_count += 1;
+            rows.set(key, row);
+            return { ...row };
+        });
+        mock.method(LoginThrottleDAO, 'extendLock', async (id: number, lockedUntil: Date) => {
+            extended.push([id, lockedUntil]);
+            return { count: 1 };
+        });
+    });
+
+    afterEach(() => mock.restoreAll());
+
+    it('counts every parallel failure', async () => {
+        await Promise.all(Array.from({ length: 10 }, () => LoginThrottleService.registerFailure('Budi', null)));
+        assert.equal(rows.get('USERNAME:budi').failed_count, 10);
+    });
+
+    it('locks the username once the failure threshold is passed', async () => {
+        for (let i = 0; i < 3; i++) await LoginThrottleService.registerFailure('budi', '10.0.0.1');
+        // FREE_ATTEMPTS bawaan 3: percobaan ketiga mulai diberi jeda, IP masih bebas
+        assert.deepEqual(extended.map(([id]) => id), [1]);
+        assert.ok(extended[0][1].getTime() > Date.now());
+    });
+});
+
+describe('LoginThrottleDAO.incrementFailure', () => {
+    afterEach(() => mock.restoreAll());
+
+    it('resets expired windows and increments in the same transaction', async () => {
+        const calls: Record<string, any[]> = { updateMany: [], upsert: [] };
+        const tx = {
+            login_throttle: {
+                updateMany: async (args: any) => calls.updateMany.push(args),
+                upsert: async (args: any) => {
+                    calls.upsert.push(args);
+                    return { id: 1, failed_count: 1 };
+                }
+            }
+        };
+        mock.method(prisma, '$transaction', async (fn: (tx: any) => Promise<any>) => fn(tx));
+
+        const windowStart = new Date('2026-03-02T01:00:00Z');
+        await LoginThrottleDAO.incrementFailure('USERNAME', 'budi', windowStart);
+
+        assert.deepEqual(calls.updateMany[0].where.OR, [{ last_failed_at: null }, { last_failed_at: { lt: windowStart } }]);
+        assert.deepEqual(calls.upsert[0].update.failed_count, { increment: 1 });
+        assert.equal(calls.upsert[0].create.failed_count, 1);
+    });
+
+    it('retries once when a parallel first failure created the row', async () => {
+        let attempts = 0;
+        mock.method(prisma, '$transaction', async () => {
+            attempts++;
+            if (attempts === 1) {
+                throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' });
+            }
+            return { id: 1, failed_count: 2 };
+        });
+
+        const record = await LoginThrottleDAO.incrementFailure('IP', '10.0.0.1', new Date());
+        assert.equal(record.failed_count, 2);
+        assert.equal(attempts, 2);
+    });
+});
+
+describe('LoginThrottleService.assertNotLocked', () => {
+    afterEach(() => mock.restoreAll());
+
+    it('rejects a locked username with the remaining wait', async () => {
+        mock.method(LoginThrottleDAO, 'getByIdentifier', async (scope: string) =>
+            scope === 'USERNAME' ? { locked_until: new Date(Date.now() + 30 * 1000) } : null
+        );
+
+        await assert.rejects(LoginThrottleService.assertNotLocked('budi', '10.0.0.1'), (error: any) => {
+            assert.ok(error instanceof TooManyRequestsError);
+            assert.equal(error.code, 'LOGIN_TEMPORARILY_LOCKED');
+            return true;
+        });
+    });
+
+    it('allows an expired lock', async () => {
+        mock.method(LoginThrottleDAO, 'getByIdentifier', async () => ({ locked_until: new Date(Date.now() - 1000) }));
+        await LoginThrottleService.assertNotLocked('budi', '10.0.0.1');
+    });
+});
@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as NotificationOutboxDAO from '../src/daos/notificationOutboxDAO';
+import LogServices from '../src/services/LogServices';
+import NotificationService from '../src/services/NotificationService';
+import prisma from '../src/services/prisma';
+import { NotificationAdapter, setAdapter } from '../src/utils/notificationAdapters';
+
+const content = { subject: 'Hello', html: '<p>Hello</p>', text: 'Hello', whatsapp: null };
+
+// Baris outbox setelah claim(): attempts sudah dinaikkan untuk percobaan ini
+const claimed = (overrides: Record<string, any> = {}) => ({
+    id: 1,
+    channel: 'EMAIL',
+    template: 'welcome',
+    locale: 'en',
+    recipient: 'budi@example.com',
+    recipient_name: 'Budi',
+    content,
+    status: 'PROCESSING',
+    attempts: 1,
+    max_attempts: 3,
+    ...overrides
+});
+
+const adapter = (send: NotificationAdapter['send']): NotificationAdapter => ({ name: 'test', send });
+
+describe('NotificationService.getRetryDelaySeconds', () => {
+    it('doubles the delay after every failed attempt', () => {
+        const base = NotificationService.getRetryDelaySeconds(1);
+        assert.equal(NotificationService.getRetryDelaySeconds(2), base * 2);
+        assert.equal(NotificationService.getRetryDelaySeconds(3), base * 4);
+    });
+
+    it('stops growing once the cap is reached', () => {
+        const capped = NotificationService.getRetryDelaySeconds(50);
+        assert.equal(NotificationService.getRetryDelaySeconds(60), capped);
+        assert.ok(capped < NotificationService.getRetryDelaySeconds(1) * Math.pow(2, 49));
+    });
+});
+
+describe('NotificationService.dispatch', () => {
+    let calls: Record<string, any[]>;
+
+    beforeEach(() => {
+        calls = { markSent: [], markRetry: [], markDead: [] };
+        mock.method(LogServices, 'logToFile', () => undefined);
+        mock.method(NotificationOutboxDAO, 'getAttachments', async () => []);
+        for (const name of ['markSent', 'markRetry', 'markDead'] as const) {
+            mock.method(NotificationOutboxDAO, name, async (...args: any[]) => {
+                calls[name].push(args);
+                return { id: args[0], status: name === 'markSent' ? 'SENT' : name === 'markRetry' ? 'PENDING' : 'DEAD' };
+            });
+        }
+    });
+
+    afterEach(() => {
+        setAdapter('EMAIL', null);
+        mock.restoreAll();
+    });
+
+    it('does nothing when another dispatcher already claimed the notification', async () => {
+        mock.method(NotificationOutboxDAO, 'claim', async () => null);
+        const send = mock.fn(async () => ({ message_id: 'x' }));
+        setAdapter('EMAIL', adapter(send));
+
+        assert.equal(await NotificationService.dispatch(1), null);
+        assert.equal(send.mock.callCount(), 0);
+    });
+
+    it('marks the notification sent with the provider message id', async () => {
+        mock.method(NotificationOutboxDAO, 'claim', async () => claimed());
+        setAdapter('EMAIL', adapter(async () => ({ message_id: 'msg-1' })));
+
+        const result = await NotificationService.dispatch(1);
+        assert.equal(result?.status, 'SENT');
+        assert.deepEqual(calls.markSent[0], [1, 'test', 'msg-1', false]);
+    });
+
+    it('scrubs sensitive content once sent', async () => {
+        mock.method(NotificationOutboxDAO, 'claim', async () => claimed({ template: 'otp' }));
+        setAdapter('EMAIL', adapter(async () => ({ message_id: 'msg-2' })));
+
+        await NotificationService.dispatch(1);
+        assert.equal(calls.markSent[0][3], true);
+    });
+
+    it('schedules a retry with backoff while attempts remain', async () => {
+        mock.method(NotificationOutboxDAO, 'claim', async () => claimed({ attempts: 2 }));
+        setAdapter('EMAIL', adapter(async () => {
+            throw new Error('SMTP timeout');
+        }));
+
+        const before = Date.now();
+        await NotificationService.dispatch(1);
+
+        assert.equal(calls.markRetry.length, 1);
+        assert.equal(calls.markDead.length, 0);
+        const [id, adapterName, error, nextAttemptAt] = calls.markRetry[0];
+        assert.equal(id, 1);
+        assert.equal(adapterName, 'test');
+        assert.equal(error, 'SMTP timeout');
+        const delayMs = (nextAttemptAt as Date).getTime() - before;
+        const expectedMs = NotificationService.getRetryDelaySeconds(2) * 1000;
+        assert.ok(delayMs >= expectedMs - 1000 && delayMs <= expectedMs + 1000, `unexpected delay ${delayMs}ms`);
+    });
+
+    it('dead-letters the notification on the last attempt', async () => {
+        mock.method(NotificationOutboxDAO, 'claim', async () => claimed({ attempts: 3, max_attempts: 3 }));
+        setAdapter('EMAIL', adapter(async () => {
+            throw new Error('Mailbox unavailable');
+        }));
+
+        const result = await NotificationService.dispatch(1);
+        assert.equal(result?.status, 'DEAD');
+        assert.equal(calls.markRetry.length, 0);
+        assert.deepEqual(calls.markDead[0], [1, 'test', 'Mailbox unavailable']);
+    });
+
+    it('passes stored attachments to the adapter', async () => {
+        const attachment = { filename: 'summary.pdf', content_type: 'application/pdf', content: Buffer.from('%PDF') };
+        mock.method(NotificationOutboxDAO, 'claim', async () => claimed());
+        mock.method(NotificationOutboxDAO, 'getAttachments', async () => [attachment]);
+        const send = mock.fn(async (..._args: any[]) => ({ message_id: 'msg-3' }));
+        setAdapter('EMAIL', adapter(send));
+
+        await NotificationService.dispatch(1);
+        assert.deepEqual(send.mock.calls[0].arguments[4], [attachment]);
+    });
+});
+
+describe('NotificationOutboxDAO attachment retention', () => {
+    afterEach(() => mock.restoreAll());
+
+    const fakeTx = (calls: Record<string, any[]>) => ({
+        notification_outbox: {
+            updateMany: async (args: any) => calls.flag.push(args),
+            update: async (args: any) => ({ id: args.where.id, ...args.data })
+        },
+        notification_attachment: {
+            deleteMany: async (args: any) => calls.remove.push(args)
+        }
+    });
+
+    for (const [name, mark] of [
+        ['sent', () => NotificationOutboxDAO.markSent(1, 'test', 'msg-1', false)],
+        ['dead-lettered', () => NotificationOutboxDAO.markDead(1, 'test', 'Mailbox unavailable')],
+    ] as const) {
+        it(`removes stored attachments once a notification is ${name}`, async () => {
+            const calls: Record<string, any[]> = { flag: [], remove: [] };
+            mock.method(prisma, '$transaction', async (fn: (tx: any) => Promise<any>) => fn(fakeTx(calls)));
+
+            await mark();
+            assert.deepEqual(calls.remove[0], { where: { notification_outbox: { id: 1 } } });
+            assert.equal(calls.flag[0].where.attachments_removed_at, null);
+        });
+    }
+});
@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import NotificationTemplates from '../src/services/NotificationTemplates';
+import { escapeHtml, render, TemplateSyntaxError } from '../src/utils/templateEngine';
+
+const html = { escape: true, locale: 'en' };
+const text = { escape: false, locale: 'en' };
+
+describe('templateEngine', () => {
+    it('escapes variables in HTML mode', () => {
+        assert.equal(
+            render('<p>{{name}}</p>', { name: `<img src=x onerror="alert('x')"> & co` }, html),
+            '<p>&lt;img src=x onerror=&quot;alert(&#39;x&#39;)&quot;&gt; &amp; co</p>'
+        );
+    });
+
+    it('leaves triple-brace variables and text mode unescaped', () => {
+        assert.equal(render('{{{content}}}', { content: '<b>bold</b>' }, html), '<b>bold</b>');
+        assert.equal(render('{{name}}', { name: 'A & B' }, text), 'A & B');
+    });
+
+    it('escapes values produced by filters and nested sections', () => {
+        assert.equal(render('{{name | upper}}', { name: '<i>' }, html), '&lt;I&gt;');
+        assert.equal(render('{{#items}}[{{label}}]{{/items}}', { items: [{ label: '<a>' }, { label: '"b"' }] }, html), '[&lt;a&gt;][&quot;b&quot;]');
+    });
+
+    it('skips missing values and applies defaults', () => {
+        assert.equal(render('Hi {{name}}!', {}, html), 'Hi !');
+        assert.equal(render('Hi {{name | default:"there"}}!', {}, html), 'Hi there!');
+    });
+
+    it('rejects unclosed sections and unknown filters', () => {
+        assert.throws(() => render('{{#items}}x', { items: [1] }, html), TemplateSyntaxError);
+        assert.throws(() => render('{{name | shout}}', { name: 'x' }, html), TemplateSyntaxError);
+    });
+
+    it('formats dates and times in the clinic timezone', () => {
+        // 20:00 UTC sudah tanggal 3 di klinik (Asia/Jakarta)
+        assert.equal(render('{{at | date}}', { at: new Date('2026-03-02T20:00:00Z') }, text), '3 March 2026');
+        assert.equal(render('{{at | time}}', { at: '2026-03-02T02:00:00Z' }, text), '09:00');
+        assert.equal(render('{{at | datetime}}', { at: new Date('2026-03-02T02:00:00Z') }, text), 'Monday, 2 March 2026 at 09:00');
+    });
+
+    it('keeps date-only values on their calendar date', () => {
+        assert.equal(render('{{day | date}}', { day: new Date('2026-03-02T00:00:00Z') }, text), '2 March 2026');
+        assert.equal(render('{{day | date}}', { day: '2026-03-02' }, text), '2 March 2026');
+    });
+
+    it('escapes every HTML-significant character', () => {
+        assert.equal(escapeHtml(`&<>"'`), '&amp;&lt;&gt;&quot;&#39;');
+    });
+});
+
+describe('NotificationTemplates.render', () => {
+    it('escapes payload in the HTML body but keeps the plain-text version readable', () => {
+        const { content } = NotificationTemplates.render('welcome', 'en', { name: '<script>alert(1)</script>' });
+        assert.ok(content.html?.includes('&lt;script&gt;alert(1)&lt;/script&gt;'));
+        assert.ok(!content.html?.includes('<script>'));
+        assert.ok(content.text.includes('<script>alert(1)</script>'));
+    });
+
+    it('falls back to the default locale', () => {
+        assert.equal(NotificationTemplates.render('welcome', 'fr', {}).locale, 'id');
+    });
+
+    it('rejects unknown templates', () => {
+        assert.throws(() => NotificationTemplates.render('../welcome', 'en', {}), /Unknown notification template/);
+    });
+});
@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { outcome_measure_code } from '@prisma/client';
+import OutcomeMeasureService from '../src/services/OutcomeMeasureService';
+import { BadRequestError } from '../src/errors/RequestErrorCollection';
+import { OUTCOME_MEASURES } from '../src/utils/outcomeMeasures';
+
+// Jawaban semua item dengan nilai yang sama; `skip` mengosongkan sejumlah item terakhir
+const answers = (code: outcome_measure_code, value: number, skip = 0) => {
+    const ids = OUTCOME_MEASURES[code].items.map((item) => item.id);
+    return Object.fromEntries(ids.map((id, index) => [id, index < ids.length - skip ? value : null]));
+};
+
+describe('OutcomeMeasureService.score', () => {
+    it('sums NPRS and interprets the band', () => {
+        const result = OutcomeMeasureService.score('NPRS', { pain: '7' });
+        assert.equal(result.score, 7);
+        assert.equal(result.raw_score, 7);
+        assert.equal(result.interpretation, 'Severe pain');
+    });
+
+    it('scores ODI as a percentage of the answered maximum', () => {
+        const items = OUTCOME_MEASURES.ODI.items.length;
+        const full = OutcomeMeasureService.score('ODI', answers('ODI', 2));
+        assert.equal(full.score, 40);
+        assert.equal(full.answered_items, items);
+        assert.equal(full.interpretation, 'Moderate disability');
+
+        // Item kosong tidak ikut menjadi penyebut
+        const missingOne = OutcomeMeasureService.score('ODI', answers('ODI', 2, 1));
+        assert.equal(missingOne.score, 40);
+        assert.equal(missingOne.answered_items, items - 1);
+    });
+
+    it('scores QuickDASH on a 0-100 scale from the item mean', () => {
+        assert.equal(OutcomeMeasureService.score('QUICKDASH', answers('QUICKDASH', 1)).score, 0);
+        assert.equal(OutcomeMeasureService.score('QUICKDASH', answers('QUICKDASH', 5)).score, 100);
+        assert.equal(OutcomeMeasureService.score('QUICKDASH', answers('QUICKDASH', 3, 1)).score, 50);
+    });
+
+    it('rounds to two decimals', () => {
+        const responses = answers('NDI', 1);
+        responses[OUTCOME_MEASURES.NDI.items[0].id] = 2;
+        const result = OutcomeMeasureService.score('NDI', responses);
+        const items = OUTCOME_MEASURES.NDI.items.length;
+        assert.equal(result.score, Math.round(((items + 1) / (5 * items)) * 100 * 100) / 100);
+    });
+});
+
+describe('OutcomeMeasureService.validateResponses', () => {
+    it('accepts complete responses', () => {
+        assert.equal(OutcomeMeasureService.validateResponses('LEFS', answers('LEFS', 4)), null);
+    });
+
+    it('rejects unknown items and out-of-range values', () => {
+        assert.ok(OutcomeMeasureService.validateResponses('NPRS', { pain: 3, mood: 2 }) instanceof BadRequestError);
+        assert.ok(OutcomeMeasureService.validateResponses('NPRS', { pain: 11 }) instanceof BadRequestError);
+        assert.ok(OutcomeMeasureService.validateResponses('NPRS', { pain: 2.5 }) instanceof BadRequestError);
+        assert.ok(OutcomeMeasureService.validateResponses('QUICKDASH', answers('QUICKDASH', 0)) instanceof BadRequestError);
+    });
+
+    it('allows up to max_missing_items unanswered items', () => {
+        assert.equal(OutcomeMeasureService.validateResponses('ODI', answers('ODI', 1, 1)), null);
+        assert.ok(OutcomeMeasureService.validateResponses('ODI', answers('ODI', 1, 2)) instanceof BadRequestError);
+        assert.ok(OutcomeMeasureService.validateResponses('NPRS', {}) instanceof BadRequestError);
+    });
+
+    it('rejects responses that are not an object', () => {
+        assert.ok(OutcomeMeasureService.validateResponses('NPRS', [7]) instanceof BadRequestError);
+        assert.ok(OutcomeMeasureService.validateResponses('NPRS', null) instanceof BadRequestError);
+    });
+});
@@ -0,0 +1,34 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from '../src/utils/crypto';
+
+describe('password hashing', () => {
+    const salt = 'a1b2c3';
+
+    it('stores scrypt hashes with their parameters and verifies them', async () => {
+        const stored = await crypto.generatePassword('s3cret-pass', salt);
+        assert.match(stored, /^\$scrypt\$N=16384,r=8,p=1\$[0-9a-f]{128}$/);
+        assert.equal(await crypto.verifyPassword('s3cret-pass', salt, stored), true);
+        assert.equal(await crypto.verifyPassword('wrong-pass', salt, stored), false);
+        assert.equal(await crypto.verifyPassword('s3cret-pass', 'other-salt', stored), false);
+    });
+
+    it('still accepts legacy SHA1 hashes but flags them for rehash', async () => {
+        const legacy = crypto.hashSHA1(salt + 's3cret-pass');
+        assert.equal(await crypto.verifyPassword('s3cret-pass', salt, legacy), true);
+        assert.equal(await crypto.verifyPassword('wrong-pass', salt, legacy), false);
+        assert.equal(crypto.passwordNeedsRehash(legacy), true);
+    });
+
+    it('flags scrypt hashes made with outdated parameters', async () => {
+        const current = await crypto.generatePassword('s3cret-pass', salt);
+        assert.equal(crypto.passwordNeedsRehash(current), false);
+        assert.equal(crypto.passwordNeedsRehash(current.replace('N=16384', 'N=1024')), true);
+        assert.equal(crypto.passwordNeedsRehash('not-a-hash'), true);
+    });
+
+    it('rejects empty passwords and malformed hashes', async () => {
+        assert.equal(await crypto.verifyPassword('', salt, await crypto.generatePassword('x', salt)), false);
+        assert.equal(await crypto.verifyPassword('s3cret-pass', salt, '$scrypt$broken'), false);
+    });
+});
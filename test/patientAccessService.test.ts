@@ -0,0 +1,65 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as PatientAssignmentDAO from '../src/daos/patientAssignmentDAO';
+import LogServices from '../src/services/LogServices';
+import PatientAccessService from '../src/services/PatientAccessService';
+import PermissionService from '../src/services/PermissionService';
+
+const request = (role: string, id = 4) => ({ decoded: { user: { id, role } }, headers: {}, socket: {} }) as any;
+
+describe('PatientAccessService scoping', () => {
+    afterEach(() => mock.restoreAll());
+
+    it('does not scope users with patient:read_all', async () => {
+        mock.method(PermissionService, 'hasPermissions', async (role: string) => role === 'ADMIN');
+        const hasAssignment = mock.method(PatientAssignmentDAO, 'hasAssignment', async () => false);
+
+        assert.equal(await PatientAccessService.getScope(request('ADMIN')), undefined);
+        assert.equal(await PatientAccessService.canAccessPatient(request('ADMIN'), 9), true);
+        assert.equal(hasAssignment.mock.callCount(), 0);
+    });
+
+    it('limits other users to their care team', async () => {
+        mock.method(PermissionService, 'hasPermissions', async () => false);
+        mock.method(PatientAssignmentDAO, 'hasAssignment', async (patientId: number, userId: number) => patientId === 9 && userId === 4);
+        mock.method(PatientAssignmentDAO, 'hasActiveEmergencyAccess', async () => false);
+
+        assert.deepEqual(await PatientAccessService.getScope(request('THERAPIST')), { user_id: 4 });
+        assert.equal(await PatientAccessService.canAccessPatient(request('THERAPIST'), 9), true);
+        assert.equal(await PatientAccessService.canAccessPatient(request('THERAPIST'), 10), false);
+    });
+
+    it('allows unassigned patients only with active emergency access', async () => {
+        mock.method(PermissionService, 'hasPermissions', async () => false);
+        mock.method(PatientAssignmentDAO, 'hasAssignment', async () => false);
+        mock.method(PatientAssignmentDAO, 'hasActiveEmergencyAccess', async (patientId: number) => patientId === 10);
+
+        assert.equal(await PatientAccessService.canAccessPatient(request('DOCTOR'), 10), true);
+        assert.equal(await PatientAccessService.canAccessPatient(request('DOCTOR'), 11), false);
+    });
+
+    it('records every emergency access with its expiry', async () => {
+        const expiresAt = new Date('2026-03-02T02:00:00Z');
+        const create = mock.method(PatientAssignmentDAO, 'createEmergencyAccess', async (data: any) => ({ id: 3, ...data, expires_at: expiresAt }));
+        const logToFile = mock.method(LogServices, 'logToFile', () => undefined);
+
+        await PatientAccessService.openEmergencyAccess(request('DOCTOR'), 10, 'Pasien datang tanpa terapis');
+
+        const data: any = create.mock.calls[0].arguments[0];
+        assert.equal(data.patient_id, 10);
+        assert.equal(data.user_id, 4);
+        assert.equal(data.reason, 'Pasien datang tanpa terapis');
+        assert.match(String(logToFile.mock.calls[0].arguments[0]), /EMERGENCY_ACCESS user_id=4 patient_id=10 access_id=3/);
+    });
+});
+
+describe('PatientAssignmentDAO.buildPatientScopeWhere', () => {
+    it('matches assignments or unexpired, unrevoked emergency access', () => {
+        const where: any = PatientAssignmentDAO.buildPatientScopeWhere({ user_id: 4 });
+        assert.deepEqual(where.OR[0], { patient_assignment: { some: { user_id: 4 } } });
+        const emergency = where.OR[1].patient_emergency_access.some;
+        assert.equal(emergency.user_id, 4);
+        assert.equal(emergency.revoked_at, null);
+        assert.ok(emergency.expires_at.gt instanceof Date);
+    });
+});
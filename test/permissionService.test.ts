@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as RolePermissionDAO from '../src/daos/rolePermissionDAO';
+import PermissionService from '../src/services/PermissionService';
+
+describe('PermissionService overrides', () => {
+    let overrides: any[];
+    let getAll: any;
+
+    beforeEach(async () => {
+        overrides = [];
+        getAll = mock.method(RolePermissionDAO, 'getAll', async () => overrides);
+        mock.method(RolePermissionDAO, 'upsert', async (role: string, permission: string, granted: boolean) => {
+            overrides = overrides.filter((o) => o.role !== role || o.permission !== permission).concat({ role, permission, granted });
+            return { role, permission, granted };
+        });
+        mock.method(RolePermissionDAO, 'remove', async (role: string, permission: string) => {
+            overrides = overrides.filter((o) => o.role !== role || o.permission !== permission);
+            return { count: 1 };
+        });
+        // Kosongkan cache modul dari test sebelumnya
+        await PermissionService.clearOverride('THERAPIST', 'medical_history:write');
+    });
+
+    afterEach(() => mock.restoreAll());
+
+    it('falls back to the role defaults', async () => {
+        assert.equal(await PermissionService.hasPermissions('THERAPIST', ['treatment_log:write']), true);
+        assert.equal(await PermissionService.hasPermissions('THERAPIST', ['medical_history:write']), false);
+        assert.equal(await PermissionService.hasPermissions(null, ['patient:read']), false);
+    });
+
+    it('applies grants and revocations and refreshes the cache', async () => {
+        await PermissionService.setOverride('THERAPIST', 'medical_history:write', true, 1);
+        await PermissionService.setOverride('THERAPIST', 'treatment_log:sign', false, 1);
+
+        assert.equal(await PermissionService.hasPermissions('THERAPIST', ['medical_history:write']), true);
+        assert.equal(await PermissionService.hasPermissions('THERAPIST', ['treatment_log:write', 'treatment_log:sign']), false);
+        // Role lain tidak ikut berubah
+        assert.equal(await PermissionService.hasPermissions('DOCTOR', ['treatment_log:sign']), true);
+
+        await PermissionService.clearOverride('THERAPIST', 'treatment_log:sign');
+        assert.equal(await PermissionService.hasPermissions('THERAPIST', ['treatment_log:sign']), true);
+    });
+
+    it('keeps locked admin permissions and ignores unknown permissions', async () => {
+        overrides = [
+            { role: 'ADMIN', permission: 'permission:manage', granted: false },
+            { role: 'THERAPIST', permission: 'legacy:removed', granted: true },
+        ];
+        await PermissionService.clearOverride('DOCTOR', 'patient:read');
+
+        assert.equal(await PermissionService.hasPermissions('ADMIN', ['permission:manage']), true);
+        assert.equal((await PermissionService.getPermissionsForRole('THERAPIST')).has('legacy:removed' as any), false);
+    });
+
+    it('reads overrides once within the cache lifetime', async () => {
+        await PermissionService.hasPermissions('DOCTOR', ['patient:read']);
+        await PermissionService.hasPermissions('THERAPIST', ['patient:read']);
+        assert.equal(getAll.mock.callCount(), 1);
+    });
+
+    it('reports defaults and overrides in the matrix', async () => {
+        await PermissionService.setOverride('DOCTOR', 'patient:read', false);
+        const matrix = await PermissionService.getMatrix();
+        const row = matrix.permissions.find((p) => p.permission === 'patient:read');
+        assert.deepEqual(row?.roles.DOCTOR, { granted: false, default: true, overridden: true });
+        assert.deepEqual(row?.roles.THERAPIST, { granted: true, default: true, overridden: false });
+    });
+});
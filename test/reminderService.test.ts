@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Prisma } from '@prisma/client';
+import * as ReminderDeliveryDAO from '../src/daos/reminderDeliveryDAO';
+import * as TreatmentLogDAO from '../src/daos/treatmentLogDAO';
+import NotificationService from '../src/services/NotificationService';
+import ReminderService from '../src/services/ReminderService';
+import prisma from '../src/services/prisma';
+
+const uniqueViolation = () =>
+    new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' });
+
+const reminder = (idempotency_key: string): ReminderDeliveryDAO.ReminderDeliveryData => ({
+    idempotency_key,
+    reminder_type: 'APPOINTMENT',
+    channel: 'EMAIL',
+    patient_id: 1,
+    appointment_id: 10,
+    recipient: 'budi@example.com'
+});
+
+describe('ReminderService idempotency keys', () => {
+    it('changes the appointment key when the appointment is rescheduled', () => {
+        const original = ReminderService.appointmentReminderKey({ id: 10, start_at: new Date('2026-03-02T02:00:00Z') }, 'EMAIL');
+        const rescheduled = ReminderService.appointmentReminderKey({ id: 10, start_at: new Date('2026-03-03T02:00:00Z') }, 'EMAIL');
+        assert.notEqual(original, rescheduled);
+    });
+
+    it('keeps one key per appointment slot and channel', () => {
+        const appointment = { id: 10, start_at: new Date('2026-03-02T02:00:00Z') };
+        assert.equal(ReminderService.appointmentReminderKey(appointment, 'EMAIL'), ReminderService.appointmentReminderKey({ ...appointment }, 'EMAIL'));
+        assert.notEqual(ReminderService.appointmentReminderKey(appointment, 'EMAIL'), ReminderService.appointmentReminderKey(appointment, 'WHATSAPP'));
+    });
+
+    it('keys follow-up reminders by treatment log and channel', () => {
+        assert.equal(ReminderService.followUpReminderKey(5, 'WHATSAPP'), ReminderService.followUpReminderKey(5, 'WHATSAPP'));
+        assert.notEqual(ReminderService.followUpReminderKey(5, 'WHATSAPP'), ReminderService.followUpReminderKey(6, 'WHATSAPP'));
+    });
+});
+
+describe('ReminderService.deliver', () => {
+    // Ledger di memori dengan constraint unik pada idempotency_key, seperti tabel reminder_delivery
+    let ledger: Map<string, string>;
+    let enqueued: number;
+
+    beforeEach(() => {
+        ledger = new Map();
+        enqueued = 0;
+        mock.method(prisma, '$transaction', async (fn: (tx: any) => Promise<any>) => fn({}));
+        mock.method(NotificationService, 'enqueue', async () => ({ id: ++enqueued }));
+        mock.method(ReminderDeliveryDAO, 'existsByKey', async (key: string) => ledger.has(key));
+        mock.method(ReminderDeliveryDAO, 'createQueued', async (data: ReminderDeliveryDAO.ReminderDeliveryData) => {
+            if (ledger.has(data.idempotency_key)) throw uniqueViolation();
+            ledger.set(data.idempotency_key, 'QUEUED');
+            return data;
+        });
+        mock.method(ReminderDeliveryDAO, 'recordSkipped', async (data: ReminderDeliveryDAO.ReminderDeliveryData) => {
+            if (ledger.has(data.idempotency_key)) return null;
+            ledger.set(data.idempotency_key, 'SKIPPED');
+            return data;
+        });
+    });
+
+    afterEach(() => mock.restoreAll());
+
+    it('queues a reminder once and reports repeats as duplicates', async () => {
+        assert.equal(await ReminderService.deliver(reminder('APPOINTMENT:10:1:EMAIL'), 'appointment_reminder', {}, 'Budi', false), 'queued');
+        assert.equal(await ReminderService.deliver(reminder('APPOINTMENT:10:1:EMAIL'), 'appointment_reminder', {}, 'Budi', false), 'duplicate');
+        assert.equal(enqueued, 1);
+    });
+
+    it('treats a unique violation from an overlapping run as a duplicate', async () => {
+        // Job lain menulis ledger di antara cek existsByKey dan insert
+        mock.method(ReminderDeliveryDAO, 'existsByKey', async () => false);
+        ledger.set('APPOINTMENT:10:1:EMAIL', 'QUEUED');
+
+        assert.equal(await ReminderService.deliver(reminder('APPOINTMENT:10:1:EMAIL'), 'appointment_reminder', {}, 'Budi', false), 'duplicate');
+    });
+
+    it('rethrows errors other than unique violations', async () => {
+        mock.method(NotificationService, 'enqueue', async () => {
+            throw new Error('Unknown notification template: missing');
+        });
+
+        await assert.rejects(
+            ReminderService.deliver(reminder('APPOINTMENT:10:1:EMAIL'), 'missing', {}, 'Budi', false),
+            /Unknown notification template/
+        );
+        assert.equal(ledger.size, 0);
+    });
+
+    it('records an opted-out patient as skipped once without enqueueing', async () => {
+        assert.equal(await ReminderService.deliver(reminder('APPOINTMENT:10:1:EMAIL'), 'appointment_reminder', {}, 'Budi', true), 'skipped');
+        assert.equal(await ReminderService.deliver(reminder('APPOINTMENT:10:1:EMAIL'), 'appointment_reminder', {}, 'Budi', true), 'duplicate');
+        assert.equal(enqueued, 0);
+        assert.equal(ledger.get('APPOINTMENT:10:1:EMAIL'), 'SKIPPED');
+    });
+});
+
+// Jam tenang dibaca di jam dinding klinik (default Asia/Jakarta, UTC+7), apa pun TZ server
+describe('ReminderService.isQuietHours', () => {
+    it('handles a window that crosses midnight', () => {
+        assert.equal(ReminderService.isQuietHours(new Date('2026-03-02T15:30:00Z'), '21:00', '07:00'), true);
+        assert.equal(ReminderService.isQuietHours(new Date('2026-03-02T23:59:00Z'), '21:00', '07:00'), true);
+        assert.equal(ReminderService.isQuietHours(new Date('2026-03-03T00:00:00Z'), '21:00', '07:00'), false);
+    });
+
+    it('uses clinic time rather than UTC', () => {
+        // 10:00 UTC = 17:00 di klinik
+        assert.equal(ReminderService.isQuietHours(new Date('2026-03-02T10:00:00Z'), '09:00', '12:00'), false);
+        assert.equal(ReminderService.isQuietHours(new Date('2026-03-02T10:00:00Z'), '16:00', '18:00'), true);
+    });
+
+    it('is disabled when start equals end', () => {
+        assert.equal(ReminderService.isQuietHours(new Date('2026-03-02T20:00:00Z'), '00:00', '00:00'), false);
+    });
+});
+
+describe('ReminderService.sendFollowUpReminders', () => {
+    afterEach(() => mock.restoreAll());
+
+    it('compares follow-up dates with the clinic calendar day', async () => {
+        const getOverdueFollowUps = mock.method(TreatmentLogDAO, 'getOverdueFollowUps', async () => []);
+
+        // 08:00 di klinik, 3 Maret
+        await ReminderService.sendFollowUpReminders(new Date('2026-03-03T01:00:00Z'));
+        const [since, today, dayStart] = getOverdueFollowUps.mock.calls[0].arguments as Date[];
+        assert.equal(today.toISOString(), '2026-03-03T00:00:00.000Z');
+        assert.equal(since.toISOString(), '2026-02-17T00:00:00.000Z');
+        assert.equal(dayStart.toISOString(), '2026-03-02T17:00:00.000Z');
+    });
+});
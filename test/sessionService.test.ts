@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as UserDAO from '../src/daos/userDAO';
+import * as UserSessionDAO from '../src/daos/userSessionDAO';
+import SessionService, { SessionRevokeReason } from '../src/services/SessionService';
+import cryptoUtils from '../src/utils/crypto';
+
+describe('SessionService.rotateRefreshToken', () => {
+    const session = (overrides: any = {}) => ({
+        id: 5,
+        user_id: 1,
+        refresh_token_hash: cryptoUtils.hashSHA512('rahasia'),
+        revoked_at: null,
+        expires_at: new Date(Date.now() + 60 * 60 * 1000),
+        ...overrides,
+    });
+    let revoke: any;
+
+    beforeEach(() => {
+        process.env.TOKEN_SECRET = process.env.TOKEN_SECRET || 'test-secret';
+        mock.method(UserDAO, 'getById', async () => ({ id: 1, username: 'budi', role: 'ADMIN', active: true }));
+        revoke = mock.method(UserSessionDAO, 'revoke', async () => ({ count: 1 }));
+    });
+
+    afterEach(() => mock.restoreAll());
+
+    const rejectsWith = (code: string) => (error: any) => {
+        assert.equal(error.code, code);
+        return true;
+    };
+
+    it('issues a new refresh token for the same session', async () => {
+        mock.method(UserSessionDAO, 'getById', async () => session());
+        const rotate = mock.method(UserSessionDAO, 'rotate', async () => true);
+
+        const result = await SessionService.rotateRefreshToken('5.rahasia');
+        const [id, secret] = result.refresh_token.split('.');
+        assert.equal(id, '5');
+        assert.notEqual(secret, 'rahasia');
+        assert.equal(rotate.mock.calls[0].arguments[1], cryptoUtils.hashSHA512('rahasia'));
+        assert.equal(rotate.mock.calls[0].arguments[2], cryptoUtils.hashSHA512(secret));
+        assert.equal(revoke.mock.callCount(), 0);
+    });
+
+    it('revokes the session when an old refresh token is presented again', async () => {
+        mock.method(UserSessionDAO, 'getById', async () => session({ refresh_token_hash: cryptoUtils.hashSHA512('baru') }));
+        const rotate = mock.method(UserSessionDAO, 'rotate', async () => true);
+
+        await assert.rejects(SessionService.rotateRefreshToken('5.rahasia'), rejectsWith('REFRESH_TOKEN_REUSED'));
+        assert.deepEqual(revoke.mock.calls[0].arguments, [5, SessionRevokeReason.TOKEN_REUSE]);
+        assert.equal(rotate.mock.callCount(), 0);
+    });
+
+    it('treats a lost parallel rotation as reuse', async () => {
+        mock.method(UserSessionDAO, 'getById', async () => session());
+        mock.method(UserSessionDAO, 'rotate', async () => false);
+
+        await assert.rejects(SessionService.rotateRefreshToken('5.rahasia'), rejectsWith('REFRESH_TOKEN_REUSED'));
+        assert.deepEqual(revoke.mock.calls[0].arguments, [5, SessionRevokeReason.TOKEN_REUSE]);
+    });
+
+    it('rejects revoked, expired and malformed tokens', async () => {
+        mock.method(UserSessionDAO, 'getById', async () => session({ revoked_at: new Date() }));
+        await assert.rejects(SessionService.rotateRefreshToken('5.rahasia'), rejectsWith('SESSION_REVOKED'));
+
+        mock.method(UserSessionDAO, 'getById', async () => session({ expires_at: new Date(Date.now() - 1000) }));
+        await assert.rejects(SessionService.rotateRefreshToken('5.rahasia'), rejectsWith('SESSION_REVOKED'));
+
+        await assert.rejects(SessionService.rotateRefreshToken('rahasia'), rejectsWith('INVALID_REFRESH_TOKEN'));
+    });
+
+    it('revokes the session of a deactivated user', async () => {
+        mock.method(UserSessionDAO, 'getById', async () => session());
+        mock.method(UserDAO, 'getById', async () => ({ id: 1, active: false }));
+
+        await assert.rejects(SessionService.rotateRefreshToken('5.rahasia'), rejectsWith('ACCOUNT_DEACTIVATED'));
+        assert.deepEqual(revoke.mock.calls[0].arguments, [5, SessionRevokeReason.USER_DEACTIVATED]);
+    });
+});
@@ -0,0 +1,62 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { base32Decode, base32Encode, buildOtpAuthUri, currentStep, generateCode, generateSecret, verifyCode } from '../src/utils/totp';
+
+// Secret SHA1 dari test vector RFC 6238 ("12345678901234567890")
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('totp.generateCode', () => {
+    it('matches the RFC 6238 test vectors truncated to six digits', () => {
+        assert.equal(generateCode(RFC_SECRET, currentStep(59 * 1000)), '287082');
+        assert.equal(generateCode(RFC_SECRET, currentStep(1111111109 * 1000)), '081804');
+        assert.equal(generateCode(RFC_SECRET, currentStep(1234567890 * 1000)), '005924');
+    });
+});
+
+describe('totp.verifyCode', () => {
+    const now = 1234567890 * 1000;
+    const step = currentStep(now);
+
+    afterEach(() => mock.restoreAll());
+
+    it('accepts codes within the window and returns the matching step', () => {
+        mock.method(Date, 'now', () => now);
+        assert.equal(verifyCode(RFC_SECRET, generateCode(RFC_SECRET, step)), step);
+        assert.equal(verifyCode(RFC_SECRET, generateCode(RFC_SECRET, step - 1)), step - 1);
+        assert.equal(verifyCode(RFC_SECRET, generateCode(RFC_SECRET, step + 1)), step + 1);
+    });
+
+    it('rejects codes outside the window', () => {
+        mock.method(Date, 'now', () => now);
+        assert.equal(verifyCode(RFC_SECRET, generateCode(RFC_SECRET, step - 2)), null);
+        assert.equal(verifyCode(RFC_SECRET, generateCode(RFC_SECRET, step + 2)), null);
+    });
+
+    it('ignores spaces but rejects codes that are not six digits', () => {
+        mock.method(Date, 'now', () => now);
+        assert.equal(verifyCode(RFC_SECRET, '005 924'), step);
+        assert.equal(verifyCode(RFC_SECRET, '05924'), null);
+        assert.equal(verifyCode(RFC_SECRET, '00592a'), null);
+        assert.equal(verifyCode(RFC_SECRET, ''), null);
+    });
+});
+
+describe('totp secrets', () => {
+    it('round-trips base32 and generates 160-bit secrets', () => {
+        const secret = generateSecret();
+        assert.match(secret, /^[A-Z2-7]{32}$/);
+        assert.equal(base32Decode(secret).length, 20);
+        assert.equal(base32Encode(base32Decode(secret.toLowerCase())), secret);
+        assert.throws(() => base32Decode('ABC1'));
+    });
+
+    it('builds an otpauth URI for authenticator apps', () => {
+        const uri = buildOtpAuthUri('JBSWY3DPEHPK3PXP', 'budi', 'Klinik');
+        const [path, query] = uri.split('?');
+        assert.equal(decodeURIComponent(path), 'otpauth://totp/Klinik:budi');
+        const params = new URLSearchParams(query);
+        assert.equal(params.get('secret'), 'JBSWY3DPEHPK3PXP');
+        assert.equal(params.get('issuer'), 'Klinik');
+        assert.equal(params.get('digits'), '6');
+    });
+});
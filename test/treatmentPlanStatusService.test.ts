@@ -0,0 +1,73 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { treatment_plan_status } from '@prisma/client';
+import * as DischargeSummaryDAO from '../src/daos/dischargeSummaryDAO';
+import * as TreatmentPlanDAO from '../src/daos/treatmentPlanDAO';
+import { BadRequestError } from '../src/errors/RequestErrorCollection';
+import TreatmentPlanStatusService from '../src/services/TreatmentPlanStatusService';
+
+describe('TreatmentPlanStatusService transitions', () => {
+    it('lists the actions available from each status', () => {
+        const expected: Record<treatment_plan_status, string[]> = {
+            ACTIVE: ['hold', 'complete', 'cancel'],
+            ON_HOLD: ['resume'],
+            COMPLETED: ['reopen'],
+            CANCELLED: ['reopen'],
+        };
+        for (const status of Object.values(treatment_plan_status)) {
+            assert.deepEqual(TreatmentPlanStatusService.availableActions(status), expected[status], status);
+        }
+    });
+
+    it('rejects transitions outside the state machine', () => {
+        assert.equal(TreatmentPlanStatusService.canApply('complete', 'ON_HOLD'), false);
+        assert.equal(TreatmentPlanStatusService.canApply('hold', 'COMPLETED'), false);
+        assert.equal(TreatmentPlanStatusService.canApply('reopen', 'ACTIVE'), false);
+        assert.equal(TreatmentPlanStatusService.canApply('resume', 'ACTIVE'), false);
+    });
+
+    it('treats only completed and cancelled plans as closed', () => {
+        assert.equal(TreatmentPlanStatusService.isClosed('COMPLETED'), true);
+        assert.equal(TreatmentPlanStatusService.isClosed('CANCELLED'), true);
+        assert.equal(TreatmentPlanStatusService.isClosed('ON_HOLD'), false);
+        assert.equal(TreatmentPlanStatusService.isClosed('ACTIVE'), false);
+    });
+
+    it('requires a trimmed reason within the length limit', () => {
+        assert.equal(TreatmentPlanStatusService.validateReason('  Patient travelling  '), 'Patient travelling');
+        assert.ok(TreatmentPlanStatusService.validateReason('   ') instanceof BadRequestError);
+        assert.ok(TreatmentPlanStatusService.validateReason(undefined) instanceof BadRequestError);
+        assert.ok(TreatmentPlanStatusService.validateReason('x'.repeat(1001)) instanceof BadRequestError);
+    });
+});
+
+describe('TreatmentPlanStatusService.apply', () => {
+    const plan = { id: 3, patient_id: 7 };
+
+    afterEach(() => mock.restoreAll());
+
+    it('changes status conditionally on the allowed source statuses', async () => {
+        const changeStatus = mock.method(TreatmentPlanDAO, 'changeStatus', async () => ({ id: 3, status: 'ON_HOLD' }));
+        const ensureForPlan = mock.method(DischargeSummaryDAO, 'ensureForPlan', async () => null);
+
+        await TreatmentPlanStatusService.apply(plan, 'hold', 'Patient travelling', 1);
+        assert.deepEqual(changeStatus.mock.calls[0].arguments, [3, ['ACTIVE'], 'ON_HOLD', 'Patient travelling', 1]);
+        assert.equal(ensureForPlan.mock.callCount(), 0);
+    });
+
+    it('creates the discharge summary when a plan is completed', async () => {
+        mock.method(TreatmentPlanDAO, 'changeStatus', async () => ({ id: 3, status: 'COMPLETED' }));
+        const ensureForPlan = mock.method(DischargeSummaryDAO, 'ensureForPlan', async () => null);
+
+        await TreatmentPlanStatusService.apply(plan, 'complete', 'Goals met', 1);
+        assert.deepEqual(ensureForPlan.mock.calls[0].arguments, [plan]);
+    });
+
+    it('returns null when another request changed the status first', async () => {
+        mock.method(TreatmentPlanDAO, 'changeStatus', async () => null);
+        const ensureForPlan = mock.method(DischargeSummaryDAO, 'ensureForPlan', async () => null);
+
+        assert.equal(await TreatmentPlanStatusService.apply(plan, 'complete', 'Goals met', 1), null);
+        assert.equal(ensureForPlan.mock.callCount(), 0);
+    });
+});